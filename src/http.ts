@@ -0,0 +1,158 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  // Bearer token clients must send; the server refuses to start without one
+  authToken: string;
+  // Sessions without a request for this long are closed (clients that went away without DELETE)
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  readonly sessionCount: number;
+  // Stops accepting connections and closes every open session
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+const MCP_PATH = '/mcp';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Serves MCP over streamable HTTP (POST for requests, GET for the SSE notification stream,
+// DELETE to end a session). Each client session gets its own Server from createServer, while
+// the tools behind them share caches, so several assistants can use one instance.
+export async function startHttpServer(createServer: () => Server, options: HttpTransportOptions): Promise<RunningHttpServer> {
+  if (!options.authToken) {
+    throw new Error('MCP_AUTH_TOKEN must be set to run the HTTP transport - clients authenticate with it as a bearer token');
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    // Closing the server closes its transport too
+    await session.server.close();
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === '/health' && req.method === 'GET') {
+      return sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+    }
+    if (pathname !== MCP_PATH) {
+      return sendJson(res, 404, { error: `Not found - the MCP endpoint is ${MCP_PATH}` });
+    }
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendJsonRpcError(res, 401, 'Unauthorized - send the server token as "Authorization: Bearer <token>"');
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        return sendJsonRpcError(res, 404, `Session not found: ${sessionId} - initialize a new session`);
+      }
+      session.lastSeen = Date.now();
+      return session.transport.handleRequest(req, res);
+    }
+
+    if (req.method !== 'POST') {
+      return sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header - initialize a session with a POST first');
+    }
+
+    // A new session; the transport rejects anything but an initialize request
+    const server = createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { server, transport, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error('❌ Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff) void closeSession(sessionId);
+    }
+  }, Math.min(idleTimeoutMs, 60 * 1000));
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${address.family === 'IPv6' ? `[${address.address}]` : address.address}:${address.port}${MCP_PATH}`,
+    get sessionCount() {
+      return sessions.size;
+    },
+    async close() {
+      clearInterval(sweep);
+      const closing = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      // Open SSE streams would otherwise keep the server from closing
+      httpServer.closeAllConnections();
+      await closing;
+    },
+  };
+}
+
+// Constant-time comparison, so response timing does not reveal how much of a token matched
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
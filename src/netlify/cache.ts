@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { IN_PROGRESS_DEPLOY_STATES } from './client';
+
+export type CacheBackendName = 'memory' | 'disk' | 'off';
+
+export interface ResponseCacheOptions {
+  backend: CacheBackendName;
+  // Directory of the disk backend, one file per cached response
+  dir: string;
+}
+
+// A response body, and the URL of the next page for list endpoints
+export interface CachedResponse {
+  body: unknown;
+  nextUrl: string | null;
+}
+
+export interface CacheEntry {
+  value: CachedResponse;
+  // null for responses that never change, such as finished deploys
+  expiresAt: number | null;
+}
+
+// Where cached responses are kept; keys are hex strings safe to use as file names
+export interface CacheBackend {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  deletePrefix(prefix: string): void;
+  clear(): void;
+  size(): number;
+}
+
+export interface EndpointCacheStats {
+  endpoint: string;
+  hits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number;
+}
+
+export interface ResponseCacheStats {
+  backend: CacheBackendName;
+  entries: number;
+  hits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number;
+  endpoints: EndpointCacheStats[];
+}
+
+// How long each GET endpoint's responses stay fresh. A TTL of 0 never caches; deploys
+// that finished building (and their logs) are cached until evicted, since they no longer change.
+export const CACHE_ENDPOINTS: Array<{ name: string; pattern: RegExp; ttlMs: number }> = [
+  { name: 'sites', pattern: /^\/sites(\?|$)/, ttlMs: 5 * 60 * 1000 },
+  { name: 'deploys', pattern: /^\/sites\/[^/]+\/deploys(\?|$)/, ttlMs: 30 * 1000 },
+  { name: 'site', pattern: /^\/sites\/[^/?]+(\?|$)/, ttlMs: 5 * 60 * 1000 },
+  { name: 'deploy-logs', pattern: /^\/deploys\/[^/]+\/logs(\?|$)/, ttlMs: 0 },
+  { name: 'deploy', pattern: /^\/deploys\/[^/?]+(\?|$)/, ttlMs: 0 },
+  { name: 'accounts', pattern: /^\/accounts(\?|$)/, ttlMs: 60 * 60 * 1000 },
+  { name: 'build-status', pattern: /^\/[^/]+\/builds\/status(\?|$)/, ttlMs: 60 * 1000 },
+];
+
+// Keeps the most recently stored responses in memory
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  // Entries are copied in and out, so callers changing a response cannot change the cached one
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    return entry && structuredClone(entry);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  deletePrefix(prefix: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// Keeps responses as JSON files, so finished deploys and their logs survive server restarts
+export class FileCacheBackend implements CacheBackend {
+  constructor(private dir: string) {}
+
+  get(key: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.fileFor(key), 'utf8')) as CacheEntry;
+    } catch {
+      // Missing, or cut off by a crash mid-write: either way a miss
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    // Written under a temporary name first so readers never see half a file
+    const temporary = `${this.fileFor(key)}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(entry));
+    fs.renameSync(temporary, this.fileFor(key));
+  }
+
+  deletePrefix(prefix: string): void {
+    for (const file of this.files()) {
+      if (file.startsWith(prefix)) fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+  }
+
+  clear(): void {
+    this.deletePrefix('');
+  }
+
+  size(): number {
+    return this.files().length;
+  }
+
+  private files(): string[] {
+    return fs.existsSync(this.dir) ? fs.readdirSync(this.dir).filter(file => file.endsWith('.json')) : [];
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+// Caches GET responses of the Netlify API for every client that shares it. Entries are
+// scoped to the API URL and token they were fetched with, so accounts never see each
+// other's data. Hit and miss counts cover the life of the process.
+export class ResponseCache {
+  private backendInstance: { name: CacheBackendName; dir: string; backend: CacheBackend | null } | null = null;
+  private counts = new Map<string, { hits: number; misses: number; bypassed: number }>();
+
+  // The options object is read on every call, so configuration changes apply immediately
+  constructor(private options: ResponseCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.backend() !== null;
+  }
+
+  // Scope of one account's entries: a hash of the API URL and token
+  scopeFor(baseUrl: string, token: string): string {
+    return hash(`${baseUrl}|${token}`).slice(0, 16);
+  }
+
+  get(scope: string, endpoint: string): CacheEntry | undefined {
+    const backend = this.backend();
+    if (!backend || endpointTtl(endpoint) === undefined) return undefined;
+
+    const entry = backend.get(keyFor(scope, endpoint));
+    const fresh = entry && (entry.expiresAt === null || entry.expiresAt > Date.now());
+    this.count(endpoint, fresh ? 'hits' : 'misses');
+    return fresh ? entry : undefined;
+  }
+
+  set(scope: string, endpoint: string, value: CachedResponse): void {
+    const backend = this.backend();
+    const ttlMs = endpointTtl(endpoint);
+    if (!backend || ttlMs === undefined) return;
+
+    const expiresAt = this.isImmutable(scope, endpoint, value) ? null : Date.now() + ttlMs;
+    if (expiresAt !== null && ttlMs === 0) return;
+    backend.set(keyFor(scope, endpoint), { value, expiresAt });
+
+    // A page of deploys also tells which deploys have finished, so their logs can be cached
+    if (endpointName(endpoint) === 'deploys' && Array.isArray(value.body)) {
+      for (const deployment of value.body as Array<{ id?: string }>) {
+        if (deployment.id) this.set(scope, `/deploys/${deployment.id}`, { body: deployment, nextUrl: null });
+      }
+    }
+  }
+
+  // Counts a lookup skipped because the caller asked for fresh data
+  recordBypass(endpoint: string): void {
+    if (this.backend() && endpointTtl(endpoint) !== undefined) this.count(endpoint, 'bypassed');
+  }
+
+  // Drops an account's entries, e.g. after it triggered or cancelled a build
+  invalidate(scope: string): void {
+    this.backend()?.deletePrefix(`${scope}-`);
+  }
+
+  clear(): void {
+    this.backend()?.clear();
+    this.counts.clear();
+  }
+
+  stats(): ResponseCacheStats {
+    const endpoints = Array.from(this.counts, ([endpoint, counts]) => ({ endpoint, ...counts, hitRate: hitRate(counts) }))
+      .sort((a, b) => (b.hits + b.misses) - (a.hits + a.misses));
+    const total = endpoints.reduce(
+      (sum, endpoint) => ({ hits: sum.hits + endpoint.hits, misses: sum.misses + endpoint.misses, bypassed: sum.bypassed + endpoint.bypassed }),
+      { hits: 0, misses: 0, bypassed: 0 }
+    );
+
+    return {
+      backend: this.backend() ? this.options.backend : 'off',
+      entries: this.backend()?.size() ?? 0,
+      ...total,
+      hitRate: hitRate(total),
+      endpoints,
+    };
+  }
+
+  // Deploys that finished building no longer change, and neither do their logs
+  private isImmutable(scope: string, endpoint: string, value: CachedResponse): boolean {
+    const deployLogs = endpoint.match(/^\/deploys\/([^/]+)\/logs(\?|$)/);
+    if (deployLogs) {
+      const deployment = this.backend()?.get(keyFor(scope, `/deploys/${deployLogs[1]}`));
+      return deployment?.expiresAt === null;
+    }
+    if (/^\/deploys\/[^/?]+(\?|$)/.test(endpoint)) {
+      const state = (value.body as { state?: string } | null)?.state;
+      return !!state && !IN_PROGRESS_DEPLOY_STATES.includes(state);
+    }
+    return false;
+  }
+
+  private backend(): CacheBackend | null {
+    const { backend: name, dir } = this.options;
+    if (!this.backendInstance || this.backendInstance.name !== name || this.backendInstance.dir !== dir) {
+      const backend = name === 'memory' ? new MemoryCacheBackend() : name === 'disk' ? new FileCacheBackend(dir) : null;
+      this.backendInstance = { name, dir, backend };
+    }
+    return this.backendInstance.backend;
+  }
+
+  private count(endpoint: string, outcome: 'hits' | 'misses' | 'bypassed'): void {
+    const name = endpointName(endpoint);
+    const counts = this.counts.get(name) || { hits: 0, misses: 0, bypassed: 0 };
+    counts[outcome]++;
+    this.counts.set(name, counts);
+  }
+}
+
+export function endpointName(endpoint: string): string {
+  return CACHE_ENDPOINTS.find(({ pattern }) => pattern.test(endpoint))?.name || 'other';
+}
+
+// TTL of a cacheable endpoint, or undefined for endpoints that are never cached
+function endpointTtl(endpoint: string): number | undefined {
+  return CACHE_ENDPOINTS.find(({ pattern }) => pattern.test(endpoint))?.ttlMs;
+}
+
+function keyFor(scope: string, endpoint: string): string {
+  return `${scope}-${hash(endpoint)}`;
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hitRate({ hits, misses }: { hits: number; misses: number }): number {
+  return hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : 0;
+}
@@ -1,4 +1,13 @@
 import fetch from 'node-fetch';
+import type { CachedResponse, ResponseCache } from './cache';
+import {
+  NetlifyApiError,
+  NetlifyInvalidResponseError,
+  NetlifyNetworkError,
+  NetlifyRateLimitError,
+  createApiError,
+  withContext
+} from './errors';
 
 // Existing interfaces
 export interface NetlifySite {
@@ -10,6 +19,11 @@ export interface NetlifySite {
   state: string;
   created_at: string;
   updated_at: string;
+  ssl_url?: string;
+  custom_domain?: string | null;
+  domain_aliases?: string[];
+  account_id?: string;
+  account_slug?: string;
 }
 
 export interface NetlifyDeployment {
@@ -57,11 +71,45 @@ export interface DeploymentInfo {
 export interface BuildMetrics {
   duration: number;
   buildMinutesUsed: number;
-  monthlyLimitRemaining: number;
   averageBuildTime: number;
   failureRate: number;
 }
 
+export interface NetlifyAccount {
+  id: string;
+  name: string;
+  slug: string;
+  type_name?: string;
+  billing_period?: string;
+}
+
+// GET /{account_id}/builds/status - build queue and build-minute usage for a team
+export interface AccountBuildStatus {
+  active: number;
+  enqueued: number;
+  build_count: number;
+  minutes: {
+    current: number;
+    current_average_sec?: number;
+    previous?: number;
+    period_start_date: string;
+    period_end_date: string;
+    last_updated_at?: string;
+    // Netlify returns the plan's included minutes as strings
+    included_minutes?: string;
+    included_minutes_with_packs?: string;
+  };
+}
+
+export interface NetlifyBuild {
+  id: string;
+  deploy_id: string;
+  sha?: string;
+  done: boolean;
+  error?: string;
+  created_at: string;
+}
+
 export interface DeploymentLog {
   timestamp: string;
   level: 'info' | 'warn' | 'error';
@@ -69,46 +117,323 @@ export interface DeploymentLog {
   source: string;
 }
 
+export interface DeploymentQuery {
+  since?: Date | string;
+  until?: Date | string;
+  branch?: string;
+  limit?: number;
+  perPage?: number;
+}
+
+// Deploy states of a build that has not finished yet
+export const IN_PROGRESS_DEPLOY_STATES = ['new', 'enqueued', 'building', 'uploading', 'uploaded', 'preparing', 'prepared', 'processing', 'processed', 'retrying'];
+
+// Netlify caps per_page at 100
+const MAX_PER_PAGE = 100;
+
+// Extracts the rel="next" URL from a Link header such as
+// <https://api.netlify.com/api/v1/sites/x/deploys?page=2&per_page=100>; rel="next"
+export function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// Start and end of the current calendar month, used as the default build-minutes period
+export function getCurrentBillingPeriod(now: Date = new Date()): { since: Date; until: Date } {
+  return {
+    since: new Date(now.getFullYear(), now.getMonth(), 1),
+    until: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+  };
+}
+
+export interface NetlifyClientOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  maxRetryDelayMs?: number;
+  // Shared cache of GET responses; fresh skips reading it but still stores what is fetched
+  cache?: ResponseCache | null;
+  fresh?: boolean;
+}
+
+const DEFAULT_CLIENT_OPTIONS: Required<NetlifyClientOptions> = {
+  baseUrl: 'https://api.netlify.com/api/v1',
+  timeoutMs: 30000,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  maxRetryDelayMs: 30000,
+  cache: null,
+  fresh: false
+};
+
+// A successful response, with its JSON body already read
+interface NetlifyResponse {
+  body: any;
+  headers: { get(name: string): string | null };
+}
+
+// Requests that are safe to repeat after a server or network failure
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 export class NetlifyClient {
   private apiToken: string;
-  private baseUrl = 'https://api.netlify.com/api/v1';
+  private baseUrl: string;
+  private options: Required<NetlifyClientOptions>;
 
-  constructor(apiToken: string) {
+  constructor(apiToken: string, options: NetlifyClientOptions = {}) {
     this.apiToken = apiToken;
+    this.options = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+    this.baseUrl = this.options.baseUrl.replace(/\/+$/, '');
+  }
+
+  // Whether GET requests may be answered from the response cache
+  get usesCache(): boolean {
+    return !!this.options.cache?.enabled && !this.options.fresh;
+  }
+
+  // Whether the caller asked for fresh data, so no cache - including the site list's - should answer
+  get fresh(): boolean {
+    return this.options.fresh;
+  }
+
+  // The same client without cached responses, for callers that know the cache is stale
+  withoutCache(): NetlifyClient {
+    return new NetlifyClient(this.apiToken, { ...this.options, fresh: true });
   }
 
   private async makeRequest(endpoint: string, options: any = {}): Promise<any> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.apiToken}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+    const { body } = await this.cachedRequest(`${this.baseUrl}${endpoint}`, options, async response => ({
+      body: response.body,
+      nextUrl: null
+    }));
+    return body;
+  }
+
+  // Fetches one page of a list endpoint and returns the URL of the next page from the Link header
+  private async makePaginatedRequest(url: string): Promise<{ data: any[]; nextUrl: string | null }> {
+    const { body, nextUrl } = await this.cachedRequest(url, {}, async response => ({
+      body: response.body,
+      nextUrl: parseNextLink(response.headers.get('link'))
+    }));
+    return { data: body, nextUrl };
+  }
+
+  // Serves GET requests from the response cache when it has a fresh copy; any other
+  // request may change what the account's cached responses show, so it drops them
+  private async cachedRequest(
+    url: string,
+    options: any,
+    read: (response: NetlifyResponse) => Promise<CachedResponse>
+  ): Promise<{ body: any; nextUrl: string | null }> {
+    const cache = this.options.cache;
+    const endpoint = url.startsWith(this.baseUrl) ? url.substring(this.baseUrl.length) : url;
+    const scope = cache?.scopeFor(this.baseUrl, this.apiToken) || '';
+    const isRead = (options.method || 'GET').toUpperCase() === 'GET';
+
+    if (cache && isRead) {
+      if (this.options.fresh) {
+        cache.recordBypass(endpoint);
+      } else {
+        const cached = cache.get(scope, endpoint);
+        if (cached) return cached.value;
+      }
+    }
+
+    const result = await read(await this.sendRequest(url, options));
+    if (cache && isRead) {
+      cache.set(scope, endpoint, result);
+    } else if (cache) {
+      cache.invalidate(scope);
+    }
+    return result;
+  }
+
+  // Sends a request with a timeout, retrying rate-limited responses and (for idempotent
+  // methods) server and network failures with exponential backoff
+  private async sendRequest(url: string, options: any = {}) {
+    const method = (options.method || 'GET').toUpperCase();
+    const endpoint = url.startsWith(this.baseUrl) ? url.substring(this.baseUrl.length) : url;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendOnce(url, endpoint, options);
+      } catch (error) {
+        if (!(error instanceof NetlifyApiError) || !error.retryable || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        // A 429 means the request was never processed, so it is safe to repeat any method
+        if (!(error instanceof NetlifyRateLimitError) && !IDEMPOTENT_METHODS.includes(method)) {
+          throw error;
+        }
+        await sleep(this.getRetryDelay(error, attempt));
+      }
+    }
+  }
+
+  // Sends a request and reads its body under one timeout, so a response that stalls after
+  // the headers fails like one that never arrives
+  private async sendOnce(url: string, endpoint: string, options: any): Promise<NetlifyResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    let response;
+    let text: string;
+    try {
+      response = await fetch(url, {
+        ...options,
+        signal: controller.signal as any,
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      });
+      text = await response.text();
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      throw new NetlifyNetworkError(
+        timedOut
+          ? `Request timed out after ${this.options.timeoutMs}ms`
+          : `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { endpoint, timedOut }
+      );
+    } finally {
+      clearTimeout(timer);
+    }
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Keep the raw text body
+      }
+      throw createApiError(response.status, endpoint, body, response.headers);
     }
 
-    return response.json();
+    try {
+      return { body: text ? JSON.parse(text) : null, headers: response.headers };
+    } catch {
+      throw new NetlifyInvalidResponseError(
+        `HTTP ${response.status}: expected JSON, got ${response.headers.get('content-type') || 'a response without a content type'}`,
+        { status: response.status, endpoint, body: text.substring(0, 200) }
+      );
+    }
+  }
+
+  private getRetryDelay(error: NetlifyApiError, attempt: number): number {
+    if (error instanceof NetlifyRateLimitError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.options.maxRetryDelayMs);
+    }
+    const backoff = this.options.retryBaseDelayMs * Math.pow(2, attempt);
+    // Add up to 20% jitter so parallel tool calls do not retry in lockstep
+    return Math.min(backoff + Math.random() * backoff * 0.2, this.options.maxRetryDelayMs);
   }
 
   // Existing methods
   async getSites(): Promise<NetlifySite[]> {
     try {
-      return await this.makeRequest('/sites');
+      const sites: NetlifySite[] = [];
+      let nextUrl: string | null = `${this.baseUrl}/sites?per_page=${MAX_PER_PAGE}`;
+      while (nextUrl) {
+        const page: { data: NetlifySite[]; nextUrl: string | null } = await this.makePaginatedRequest(nextUrl);
+        sites.push(...page.data);
+        nextUrl = page.nextUrl;
+      }
+      return sites;
+    } catch (error) {
+      throw withContext(error, 'Failed to fetch sites');
+    }
+  }
+
+  async getAccounts(): Promise<NetlifyAccount[]> {
+    try {
+      return await this.makeRequest('/accounts');
+    } catch (error) {
+      throw withContext(error, 'Failed to fetch accounts');
+    }
+  }
+
+  // Team-wide build minutes for the current billing period; accepts the account ID or slug
+  async getAccountBuildStatus(accountId: string): Promise<AccountBuildStatus> {
+    try {
+      const statuses: AccountBuildStatus[] = await this.makeRequest(`/${encodeURIComponent(accountId)}/builds/status`);
+      if (!statuses[0]) {
+        throw new Error(`No build status returned for account ${accountId}`);
+      }
+      return statuses[0];
+    } catch (error) {
+      throw withContext(error, 'Failed to fetch account build status');
+    }
+  }
+
+  // Accepts a site ID or one of the site's domains
+  async getSite(siteId: string): Promise<NetlifySite> {
+    try {
+      return await this.makeRequest(`/sites/${encodeURIComponent(siteId)}`);
+    } catch (error) {
+      throw withContext(error, 'Failed to fetch site');
+    }
+  }
+
+  async getDeployments(siteId: string, limit: number = 10, query: DeploymentQuery = {}): Promise<NetlifyDeployment[]> {
+    try {
+      const deployments: NetlifyDeployment[] = [];
+      for await (const deployment of this.iterateDeployments(siteId, { ...query, limit })) {
+        deployments.push(deployment);
+      }
+      return deployments;
     } catch (error) {
-      throw new Error(`Failed to fetch sites: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to fetch deployments');
     }
   }
 
-  async getDeployments(siteId: string, limit: number = 10): Promise<NetlifyDeployment[]> {
+  // Collects every deployment in a date range, following pagination to the end of the range
+  async getDeploymentsInRange(siteId: string, query: DeploymentQuery): Promise<NetlifyDeployment[]> {
     try {
-      return await this.makeRequest(`/sites/${siteId}/deploys?per_page=${limit}`);
+      const deployments: NetlifyDeployment[] = [];
+      for await (const deployment of this.iterateDeployments(siteId, query)) {
+        deployments.push(deployment);
+      }
+      return deployments;
     } catch (error) {
-      throw new Error(`Failed to fetch deployments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to fetch deployments');
+    }
+  }
+
+  // Walks the deploy history newest-first, following Link headers page by page.
+  // Stops as soon as deploys fall before `since` or `limit` deploys have been yielded.
+  async *iterateDeployments(siteId: string, query: DeploymentQuery = {}): AsyncGenerator<NetlifyDeployment> {
+    const since = query.since ? new Date(query.since).getTime() : null;
+    const until = query.until ? new Date(query.until).getTime() : null;
+    const perPage = Math.min(query.perPage || (query.limit && query.limit < MAX_PER_PAGE ? query.limit : MAX_PER_PAGE), MAX_PER_PAGE);
+
+    const params = new URLSearchParams({ per_page: String(perPage) });
+    if (query.branch) params.set('branch', query.branch);
+
+    let nextUrl: string | null = `${this.baseUrl}/sites/${siteId}/deploys?${params.toString()}`;
+    let yielded = 0;
+
+    while (nextUrl) {
+      const page: { data: NetlifyDeployment[]; nextUrl: string | null } = await this.makePaginatedRequest(nextUrl);
+
+      for (const deployment of page.data) {
+        const createdAt = new Date(deployment.created_at).getTime();
+        if (since !== null && createdAt < since) return;
+        if (until !== null && createdAt >= until) continue;
+        if (query.branch && deployment.branch !== query.branch) continue;
+
+        yield deployment;
+        yielded++;
+        if (query.limit && yielded >= query.limit) return;
+      }
+
+      nextUrl = page.data.length > 0 ? page.nextUrl : null;
     }
   }
 
@@ -117,7 +442,7 @@ export class NetlifyClient {
       const deployments = await this.getDeployments(siteId, 50);
       return deployments.filter(deploy => deploy.state === 'error');
     } catch (error) {
-      throw new Error(`Failed to fetch failed deployments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to fetch failed deployments');
     }
   }
 
@@ -125,30 +450,74 @@ export class NetlifyClient {
   async getDeploymentInfo(deployId: string): Promise<DeploymentInfo> {
     try {
       const deployment = await this.makeRequest(`/deploys/${deployId}`);
-      return {
-        id: deployment.id,
-        state: deployment.state,
-        created_at: deployment.created_at,
-        updated_at: deployment.updated_at,
-        published_at: deployment.published_at,
-        error_message: deployment.error_message,
-        deploy_time: deployment.deploy_time,
-        branch: deployment.branch,
-        commit_ref: deployment.commit_ref,
-        site_id: deployment.site_id,
-        url: deployment.url,
-        deploy_url: deployment.deploy_url,
-        admin_url: deployment.admin_url,
-        commit_url: deployment.commit_url,
-        review_id: deployment.review_id,
-        review_url: deployment.review_url,
-        screenshot_url: deployment.screenshot_url
-      };
+      return this.toDeploymentInfo(deployment);
+    } catch (error) {
+      throw withContext(error, 'Failed to fetch deployment info');
+    }
+  }
+
+  // Deploy control methods (these trigger or change builds and consume build minutes)
+  async triggerBuild(siteId: string, options: { clearCache?: boolean } = {}): Promise<NetlifyBuild> {
+    try {
+      return await this.makeRequest(`/sites/${siteId}/builds`, {
+        method: 'POST',
+        body: JSON.stringify({ clear_cache: options.clearCache || false })
+      });
     } catch (error) {
-      throw new Error(`Failed to fetch deployment info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to trigger build');
     }
   }
 
+  async retryDeployment(deployId: string): Promise<DeploymentInfo> {
+    try {
+      const deployment = await this.makeRequest(`/deploys/${deployId}/retry`, { method: 'POST' });
+      return this.toDeploymentInfo(deployment);
+    } catch (error) {
+      throw withContext(error, 'Failed to retry deployment');
+    }
+  }
+
+  async cancelDeployment(deployId: string): Promise<DeploymentInfo> {
+    try {
+      const deployment = await this.makeRequest(`/deploys/${deployId}/cancel`, { method: 'POST' });
+      return this.toDeploymentInfo(deployment);
+    } catch (error) {
+      throw withContext(error, 'Failed to cancel deployment');
+    }
+  }
+
+  // Publishes a previous deploy as the live version of the site
+  async restoreDeployment(siteId: string, deployId: string): Promise<DeploymentInfo> {
+    try {
+      const deployment = await this.makeRequest(`/sites/${siteId}/deploys/${deployId}/restore`, { method: 'POST' });
+      return this.toDeploymentInfo(deployment);
+    } catch (error) {
+      throw withContext(error, 'Failed to restore deployment');
+    }
+  }
+
+  private toDeploymentInfo(deployment: any): DeploymentInfo {
+    return {
+      id: deployment.id,
+      state: deployment.state,
+      created_at: deployment.created_at,
+      updated_at: deployment.updated_at,
+      published_at: deployment.published_at,
+      error_message: deployment.error_message,
+      deploy_time: deployment.deploy_time,
+      branch: deployment.branch,
+      commit_ref: deployment.commit_ref,
+      site_id: deployment.site_id,
+      url: deployment.url,
+      deploy_url: deployment.deploy_url,
+      admin_url: deployment.admin_url,
+      commit_url: deployment.commit_url,
+      review_id: deployment.review_id,
+      review_url: deployment.review_url,
+      screenshot_url: deployment.screenshot_url
+    };
+  }
+
   // New enhanced methods for Phase 1
   async getBuildLogs(deployId: string): Promise<DeploymentLog[]> {
     try {
@@ -160,83 +529,78 @@ export class NetlifyClient {
         source: log.source || 'build'
       }));
     } catch (error) {
-      throw new Error(`Failed to fetch build logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to fetch build logs');
     }
   }
 
-  async getBuildMetrics(siteId: string): Promise<BuildMetrics> {
+  async getBuildMetrics(siteId: string, period = getCurrentBillingPeriod()): Promise<BuildMetrics> {
     try {
-      const deployments = await this.getDeployments(siteId, 30);
-      const currentMonth = new Date().getMonth();
-      const monthlyDeployments = deployments.filter(deploy => 
-        new Date(deploy.created_at).getMonth() === currentMonth
-      );
-
-      return {
-        duration: this.calculateAverageDuration(monthlyDeployments),
-        buildMinutesUsed: this.calculateBuildMinutesUsed(monthlyDeployments),
-        monthlyLimitRemaining: 300 - this.calculateBuildMinutesUsed(monthlyDeployments),
-        averageBuildTime: this.calculateAverageDuration(monthlyDeployments),
-        failureRate: this.calculateFailureRate(monthlyDeployments)
-      };
+      const monthlyDeployments = await this.getDeploymentsInRange(siteId, period);
+      return calculateBuildMetrics(monthlyDeployments);
     } catch (error) {
-      throw new Error(`Failed to fetch build metrics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to fetch build metrics');
     }
   }
 
-  // Helper methods for calculations
-  private calculateAverageDuration(deployments: NetlifyDeployment[]): number {
-    if (deployments.length === 0) return 0;
-    const totalDuration = deployments.reduce((sum, deploy) => {
-      const start = new Date(deploy.created_at).getTime();
-      const end = new Date(deploy.published_at || deploy.created_at).getTime();
-      return sum + (end - start) / 1000 / 60; // Convert to minutes
-    }, 0);
-    return Math.round(totalDuration / deployments.length);
-  }
-
-  private calculateBuildMinutesUsed(deployments: NetlifyDeployment[]): number {
-    return deployments.reduce((sum, deploy) => {
-      const duration = deploy.deploy_time || 0;
-      return sum + Math.ceil(duration / 60); // Convert seconds to minutes
-    }, 0);
-  }
-
-  private calculateFailureRate(deployments: NetlifyDeployment[]): number {
-    if (deployments.length === 0) return 0;
-    const failedDeployments = deployments.filter(deploy => deploy.state === 'error').length;
-    return Math.round((failedDeployments / deployments.length) * 100);
-  }
-
-  // Additional utility method for DigitalZango specific monitoring
-  async getDigitalZangoCalendarStatus(): Promise<{
-    site: NetlifySite | null;
+  // Latest deployment and build metrics of a site, for monitoring reports
+  async getSiteStatus(site: NetlifySite, period = getCurrentBillingPeriod()): Promise<{
+    site: NetlifySite;
     latestDeployment: NetlifyDeployment | null;
-    metrics: BuildMetrics | null;
+    metrics: BuildMetrics;
   }> {
     try {
-      const sites = await this.getSites();
-      const calendarSite = sites.find(site => 
-        site.name.toLowerCase().includes('calendar') || 
-        site.name.toLowerCase().includes('digitalzango')
-      );
-
-      if (!calendarSite) {
-        return { site: null, latestDeployment: null, metrics: null };
-      }
-
       const [deployments, metrics] = await Promise.all([
-        this.getDeployments(calendarSite.id, 1),
-        this.getBuildMetrics(calendarSite.id)
+        this.getDeployments(site.id, 1),
+        this.getBuildMetrics(site.id, period)
       ]);
 
       return {
-        site: calendarSite,
+        site,
         latestDeployment: deployments[0] || null,
         metrics: metrics
       };
     } catch (error) {
-      throw new Error(`Failed to get DigitalZango calendar status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw withContext(error, 'Failed to get site status');
     }
   }
 }
+
+// Metrics of a site's deploys in a billing period, whether fetched from the API or read from the
+// local history. Build minutes are billed per team, so the plan's limit is left to the usage module.
+export function calculateBuildMetrics(deployments: NetlifyDeployment[]): BuildMetrics {
+  const averageDuration = calculateAverageDuration(deployments);
+  return {
+    duration: averageDuration,
+    buildMinutesUsed: countBuildMinutes(deployments),
+    averageBuildTime: averageDuration,
+    failureRate: calculateFailureRate(deployments)
+  };
+}
+
+function calculateAverageDuration(deployments: NetlifyDeployment[]): number {
+  if (deployments.length === 0) return 0;
+  const totalDuration = deployments.reduce((sum, deploy) => {
+    const start = new Date(deploy.created_at).getTime();
+    const end = new Date(deploy.published_at || deploy.created_at).getTime();
+    return sum + (end - start) / 1000 / 60; // Convert to minutes
+  }, 0);
+  return Math.round(totalDuration / deployments.length);
+}
+
+function calculateFailureRate(deployments: NetlifyDeployment[]): number {
+  if (deployments.length === 0) return 0;
+  const failedDeployments = deployments.filter(deploy => deploy.state === 'error').length;
+  return Math.round((failedDeployments / deployments.length) * 100);
+}
+
+// Build minutes billed for a set of deploys; Netlify rounds each build up to a whole minute
+export function countBuildMinutes(deployments: NetlifyDeployment[]): number {
+  return deployments.reduce((sum, deploy) => {
+    const duration = deploy.deploy_time || 0;
+    return sum + Math.ceil(duration / 60); // Convert seconds to minutes
+  }, 0);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
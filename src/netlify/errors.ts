@@ -0,0 +1,217 @@
+export type NetlifyErrorCode =
+  | 'AUTH_INVALID'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'INVALID_REQUEST'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'INVALID_RESPONSE'
+  | 'AMBIGUOUS_SITE'
+  | 'UNKNOWN';
+
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  reset?: Date;
+}
+
+export interface NetlifyApiErrorDetails {
+  status?: number;
+  endpoint?: string;
+  body?: unknown;
+  retryable?: boolean;
+}
+
+// Base class for every failure coming out of NetlifyClient
+export class NetlifyApiError extends Error {
+  readonly code: NetlifyErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly body?: unknown;
+  readonly retryable: boolean;
+
+  constructor(code: NetlifyErrorCode, message: string, details: NetlifyApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.body = details.body;
+    this.retryable = details.retryable || false;
+  }
+
+  // Short guidance an assistant can act on without parsing the message
+  get hint(): string {
+    return ERROR_HINTS[this.code];
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      endpoint: this.endpoint,
+      retryable: this.retryable,
+      hint: this.hint
+    };
+  }
+}
+
+// 401 and 403 responses
+export class NetlifyAuthError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails = {}) {
+    super(details.status === 403 ? 'FORBIDDEN' : 'AUTH_INVALID', message, details);
+  }
+}
+
+// 404 responses - usually a wrong site or deploy ID
+export class NetlifyNotFoundError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails = {}) {
+    super('NOT_FOUND', message, details);
+  }
+}
+
+// 400 and 422 responses
+export class NetlifyValidationError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails = {}) {
+    super('INVALID_REQUEST', message, details);
+  }
+}
+
+// 429 responses, carrying the Retry-After and X-RateLimit-* information
+export class NetlifyRateLimitError extends NetlifyApiError {
+  readonly retryAfterMs?: number;
+  readonly rateLimit: RateLimitInfo;
+
+  constructor(message: string, details: NetlifyApiErrorDetails & { retryAfterMs?: number; rateLimit?: RateLimitInfo } = {}) {
+    super('RATE_LIMITED', message, { ...details, retryable: true });
+    this.retryAfterMs = details.retryAfterMs;
+    this.rateLimit = details.rateLimit || {};
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      retryAfterSeconds: this.retryAfterMs !== undefined ? Math.ceil(this.retryAfterMs / 1000) : undefined,
+      rateLimitRemaining: this.rateLimit.remaining,
+      rateLimitReset: this.rateLimit.reset?.toISOString()
+    };
+  }
+}
+
+// 5xx responses
+export class NetlifyServerError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails = {}) {
+    super('SERVER_ERROR', message, { ...details, retryable: true });
+  }
+}
+
+// Connection failures and request timeouts - no HTTP response was received
+export class NetlifyNetworkError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails & { timedOut?: boolean } = {}) {
+    super(details.timedOut ? 'TIMEOUT' : 'NETWORK_ERROR', message, { ...details, retryable: true });
+  }
+}
+
+// Successful responses whose body is not the JSON the API returns, e.g. a proxy's HTML page
+export class NetlifyInvalidResponseError extends NetlifyApiError {
+  constructor(message: string, details: NetlifyApiErrorDetails = {}) {
+    super('INVALID_RESPONSE', message, details);
+  }
+}
+
+export interface SiteCandidate {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// A site reference (name, domain, alias) that matches more than one site
+export class NetlifyAmbiguousSiteError extends NetlifyApiError {
+  readonly candidates: SiteCandidate[];
+
+  constructor(message: string, candidates: SiteCandidate[]) {
+    super('AMBIGUOUS_SITE', message);
+    this.candidates = candidates;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      candidates: this.candidates
+    };
+  }
+}
+
+const ERROR_HINTS: Record<NetlifyErrorCode, string> = {
+  AUTH_INVALID: 'The Netlify access token is missing, expired or revoked - check NETLIFY_ACCESS_TOKEN',
+  FORBIDDEN: 'The access token does not have permission for this site or team',
+  NOT_FOUND: 'The site or deploy does not exist - check the ID and that the token can see it',
+  INVALID_REQUEST: 'Netlify rejected the request parameters',
+  RATE_LIMITED: 'Netlify API rate limit reached - wait before retrying',
+  SERVER_ERROR: 'Netlify API is having problems - retry later',
+  NETWORK_ERROR: 'Could not reach the Netlify API - check network connectivity',
+  TIMEOUT: 'The Netlify API did not respond in time - retry or raise NETLIFY_REQUEST_TIMEOUT_MS',
+  INVALID_RESPONSE: 'The Netlify API answered with something other than JSON - check NETLIFY_API_URL and any proxy in between',
+  AMBIGUOUS_SITE: 'Several sites match - pass one of the candidate site IDs instead',
+  UNKNOWN: 'Unexpected error - manual investigation required'
+};
+
+export function parseRateLimitHeaders(headers: { get(name: string): string | null }): RateLimitInfo {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  return {
+    limit: limit !== null ? Number(limit) : undefined,
+    remaining: remaining !== null ? Number(remaining) : undefined,
+    // X-RateLimit-Reset is a unix timestamp in seconds
+    reset: reset !== null && !isNaN(Number(reset)) ? new Date(Number(reset) * 1000) : undefined
+  };
+}
+
+// Retry-After may be either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Maps a non-2xx response onto the matching error class
+export function createApiError(
+  status: number,
+  endpoint: string,
+  body: unknown,
+  headers: { get(name: string): string | null }
+): NetlifyApiError {
+  const apiMessage = typeof body === 'object' && body !== null && 'message' in body
+    ? String((body as { message: unknown }).message)
+    : typeof body === 'string' && body.length > 0 ? body.substring(0, 200) : '';
+  const message = `HTTP ${status}${apiMessage ? `: ${apiMessage}` : ''}`;
+  const details = { status, endpoint, body };
+
+  if (status === 401 || status === 403) return new NetlifyAuthError(message, details);
+  if (status === 404) return new NetlifyNotFoundError(message, details);
+  if (status === 400 || status === 422) return new NetlifyValidationError(message, details);
+  if (status === 429) {
+    const rateLimit = parseRateLimitHeaders(headers);
+    const retryAfterMs = parseRetryAfter(headers.get('retry-after'))
+      ?? (rateLimit.reset ? Math.max(0, rateLimit.reset.getTime() - Date.now()) : undefined);
+    return new NetlifyRateLimitError(message, { ...details, retryAfterMs, rateLimit });
+  }
+  if (status >= 500) return new NetlifyServerError(message, details);
+  return new NetlifyApiError('UNKNOWN', message, details);
+}
+
+// Prefixes the message with what the client was doing while keeping the error class and code
+export function withContext(error: unknown, context: string): Error {
+  const message = `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  if (error instanceof NetlifyApiError) {
+    error.message = message;
+    return error;
+  }
+  return new Error(message);
+}
@@ -0,0 +1,216 @@
+import { BuildMetrics, calculateBuildMetrics, getCurrentBillingPeriod, NetlifyClient, NetlifyDeployment } from './client';
+import { NetlifyNotFoundError } from './errors';
+import { BuildLogLine, getBuildLogLines, isBuildInProgress } from './logs';
+import { BuildDiagnosis, ErrorPatternAnalyzer } from '../utils/errorAnalysis';
+import { describeFailure } from '../utils/failureClustering';
+import { HistoryRecord, HistoryStore, SiteHistory } from '../utils/historyStore';
+
+export interface HistorySyncOptions {
+  // Deploys to import when the site has no history yet
+  initialDeploys?: number;
+  // Failed builds whose logs are fetched and diagnosed in one sync; the rest wait for the next
+  maxDiagnoses?: number;
+  now?: Date;
+}
+
+export interface HistorySyncResult {
+  siteId: string;
+  newDeploys: number;
+  updatedDeploys: number;
+  diagnosed: number;
+  // Failed deploys still waiting for a diagnosis
+  undiagnosed: number;
+  totalDeploys: number;
+  oldestDeployAt: string | null;
+  newestDeployAt: string | null;
+}
+
+export interface MonthlyHistory {
+  // Calendar month, e.g. "2025-07"
+  month: string;
+  deploys: number;
+  failures: number;
+  failureRate: number;
+  averageBuildTime: number;
+  buildMinutesUsed: number;
+  // Most frequent diagnosed failure category of the month
+  topFailureCategory: string | null;
+}
+
+export const DEFAULT_INITIAL_DEPLOYS = 1000;
+const DEFAULT_MAX_DIAGNOSES = 10;
+
+// A deploy recorded earlier is recorded again when one of these has changed
+const CHANGING_DEPLOY_FIELDS: Array<keyof NetlifyDeployment> = ['state', 'deploy_time', 'published_at', 'error_message'];
+
+// Brings a site's local history up to date. The first sync imports the latest deploys; later
+// ones only read back to the newest recorded deploy (or the oldest one that was still
+// building), so a sync usually costs a single API request plus the logs of new failures.
+export async function syncSiteHistory(
+  client: NetlifyClient,
+  store: HistoryStore,
+  siteId: string,
+  options: HistorySyncOptions = {}
+): Promise<HistorySyncResult> {
+  const recordedAt = (options.now || new Date()).toISOString();
+  const history = store.read(siteId);
+  const known = new Map(history.deploys.map(deployment => [deployment.id, deployment]));
+
+  const resumePoints = [...history.deploys.filter(deployment => isBuildInProgress(deployment.state)), history.deploys[0]]
+    .filter((deployment): deployment is NetlifyDeployment => !!deployment)
+    .map(deployment => new Date(deployment.created_at).getTime());
+  const query = resumePoints.length > 0
+    ? { since: new Date(Math.min(...resumePoints)) }
+    : { limit: options.initialDeploys ?? DEFAULT_INITIAL_DEPLOYS };
+
+  const records: HistoryRecord[] = [];
+  let newDeploys = 0;
+  let updatedDeploys = 0;
+  for await (const deployment of client.iterateDeployments(siteId, query)) {
+    const stored = known.get(deployment.id);
+    if (stored && !CHANGING_DEPLOY_FIELDS.some(field => (stored[field] ?? null) !== (deployment[field] ?? null))) {
+      continue;
+    }
+    if (stored) updatedDeploys++; else newDeploys++;
+    known.set(deployment.id, deployment);
+    records.push({ type: 'deploy', recordedAt, deploy: deployment });
+  }
+
+  // Newest failures first, so recent ones are diagnosed even when a backlog is left for later
+  const deploys = Array.from(known.values()).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  const undiagnosed = deploys.filter(deployment => deployment.state === 'error' && !history.diagnoses.has(deployment.id));
+  const toDiagnose = undiagnosed.slice(0, options.maxDiagnoses ?? DEFAULT_MAX_DIAGNOSES);
+  for (const deployment of toDiagnose) {
+    const failure = describeFailure(deployment, (await diagnoseDeployment(client, deployment)).diagnosis);
+    records.push({ type: 'diagnosis', recordedAt, deployId: deployment.id, category: failure.category, patternId: failure.patternId, message: failure.message });
+  }
+
+  const metrics = calculateBuildMetrics(deploysInRange(deploys, getCurrentBillingPeriod(options.now)));
+  const lastSnapshot = history.metrics[history.metrics.length - 1];
+  if (!lastSnapshot || JSON.stringify(lastSnapshot.metrics) !== JSON.stringify(metrics)) {
+    records.push({ type: 'metrics', recordedAt, metrics });
+  }
+
+  // A sync that found nothing new leaves the file alone
+  if (records.length > 0) {
+    records.push({ type: 'sync', recordedAt, deploys: deploys.length });
+    store.append(siteId, records);
+  }
+
+  return {
+    siteId,
+    newDeploys,
+    updatedDeploys,
+    diagnosed: toDiagnose.length,
+    undiagnosed: undiagnosed.length - toDiagnose.length,
+    totalDeploys: deploys.length,
+    oldestDeployAt: deploys[deploys.length - 1]?.created_at || null,
+    newestDeployAt: deploys[0]?.created_at || null,
+  };
+}
+
+// Brings the history of a site that sync-deploy-history imported up to date for the tools
+// reading it: an incremental sync without diagnosing failures, at most once per sync interval.
+// False when there is no history to read, so the caller asks the API instead.
+async function refreshSiteHistory(client: NetlifyClient, store: HistoryStore, siteId: string): Promise<boolean> {
+  if (!store.enabled || store.read(siteId).lastSyncAt === null) {
+    return false;
+  }
+  await store.throttleSync(siteId, () => syncSiteHistory(client, store, siteId, { maxDiagnoses: 0 }));
+  return true;
+}
+
+// Every deploy of the site, newest first: the local history, or the latest deploys from the
+// API when the site has none
+export async function getDeployHistory(
+  client: NetlifyClient,
+  store: HistoryStore,
+  siteId: string,
+  fallbackLimit: number = 100
+): Promise<NetlifyDeployment[]> {
+  if (!(await refreshSiteHistory(client, store, siteId))) {
+    return client.getDeployments(siteId, fallbackLimit);
+  }
+  return store.read(siteId).deploys;
+}
+
+// Build metrics of a billing period, computed from the local history instead of paging
+// through the period's deploys on every call
+export async function getSiteBuildMetrics(
+  client: NetlifyClient,
+  store: HistoryStore,
+  siteId: string,
+  period = getCurrentBillingPeriod()
+): Promise<BuildMetrics> {
+  if (!(await refreshSiteHistory(client, store, siteId))) {
+    return client.getBuildMetrics(siteId, period);
+  }
+  return calculateBuildMetrics(deploysInRange(store.read(siteId).deploys, period));
+}
+
+// Deploys created in a time range, newest first, from the local history when the site has one
+export async function getDeploysInRange(
+  client: NetlifyClient,
+  store: HistoryStore,
+  siteId: string,
+  range: { since: Date; until: Date }
+): Promise<NetlifyDeployment[]> {
+  if (!(await refreshSiteHistory(client, store, siteId))) {
+    return client.getDeploymentsInRange(siteId, range);
+  }
+  return deploysInRange(store.read(siteId).deploys, range);
+}
+
+export function deploysInRange(deployments: NetlifyDeployment[], range: { since: Date; until: Date }): NetlifyDeployment[] {
+  return deployments.filter(deployment => {
+    const createdAt = new Date(deployment.created_at).getTime();
+    return createdAt >= range.since.getTime() && createdAt < range.until.getTime();
+  });
+}
+
+// Per-month totals of a site's recorded history, newest month first
+export function summarizeHistoryByMonth(history: SiteHistory): MonthlyHistory[] {
+  const months = new Map<string, NetlifyDeployment[]>();
+  for (const deployment of history.deploys) {
+    const createdAt = new Date(deployment.created_at);
+    const month = `${createdAt.getFullYear()}-${String(createdAt.getMonth() + 1).padStart(2, '0')}`;
+    months.set(month, [...(months.get(month) || []), deployment]);
+  }
+
+  return Array.from(months, ([month, deploys]) => {
+    const metrics = calculateBuildMetrics(deploys);
+    const categories = new Map<string, number>();
+    for (const deployment of deploys) {
+      const diagnosis = history.diagnoses.get(deployment.id);
+      if (diagnosis) categories.set(diagnosis.category, (categories.get(diagnosis.category) || 0) + 1);
+    }
+    const [topFailure] = Array.from(categories).sort((a, b) => b[1] - a[1]);
+
+    return {
+      month,
+      deploys: deploys.length,
+      failures: deploys.filter(deployment => deployment.state === 'error').length,
+      failureRate: metrics.failureRate,
+      averageBuildTime: metrics.averageBuildTime,
+      buildMinutesUsed: metrics.buildMinutesUsed,
+      topFailureCategory: topFailure ? topFailure[0] : null,
+    };
+  }).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+// Diagnosis of a failed deploy from its build log, or from its error message alone when
+// Netlify no longer has the log
+export async function diagnoseDeployment(
+  client: NetlifyClient,
+  deployment: NetlifyDeployment
+): Promise<{ diagnosis: BuildDiagnosis; logAvailable: boolean }> {
+  let lines: BuildLogLine[] = [];
+  let logAvailable = true;
+  try {
+    lines = await getBuildLogLines(client, deployment.id);
+  } catch (error) {
+    if (!(error instanceof NetlifyNotFoundError)) throw error;
+    logAvailable = false;
+  }
+  return { diagnosis: ErrorPatternAnalyzer.diagnose(lines, deployment.error_message), logAvailable };
+}
@@ -0,0 +1,221 @@
+import { DeploymentLog, IN_PROGRESS_DEPLOY_STATES, NetlifyClient } from './client';
+
+// One line of a build log after normalization. Multi-line log entries are split so every
+// line has its own number, which is also the cursor used to read a log incrementally.
+export interface BuildLogLine extends DeploymentLog {
+  line: number;
+}
+
+export interface BuildLog {
+  deployId: string;
+  state: string;
+  // False while the build is still running and the log can still grow
+  complete: boolean;
+  lines: BuildLogLine[];
+}
+
+export interface FollowOptions {
+  // How long to wait for the build to finish (or for new lines) before returning what there is
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  // Stops polling when aborted, e.g. when the client cancels the request
+  signal?: AbortSignal;
+}
+
+// What changed in a watched build since the previous poll
+export interface BuildWatchUpdate {
+  deployId: string;
+  state: string;
+  // null on the first poll
+  previousState: string | null;
+  newLines: BuildLogLine[];
+  lineCount: number;
+}
+
+export interface BuildWatch extends BuildLog {
+  // Each state the build was seen in, with when it was first seen
+  transitions: Array<{ state: string; at: string }>;
+}
+
+export interface BuildLogSearch {
+  query: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  contextLines?: number;
+  level?: DeploymentLog['level'];
+  maxMatches?: number;
+}
+
+export interface BuildLogMatch {
+  line: BuildLogLine;
+  before: BuildLogLine[];
+  after: BuildLogLine[];
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+
+// Colour and cursor escape sequences (CSI) and terminal titles/links (OSC)
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+// Timestamps the build image prefixes to each line, e.g. "9:00:05 AM: " or "[2025-07-18T09:00:05Z] "
+const TIMESTAMP_PREFIX_PATTERN = /^\s*(?:\d{1,2}:\d{2}:\d{2}(?:\.\d+)?(?:\s?[AP]M)?:|\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?\]?)\s*/i;
+
+export function isBuildInProgress(state: string): boolean {
+  return IN_PROGRESS_DEPLOY_STATES.includes(state);
+}
+
+// Strips escape codes and the timestamp prefix; a carriage return overwrites the line like a
+// terminal would, so progress bars only keep their final state
+export function normalizeLogMessage(message: string): string {
+  const withoutAnsi = message.replace(ANSI_PATTERN, '');
+  const visible = withoutAnsi.split('\r').filter(part => part.length > 0).pop() || '';
+  return visible.replace(TIMESTAMP_PREFIX_PATTERN, '').trimEnd();
+}
+
+export function normalizeBuildLog(logs: DeploymentLog[]): BuildLogLine[] {
+  const lines: BuildLogLine[] = [];
+  for (const log of logs) {
+    const timestamp = normalizeTimestamp(log.timestamp);
+    for (const rawLine of log.message.split('\n')) {
+      lines.push({
+        line: lines.length + 1,
+        timestamp,
+        level: log.level,
+        message: normalizeLogMessage(rawLine),
+        source: log.source,
+      });
+    }
+  }
+  // Drop blank lines at the end of the log, e.g. from a message ending in a newline
+  while (lines.length > 0 && !lines[lines.length - 1].message) {
+    lines.pop();
+  }
+  return lines;
+}
+
+export async function getBuildLogLines(client: NetlifyClient, deployId: string): Promise<BuildLogLine[]> {
+  return normalizeBuildLog(await client.getBuildLogs(deployId));
+}
+
+// The complete log of a build. With `follow`, a running build is polled until it finishes or
+// the timeout passes; the result says whether the log is complete.
+export async function fetchBuildLog(
+  client: NetlifyClient,
+  deployId: string,
+  options: FollowOptions & { follow?: boolean } = {}
+): Promise<BuildLog> {
+  const deadline = Date.now() + (options.timeoutMs || 0);
+  let log = await readBuildLog(client, deployId);
+
+  while (options.follow && !log.complete && Date.now() < deadline) {
+    await sleep(Math.min(options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)), options.signal);
+    log = await readBuildLog(client, deployId);
+  }
+  return log;
+}
+
+// Lines after `cursor` (a line number). When there are none yet and the build is still running,
+// polls for up to `timeoutMs` so callers can follow a build without busy-looping.
+export async function readBuildLogSince(
+  client: NetlifyClient,
+  deployId: string,
+  cursor: number,
+  options: FollowOptions = {}
+): Promise<BuildLog> {
+  const deadline = Date.now() + (options.timeoutMs || 0);
+  let log = await readBuildLog(client, deployId);
+
+  while (!log.complete && log.lines.length <= cursor && Date.now() < deadline) {
+    await sleep(Math.min(options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)), options.signal);
+    log = await readBuildLog(client, deployId);
+  }
+  return { ...log, lines: log.lines.filter(line => line.line > cursor) };
+}
+
+// Polls a build until it finishes or the timeout passes, calling onUpdate on the first poll
+// and whenever the state changes or the log grows
+export async function watchBuild(
+  client: NetlifyClient,
+  deployId: string,
+  options: FollowOptions & { onUpdate?: (update: BuildWatchUpdate) => Promise<void> | void } = {}
+): Promise<BuildWatch> {
+  const deadline = Date.now() + (options.timeoutMs || 0);
+  const transitions: BuildWatch['transitions'] = [];
+  let previous: BuildLog | null = null;
+
+  for (;;) {
+    const log = await readBuildLog(client, deployId);
+    if (log.state !== previous?.state) {
+      transitions.push({ state: log.state, at: new Date().toISOString() });
+    }
+    if (!previous || log.state !== previous.state || log.lines.length > previous.lines.length) {
+      const seen = previous?.lines.length ?? 0;
+      await options.onUpdate?.({
+        deployId,
+        state: log.state,
+        previousState: previous?.state ?? null,
+        newLines: log.lines.slice(seen),
+        lineCount: log.lines.length,
+      });
+    }
+    previous = log;
+
+    if (log.complete || Date.now() >= deadline) {
+      return { ...log, transitions };
+    }
+    await sleep(Math.min(options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)), options.signal);
+  }
+}
+
+// Keyword or regular expression search with surrounding lines; throws on an invalid expression
+export function searchBuildLog(lines: BuildLogLine[], search: BuildLogSearch): { matches: BuildLogMatch[]; total: number } {
+  const flags = search.caseSensitive ? '' : 'i';
+  const pattern = new RegExp(search.regex ? search.query : escapeRegExp(search.query), flags);
+  const contextLines = search.contextLines ?? 0;
+
+  const matching = lines.filter(line => (!search.level || line.level === search.level) && pattern.test(line.message));
+  const limited = search.maxMatches ? matching.slice(0, search.maxMatches) : matching;
+
+  return {
+    total: matching.length,
+    matches: limited.map(line => {
+      const index = line.line - 1;
+      return {
+        line,
+        before: lines.slice(Math.max(0, index - contextLines), index),
+        after: lines.slice(index + 1, index + 1 + contextLines),
+      };
+    }),
+  };
+}
+
+async function readBuildLog(client: NetlifyClient, deployId: string): Promise<BuildLog> {
+  // Read the state first: a build that is finished before the log is fetched has a complete log
+  const deployment = await client.getDeploymentInfo(deployId);
+  const lines = await getBuildLogLines(client, deployId);
+  return { deployId, state: deployment.state, complete: !isBuildInProgress(deployment.state), lines };
+}
+
+function normalizeTimestamp(timestamp: string): string {
+  const date = timestamp ? new Date(timestamp) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : '';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws the signal's reason instead of waiting out the delay once the signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,115 @@
+import { NetlifyClient, NetlifySite } from './client';
+import { NetlifyAmbiguousSiteError, NetlifyNotFoundError, SiteCandidate } from './errors';
+import { NetlifyProfile } from '../utils/profiles';
+
+// How long a profile's site list is reused before it is fetched again
+const DEFAULT_SITE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CachedSites {
+  sites: NetlifySite[];
+  expiresAt: number;
+}
+
+// Turns the site a user typed - an ID, name, custom domain, URL or configured alias - into
+// the Netlify site. Site lists are cached per account so tools do not list sites on every call.
+export class SiteResolver {
+  private cache = new Map<string, CachedSites>();
+
+  constructor(private ttlMs: number = DEFAULT_SITE_CACHE_TTL_MS) {}
+
+  async resolve(client: NetlifyClient, profile: NetlifyProfile, reference?: string): Promise<NetlifySite> {
+    const requested = reference || profile.siteId;
+    if (!requested) {
+      throw new Error(`No siteId given and profile "${profile.name}" has no default site`);
+    }
+
+    const target = normalizeSiteReference(findAlias(profile.siteAliases, requested) ?? requested);
+    const cacheKey = `${profile.apiUrl}|${profile.accessToken}`;
+
+    let { sites, cached } = await this.getSites(client, cacheKey);
+    let matches = sites.filter(site => siteKeys(site).includes(target));
+
+    // A site created since the list was cached will not be in it yet
+    if (matches.length === 0 && cached) {
+      this.invalidate(cacheKey);
+      ({ sites } = await this.getSites(client.withoutCache(), cacheKey));
+      matches = sites.filter(site => siteKeys(site).includes(target));
+    }
+
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw new NetlifyAmbiguousSiteError(
+        `"${requested}" matches ${matches.length} sites: ${matches.map(site => `${site.name} (${site.id})`).join(', ')}`,
+        matches.map(toCandidate)
+      );
+    }
+
+    // The API also finds sites by ID or domain that the list does not include
+    try {
+      return await client.getSite(target);
+    } catch (error) {
+      if (!(error instanceof NetlifyNotFoundError)) {
+        throw error;
+      }
+
+      const similar = sites.filter(site => siteKeys(site).some(key => key.includes(target)));
+      if (similar.length > 0) {
+        throw new NetlifyAmbiguousSiteError(
+          `No site exactly matches "${requested}" - did you mean ${similar.map(site => `${site.name} (${site.id})`).join(', ')}?`,
+          similar.map(toCandidate)
+        );
+      }
+      throw new NetlifyNotFoundError(`No site matches "${requested}" by ID, name, domain or alias`, {
+        status: error.status,
+        endpoint: error.endpoint,
+      });
+    }
+  }
+
+  invalidate(cacheKey?: string): void {
+    if (cacheKey) {
+      this.cache.delete(cacheKey);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private async getSites(client: NetlifyClient, cacheKey: string): Promise<{ sites: NetlifySite[]; cached: boolean }> {
+    const entry = this.cache.get(cacheKey);
+    // A fresh client refetches the list, so sites renamed or added since it was cached are found
+    if (entry && entry.expiresAt > Date.now() && !client.fresh) {
+      return { sites: entry.sites, cached: true };
+    }
+
+    const sites = await client.getSites();
+    this.cache.set(cacheKey, { sites, expiresAt: Date.now() + this.ttlMs });
+    // The client's response cache may have served an older list too
+    return { sites, cached: client.usesCache };
+  }
+}
+
+function findAlias(aliases: Record<string, string>, reference: string): string | undefined {
+  const key = Object.keys(aliases).find(alias => alias.toLowerCase() === reference.trim().toLowerCase());
+  return key ? aliases[key] : undefined;
+}
+
+// Compares names and domains case-insensitively, ignoring the scheme, "www." and trailing slashes
+export function normalizeSiteReference(reference: string): string {
+  return reference.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '');
+}
+
+// Everything a site can be referred to by, normalized
+export function siteKeys(site: NetlifySite): string[] {
+  return [site.id, site.name, site.url, site.ssl_url, site.custom_domain, ...(site.domain_aliases || [])]
+    .filter((key): key is string => Boolean(key))
+    .map(normalizeSiteReference);
+}
+
+function toCandidate(site: NetlifySite): SiteCandidate {
+  return { id: site.id, name: site.name, url: site.ssl_url || site.url };
+}
@@ -0,0 +1,180 @@
+import { countBuildMinutes, NetlifyAccount, NetlifyClient } from './client';
+import { NetlifyNotFoundError } from './errors';
+import { getDeploysInRange } from './history';
+import { HistoryStore } from '../utils/historyStore';
+
+// Included minutes of the Starter plan, used when neither config nor the API provide a limit
+export const DEFAULT_INCLUDED_BUILD_MINUTES = 300;
+
+export interface SiteBuildUsage {
+  siteId: string;
+  name: string;
+  minutes: number;
+  builds: number;
+  // Percentage of the team's minutes used by this site
+  share: number;
+}
+
+// The team's build minutes for its billing period, as the account usage API reports them
+export interface BuildMinutesQuota {
+  account: {
+    id: string;
+    name: string;
+    slug: string;
+    plan: string | null;
+  };
+  period: {
+    start: string;
+    end: string;
+    daysElapsed: number;
+    daysTotal: number;
+  };
+  minutesUsed: number;
+  includedMinutes: number;
+  limitSource: 'config' | 'plan' | 'default';
+  remaining: number;
+  percentUsed: number;
+  projectedMinutes: number;
+  projectedOverage: number;
+  lastUpdatedAt: string | null;
+}
+
+export interface BuildMinutesUsage extends BuildMinutesQuota {
+  sites: SiteBuildUsage[];
+  // Team minutes not matched to a current site, e.g. from deleted sites or deploys without deploy_time
+  unattributedMinutes: number;
+}
+
+export interface BuildMinutesUsageOptions {
+  // Plan limit from config; overrides the included minutes reported by Netlify
+  limit?: number;
+  now?: Date;
+}
+
+// Finds the team whose usage to report: an explicit account ID or slug, or the only
+// team the token can access
+export async function findAccount(client: NetlifyClient, accountRef?: string): Promise<NetlifyAccount> {
+  const accounts = await client.getAccounts();
+
+  if (accountRef) {
+    const account = accounts.find(a => a.id === accountRef || a.slug === accountRef);
+    if (!account) {
+      throw new NetlifyNotFoundError(`No Netlify team matches "${accountRef}". Available teams: ${accounts.map(a => a.slug).join(', ') || 'none'}`);
+    }
+    return account;
+  }
+
+  if (accounts.length !== 1) {
+    throw new Error(`The access token can see ${accounts.length} teams (${accounts.map(a => a.slug).join(', ')}) - set accountId on the profile or pass a site`);
+  }
+  return accounts[0];
+}
+
+// Team-wide build minutes from the account usage API: what the plan includes, what is left
+// and where the billing period is heading. One request, for tools that only need the totals.
+export async function getBuildMinutesQuota(
+  client: NetlifyClient,
+  account: NetlifyAccount,
+  options: BuildMinutesUsageOptions = {}
+): Promise<BuildMinutesQuota> {
+  const status = await client.getAccountBuildStatus(account.slug || account.id);
+  const { minutes } = status;
+  const start = new Date(minutes.period_start_date);
+  const end = new Date(minutes.period_end_date);
+
+  const planMinutes = parseIncludedMinutes(minutes.included_minutes_with_packs) ?? parseIncludedMinutes(minutes.included_minutes);
+  const includedMinutes = options.limit ?? planMinutes ?? DEFAULT_INCLUDED_BUILD_MINUTES;
+  const limitSource = options.limit !== undefined ? 'config' : planMinutes !== undefined ? 'plan' : 'default';
+  const projection = projectUsage(minutes.current, start, end, options.now);
+
+  return {
+    account: {
+      id: account.id,
+      name: account.name,
+      slug: account.slug,
+      plan: account.type_name || null,
+    },
+    period: {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      daysElapsed: projection.daysElapsed,
+      daysTotal: projection.daysTotal,
+    },
+    minutesUsed: minutes.current,
+    includedMinutes,
+    limitSource,
+    remaining: includedMinutes - minutes.current,
+    percentUsed: includedMinutes > 0 ? Math.round((minutes.current / includedMinutes) * 100) : 0,
+    projectedMinutes: projection.projectedMinutes,
+    projectedOverage: Math.max(0, projection.projectedMinutes - includedMinutes),
+    lastUpdatedAt: minutes.last_updated_at || null,
+  };
+}
+
+// The team's build minutes with the minutes attributed to each of its sites from their
+// deploy history over the same billing period
+export async function getBuildMinutesUsage(
+  client: NetlifyClient,
+  history: HistoryStore,
+  account: NetlifyAccount,
+  options: BuildMinutesUsageOptions = {}
+): Promise<BuildMinutesUsage> {
+  const quota = await getBuildMinutesQuota(client, account, options);
+  const teamSites = (await client.getSites()).filter(site =>
+    site.account_id === account.id || site.account_slug === account.slug
+  );
+
+  const sites = await Promise.all(teamSites.map(async (site): Promise<SiteBuildUsage> => {
+    const deployments = await getDeploysInRange(client, history, site.id, billingPeriodRange(quota));
+    const siteMinutes = countBuildMinutes(deployments);
+    return {
+      siteId: site.id,
+      name: site.name,
+      minutes: siteMinutes,
+      builds: deployments.filter(deploy => deploy.deploy_time).length,
+      share: siteShare(siteMinutes, quota),
+    };
+  }));
+  sites.sort((a, b) => b.minutes - a.minutes);
+
+  const attributed = sites.reduce((sum, site) => sum + site.minutes, 0);
+  return {
+    ...quota,
+    sites,
+    unattributedMinutes: Math.max(0, quota.minutesUsed - attributed),
+  };
+}
+
+// The billing period as the range the deploy history and metrics functions take
+export function billingPeriodRange(quota: BuildMinutesQuota): { since: Date; until: Date } {
+  return { since: new Date(quota.period.start), until: new Date(quota.period.end) };
+}
+
+// Percentage of the team's minutes used by a site's builds
+export function siteShare(siteMinutes: number, quota: BuildMinutesQuota): number {
+  return quota.minutesUsed > 0 ? Math.round((siteMinutes / quota.minutesUsed) * 100) : 0;
+}
+
+// Extrapolates usage so far linearly to the end of the billing period
+export function projectUsage(
+  minutesUsed: number,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): { projectedMinutes: number; daysElapsed: number; daysTotal: number } {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const totalMs = Math.max(end.getTime() - start.getTime(), dayMs);
+  const elapsedMs = Math.min(Math.max(now.getTime() - start.getTime(), 0), totalMs);
+
+  return {
+    // Less than an hour into the period there is too little data to extrapolate
+    projectedMinutes: elapsedMs < 60 * 60 * 1000 ? minutesUsed : Math.round((minutesUsed / elapsedMs) * totalMs),
+    daysElapsed: Math.round((elapsedMs / dayMs) * 10) / 10,
+    daysTotal: Math.round(totalMs / dayMs),
+  };
+}
+
+function parseIncludedMinutes(value?: string): number | undefined {
+  const minutes = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+}
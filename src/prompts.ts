@@ -0,0 +1,328 @@
+import { z } from 'zod';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ResponseCache } from './netlify/cache';
+import {
+  BuildMetrics,
+  calculateBuildMetrics,
+  countBuildMinutes,
+  DeploymentInfo,
+  NetlifyClient,
+  NetlifyDeployment,
+  NetlifySite
+} from './netlify/client';
+import { NetlifyApiError, NetlifyNotFoundError } from './netlify/errors';
+import { getDeploysInRange, getSiteBuildMetrics } from './netlify/history';
+import { BuildLogLine, getBuildLogLines } from './netlify/logs';
+import { SiteResolver } from './netlify/siteResolver';
+import { billingPeriodRange, BuildMinutesQuota, findAccount, getBuildMinutesUsage } from './netlify/usage';
+import { getProjectContext, getTeamBuildMinutes, getTimeframeRange, inspectSiteRepository, summarizeBuildLog } from './tools/helpers';
+import { ContentOptimizer } from './utils/contentOptimization';
+import { BuildDiagnosis, ErrorPatternAnalyzer, formatErrorDetails } from './utils/errorAnalysis';
+import { HistoryStore } from './utils/historyStore';
+import { describeProjectContext } from './utils/projectContext';
+import { formatRepoFindings, RepoInspection, repoFindingsForDiagnosis } from './utils/repoInspector';
+import { NetlifyProfile, ProfileManager } from './utils/profiles';
+import { PromptTemplate, PromptVariables, PromptVariablesOf, renderPromptTemplate } from './utils/promptTemplates';
+
+export interface PromptContext {
+  // Profiles as configured at the time of the request
+  profiles: () => ProfileManager;
+  sites: SiteResolver;
+  history: HistoryStore;
+  cache: ResponseCache;
+  // Built-in templates with the project's customized ones in their place
+  templates: () => Map<string, PromptTemplate>;
+}
+
+// What a prompt's variables are built with, for the profile the request selects
+export interface PromptCallContext {
+  client: NetlifyClient;
+  profile: NetlifyProfile;
+  resolveSite: (reference?: string) => Promise<NetlifySite>;
+  history: HistoryStore;
+}
+
+export interface PromptDefinition<Args extends z.AnyZodObject = z.AnyZodObject> {
+  // Also the name of the template file, e.g. prompts/triage-failed-deploy.md
+  name: string;
+  description: string;
+  // MCP prompt arguments are strings; optional ones are advertised as not required
+  argumentsSchema: Args;
+  // Declared as a method so a definition with specific arguments is still a PromptDefinition
+  variables(args: z.infer<Args>, context: PromptCallContext): Promise<PromptVariables>;
+}
+
+export function definePrompt<Args extends z.AnyZodObject>(definition: PromptDefinition<Args>): PromptDefinition<Args> {
+  return definition;
+}
+
+const siteArgumentSchema = z.string().min(1).optional()
+  .describe("Netlify site ID, name, custom domain or alias (defaults to the profile's site)");
+
+// Every prompt also accepts a profile argument, like the tools
+const profileArgumentSchema = z.string().min(1).optional()
+  .describe("Configured profile (Netlify account) to use - see list-profiles; defaults to the default profile");
+
+// Failed deploys looked at when triage-failed-deploy is not given a deploy
+const RECENT_DEPLOYS_LIMIT = 20;
+
+export const triageFailedDeployPrompt = definePrompt({
+  name: "triage-failed-deploy",
+  description: "Walk through a failed deploy: diagnosis, build log evidence and build minutes, with a request for a root cause and fix",
+  argumentsSchema: z.object({
+    deployId: z.string().min(1).optional().describe("Failed deploy to triage (defaults to the site's latest failed deploy)"),
+    siteId: siteArgumentSchema,
+  }),
+  variables: async ({ deployId, siteId }, { client, profile, resolveSite, history }) => {
+    let deployment: DeploymentInfo | undefined;
+    let site: NetlifySite;
+    if (deployId) {
+      deployment = await client.getDeploymentInfo(deployId);
+      site = await resolveSite(siteId || deployment.site_id);
+    } else {
+      site = await resolveSite(siteId);
+      deployment = (await client.getDeployments(site.id, RECENT_DEPLOYS_LIMIT)).find(deploy => deploy.state === 'error');
+      if (!deployment) {
+        throw new NetlifyNotFoundError(`No failed deploys among the latest ${RECENT_DEPLOYS_LIMIT} of ${site.name} - pass a deployId to triage an older one`);
+      }
+    }
+
+    const buildLogs = await getBuildLogLines(client, deployment.id).catch(error => {
+      if (error instanceof NetlifyNotFoundError) return [];
+      throw error;
+    });
+    const buildMinutes = await getTeamBuildMinutes(client, profile, site);
+    return buildTriageVariables({
+      site,
+      deployment,
+      buildLogs,
+      metrics: await getSiteBuildMetrics(client, history, site.id, billingPeriodRange(buildMinutes)),
+      buildMinutes,
+      diagnosis: ErrorPatternAnalyzer.diagnose(buildLogs, deployment.error_message),
+      projectContext: describeProjectContext(getProjectContext(site)),
+      repository: inspectSiteRepository(site),
+    });
+  },
+});
+
+export const planBuildMinuteBudgetPrompt = definePrompt({
+  name: "plan-build-minute-budget",
+  description: "Plan the rest of the billing period's deploys around the team's remaining build minutes and the site's failures",
+  argumentsSchema: z.object({
+    siteId: siteArgumentSchema,
+    plannedDeploys: z.string().optional().describe("Releases planned for the rest of the period, one per line"),
+  }),
+  variables: async ({ siteId, plannedDeploys }, { client, profile, resolveSite, history }): Promise<PromptVariablesOf<'plan-build-minute-budget'>> => {
+    const site = await resolveSite(siteId);
+    const account = await findAccount(client, profile.accountId || site.account_id || site.account_slug);
+    const usage = await getBuildMinutesUsage(client, history, account, { limit: profile.buildMinutesLimit });
+    const deployments = await getDeploysInRange(client, history, site.id, billingPeriodRange(usage));
+    const metrics = calculateBuildMetrics(deployments);
+    const failed = deployments.filter(deploy => deploy.state === 'error');
+
+    return {
+      projectContext: describeProjectContext(getProjectContext(site)),
+      teamName: usage.account.name,
+      plan: usage.account.plan || 'unknown',
+      periodStart: usage.period.start.slice(0, 10),
+      periodEnd: usage.period.end.slice(0, 10),
+      dayOfPeriod: Math.ceil(usage.period.daysElapsed),
+      daysTotal: usage.period.daysTotal,
+      minutesUsed: usage.minutesUsed,
+      includedMinutes: usage.includedMinutes,
+      percentUsed: usage.percentUsed,
+      remaining: usage.remaining,
+      projectedMinutes: usage.projectedMinutes,
+      projectedOverage: usage.projectedOverage > 0 ? usage.projectedOverage : null,
+      siteUsage: bullets(usage.sites.map(entry => `${entry.name}: ${entry.minutes} minutes (${entry.builds} builds, ${entry.share}%)`), 'No builds this period'),
+      siteName: site.name,
+      siteBuilds: deployments.length,
+      averageBuildTime: metrics.averageBuildTime,
+      failureRate: metrics.failureRate,
+      failedBuildMinutes: countBuildMinutes(failed),
+      failedBuilds: bullets(failed.slice(0, 10).map(describeDeploy), 'None'),
+      plannedDeploys: plannedDeploys?.trim() || null,
+    };
+  },
+});
+
+export const reviewContentReleasePrompt = definePrompt({
+  name: "review-content-release",
+  description: "Review a content release before publishing it: the deploy, its build log and how it compares to recent builds",
+  argumentsSchema: z.object({
+    deployId: z.string().min(1).optional().describe("Deploy to review (defaults to the site's latest deploy)"),
+    siteId: siteArgumentSchema,
+  }),
+  variables: async ({ deployId, siteId }, { client, profile, resolveSite, history }): Promise<PromptVariablesOf<'review-content-release'>> => {
+    const deployment: DeploymentInfo | undefined = deployId ? await client.getDeploymentInfo(deployId) : undefined;
+    const site = await resolveSite(siteId || deployment?.site_id);
+    const recent = await client.getDeployments(site.id, 10);
+    const release = deployment || recent[0];
+    if (!release) {
+      throw new NetlifyNotFoundError(`${site.name} has no deploys to review yet`);
+    }
+
+    const buildMinutes = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, site.id, billingPeriodRange(buildMinutes));
+    const contentMetrics = ContentOptimizer.analyzeContentImpact(await getDeploysInRange(client, history, site.id, getTimeframeRange('month')));
+    const buildLogs = await getBuildLogLines(client, release.id).catch(error => {
+      if (error instanceof NetlifyNotFoundError) return [];
+      throw error;
+    });
+
+    return {
+      projectContext: describeProjectContext(getProjectContext(site)),
+      siteName: site.name,
+      deployId: release.id,
+      state: release.state,
+      branch: release.branch || 'unknown',
+      commitRef: release.commit_ref || 'unknown',
+      createdAt: release.created_at,
+      buildTime: release.deploy_time ? `${Math.round(release.deploy_time / 6) / 10} minutes` : 'not finished',
+      previewUrl: release.deploy_url || release.url || 'none',
+      errorMessage: release.error_message || null,
+      averageBuildTime: metrics.averageBuildTime,
+      failureRate: metrics.failureRate,
+      buildMinutesRemaining: buildMinutes.remaining,
+      totalPosts: contentMetrics.totalPosts,
+      buildTimePerPost: contentMetrics.buildTimePerPost,
+      incrementalBuilds: contentMetrics.incrementalBuildSupport ? 'yes' : 'no',
+      optimizationScore: ContentOptimizer.calculateOptimizationScore(contentMetrics),
+      recentDeploys: bullets(recent.filter(deploy => deploy.id !== release.id).slice(0, 5).map(describeDeploy), 'None'),
+      logTail: buildLogs.slice(-10).map(line => `line ${line.line}: ${line.message}`).join('\n') || null,
+    };
+  },
+});
+
+export const PROMPTS: PromptDefinition[] = [
+  triageFailedDeployPrompt,
+  planBuildMinuteBudgetPrompt,
+  reviewContentReleasePrompt,
+];
+
+// Variables of the triage-failed-deploy template; format-error-for-ai renders the same template
+export function buildTriageVariables(input: {
+  site: NetlifySite;
+  deployment: DeploymentInfo | NetlifyDeployment;
+  buildLogs: BuildLogLine[];
+  metrics: BuildMetrics;
+  // The team's build minutes; metrics are the site's
+  buildMinutes: BuildMinutesQuota;
+  diagnosis: BuildDiagnosis;
+  projectContext: string;
+  // Inspection of the site's local checkout, when it has one
+  repository?: RepoInspection | null;
+}): PromptVariablesOf<'triage-failed-deploy'> {
+  const { site, deployment, buildLogs, metrics, buildMinutes, diagnosis, projectContext, repository } = input;
+  const best = diagnosis.candidates[0];
+  const repoFindings = repository ? repoFindingsForDiagnosis(repository, diagnosis) : [];
+
+  return {
+    siteName: site.name,
+    siteUrl: site.custom_domain || site.url,
+    projectContext,
+    deployId: deployment.id,
+    state: deployment.state,
+    createdAt: deployment.created_at,
+    branch: deployment.branch || 'unknown',
+    commitRef: deployment.commit_ref || 'unknown',
+    errorMessage: deployment.error_message || 'No specific error message',
+    buildMinutesRemaining: buildMinutes.remaining,
+    failureRate: metrics.failureRate,
+    averageBuildTime: metrics.averageBuildTime,
+    errorCategory: best?.pattern.category || null,
+    severity: best?.pattern.severity || null,
+    buildTimeImpact: best?.pattern.buildTimeImpact ?? null,
+    quickFixes: best ? bullets(best.pattern.quickFixes, 'None listed') : null,
+    commonCauses: best ? bullets(best.pattern.commonCauses, 'None listed') : null,
+    preventionTips: best ? bullets(best.pattern.preventionTips, 'None listed') : null,
+    details: best ? bullets(formatErrorDetails(best.details), 'None extracted') : null,
+    evidence: best ? best.evidence.map(line => `${line.line === null ? 'error message' : `line ${line.line}`}: ${line.message}`).join('\n') : null,
+    logSummary: summarizeBuildLog(buildLogs),
+    repoPath: repository?.repoPath ?? null,
+    repoFindings: repository ? formatRepoFindings(repoFindings) || 'No problems found in netlify.toml, package.json, lockfiles or the Node version' : null,
+  };
+}
+
+// Registers the prompts; each request builds its template's variables from live deploy data
+export function registerPrompts(server: Server, context: PromptContext): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(listPrompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async request => {
+    const prompt = PROMPTS.find(definition => definition.name === request.params.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name} - available: ${PROMPTS.map(definition => definition.name).join(', ')}`);
+    }
+    const template = context.templates().get(prompt.name);
+    if (!template) {
+      throw new McpError(ErrorCode.InternalError, `No template found for prompt ${prompt.name}`);
+    }
+
+    const profiles = context.profiles();
+    const schema = prompt.argumentsSchema.extend({
+      profile: profileArgumentSchema.refine(
+        name => name === undefined || profiles.has(name),
+        name => ({ message: `Unknown profile "${name}". Configured profiles: ${profiles.names.join(', ') || 'none'}` })
+      ),
+    });
+    const parsed = schema.safeParse(request.params.arguments ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.') || '(arguments)'}: ${issue.message}`);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${prompt.name}: ${issues.join('; ')}`);
+    }
+
+    const { profile: profileName, ...args } = parsed.data as { profile?: string } & Record<string, unknown>;
+    const profile = profiles.get(profileName);
+    const client = profiles.createClient(profile, { cache: context.cache });
+    try {
+      const variables = await prompt.variables(args, {
+        client,
+        profile,
+        resolveSite: reference => context.sites.resolve(client, profile, reference),
+        history: context.history,
+      });
+      return {
+        description: prompt.description,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: renderPromptTemplate(template, variables) } }],
+      };
+    } catch (error) {
+      if (error instanceof NetlifyNotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      if (error instanceof NetlifyApiError) {
+        throw new McpError(ErrorCode.InternalError, `[${error.code}] ${error.message} - ${error.hint}`);
+      }
+      throw error;
+    }
+  });
+}
+
+function listPrompt(definition: PromptDefinition): Prompt {
+  const shape = definition.argumentsSchema.extend({ profile: profileArgumentSchema }).shape as Record<string, z.ZodTypeAny>;
+  return {
+    name: definition.name,
+    description: definition.description,
+    arguments: Object.entries(shape).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional(),
+    })),
+  };
+}
+
+function describeDeploy(deploy: NetlifyDeployment): string {
+  return `${deploy.id} (${deploy.state}, ${deploy.created_at}, ${deploy.branch || 'unknown branch'})${deploy.error_message ? `: ${deploy.error_message}` : ''}`;
+}
+
+function bullets(items: string[], empty: string): string {
+  return items.length > 0 ? items.map(item => `• ${item}`).join('\n') : `• ${empty}`;
+}
@@ -0,0 +1,275 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ResponseCache } from './netlify/cache';
+import { NetlifyClient } from './netlify/client';
+import { NetlifyNotFoundError } from './netlify/errors';
+import { getBuildLogLines, isBuildInProgress } from './netlify/logs';
+import { SiteResolver } from './netlify/siteResolver';
+import { serializeDeployment, serializeSite } from './tools/schemas';
+import { ProfileManager } from './utils/profiles';
+
+export interface ResourceContext {
+  // Profiles as configured at the time of the request; resources use the default profile
+  profiles: () => ProfileManager;
+  sites: SiteResolver;
+  cache: ResponseCache;
+  // Read on every poll, so configuration changes apply immediately
+  options: { pollIntervalMs: number };
+}
+
+export type NetlifyResource =
+  | { kind: 'site'; siteId: string }
+  | { kind: 'site-deploys'; siteId: string }
+  | { kind: 'deploy'; deployId: string }
+  | { kind: 'deploy-log'; deployId: string };
+
+// Deploys listed by a site's deploys resource
+const SITE_DEPLOYS_LIMIT = 20;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'netlify://sites/{siteId}',
+    name: 'Netlify site',
+    description: 'Site details; siteId can also be the site name, domain or an alias',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'netlify://sites/{siteId}/deploys',
+    name: 'Recent deploys of a site',
+    description: `The latest ${SITE_DEPLOYS_LIMIT} deploys of a site, newest first`,
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'netlify://deploys/{deployId}',
+    name: 'Netlify deploy',
+    description: 'Deploy state, branch, commit and error message; subscribe to be notified when its state changes',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'netlify://deploys/{deployId}/log',
+    name: 'Build log',
+    description: 'The complete build log of a deploy as plain text; subscribe to be notified when the build finishes',
+    mimeType: 'text/plain',
+  },
+];
+
+const RESOURCE_URI_PATTERNS: Array<{ pattern: RegExp; parse: (id: string) => NetlifyResource }> = [
+  { pattern: /^netlify:\/\/sites\/([^/]+)$/, parse: siteId => ({ kind: 'site', siteId }) },
+  { pattern: /^netlify:\/\/sites\/([^/]+)\/deploys$/, parse: siteId => ({ kind: 'site-deploys', siteId }) },
+  { pattern: /^netlify:\/\/deploys\/([^/]+)$/, parse: deployId => ({ kind: 'deploy', deployId }) },
+  { pattern: /^netlify:\/\/deploys\/([^/]+)\/log$/, parse: deployId => ({ kind: 'deploy-log', deployId }) },
+];
+
+export function parseResourceUri(uri: string): NetlifyResource | null {
+  for (const { pattern, parse } of RESOURCE_URI_PATTERNS) {
+    const match = uri.match(pattern);
+    if (match) return parse(decodeURIComponent(match[1]));
+  }
+  return null;
+}
+
+// Exposes sites, deploys and build logs as MCP resources. Subscriptions to a deploy (or its
+// log) are polled while the build runs, and the client is notified of every state change.
+export function registerResources(server: Server, context: ResourceContext): void {
+  const createClient = () => {
+    const profiles = context.profiles();
+    const profile = profiles.get();
+    return { client: profiles.createClient(profile, { cache: context.cache }), profile };
+  };
+  const subscriptions = new DeploySubscriptions(
+    context.options,
+    async deployId => (await createClient().client.getDeploymentInfo(deployId)).state,
+    uri => server.sendResourceUpdated({ uri })
+  );
+  server.onclose = () => subscriptions.stop();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const { client } = createClient();
+    const sites = await client.getSites();
+    return {
+      resources: sites.map(site => ({
+        uri: `netlify://sites/${site.id}`,
+        name: site.name,
+        description: site.custom_domain || site.url,
+        mimeType: 'application/json',
+      })),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async request => {
+    const { uri } = request.params;
+    const resource = requireResource(uri);
+    const { client, profile } = createClient();
+    try {
+      return await readResource(client, uri, resource, reference => context.sites.resolve(client, profile, reference));
+    } catch (error) {
+      if (error instanceof NetlifyNotFoundError) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+      }
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async request => {
+    await subscriptions.subscribe(request.params.uri, deployIdOf(requireResource(request.params.uri), request.params.uri));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+}
+
+// JSON-RPC error code MCP uses for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+async function readResource(
+  client: NetlifyClient,
+  uri: string,
+  resource: NetlifyResource,
+  resolveSite: (reference: string) => ReturnType<SiteResolver['resolve']>
+): Promise<ReadResourceResult> {
+  switch (resource.kind) {
+    case 'site': {
+      const site = await resolveSite(resource.siteId);
+      return jsonContents(uri, serializeSite(site));
+    }
+    case 'site-deploys': {
+      const site = await resolveSite(resource.siteId);
+      const deployments = await client.getDeployments(site.id, SITE_DEPLOYS_LIMIT);
+      return jsonContents(uri, deployments.map(serializeDeployment));
+    }
+    case 'deploy':
+      return jsonContents(uri, serializeDeployment(await client.getDeploymentInfo(resource.deployId)));
+    case 'deploy-log': {
+      const lines = await getBuildLogLines(client, resource.deployId);
+      return { contents: [{ uri, mimeType: 'text/plain', text: lines.map(line => line.message).join('\n') }] };
+    }
+  }
+}
+
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+}
+
+function requireResource(uri: string): NetlifyResource {
+  const resource = parseResourceUri(uri);
+  if (!resource) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri} - see resources/templates/list`);
+  }
+  return resource;
+}
+
+function deployIdOf(resource: NetlifyResource, uri: string): string {
+  if (resource.kind !== 'deploy' && resource.kind !== 'deploy-log') {
+    throw new McpError(ErrorCode.InvalidParams, `Only deploys and build logs can be subscribed to, not ${uri}`);
+  }
+  return resource.deployId;
+}
+
+// Polls the deploys that have subscribers; a deploy is no longer polled once it has
+// finished, since its state and log do not change after that
+export class DeploySubscriptions {
+  private subscribed = new Map<string, string>();
+  private lastStates = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private options: { pollIntervalMs: number },
+    private fetchState: (deployId: string) => Promise<string>,
+    private notify: (uri: string) => Promise<void>
+  ) {}
+
+  // Records the deploy's state as of the subscription, so a change before the first poll is reported
+  async subscribe(uri: string, deployId: string): Promise<void> {
+    if (this.stopped) return;
+    const watched = [...this.subscribed.values()].includes(deployId);
+    this.subscribed.set(uri, deployId);
+    if (!watched) {
+      const state = await this.checkState(deployId);
+      if (state === null) this.lastStates.delete(deployId);
+      else this.lastStates.set(deployId, state);
+    }
+    if (this.subscribed.has(uri)) this.schedule();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscribed.delete(uri);
+    if (this.subscribed.size === 0) this.clearTimer();
+  }
+
+  // Called when the server closes: drops every subscription, including from a poll already running
+  stop(): void {
+    this.stopped = true;
+    this.subscribed.clear();
+    this.clearTimer();
+  }
+
+  // Checks every subscribed deploy once and notifies the subscribers of those that changed
+  async poll(): Promise<void> {
+    const deployIds = new Set(this.subscribed.values());
+    for (const deployId of deployIds) {
+      const previous = this.lastStates.get(deployId);
+      if (previous && !isBuildInProgress(previous)) continue;
+
+      const state = await this.checkState(deployId);
+      if (state === null) continue;
+      this.lastStates.set(deployId, state);
+      if (previous === undefined || previous === state) continue;
+
+      for (const [uri, subscribedId] of this.subscribed) {
+        if (subscribedId !== deployId) continue;
+        try {
+          await this.notify(uri);
+        } catch (error) {
+          console.error(`⚠️ Warning: Could not notify the subscriber of ${uri}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+  }
+
+  private async checkState(deployId: string): Promise<string | null> {
+    try {
+      return await this.fetchState(deployId);
+    } catch (error) {
+      console.error(`⚠️ Warning: Could not check deploy ${deployId} for subscribers:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(): void {
+    if (this.stopped || this.timer || this.polling) return;
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.polling = true;
+      try {
+        await this.poll();
+      } finally {
+        this.polling = false;
+      }
+      if (!this.stopped && this.subscribed.size > 0) this.schedule();
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+}
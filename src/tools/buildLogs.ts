@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import { BuildLogLine, BuildWatchUpdate, fetchBuildLog, readBuildLogSince, searchBuildLog, watchBuild } from '../netlify/logs';
+import { ErrorPatternAnalyzer, formatErrorDetails, formatEvidence } from '../utils/errorAnalysis';
+import { defineTool } from './registry';
+import { buildDiagnosisSchema, buildLogLineSchema, serializeDiagnosis } from './schemas';
+
+// Build log tools - read the complete log of a build instead of opening the Netlify UI
+
+export const searchBuildLogsTool = defineTool({
+  name: "search-build-logs",
+  description: "Search the complete build log of a deployment by keyword or regular expression, with surrounding lines",
+  inputSchema: z.object({
+    deployId: z.string().min(1).describe("Deployment ID whose build log to search"),
+    query: z.string().min(1).describe("Keyword to find, or a regular expression when regex is true"),
+    regex: z.boolean().default(false).describe("Treat the query as a regular expression"),
+    caseSensitive: z.boolean().default(false).describe("Match the query case-sensitively"),
+    contextLines: z.number().int().min(0).max(20).default(3).describe("Lines to show before and after each match"),
+    level: z.enum(['info', 'warn', 'error']).optional().describe("Only match lines logged at this level"),
+    maxMatches: z.number().int().min(1).max(100).default(20).describe("Maximum number of matches to return"),
+    waitSeconds: z.number().int().min(0).max(120).default(0).describe("Wait up to this long for a running build to finish before searching"),
+  }),
+  outputSchema: z.object({
+    deployId: z.string(),
+    state: z.string(),
+    complete: z.boolean(),
+    query: z.string(),
+    totalLines: z.number(),
+    totalMatches: z.number(),
+    matches: z.array(z.object({
+      line: buildLogLineSchema,
+      before: z.array(buildLogLineSchema),
+      after: z.array(buildLogLineSchema),
+    })),
+  }),
+  errorMessage: "Error searching build logs",
+  handler: async ({ deployId, query, regex, caseSensitive, contextLines, level, maxMatches, waitSeconds }, { client, signal }) => {
+    if (regex) {
+      try {
+        new RegExp(query);
+      } catch (error) {
+        throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const log = await fetchBuildLog(client, deployId, { follow: waitSeconds > 0, timeoutMs: waitSeconds * 1000, signal });
+    const { matches, total } = searchBuildLog(log.lines, { query, regex, caseSensitive, contextLines, level, maxMatches });
+
+    let report = `**🔎 Build Log Search for Deployment ${deployId}**\n\n`;
+    if (total === 0) {
+      report += `No lines match \`${query}\` in ${log.lines.length} lines of the build log.`;
+    } else {
+      report += `${total} matching lines for \`${query}\` in ${log.lines.length} lines`;
+      report += total > matches.length ? ` (showing the first ${matches.length})\n\n` : '\n\n';
+      report += matches.map(match =>
+        `**Line ${match.line.line} (${match.line.level}):**\n\`\`\`\n${formatLogLines([...match.before, match.line, ...match.after], match.line.line)}\n\`\`\``
+      ).join('\n\n');
+    }
+    if (!log.complete) {
+      report += `\n\n⚠️ Build is still ${log.state} - the log is incomplete. Search again with waitSeconds to wait for it to finish.`;
+    }
+
+    return {
+      markdown: report,
+      data: {
+        deployId,
+        state: log.state,
+        complete: log.complete,
+        query,
+        totalLines: log.lines.length,
+        totalMatches: total,
+        matches,
+      },
+    };
+  },
+});
+
+export const tailBuildLogsTool = defineTool({
+  name: "tail-build-logs",
+  description: "Get the latest lines of a build log, or the lines added since a cursor to follow a running build",
+  inputSchema: z.object({
+    deployId: z.string().min(1).describe("Deployment ID whose build log to read"),
+    cursor: z.number().int().min(0).optional().describe("nextCursor from the previous call; omit to get the last lines of the log"),
+    maxLines: z.number().int().min(1).max(500).default(50).describe("Maximum number of lines to return"),
+    waitSeconds: z.number().int().min(0).max(60).default(0).describe("When there are no new lines yet, wait up to this long for the build to log more"),
+  }),
+  outputSchema: z.object({
+    deployId: z.string(),
+    state: z.string(),
+    complete: z.boolean(),
+    nextCursor: z.number(),
+    hasMore: z.boolean(),
+    lines: z.array(buildLogLineSchema),
+  }),
+  errorMessage: "Error reading build logs",
+  handler: async ({ deployId, cursor, maxLines, waitSeconds }, { client, signal }) => {
+    let lines: BuildLogLine[];
+    let hasMore = false;
+    let log;
+
+    if (cursor === undefined) {
+      log = await fetchBuildLog(client, deployId);
+      lines = log.lines.slice(-maxLines);
+    } else {
+      log = await readBuildLogSince(client, deployId, cursor, { timeoutMs: waitSeconds * 1000, signal });
+      // Page forward from the cursor rather than skipping lines the caller has not seen
+      lines = log.lines.slice(0, maxLines);
+      hasMore = log.lines.length > maxLines;
+    }
+    const nextCursor = lines.length > 0 ? lines[lines.length - 1].line : cursor ?? 0;
+
+    let report = `**📜 Build Log for Deployment ${deployId}** (${log.state})\n\n`;
+    report += lines.length > 0
+      ? `\`\`\`\n${formatLogLines(lines)}\n\`\`\``
+      : cursor === undefined ? 'The build log is empty.' : `No new lines since line ${cursor}.`;
+
+    if (hasMore) {
+      report += `\n\nMore lines are available - call again with cursor: ${nextCursor}.`;
+    } else if (!log.complete) {
+      report += `\n\n⏳ Build is still ${log.state}. Call again with cursor: ${nextCursor} to get new lines.`;
+    } else {
+      report += `\n\n✅ Build finished (${log.state}) - this is the end of the log.`;
+    }
+
+    return {
+      markdown: report,
+      data: { deployId, state: log.state, complete: log.complete, nextCursor, hasMore, lines },
+    };
+  },
+});
+
+export const watchDeploymentTool = defineTool({
+  name: "watch-deployment",
+  description: "Follow a deploy until it finishes, sending a progress notification with the latest log lines for every state change, and diagnose the build if it fails",
+  inputSchema: z.object({
+    deployId: z.string().min(1).describe("Deployment ID to watch"),
+    timeoutSeconds: z.number().int().min(0).max(1800).default(600).describe("Stop watching after this long if the build has not finished (default: 600)"),
+    pollIntervalSeconds: z.number().int().min(1).max(60).default(5).describe("Seconds between checks of the deploy (default: 5)"),
+    logLines: z.number().int().min(0).max(50).default(5).describe("Latest log lines to include in each progress notification and in the report"),
+  }),
+  outputSchema: z.object({
+    deployId: z.string(),
+    state: z.string(),
+    complete: z.boolean(),
+    transitions: z.array(z.object({ state: z.string(), at: z.string() })),
+    totalLines: z.number(),
+    lastLines: z.array(buildLogLineSchema),
+    diagnosis: buildDiagnosisSchema.nullable().describe("Error analysis of the build when it failed"),
+  }),
+  errorMessage: "Error watching deployment",
+  handler: async ({ deployId, timeoutSeconds, pollIntervalSeconds, logLines }, { client, reportProgress, signal }) => {
+    let updates = 0;
+    const watch = await watchBuild(client, deployId, {
+      timeoutMs: timeoutSeconds * 1000,
+      pollIntervalMs: pollIntervalSeconds * 1000,
+      signal,
+      onUpdate: update => reportProgress({ progress: ++updates, message: formatWatchUpdate(update, logLines) }),
+    });
+
+    const lastLines = logLines > 0 ? watch.lines.slice(-logLines) : [];
+    const diagnosis = watch.state === 'error'
+      ? ErrorPatternAnalyzer.diagnose(watch.lines, (await client.getDeploymentInfo(deployId)).error_message)
+      : null;
+
+    let report = `**👀 Deployment ${deployId}:** ${watch.transitions.map(transition => transition.state).join(' → ')}
+
+`;
+    if (!watch.complete) {
+      report += `⏳ Build is still ${watch.state} after ${timeoutSeconds} seconds. Call watch-deployment again to keep following it.
+
+`;
+    } else if (watch.state === 'ready') {
+      report += `✅ Build finished successfully (${watch.lines.length} log lines)
+
+`;
+    } else {
+      report += `❌ Build finished with state: ${watch.state}
+
+`;
+    }
+
+    const [cause] = diagnosis?.candidates || [];
+    if (cause) {
+      report += `**Most Likely Cause: ${cause.pattern.category}** (${cause.confidence}% confidence)
+`;
+      report += formatErrorDetails(cause.details).map(detail => `• ${detail}
+`).join('');
+      report += `• Quick Fixes: ${cause.pattern.quickFixes.join(', ')}
+
+`;
+      report += `**Evidence:**
+\`\`\`
+${formatEvidence(cause.evidence)}
+\`\`\`
+
+`;
+      report += `Use analyze-build-error for the other possible causes.`;
+    } else if (diagnosis) {
+      report += `**Most Likely Cause:** Unrecognized Error - requires manual investigation
+
+`;
+      report += lastLines.length > 0 ? `**Last Log Lines:**
+\`\`\`
+${formatLogLines(lastLines)}
+\`\`\`` : 'The build log is empty.';
+    } else if (lastLines.length > 0) {
+      report += `**Last Log Lines:**
+\`\`\`
+${formatLogLines(lastLines)}
+\`\`\``;
+    }
+
+    return {
+      markdown: report.trimEnd(),
+      data: {
+        deployId,
+        state: watch.state,
+        complete: watch.complete,
+        transitions: watch.transitions,
+        totalLines: watch.lines.length,
+        lastLines,
+        diagnosis: diagnosis ? serializeDiagnosis(diagnosis) : null,
+      },
+    };
+  },
+});
+
+// Progress message for one poll of a watched build: the state change and the newest lines
+function formatWatchUpdate(update: BuildWatchUpdate, logLines: number): string {
+  const state = update.previousState && update.previousState !== update.state
+    ? `${update.previousState} → ${update.state}`
+    : update.state;
+  const latest = logLines > 0 ? update.newLines.slice(-logLines).map(line => line.message) : [];
+  return [`${state} (${update.lineCount} log lines)`, ...latest].join('\n');
+}
+
+// Numbered log lines for a code block; the highlighted line is marked with ">"
+function formatLogLines(lines: BuildLogLine[], highlight?: number): string {
+  const width = String(lines[lines.length - 1]?.line || 0).length;
+  return lines
+    .map(line => `${line.line === highlight ? '>' : ' '} ${String(line.line).padStart(width)} | ${line.message}`)
+    .join('\n');
+}
@@ -0,0 +1,323 @@
+import { z } from 'zod';
+import { NetlifyNotFoundError } from '../netlify/errors';
+import { getDeployHistory, getDeploysInRange, getSiteBuildMetrics } from '../netlify/history';
+import { getBuildLogLines } from '../netlify/logs';
+import { billingPeriodRange, siteShare } from '../netlify/usage';
+import { buildTriageVariables, triageFailedDeployPrompt } from '../prompts';
+import { config } from '../utils/config';
+import { ErrorPatternAnalyzer } from '../utils/errorAnalysis';
+import { renderPromptTemplate } from '../utils/promptTemplates';
+import { ContentOptimizer, ContentReportBuilder } from '../utils/contentOptimization';
+import { describeProjectContext, formatRecommendationPacks, projectContextSites } from '../utils/projectContext';
+import { defineTool } from './registry';
+import {
+  buildMetricsSchema,
+  buildMinutesQuotaSchema,
+  contentMetricsSchema,
+  deploymentSchema,
+  errorPatternSchema,
+  seasonalTrendSchema,
+  serializeDeployment,
+  serializeErrorPattern,
+  serializeSite,
+  siteSchema
+} from './schemas';
+import {
+  getProjectContext,
+  getTeamBuildMinutes,
+  getTimeframeRange,
+  inspectSiteRepository,
+  isLowOnBuildMinutes,
+  repoPathSchema,
+  siteReferenceSchema
+} from './helpers';
+
+// Phase 3: Content Workflow Integration Tools
+
+export const analyzeContentPerformanceTool = defineTool({
+  name: "analyze-content-performance",
+  description: "Analyze content impact on build performance and optimization opportunities",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    timeframe: z.enum(["week", "month", "quarter"]).default("month").describe("Analysis timeframe"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    timeframe: z.string(),
+    contentMetrics: contentMetricsSchema,
+    optimizationScore: z.number(),
+    recommendations: z.array(z.string()),
+  }),
+  errorMessage: "Error analyzing content performance",
+  handler: async ({ siteId: requestedSiteId, timeframe }, { client, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const context = getProjectContext(site);
+    const deployments = await getDeploysInRange(client, history, siteId, getTimeframeRange(timeframe));
+    const metrics = ContentOptimizer.analyzeContentImpact(deployments);
+    const optimizationScore = ContentOptimizer.calculateOptimizationScore(metrics);
+    const recommendations = ContentOptimizer.generateContentRecommendations(metrics, context);
+    const socialMediaPacks = formatRecommendationPacks(context, 'social-media');
+
+    return {
+      markdown: `**📊 Content Performance Analysis (${timeframe})**
+
+**Optimization Score: ${optimizationScore}/100**
+
+${ContentOptimizer.generateContentOptimizationReport(metrics, context)}
+
+**Content Recommendations:**
+${recommendations.map(rec => `• ${rec}`).join('\n')}
+
+**Content Creator Workflow Insights:**
+• Blog post efficiency: ${metrics.buildTimePerPost < 2 ? '✅ Optimized' : '⚠️ Needs optimization'}
+• Image optimization: ${metrics.imageOptimizationOpportunities < 5 ? '✅ Good' : '⚠️ High potential'}
+• Incremental builds: ${metrics.incrementalBuildSupport ? '✅ Enabled' : '❌ Configure for faster updates'}
+
+**Social Media Integration Tips:**
+• Batch content updates for every social channel
+• Optimize images once for cross-platform use
+• Schedule deployments during low-traffic periods
+• Use responsive images for mobile visitors${socialMediaPacks ? `\n\n${socialMediaPacks}` : ''}`,
+      data: { siteId, timeframe, contentMetrics: metrics, optimizationScore, recommendations },
+    };
+  },
+});
+
+export const formatErrorForAiTool = defineTool({
+  name: "format-error-for-ai",
+  description: "Format deployment errors with full context for AI assistant analysis",
+  inputSchema: z.object({
+    deploymentId: z.string().min(1).describe("Deployment ID with error to format"),
+    includeProjectContext: z.boolean().default(true).describe("Include the site's project context (framework, content types, audience)"),
+    repoPath: repoPathSchema,
+  }),
+  outputSchema: z.object({
+    deploymentId: z.string(),
+    errorPattern: errorPatternSchema.nullable(),
+    prompt: z.string(),
+    includeProjectContext: z.boolean(),
+    repoPath: z.string().nullable(),
+  }),
+  errorMessage: "Error formatting for AI",
+  handler: async ({ deploymentId, includeProjectContext, repoPath }, { client, profile, resolveSite, resolveLocalPath, history }) => {
+    const deployment = await client.getDeploymentInfo(deploymentId);
+    const site = await resolveSite(deployment.site_id);
+    const buildLogs = await getBuildLogLines(client, deploymentId);
+    const buildMinutes = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, deployment.site_id, billingPeriodRange(buildMinutes));
+    const diagnosis = ErrorPatternAnalyzer.diagnose(buildLogs, deployment.error_message);
+    const errorPattern = diagnosis.candidates[0]?.pattern || null;
+
+    const context = getProjectContext(site);
+    const projectContext = includeProjectContext ? describeProjectContext(context) : '';
+    const repository = inspectSiteRepository(site, repoPath && resolveLocalPath(repoPath));
+
+    // Same template as the triage-failed-deploy prompt, including a project's customized one
+    const template = config.promptTemplates.templates.get(triageFailedDeployPrompt.name);
+    if (!template) {
+      throw new Error(`No template found for prompt ${triageFailedDeployPrompt.name}`);
+    }
+    const formattedPrompt = renderPromptTemplate(template, buildTriageVariables({ site, deployment, buildLogs, metrics, buildMinutes, diagnosis, projectContext, repository }));
+
+    return {
+      markdown: `**🤖 AI-Ready Error Analysis**
+
+\`\`\`
+${formattedPrompt}
+\`\`\`
+
+**Copy the above prompt to your AI assistant for detailed analysis and solutions.**
+
+**Quick Actions Available:**
+• Run smart retry analysis
+• Check build minutes impact
+• Get content optimization suggestions
+• Monitor deployment status
+• Analyze content performance impact
+
+**Project Context:**
+${!includeProjectContext ? '❌ Generic error analysis only' :
+  projectContext ? `✅ Included from ${context.source}` :
+  '⚠️ No project context configured for this site - see project-context.example.yaml'}
+
+**Repository Checks:**
+${repository ? `✅ Included from ${repository.repoPath}` : "⚠️ No local checkout - pass repoPath or set it in the site's project context"}`,
+      data: {
+        deploymentId,
+        errorPattern: errorPattern ? serializeErrorPattern(errorPattern) : null,
+        prompt: formattedPrompt,
+        includeProjectContext,
+        repoPath: repository?.repoPath ?? null,
+      },
+    };
+  },
+});
+
+export const generateContentOptimizationReportTool = defineTool({
+  name: "generate-content-optimization-report",
+  description: "Generate comprehensive content optimization report for a site's blog and social media",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    includeSeasonalAnalysis: z.boolean().default(true).describe("Include seasonal content trends analysis"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    deploymentsAnalyzed: z.number(),
+    contentMetrics: contentMetricsSchema,
+    optimizationScore: z.number(),
+    recommendations: z.array(z.string()),
+    seasonalTrends: z.array(seasonalTrendSchema).optional(),
+  }),
+  errorMessage: "Error generating content optimization report",
+  handler: async ({ siteId: requestedSiteId, includeSeasonalAnalysis }, { client, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const context = getProjectContext(site);
+    // The whole recorded history when available, so seasonal trends span more than recent months
+    const deployments = await getDeployHistory(client, history, siteId);
+    const contentReport = ContentReportBuilder.generateBlogOptimizationReport(deployments, context);
+    const socialMediaTips = ContentReportBuilder.generateSocialMediaOptimizationTips(context);
+    const contentMetrics = ContentOptimizer.analyzeContentImpact(deployments);
+
+    return {
+      markdown: `${contentReport}
+
+${socialMediaTips}
+
+**Build Minutes Conservation for Content:**
+• Schedule large content updates during off-peak hours
+• Use incremental builds for text-only updates
+• Optimize images before upload to reduce build time
+• Consider content delivery network (CDN) for static assets
+
+**Next Steps:**
+1. Implement recommended image optimizations
+2. Configure incremental builds for content updates
+3. Set up content calendar for efficient deployment scheduling
+4. Monitor build performance after optimizations`,
+      data: {
+        siteId,
+        deploymentsAnalyzed: deployments.length,
+        contentMetrics,
+        optimizationScore: ContentOptimizer.calculateOptimizationScore(contentMetrics),
+        recommendations: ContentOptimizer.generateContentRecommendations(contentMetrics, context),
+        seasonalTrends: includeSeasonalAnalysis ? ContentOptimizer.analyzeSeasonalTrends(deployments) : undefined,
+      },
+    };
+  },
+});
+
+export const monitorSiteTool = defineTool({
+  name: "monitor-site",
+  description: "Monitor a project's site: latest deployment, build performance and the project's monitoring checks",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema.describe("Site to monitor (defaults to the first site with a project context, then the profile's site)"),
+  }),
+  outputSchema: z.object({
+    found: z.boolean(),
+    site: siteSchema.nullable(),
+    latestDeployment: deploymentSchema.nullable(),
+    metrics: buildMetricsSchema.nullable().describe("The site's builds in the team's billing period"),
+    buildMinutes: buildMinutesQuotaSchema.nullable().describe("The team's build minutes"),
+  }),
+  errorMessage: "Error monitoring site",
+  handler: async ({ siteId: requestedSiteId }, { client, profile, resolveSite, history }) => {
+    const reference = requestedSiteId || projectContextSites(config.projectContexts.contexts)[0];
+    const site = await resolveSite(reference).catch(error => {
+      if (error instanceof NetlifyNotFoundError) return null;
+      throw error;
+    });
+    
+    if (!site) {
+      return {
+        markdown: `❌ Site ${reference ? `"${reference}" ` : ''}not found. Please check your site configuration.`,
+        data: { found: false, site: null, latestDeployment: null, metrics: null, buildMinutes: null },
+      };
+    }
+
+    const context = getProjectContext(site);
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const [deployments, metrics] = await Promise.all([
+      client.getDeployments(site.id, 1),
+      getSiteBuildMetrics(client, history, site.id, billingPeriodRange(quota)),
+    ]);
+    const status = { site, latestDeployment: deployments[0] || null, metrics };
+    const lowBuildMinutes = isLowOnBuildMinutes(quota);
+    const data = {
+      found: true,
+      site: serializeSite(status.site),
+      latestDeployment: status.latestDeployment ? serializeDeployment(status.latestDeployment) : null,
+      metrics: status.metrics,
+      buildMinutes: quota,
+    };
+
+    let report = `**📡 ${context.name || site.name} Monitoring Report**\n\n`;
+    
+    // Site information
+    report += `**📍 Site Information:**\n`;
+    report += `• Name: ${status.site.name}\n`;
+    report += `• URL: ${status.site.url}\n`;
+    report += `• State: ${status.site.state}\n`;
+    report += `• Last Updated: ${new Date(status.site.updated_at).toLocaleString()}\n\n`;
+
+    // Latest deployment status
+    if (status.latestDeployment) {
+      const deploy = status.latestDeployment;
+      const deployStatus = deploy.state === 'ready' ? '✅ LIVE' : 
+                    deploy.state === 'error' ? '❌ FAILED' : 
+                    deploy.state === 'building' ? '🔄 BUILDING' : '⏳ PENDING';
+      
+      report += `**🚀 Current Deployment Status:**\n`;
+      report += `• Status: ${deployStatus}\n`;
+      report += `• Deploy Time: ${new Date(deploy.created_at).toLocaleString()}\n`;
+      report += `• Branch: ${deploy.branch || 'unknown'}\n`;
+      report += `• Build Duration: ${deploy.deploy_time ? Math.ceil(deploy.deploy_time / 60) + ' minutes' : 'unknown'}\n`;
+      if (deploy.error_message) {
+        report += `• Error: ${deploy.error_message.substring(0, 100)}...\n`;
+      }
+      report += `\n`;
+    }
+
+    // Build metrics
+    if (status.metrics) {
+      report += `**📊 Build Performance:**\n`;
+      report += `• Average Build Time: ${metrics.averageBuildTime} minutes\n`;
+      report += `• Build Minutes Used: ${metrics.buildMinutesUsed} minutes (${siteShare(metrics.buildMinutesUsed, quota)}% of the team's)\n`;
+      report += `• Team Minutes Remaining: ${quota.remaining}/${quota.includedMinutes} minutes\n`;
+      report += `• Failure Rate: ${metrics.failureRate}%\n\n`;
+
+      // Alerts and recommendations
+      report += `**🔔 Status & Recommendations:**\n`;
+      if (lowBuildMinutes) {
+        report += `⚠️ **LOW BUILD MINUTES:** Only ${quota.remaining} of the team's minutes remaining\n`;
+        report += `• Optimize the build process\n`;
+        report += `• Consider reducing build frequency\n`;
+      }
+      if (metrics.failureRate > 20) {
+        report += `⚠️ **HIGH FAILURE RATE:** ${metrics.failureRate}% of builds failing\n`;
+        report += `• Investigate recurring build issues\n`;
+        report += `• Review dependency conflicts\n`;
+      }
+      if (!lowBuildMinutes && metrics.failureRate <= 20) {
+        report += `✅ **HEALTHY STATUS:** Deployment is stable\n`;
+        report += `• Build performance is optimal\n`;
+        report += `• Continue monitoring for consistency\n`;
+      }
+    }
+
+    const packs = formatRecommendationPacks(context, 'monitoring');
+    if (packs) {
+      report += `\n${packs}\n`;
+    }
+
+    return { markdown: report, data };
+  },
+});
+
+// Earlier name of monitor-site, kept so existing clients keep working
+export const monitorDigitalzangoCalendarTool = defineTool({
+  ...monitorSiteTool,
+  name: "monitor-digitalzango-calendar",
+  description: "Deprecated: use monitor-site. Monitor a project's site: latest deployment, build performance and the project's monitoring checks",
+});
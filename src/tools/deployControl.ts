@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { getSiteBuildMetrics } from '../netlify/history';
+import { billingPeriodRange } from '../netlify/usage';
+import { defineTool } from './registry';
+import { deployActionSchema, serializeDeployment } from './schemas';
+import { CANCELLABLE_DEPLOY_STATES, deployActionGuardSchema, getTeamBuildMinutes, guardDeployAction, siteReferenceSchema } from './helpers';
+
+// Deploy control tools - these change deployments and only act when confirmed
+
+export const triggerBuildTool = defineTool({
+  name: "trigger-build",
+  description: "Trigger a new production build for a site (requires confirmation)",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    clearCache: z.boolean().default(false).describe("Clear the build cache before building"),
+    ...deployActionGuardSchema,
+  }),
+  outputSchema: deployActionSchema,
+  errorMessage: "Error triggering build",
+  handler: async ({ siteId: requestedSiteId, clearCache, dryRun, confirm }, { client, profile, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, siteId, billingPeriodRange(quota));
+
+    const plan = [
+      `Site: ${siteId}`,
+      `Clear cache: ${clearCache ? 'yes' : 'no'}`,
+      `Estimated cost: ${metrics.averageBuildTime} minutes (${quota.remaining} of the team's minutes remaining)`
+    ];
+    const preview = guardDeployAction('Trigger Build', plan, { dryRun, confirm });
+
+    if (preview) {
+      return preview;
+    }
+
+    const build = await client.triggerBuild(siteId, { clearCache });
+
+    return {
+      markdown: `**🚀 Build Triggered for ${siteId}**
+
+• Build ID: ${build.id}
+• Deployment ID: ${build.deploy_id}
+• Cache cleared: ${clearCache ? 'yes' : 'no'}
+
+Use check-deployment-status to follow the build.`,
+      data: { action: 'Trigger Build', status: 'completed' as const, plan, build: { id: build.id, deploy_id: build.deploy_id } },
+    };
+  },
+});
+
+export const retryDeploymentTool = defineTool({
+  name: "retry-deployment",
+  description: "Retry a previous deployment (requires confirmation)",
+  inputSchema: z.object({
+    deploymentId: z.string().min(1).describe("Deployment ID to retry"),
+    ...deployActionGuardSchema,
+  }),
+  outputSchema: deployActionSchema,
+  errorMessage: "Error retrying deployment",
+  handler: async ({ deploymentId, dryRun, confirm }, { client }) => {
+    const deployment = await client.getDeploymentInfo(deploymentId);
+
+    const plan = [
+      `Deployment: ${deployment.id} (${deployment.state})`,
+      `Branch: ${deployment.branch || 'unknown'}`,
+      `Commit: ${deployment.commit_ref?.substring(0, 7) || 'unknown'}`
+    ];
+    const preview = guardDeployAction('Retry Deployment', plan, { dryRun, confirm });
+
+    if (preview) {
+      return preview;
+    }
+
+    const retried = await client.retryDeployment(deploymentId);
+
+    return {
+      markdown: `**🔄 Deployment Retry Started**
+
+• Deployment ID: ${retried.id}
+• State: ${retried.state}
+• Branch: ${retried.branch || 'unknown'}`,
+      data: { action: 'Retry Deployment', status: 'completed' as const, plan, deployment: serializeDeployment(retried) },
+    };
+  },
+});
+
+export const cancelDeploymentTool = defineTool({
+  name: "cancel-deployment",
+  description: "Cancel a deployment that is still building (requires confirmation)",
+  inputSchema: z.object({
+    deploymentId: z.string().min(1).describe("Deployment ID to cancel"),
+    ...deployActionGuardSchema,
+  }),
+  outputSchema: deployActionSchema,
+  errorMessage: "Error cancelling deployment",
+  handler: async ({ deploymentId, dryRun, confirm }, { client }) => {
+    const deployment = await client.getDeploymentInfo(deploymentId);
+
+    if (!CANCELLABLE_DEPLOY_STATES.includes(deployment.state)) {
+      const reason = `Deployment ${deploymentId} is already ${deployment.state} and cannot be cancelled`;
+      return {
+        markdown: `⚠️ ${reason}`,
+        data: { action: 'Cancel Deployment', status: 'refused' as const, plan: [], deployment: serializeDeployment(deployment), reason },
+      };
+    }
+
+    const plan = [
+      `Deployment: ${deployment.id} (${deployment.state})`,
+      `Branch: ${deployment.branch || 'unknown'}`,
+      `Started: ${new Date(deployment.created_at).toLocaleString()}`
+    ];
+    const preview = guardDeployAction('Cancel Deployment', plan, { dryRun, confirm });
+
+    if (preview) {
+      return preview;
+    }
+
+    const cancelled = await client.cancelDeployment(deploymentId);
+
+    return {
+      markdown: `**🛑 Deployment Cancelled**
+
+• Deployment ID: ${cancelled.id}
+• State: ${cancelled.state}`,
+      data: { action: 'Cancel Deployment', status: 'completed' as const, plan, deployment: serializeDeployment(cancelled) },
+    };
+  },
+});
+
+export const rollbackToDeployTool = defineTool({
+  name: "rollback-to-deploy",
+  description: "Publish a previous successful deployment as the live site (requires confirmation)",
+  inputSchema: z.object({
+    deploymentId: z.string().min(1).describe("Deployment ID to restore and publish"),
+    ...deployActionGuardSchema,
+  }),
+  outputSchema: deployActionSchema,
+  errorMessage: "Error rolling back deployment",
+  handler: async ({ deploymentId, dryRun, confirm }, { client }) => {
+    const deployment = await client.getDeploymentInfo(deploymentId);
+
+    if (deployment.state !== 'ready') {
+      const reason = `Deployment ${deploymentId} is ${deployment.state} - only successful (ready) deployments can be published`;
+      return {
+        markdown: `⚠️ ${reason}`,
+        data: { action: 'Rollback to Deployment', status: 'refused' as const, plan: [], deployment: serializeDeployment(deployment), reason },
+      };
+    }
+
+    const plan = [
+      `Site: ${deployment.site_id}`,
+      `Deployment: ${deployment.id}`,
+      `Branch: ${deployment.branch || 'unknown'}`,
+      `Commit: ${deployment.commit_ref?.substring(0, 7) || 'unknown'}`,
+      `Built: ${new Date(deployment.created_at).toLocaleString()}`
+    ];
+    const preview = guardDeployAction('Rollback to Deployment', plan, { dryRun, confirm });
+
+    if (preview) {
+      return preview;
+    }
+
+    const restored = await client.restoreDeployment(deployment.site_id, deploymentId);
+
+    return {
+      markdown: `**⏪ Rollback Complete**
+
+• Live deployment: ${restored.id}
+• Published: ${restored.published_at ? new Date(restored.published_at).toLocaleString() : 'pending'}
+• URL: ${restored.url || restored.deploy_url || 'unknown'}`,
+      data: { action: 'Rollback to Deployment', status: 'completed' as const, plan, deployment: serializeDeployment(restored) },
+    };
+  },
+});
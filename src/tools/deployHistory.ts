@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { DEFAULT_INITIAL_DEPLOYS, MonthlyHistory, summarizeHistoryByMonth, syncSiteHistory } from '../netlify/history';
+import { defineTool } from './registry';
+import { siteReferenceSchema } from './helpers';
+
+// Deploy history tools - keep the local record that metrics and trend tools read from
+
+export const syncDeployHistoryTool = defineTool({
+  name: "sync-deploy-history",
+  description: "Import or update the local deploy history of a site (deploys, failure diagnoses and build metrics snapshots) and summarize it by month. Once imported, metrics and trend tools read from it and keep it current",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    initialDeploys: z.number().int().min(1).max(10000).default(DEFAULT_INITIAL_DEPLOYS).describe(`Deploys to import when the site has no history yet (default: ${DEFAULT_INITIAL_DEPLOYS})`),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    historyDir: z.string(),
+    sync: z.object({
+      newDeploys: z.number(),
+      updatedDeploys: z.number(),
+      diagnosed: z.number(),
+      undiagnosed: z.number().describe("Failed deploys left for the next sync to diagnose"),
+    }),
+    totalDeploys: z.number(),
+    oldestDeployAt: z.string().nullable(),
+    newestDeployAt: z.string().nullable(),
+    metricsSnapshots: z.number(),
+    months: z.array(z.object({
+      month: z.string(),
+      deploys: z.number(),
+      failures: z.number(),
+      failureRate: z.number(),
+      averageBuildTime: z.number().describe("Minutes"),
+      buildMinutesUsed: z.number(),
+      topFailureCategory: z.string().nullable(),
+    })),
+  }),
+  errorMessage: "Error syncing deploy history",
+  handler: async ({ siteId: requestedSiteId, initialDeploys }, { client, resolveSite, history }) => {
+    if (!history.enabled) {
+      throw new Error('The local deploy history is disabled - set NETLIFY_HISTORY_ENABLED=true to record it');
+    }
+    const { id: siteId } = await resolveSite(requestedSiteId);
+    const result = await syncSiteHistory(client, history, siteId, { initialDeploys });
+    const siteHistory = history.read(siteId);
+    const months = summarizeHistoryByMonth(siteHistory);
+
+    const data = {
+      siteId,
+      historyDir: history.dir,
+      sync: {
+        newDeploys: result.newDeploys,
+        updatedDeploys: result.updatedDeploys,
+        diagnosed: result.diagnosed,
+        undiagnosed: result.undiagnosed,
+      },
+      totalDeploys: result.totalDeploys,
+      oldestDeployAt: result.oldestDeployAt,
+      newestDeployAt: result.newestDeployAt,
+      metricsSnapshots: siteHistory.metrics.length,
+      months,
+    };
+
+    let report = `**🗄️ Deploy History for ${siteId}:**\n\n`;
+    report += `✅ Synced: ${result.newDeploys} new deploys, ${result.updatedDeploys} updated, ${result.diagnosed} failures diagnosed\n`;
+    if (result.undiagnosed > 0) {
+      report += `⚠️ ${result.undiagnosed} older failures are still undiagnosed; they are diagnosed on the next syncs\n`;
+    }
+    report += `• Recorded: ${result.totalDeploys} deploys`;
+    if (result.oldestDeployAt && result.newestDeployAt) {
+      report += ` from ${new Date(result.oldestDeployAt).toLocaleDateString()} to ${new Date(result.newestDeployAt).toLocaleDateString()}`;
+    }
+    report += `\n• Metrics snapshots: ${siteHistory.metrics.length}\n• Stored in: ${history.dir}\n`;
+
+    if (months.length > 0) {
+      report += `\n**By Month:**\n${months.map(formatMonth).join('\n')}`;
+    }
+
+    return { markdown: report, data };
+  },
+});
+
+function formatMonth(month: MonthlyHistory): string {
+  const failures = month.failures > 0
+    ? `${month.failures} failed (${month.failureRate}%)${month.topFailureCategory ? `, mostly ${month.topFailureCategory}` : ''}`
+    : 'no failures';
+  return `• ${month.month}: ${month.deploys} deploys, ${failures}, ${month.averageBuildTime} min average, ${month.buildMinutesUsed} build minutes`;
+}
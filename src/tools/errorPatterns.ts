@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { BuildLogLine, getBuildLogLines, normalizeBuildLog } from '../netlify/logs';
+import { config } from '../utils/config';
+import { ErrorPatternAnalyzer } from '../utils/errorAnalysis';
+import { checkPattern, compilePattern, patternDefinitionSchema } from '../utils/patternCatalog';
+import { defineTool } from './registry';
+import { errorPatternSchema, serializeErrorPattern } from './schemas';
+
+// Error pattern catalog tools - inspect the loaded patterns and try new ones before adding them
+
+const TEST_PATTERN_SOURCE = 'test-error-pattern';
+
+export const listErrorPatternsTool = defineTool({
+  name: "list-error-patterns",
+  description: "List the error patterns used to diagnose build failures, with the pattern files they were loaded from",
+  inputSchema: z.object({
+    category: z.string().optional().describe("Only patterns whose category contains this text"),
+    severity: z.enum(['low', 'medium', 'high', 'critical']).optional().describe("Only patterns of this severity"),
+    origin: z.enum(['builtin', 'project']).optional().describe("Only built-in patterns or only the project's own"),
+  }),
+  outputSchema: z.object({
+    total: z.number(),
+    sources: z.array(z.object({
+      path: z.string(),
+      origin: z.enum(['builtin', 'project']),
+      version: z.number(),
+      patterns: z.number(),
+    })),
+    warnings: z.array(z.string()),
+    patterns: z.array(errorPatternSchema),
+  }),
+  errorMessage: "Error listing error patterns",
+  handler: async ({ category, severity, origin }) => {
+    const catalog = config.errorPatterns;
+    const builtinSources = catalog.sources.filter(source => source.origin === 'builtin').length;
+
+    const patterns = catalog.patterns.filter(pattern =>
+      (!category || pattern.category.toLowerCase().includes(category.toLowerCase())) &&
+      (!severity || pattern.severity === severity) &&
+      (!origin || pattern.source.startsWith('builtin/') === (origin === 'builtin'))
+    );
+
+    const sourceList = catalog.sources.map(source =>
+      `• ${source.path} (${source.origin}, ${source.patterns} patterns)`
+    ).join('\n');
+    const patternList = patterns.map(pattern =>
+      `• **${pattern.id}** - ${pattern.category} (${pattern.severity}, ${pattern.buildTimeImpact} min)\n  \`/${pattern.pattern.source}/${pattern.pattern.flags}\`\n  Source: ${pattern.source}`
+    ).join('\n\n');
+
+    let report = `**📚 Error Pattern Catalog (${patterns.length} of ${catalog.patterns.length} patterns):**\n\n`;
+    report += `**Pattern Files:**\n${sourceList}\n\n`;
+    report += patternList || 'No patterns match the filters.';
+    if (catalog.sources.length === builtinSources) {
+      report += `\n\nAdd project patterns in ./error-patterns or NETLIFY_ERROR_PATTERNS_PATH; test them first with test-error-pattern.`;
+    }
+    if (catalog.warnings.length > 0) {
+      report += `\n\n**Warnings:**\n${catalog.warnings.map(warning => `⚠️ ${warning}`).join('\n')}`;
+    }
+
+    return {
+      markdown: report,
+      data: {
+        total: patterns.length,
+        sources: catalog.sources,
+        warnings: catalog.warnings,
+        patterns: patterns.map(serializeErrorPattern),
+      },
+    };
+  },
+});
+
+export const testErrorPatternTool = defineTool({
+  name: "test-error-pattern",
+  description: "Check a new error pattern against a sample log or a deployment's build log, and how it would rank in a diagnosis",
+  inputSchema: z.object({
+    pattern: z.string().min(1).describe("Regular expression to test, as it would appear in a pattern file"),
+    flags: patternDefinitionSchema.shape.flags.describe("Regular expression flags (i, m, s, u)"),
+    id: patternDefinitionSchema.shape.id.default('test-pattern').describe("Pattern id; use an existing id to test an override of that pattern"),
+    category: z.string().min(1).default('Custom Pattern').describe("Category reported when the pattern matches"),
+    severity: z.enum(['low', 'medium', 'high', 'critical']).default('medium').describe("Severity of the errors the pattern recognizes"),
+    sampleLog: z.string().optional().describe("Build log text to test against"),
+    deployId: z.string().min(1).optional().describe("Test against the build log of this deployment instead of sampleLog"),
+  }),
+  outputSchema: z.object({
+    valid: z.boolean(),
+    compileError: z.string().nullable(),
+    totalLines: z.number(),
+    matches: z.array(z.object({ line: z.number(), message: z.string() })),
+    matchesInErrorBlocks: z.number(),
+    rank: z.number().nullable().describe("Position of the pattern in the diagnosis, 1 being the most likely cause"),
+    confidence: z.number().nullable(),
+    diagnosis: z.array(z.object({
+      id: z.string(),
+      category: z.string(),
+      score: z.number(),
+      confidence: z.number(),
+    })),
+  }),
+  errorMessage: "Error testing error pattern",
+  handler: async ({ pattern, flags, id, category, severity, sampleLog, deployId }, { client }) => {
+    const compileError = checkPattern(pattern, flags);
+    if (compileError) {
+      return {
+        markdown: `**🧪 Error Pattern Test**\n\n❌ Invalid pattern \`/${pattern}/${flags}\`: ${compileError}`,
+        data: { valid: false, compileError, totalLines: 0, matches: [], matchesInErrorBlocks: 0, rank: null, confidence: null, diagnosis: [] },
+      };
+    }
+
+    let lines: BuildLogLine[];
+    if (deployId) {
+      lines = await getBuildLogLines(client, deployId);
+    } else if (sampleLog !== undefined) {
+      lines = normalizeBuildLog([{ timestamp: '', level: 'info', message: sampleLog, source: 'sample' }]);
+    } else {
+      throw new Error('Pass sampleLog or deployId with the log to test the pattern against');
+    }
+
+    const existing = config.errorPatterns.patterns.find(entry => entry.id === id);
+    const candidate = compilePattern({
+      id,
+      pattern,
+      flags,
+      category,
+      severity,
+      buildTimeImpact: existing?.buildTimeImpact ?? 0,
+      commonCauses: existing?.commonCauses ?? [],
+      quickFixes: existing?.quickFixes ?? [],
+      preventionTips: existing?.preventionTips ?? [],
+      source: TEST_PATTERN_SOURCE,
+    });
+    const patterns = [...config.errorPatterns.patterns.filter(entry => entry.id !== id), candidate];
+
+    const matches = lines.filter(line => candidate.pattern.test(line.message)).map(line => ({ line: line.line, message: line.message }));
+    const blockLines = new Set(ErrorPatternAnalyzer.extractErrorBlocks(lines).flatMap(block => block.lines.map(line => line.line)));
+    const matchesInErrorBlocks = matches.filter(match => blockLines.has(match.line)).length;
+
+    const diagnosis = ErrorPatternAnalyzer.diagnose(lines, undefined, patterns);
+    const position = diagnosis.candidates.findIndex(entry => entry.pattern === candidate);
+    const ranked = position >= 0 ? diagnosis.candidates[position] : null;
+
+    let report = `**🧪 Error Pattern Test: \`/${pattern}/${flags}\`**\n\n`;
+    report += `✅ Pattern compiles${existing ? ` (overriding ${existing.id} from ${existing.source})` : ''}\n\n`;
+    report += `**Matches:** ${matches.length} of ${lines.length} lines\n`;
+    if (matches.length > 0) {
+      report += `\`\`\`\n${matches.slice(0, 20).map(match => `line ${match.line} | ${match.message}`).join('\n')}\n\`\`\`\n`;
+    }
+
+    report += `\n**Diagnosis With This Pattern:**\n`;
+    if (ranked) {
+      report += position === 0
+        ? `🥇 Most likely cause (${ranked.confidence}% confidence)\n`
+        : `⚠️ Ranked #${position + 1} behind ${diagnosis.candidates[0].pattern.category} (${ranked.confidence}% confidence)\n`;
+    } else if (matches.length > 0) {
+      report += `⚠️ Only matches lines outside error blocks, so it would not contribute to a diagnosis\n`;
+    } else {
+      report += `❌ Does not match the log\n`;
+    }
+    report += diagnosis.candidates.slice(0, 5).map((entry, index) =>
+      `${index + 1}. ${entry.pattern.category}${entry.pattern === candidate ? ' (tested pattern)' : ''} - score ${entry.score}, ${entry.confidence}%`
+    ).join('\n');
+
+    return {
+      markdown: report,
+      data: {
+        valid: true,
+        compileError: null,
+        totalLines: lines.length,
+        matches,
+        matchesInErrorBlocks,
+        rank: ranked ? position + 1 : null,
+        confidence: ranked ? ranked.confidence : null,
+        diagnosis: diagnosis.candidates.slice(0, 5).map(entry => ({
+          id: entry.pattern.id,
+          category: entry.pattern.category,
+          score: entry.score,
+          confidence: entry.confidence,
+        })),
+      },
+    };
+  },
+});
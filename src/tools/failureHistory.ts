@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { NetlifyClient, NetlifyDeployment } from '../netlify/client';
+import { diagnoseDeployment } from '../netlify/history';
+import { bisectDeploys, compareCommitsUrl } from '../utils/deployBisect';
+import { BuildDiagnosis, formatErrorDetails, formatEvidence } from '../utils/errorAnalysis';
+import {
+  clusterFailures,
+  describeFailure,
+  FailedBuild,
+  FailureCluster,
+  FailureOccurrence,
+  failureSignature
+} from '../utils/failureClustering';
+import { defineTool } from './registry';
+import { siteReferenceSchema } from './helpers';
+import { buildDiagnosisSchema, deploymentSchema, failureClusterSchema, serializeDeployment, serializeDiagnosis } from './schemas';
+
+// Failure history tools - look across many failed deploys instead of one at a time
+
+// Upper bound on the deploy history read while looking for failures
+const MAX_SCANNED_DEPLOYS = 200;
+
+export const findRecurringFailuresTool = defineTool({
+  name: "find-recurring-failures",
+  description: "Group the recent failed deploys of a site by normalized error, showing when each failure started, how often it recurs and on which branches",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    limit: z.number().int().min(1).max(50).default(10).describe("Number of recent failed deploys to analyze (default: 10)"),
+    branch: z.string().min(1).optional().describe("Only analyze deploys from this branch"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    branch: z.string().optional(),
+    scannedDeploys: z.number(),
+    analyzedFailures: z.number(),
+    missingLogs: z.number().describe("Failed deploys whose build log is no longer available; their error message was used instead"),
+    clusters: z.array(failureClusterSchema),
+  }),
+  errorMessage: "Error finding recurring failures",
+  handler: async ({ siteId: requestedSiteId, limit, branch }, { client, resolveSite }) => {
+    const { id: siteId } = await resolveSite(requestedSiteId);
+
+    const history: NetlifyDeployment[] = [];
+    const failed: NetlifyDeployment[] = [];
+    for await (const deployment of client.iterateDeployments(siteId, { branch })) {
+      history.push(deployment);
+      if (failed.length < limit) {
+        if (deployment.state === 'error') failed.push(deployment);
+      } else if (deployment.state === 'ready' && failed.some(failure => failure.branch === deployment.branch)) {
+        // A success older than the failures shows where the earliest cluster started
+        break;
+      }
+      if (history.length >= MAX_SCANNED_DEPLOYS) break;
+    }
+
+    const failures: FailedBuild[] = [];
+    let missingLogs = 0;
+    for (const deployment of failed) {
+      const { diagnosis, logAvailable } = await diagnoseDeployment(client, deployment);
+      if (!logAvailable) missingLogs++;
+      failures.push(describeFailure(deployment, diagnosis));
+    }
+
+    const clusters = clusterFailures(failures, history);
+    const data = { siteId, branch, scannedDeploys: history.length, analyzedFailures: failures.length, missingLogs, clusters };
+
+    if (failures.length === 0) {
+      return {
+        markdown: `✅ No failed deployments found for site: ${siteId}${branch ? ` on branch ${branch}` : ''} (${history.length} deploys checked)`,
+        data,
+      };
+    }
+
+    let report = `**🔁 Recurring Failures for ${siteId}${branch ? ` (${branch})` : ''}:**\n\n`;
+    report += `${failures.length} failed deploys out of ${history.length} checked, in ${clusters.length} distinct failures.\n`;
+    if (missingLogs > 0) {
+      report += `⚠️ ${missingLogs} build logs are no longer available; their deployment error message was used instead.\n`;
+    }
+    report += '\n' + clusters.map(formatCluster).join('\n\n');
+    report += `\n\nUse analyze-build-error with a deploy ID for the full diagnosis of one failure.`;
+
+    return { markdown: report, data };
+  },
+});
+
+export const bisectDeployFailureTool = defineTool({
+  name: "bisect-deploy-failure",
+  description: "Find where a branch broke: walk back from a failed deploy to the last successful one, report the commit range between them and diagnose the first failed build",
+  inputSchema: z.object({
+    deployId: z.string().min(1).describe("Failed deployment to start from"),
+    maxDeploys: z.number().int().min(1).max(MAX_SCANNED_DEPLOYS).default(50).describe("Maximum number of deploys on the branch to walk back through (default: 50)"),
+  }),
+  outputSchema: z.object({
+    deployId: z.string(),
+    siteId: z.string(),
+    branch: z.string().nullable(),
+    lastGreen: deploymentSchema.nullable(),
+    firstRed: deploymentSchema,
+    failedDeploys: z.number().describe("Failed deploys from the first failure up to the starting deploy"),
+    skippedDeploys: z.number().describe("Cancelled or unfinished deploys in between"),
+    commitRange: z.object({
+      base: z.string().nullable().describe("Commit of the last successful deploy"),
+      head: z.string().nullable().describe("Commit of the first failed deploy"),
+      compareUrl: z.string().nullable(),
+    }),
+    sameFailure: z.boolean().describe("Whether the starting deploy fails with the same error as the first failed deploy"),
+    diagnosis: buildDiagnosisSchema,
+  }),
+  errorMessage: "Error bisecting deploy failure",
+  handler: async ({ deployId, maxDeploys }, { client }) => {
+    const start = await client.getDeploymentInfo(deployId);
+    if (start.state !== 'error') {
+      throw new Error(`Deployment ${deployId} did not fail (state: ${start.state}) - start from a failed deploy`);
+    }
+
+    // `until` is exclusive, so move it just past the starting deploy
+    const until = new Date(new Date(start.created_at).getTime() + 1);
+    const history: NetlifyDeployment[] = [];
+    for await (const deployment of client.iterateDeployments(start.site_id, { branch: start.branch, until })) {
+      if (history.length === 0 && deployment.id !== deployId) continue;
+      history.push(deployment);
+      if (deployment.state === 'ready' || history.length >= maxDeploys) break;
+    }
+    if (history.length === 0) {
+      throw new Error(`Deployment ${deployId} was not found in the deploy history of site ${start.site_id}`);
+    }
+
+    const { firstRed, lastGreen, failedRun, skipped } = bisectDeploys(history);
+    const { diagnosis } = await diagnoseDeployment(client, firstRed);
+    const sameFailure = firstRed.id === deployId || await failsTheSameWay(client, history[0], firstRed, diagnosis);
+
+    const base = lastGreen?.commit_ref || null;
+    const head = firstRed.commit_ref || null;
+    const compareUrl = base && head && base !== head ? compareCommitsUrl(firstRed.commit_url || lastGreen?.commit_url, base, head) : null;
+
+    const data = {
+      deployId,
+      siteId: start.site_id,
+      branch: start.branch || null,
+      lastGreen: lastGreen ? serializeDeployment(lastGreen) : null,
+      firstRed: serializeDeployment(firstRed),
+      failedDeploys: failedRun.length,
+      skippedDeploys: skipped,
+      commitRange: { base, head, compareUrl },
+      sameFailure,
+      diagnosis: serializeDiagnosis(diagnosis),
+    };
+
+    let report = `**🔎 Deploy Failure Bisect for ${deployId}**${start.branch ? ` (${start.branch})` : ''}\n\n`;
+    report += lastGreen
+      ? `✅ Last successful deploy: ${formatDeploy(lastGreen)}\n`
+      : `⚠️ No successful deploy in the last ${history.length} deploys - the branch has been failing since at least ${firstRed.id}\n`;
+    report += `❌ First failed deploy: ${formatDeploy(firstRed)}\n`;
+    report += `• ${failedRun.length} failed ${failedRun.length === 1 ? 'deploy' : 'deploys'} up to ${deployId}${skipped > 0 ? ` (${skipped} cancelled or unfinished skipped)` : ''}\n\n`;
+
+    if (base && head) {
+      report += `**Commit Range:** ${shortCommit(base)}...${shortCommit(head)}\n`;
+      if (base === head) {
+        report += `⚠️ Both deploys built the same commit - the failure was not caused by a code change (environment variables, dependencies, build image or a flaky build)\n`;
+      } else if (compareUrl) {
+        report += `Compare: ${compareUrl}\n`;
+      } else {
+        report += `The repository host has no known compare view - compare the commits in your Git client\n`;
+      }
+      report += '\n';
+    }
+
+    const [primary] = diagnosis.candidates;
+    report += `**Diagnosis of ${firstRed.id}:**\n`;
+    if (primary) {
+      report += `Most likely cause: ${primary.pattern.category} (${primary.pattern.severity} severity, ${primary.confidence}% confidence)\n`;
+      report += formatErrorDetails(primary.details).map(detail => `• ${detail}\n`).join('');
+      report += `• Quick Fixes: ${primary.pattern.quickFixes.join(', ')}\n`;
+      report += `\`\`\`\n${formatEvidence(primary.evidence.slice(0, 5))}\n\`\`\``;
+    } else if (diagnosis.unrecognized.length > 0) {
+      report += `Unrecognized error - requires manual investigation\n\`\`\`\n${formatEvidence(diagnosis.unrecognized[0].lines.slice(0, 5))}\n\`\`\``;
+    } else {
+      report += `No error output found in the build log${firstRed.error_message ? `; error message: ${firstRed.error_message}` : ''}`;
+    }
+
+    if (!sameFailure) {
+      report += `\n\n⚠️ ${deployId} fails with a different error than ${firstRed.id} - the branch may have broken more than once. Run analyze-build-error on ${deployId} as well.`;
+    }
+
+    return { markdown: report, data };
+  },
+});
+
+async function failsTheSameWay(
+  client: NetlifyClient,
+  deployment: NetlifyDeployment,
+  firstRed: NetlifyDeployment,
+  firstRedDiagnosis: BuildDiagnosis
+): Promise<boolean> {
+  const { diagnosis } = await diagnoseDeployment(client, deployment);
+  return failureSignature(describeFailure(deployment, diagnosis).message) === failureSignature(describeFailure(firstRed, firstRedDiagnosis).message);
+}
+
+function formatDeploy(deployment: NetlifyDeployment): string {
+  return `${deployment.id} - ${new Date(deployment.created_at).toLocaleString()}, commit ${shortCommit(deployment.commit_ref || null)}`;
+}
+
+function formatCluster(cluster: FailureCluster): string {
+  const icon = cluster.kind === 'persistent' ? '🚨' : cluster.kind === 'intermittent' ? '🔄' : '❌';
+  let text = `${icon} **${cluster.category}** - ${cluster.count} ${cluster.count === 1 ? 'failure' : 'failures'} (${cluster.share}%)\n`;
+  text += `   Signature: \`${cluster.signature}\`\n`;
+  text += `   First seen: ${formatOccurrence(cluster.firstSeen)}\n`;
+  if (cluster.count > 1) {
+    text += `   Last seen: ${formatOccurrence(cluster.lastSeen)}\n`;
+  }
+  text += `   Branches: ${cluster.branches.join(', ') || 'unknown'}\n`;
+  if (cluster.lastSuccessBefore) {
+    text += `   Last success before it: ${formatOccurrence(cluster.lastSuccessBefore)}\n`;
+  }
+
+  const startCommit = shortCommit(cluster.firstSeen.commitRef);
+  if (cluster.kind === 'persistent') {
+    text += `   No build passed between its occurrences since commit ${startCommit} - likely a regression introduced there`;
+  } else if (cluster.kind === 'intermittent') {
+    text += `   ${cluster.successesBetween} successful ${cluster.successesBetween === 1 ? 'build' : 'builds'} in between - likely flaky (network, external services or tests)`;
+  } else {
+    text += `   Seen once, at commit ${startCommit}`;
+  }
+  if (cluster.fixedBy) {
+    text += `\n   ✅ Builds pass again since ${formatOccurrence(cluster.fixedBy)}`;
+  }
+  return text;
+}
+
+function formatOccurrence(occurrence: FailureOccurrence): string {
+  return `${occurrence.deployId} - ${new Date(occurrence.createdAt).toLocaleString()}, ${occurrence.branch || 'unknown branch'}, commit ${shortCommit(occurrence.commitRef)}`;
+}
+
+function shortCommit(commitRef: string | null): string {
+  return commitRef?.substring(0, 7) || 'unknown';
+}
@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { getDeploysInRange, getSiteBuildMetrics } from '../netlify/history';
+import { getBuildLogLines } from '../netlify/logs';
+import { billingPeriodRange, findAccount, getBuildMinutesUsage, siteShare } from '../netlify/usage';
+import { ErrorPatternAnalyzer } from '../utils/errorAnalysis';
+import { formatRecommendationPacks } from '../utils/projectContext';
+import { defineTool } from './registry';
+import {
+  buildMetricsSchema,
+  buildMinutesQuotaSchema,
+  buildMinutesUsageSchema,
+  DeployAction,
+  deployActionSchema,
+  errorPatternSchema,
+  retryRecommendationSchema,
+  serializeDeployment,
+  serializeErrorPattern
+} from './schemas';
+import {
+  calculateRetryRecommendation,
+  deployActionGuardSchema,
+  getProjectContext,
+  getTeamBuildMinutes,
+  getTimeframeRange,
+  guardDeployAction,
+  isLowOnBuildMinutes,
+  siteReferenceSchema
+} from './helpers';
+
+// Phase 2: Free Tier Optimization Tools
+
+export const checkBuildMinutesTool = defineTool({
+  name: "check-build-minutes",
+  description: "Monitor the team's build minutes for the billing period, per-site usage and projected end-of-period usage",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema.describe("Site to highlight - its team's usage is reported (defaults to the profile's site)"),
+  }),
+  outputSchema: z.object({
+    status: z.enum(['critical', 'warning', 'good']),
+    siteId: z.string().nullable(),
+    usage: buildMinutesUsageSchema,
+  }),
+  errorMessage: "Error checking build minutes",
+  handler: async ({ siteId: requestedSiteId }, { client, profile, resolveSite, history }) => {
+    // Minutes are billed per team, so the site only identifies the team when no accountId is configured
+    const site = requestedSiteId || profile.siteId ? await resolveSite(requestedSiteId) : null;
+    const account = await findAccount(client, profile.accountId || site?.account_id || site?.account_slug);
+    const usage = await getBuildMinutesUsage(client, history, account, { limit: profile.buildMinutesLimit });
+
+    const status = isLowOnBuildMinutes(usage) ? 'critical' as const :
+                   usage.remaining < usage.includedMinutes * 0.33 || usage.projectedMinutes > usage.includedMinutes * 0.85 ? 'warning' as const : 'good' as const;
+    const warningLevel = status === 'critical' ? '🔴 CRITICAL' :
+                        status === 'warning' ? '🟡 WARNING' : '🟢 GOOD';
+    const limitSource = usage.limitSource === 'config' ? 'configured limit' :
+                        usage.limitSource === 'plan' ? 'plan allowance' : 'Starter plan default';
+
+    const siteUsage = usage.sites.map(entry =>
+      `• ${entry.siteId === site?.id ? '👉 ' : ''}${entry.name}: ${entry.minutes} minutes (${entry.builds} builds, ${entry.share}%)`
+    );
+    if (usage.unattributedMinutes > 0) {
+      siteUsage.push(`• Other (deleted sites or unreported builds): ${usage.unattributedMinutes} minutes`);
+    }
+
+    return {
+      markdown: `**📊 Build Minutes Status for ${usage.account.name}**
+
+${warningLevel} - ${usage.remaining} minutes remaining
+
+**Billing Period:**
+• ${new Date(usage.period.start).toLocaleDateString()} - ${new Date(usage.period.end).toLocaleDateString()} (day ${Math.ceil(usage.period.daysElapsed)} of ${usage.period.daysTotal})
+
+**Team Usage${usage.account.plan ? ` (${usage.account.plan} plan)` : ''}:**
+• Used: ${usage.minutesUsed}/${usage.includedMinutes} minutes (${usage.percentUsed}%, ${limitSource})
+• Projected by period end: ${usage.projectedMinutes} minutes${usage.projectedOverage > 0 ? ` - ⚠️ ${usage.projectedOverage} minutes over the limit` : ''}
+
+**Usage by Site:**
+${siteUsage.join('\n') || '• No builds this period'}
+
+**Recommendations:**
+${status !== 'good' ? 
+  '⚠️ Consider optimizing builds or reducing deployment frequency' : 
+  '✅ Usage is within healthy limits'}
+
+**Next Actions:**
+• Monitor large content updates that increase build time
+• Consider local testing before deployment
+• Optimize images and assets for faster builds
+• Use build hooks for on-demand deployments
+• Consider disabling deploy previews for non-critical branches`,
+      data: { status, siteId: site?.id ?? null, usage },
+    };
+  },
+});
+
+export const optimizeBuildStrategyTool = defineTool({
+  name: "optimize-build-strategy",
+  description: "Analyze build patterns and suggest optimizations for free tier",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    timeframe: z.enum(["week", "month"]).default("month").describe("Analysis timeframe"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    timeframe: z.string(),
+    deploymentsAnalyzed: z.number(),
+    performance: z.object({
+      averageBuildTime: z.number().describe("Minutes"),
+      minBuildTime: z.number().describe("Minutes"),
+      maxBuildTime: z.number().describe("Minutes"),
+      deploysPerDay: z.number(),
+      successRate: z.number(),
+    }),
+    metrics: buildMetricsSchema.describe("The site's builds in the team's billing period"),
+    siteShare: z.number().describe("Percentage of the team's build minutes used by the site"),
+    buildMinutes: buildMinutesQuotaSchema.describe("The team's build minutes"),
+    recommendedMaxBuildsPerDay: z.number().nullable().describe("Builds per day the team's remaining minutes allow for the rest of the period"),
+    recommendations: z.array(z.string()),
+  }),
+  errorMessage: "Error analyzing build strategy",
+  handler: async ({ siteId: requestedSiteId, timeframe }, { client, profile, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const projectTips = formatRecommendationPacks(getProjectContext(site), 'build-strategy');
+    const range = getTimeframeRange(timeframe);
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, siteId, billingPeriodRange(quota));
+    const share = siteShare(metrics.buildMinutesUsed, quota);
+    const deployments = await getDeploysInRange(client, history, siteId, range);
+    
+    // Analyze build patterns
+    const buildTimes = deployments.map(d => d.deploy_time || 0).filter(t => t > 0);
+    const avgBuildTime = buildTimes.length > 0 ? buildTimes.reduce((a, b) => a + b, 0) / buildTimes.length / 60 : 0; // Convert to minutes
+    const maxBuildTime = buildTimes.length > 0 ? Math.max(...buildTimes) / 60 : 0;
+    const minBuildTime = buildTimes.length > 0 ? Math.min(...buildTimes) / 60 : 0;
+    
+    // Analyze deployment frequency
+    const deploysPerDay = deployments.length / range.days;
+    
+    // Generate optimization recommendations
+    let optimizations: string[] = [];
+    
+    if (avgBuildTime > 5) {
+      optimizations.push("🔧 Build time optimization: Average build time is high - consider code splitting and dependency optimization");
+    }
+    
+    if (deploysPerDay > 3) {
+      optimizations.push("📦 Deployment frequency: High deployment frequency detected - consider batching changes");
+    }
+    
+    if (metrics.failureRate > 15) {
+      optimizations.push("🚨 Failure rate: High failure rate - implement pre-deployment testing");
+    }
+    
+    if (isLowOnBuildMinutes(quota)) {
+      optimizations.push("⏰ Build minutes: The team is approaching its plan's limit - prioritize critical deployments only");
+    }
+    
+    if (optimizations.length === 0) {
+      optimizations.push("✅ Build strategy is well optimized for free tier usage");
+    }
+
+    // Spread what is left of the team's minutes over the rest of the billing period
+    const daysLeft = Math.max(quota.period.daysTotal - quota.period.daysElapsed, 1);
+    const recommendedMaxBuildsPerDay = avgBuildTime > 0 ? Math.max(0, Math.floor(quota.remaining / daysLeft / avgBuildTime)) : null;
+
+    return {
+      markdown: `**🎯 Build Strategy Analysis (${timeframe})**
+
+**Current Performance:**
+• Average build time: ${avgBuildTime.toFixed(1)} minutes
+• Build time range: ${minBuildTime.toFixed(1)} - ${maxBuildTime.toFixed(1)} minutes
+• Deployments per day: ${deploysPerDay.toFixed(1)}
+• Success rate: ${(100 - metrics.failureRate).toFixed(1)}%
+
+**Free Tier Optimization Recommendations:**
+${optimizations.map(opt => `• ${opt}`).join('\n')}
+
+**Build Frequency Tips:**
+• Schedule content updates during low-traffic periods
+• Batch blog post updates to reduce build frequency
+• Optimize images and charts for faster builds
+• Use incremental builds for content-only changes
+${projectTips ? `\n${projectTips}\n` : ''}
+**Build Minutes Conservation (${quota.account.name}):**
+• Team usage: ${quota.minutesUsed}/${quota.includedMinutes} minutes, ${quota.remaining} remaining until ${new Date(quota.period.end).toLocaleDateString()}
+• This site: ${metrics.buildMinutesUsed} minutes (${share}% of the team's)
+• Projected by period end: ${quota.projectedMinutes} minutes${quota.projectedOverage > 0 ? ` - ⚠️ ${quota.projectedOverage} minutes over the limit` : ''}
+• Recommended max builds/day: ${recommendedMaxBuildsPerDay ?? 'n/a'} builds
+• Deployments analyzed: ${deployments.length} since ${range.since.toLocaleDateString()}`,
+      data: {
+        siteId,
+        timeframe,
+        deploymentsAnalyzed: deployments.length,
+        performance: {
+          averageBuildTime: avgBuildTime,
+          minBuildTime,
+          maxBuildTime,
+          deploysPerDay,
+          successRate: 100 - metrics.failureRate,
+        },
+        metrics,
+        siteShare: share,
+        buildMinutes: quota,
+        recommendedMaxBuildsPerDay,
+        recommendations: optimizations,
+      },
+    };
+  },
+});
+
+export const smartRetryAnalysisTool = defineTool({
+  name: "smart-retry-analysis",
+  description: "Determine if a failed deployment should be retried based on error type and build minutes",
+  inputSchema: z.object({
+    deploymentId: z.string().min(1).describe("Failed deployment ID to analyze"),
+    executeRetry: z.boolean().default(false).describe("Retry the deployment if the analysis recommends it"),
+    ...deployActionGuardSchema,
+  }),
+  outputSchema: z.object({
+    deploymentId: z.string(),
+    errorPattern: errorPatternSchema.nullable(),
+    retry: retryRecommendationSchema,
+    buildMinutes: z.object({
+      remaining: z.number().describe("The team's remaining build minutes this billing period"),
+      estimatedRetryCost: z.number(),
+    }),
+    retryExecution: deployActionSchema.optional(),
+  }),
+  errorMessage: "Error analyzing retry strategy",
+  handler: async ({ deploymentId, executeRetry, dryRun, confirm }, { client, profile, resolveSite, history }) => {
+    const deployment = await client.getDeploymentInfo(deploymentId);
+    const site = await resolveSite(deployment.site_id);
+    const projectTips = formatRecommendationPacks(getProjectContext(site), 'retry');
+    const buildLogs = await getBuildLogLines(client, deploymentId);
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, deployment.site_id, billingPeriodRange(quota));
+    
+    const errorPattern = ErrorPatternAnalyzer.analyzeError(
+      deployment.error_message || '', 
+      buildLogs
+    );
+    
+    const shouldRetry = calculateRetryRecommendation(errorPattern, metrics, quota.remaining);
+
+    const retryCost = errorPattern?.buildTimeImpact || 3;
+    let retryOutcome = '';
+    let retryExecution: DeployAction | undefined;
+    if (executeRetry) {
+      const plan = [
+        `Deployment: ${deploymentId}`,
+        `Estimated retry cost: ${retryCost} minutes`
+      ];
+      if (!shouldRetry.recommended) {
+        const reason = 'Analysis does not recommend a retry';
+        retryOutcome = `\n\n**Retry Execution:**\n• Skipped - analysis does not recommend a retry`;
+        retryExecution = { action: 'Retry Deployment', status: 'skipped', plan, reason };
+      } else {
+        const preview = guardDeployAction('Retry Deployment', plan, { dryRun, confirm });
+        if (preview) {
+          retryOutcome = `\n\n${preview.markdown}`;
+          retryExecution = preview.data;
+        } else {
+          const retried = await client.retryDeployment(deploymentId);
+          retryOutcome = `\n\n**Retry Execution:**\n• ✅ Retry started - deployment ${retried.id.substring(0, 8)} is now ${retried.state}`;
+          retryExecution = { action: 'Retry Deployment', status: 'completed', plan, deployment: serializeDeployment(retried) };
+        }
+      }
+    }
+    
+    return {
+      markdown: `**🤖 Smart Retry Analysis**
+
+**Deployment:** ${deploymentId.substring(0, 8)}
+**Error Type:** ${errorPattern?.category || 'Unknown'}
+**Build Time Impact:** ${errorPattern?.buildTimeImpact || 'Unknown'} minutes
+
+**Retry Recommendation:** ${shouldRetry.recommended ? '✅ RETRY' : '❌ DO NOT RETRY'}
+
+**Reasoning:**
+${shouldRetry.reasons.map(reason => `• ${reason}`).join('\n')}
+
+**Suggested Actions:**
+${errorPattern?.quickFixes.map(fix => `• ${fix}`).join('\n') || '• Manual investigation required'}
+
+**Build Minutes Impact:**
+• Team minutes remaining: ${quota.remaining} minutes
+• Estimated retry cost: ${retryCost} minutes
+• Post-retry remaining: ${quota.remaining - retryCost} minutes
+
+**Recommendations:**
+${shouldRetry.recommended ? 
+  '• Test fix locally before retry\n• Check the site\'s key pages after retry\n• Consider staging deployment first' :
+  '• Fix code issues before attempting retry\n• Use local development for testing\n• Preserve build minutes for critical updates'}${projectTips ? `\n\n${projectTips}` : ''}${retryOutcome}`,
+      data: {
+        deploymentId,
+        errorPattern: errorPattern ? serializeErrorPattern(errorPattern) : null,
+        retry: shouldRetry,
+        buildMinutes: {
+          remaining: quota.remaining,
+          estimatedRetryCost: retryCost,
+        },
+        retryExecution,
+      },
+    };
+  },
+});
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { BuildMetrics, IN_PROGRESS_DEPLOY_STATES, NetlifyClient, NetlifySite } from '../netlify/client';
+import { BuildMinutesQuota, findAccount, getBuildMinutesQuota } from '../netlify/usage';
+import { config } from '../utils/config';
+import { AnalyzedLogLine, ErrorPattern, ErrorPatternAnalyzer } from '../utils/errorAnalysis';
+import { NetlifyProfile } from '../utils/profiles';
+import { findProjectContext, ProjectContext } from '../utils/projectContext';
+import { inspectRepository, RepoInspection } from '../utils/repoInspector';
+import { ToolOutput } from './registry';
+import { DeployAction } from './schemas';
+
+// Helper function for retry recommendation logic: the site's metrics and the team's remaining build minutes
+export function calculateRetryRecommendation(errorPattern: ErrorPattern | null, metrics: BuildMetrics, minutesRemaining: number): { recommended: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+  let recommended = false;
+
+  if (!errorPattern) {
+    reasons.push("Unknown error type - manual investigation required");
+    return { recommended: false, reasons };
+  }
+
+  // Check build minutes availability
+  if (minutesRemaining < 30) {
+    reasons.push("Critical: Less than 30 build minutes remaining");
+    recommended = false;
+  } else if (minutesRemaining < (errorPattern.buildTimeImpact * 2)) {
+    reasons.push("Low build minutes - retry only if critical");
+    recommended = false;
+  } else {
+    // Analyze error type for retry worthiness
+    switch (errorPattern.severity) {
+      case 'low':
+      case 'medium':
+        reasons.push("Error type is likely fixable with retry");
+        recommended = true;
+        break;
+      case 'high':
+        if (errorPattern.category === 'Network Issue' || errorPattern.category === 'Dependency Conflict') {
+          reasons.push("Temporary issue - retry recommended");
+          recommended = true;
+        } else {
+          reasons.push("Code-related issue - fix required before retry");
+          recommended = false;
+        }
+        break;
+      case 'critical':
+        reasons.push("Critical error - requires code changes before retry");
+        recommended = false;
+        break;
+    }
+  }
+
+  // Additional factors
+  if (metrics.failureRate > 30) {
+    reasons.push("High failure rate detected - investigate pattern before retry");
+    recommended = false;
+  }
+
+  return { recommended, reasons };
+}
+
+// Deploy states that can still be cancelled
+export const CANCELLABLE_DEPLOY_STATES = IN_PROGRESS_DEPLOY_STATES;
+
+// Helper function for deploy control tools: returns a preview result unless the action
+// is confirmed and not a dry run, in which case it returns null and the caller proceeds
+export function guardDeployAction(action: string, plan: string[], options: { dryRun?: boolean; confirm?: boolean }): ToolOutput<DeployAction> | null {
+  const planList = plan.map(line => `• ${line}`).join('\n');
+
+  if (options.dryRun) {
+    return {
+      markdown: `**🧪 Dry Run: ${action}**\n\n${planList}\n\nNo changes were made. Run again with \`dryRun: false\` and \`confirm: true\` to execute.`,
+      data: { action, status: 'dry-run', plan },
+    };
+  }
+
+  if (options.confirm !== true) {
+    return {
+      markdown: `**⚠️ Confirmation Required: ${action}**\n\n${planList}\n\nThis action changes your Netlify deployments and may consume build minutes. Run again with \`confirm: true\` to execute.`,
+      data: { action, status: 'confirmation-required', plan },
+    };
+  }
+
+  return null;
+}
+
+// Number of days covered by each analysis timeframe
+const TIMEFRAME_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90
+};
+
+// Helper function converting a timeframe argument into a deploy history date range
+export function getTimeframeRange(timeframe: string): { since: Date; until: Date; days: number } {
+  const days = TIMEFRAME_DAYS[timeframe] || TIMEFRAME_DAYS.month;
+  const until = new Date();
+  const since = new Date(until.getTime() - days * 24 * 60 * 60 * 1000);
+  return { since, until, days };
+}
+
+// The error output of a build log, or its last lines when no error block was found
+export function summarizeBuildLog(buildLogs: AnalyzedLogLine[]): string {
+  const blocks = ErrorPatternAnalyzer.extractErrorBlocks(buildLogs);
+  const lines = blocks.length > 0
+    ? blocks.flatMap(block => block.lines).slice(0, 30)
+    : buildLogs.map((log, index) => ({ line: log.line ?? index + 1, message: log.message })).slice(-10);
+  return lines.map(line => `- line ${line.line}: ${line.message}`).join('\n') || '- (empty build log)';
+}
+
+// Helper function returning the build minutes of the site's team - usage, plan limit and
+// billing period from the account usage API, since Netlify bills minutes per team, not per site
+export async function getTeamBuildMinutes(client: NetlifyClient, profile: NetlifyProfile, site: NetlifySite): Promise<BuildMinutesQuota> {
+  const account = await findAccount(client, profile.accountId || site.account_id || site.account_slug);
+  return getBuildMinutesQuota(client, account, { limit: profile.buildMinutesLimit });
+}
+
+// Helper function flagging a team close to its plan's build minutes, or heading past them
+export function isLowOnBuildMinutes(quota: BuildMinutesQuota): boolean {
+  return quota.remaining < quota.includedMinutes * 0.15 || quota.projectedOverage > 0;
+}
+
+// Helper function returning the project context configured for a site, or the generic one
+export function getProjectContext(site: NetlifySite): ProjectContext {
+  return findProjectContext(config.projectContexts.contexts, site);
+}
+
+// Helper function inspecting the site's local checkout: the given path, else the repoPath of
+// its project context. Null when neither is set.
+export function inspectSiteRepository(site: NetlifySite, repoPath?: string): RepoInspection | null {
+  const path = repoPath || getProjectContext(site).repoPath;
+  return path ? inspectRepository(path) : null;
+}
+
+// Repository argument of the diagnosis tools; resolved with inspectSiteRepository
+export const repoPathSchema = z.string().min(1).optional()
+  .describe("Local checkout of the site's repository, to check its netlify.toml, package.json, lockfiles and .nvmrc against the failure (defaults to the repoPath of the site's project context)");
+
+// Site argument shared by the site-scoped tools; resolved with ToolContext.resolveSite
+export const siteReferenceSchema = z.string().min(1).optional()
+  .describe("Netlify site ID, name, custom domain or alias (defaults to the profile's site)");
+
+// Shared arguments for tools that change deployments
+export const deployActionGuardSchema = {
+  dryRun: z.boolean().default(false).describe("Preview the action without making any changes"),
+  confirm: z.boolean().default(false).describe("Must be true to actually perform the action"),
+};
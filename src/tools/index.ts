@@ -0,0 +1,73 @@
+import { ToolRegistry } from './registry';
+import { cacheStatsTool, helloTool, listProfilesTool } from './status';
+import {
+  analyzeBuildErrorTool,
+  checkDeploymentStatusTool,
+  getAdvancedDeploymentStatusTool,
+  getBuildMetricsTool,
+  getFailedDeploymentsTool,
+  listSitesTool
+} from './monitoring';
+import { checkBuildMinutesTool, optimizeBuildStrategyTool, smartRetryAnalysisTool } from './freeTier';
+import { searchBuildLogsTool, tailBuildLogsTool, watchDeploymentTool } from './buildLogs';
+import { listErrorPatternsTool, testErrorPatternTool } from './errorPatterns';
+import { bisectDeployFailureTool, findRecurringFailuresTool } from './failureHistory';
+import { syncDeployHistoryTool } from './deployHistory';
+import { testRedirectsTool, validateNetlifyConfigTool } from './netlifyConfig';
+import { cancelDeploymentTool, retryDeploymentTool, rollbackToDeployTool, triggerBuildTool } from './deployControl';
+import {
+  analyzeContentPerformanceTool,
+  formatErrorForAiTool,
+  generateContentOptimizationReportTool,
+  monitorDigitalzangoCalendarTool,
+  monitorSiteTool
+} from './contentWorkflow';
+
+export { ToolRegistry, ToolCallContext, ToolContext, ToolDefinition, ToolOutput, ToolProgress, defineTool, formatToolOutput, createErrorResult } from './registry';
+
+// Registers every tool (Phase 1 + Phase 2 + Phase 3 + deploy control); to add a tool,
+// define it in one of the tool modules and list it here
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry().register(
+    helloTool,
+    listProfilesTool,
+    cacheStatsTool,
+    // Phase 1: Advanced monitoring
+    listSitesTool,
+    checkDeploymentStatusTool,
+    getFailedDeploymentsTool,
+    getBuildMetricsTool,
+    analyzeBuildErrorTool,
+    getAdvancedDeploymentStatusTool,
+    // Build logs
+    searchBuildLogsTool,
+    tailBuildLogsTool,
+    watchDeploymentTool,
+    // Error pattern catalog
+    listErrorPatternsTool,
+    testErrorPatternTool,
+    // Failure history
+    findRecurringFailuresTool,
+    bisectDeployFailureTool,
+    // Deploy history
+    syncDeployHistoryTool,
+    // Configuration
+    validateNetlifyConfigTool,
+    testRedirectsTool,
+    // Phase 2: Free Tier Optimization
+    checkBuildMinutesTool,
+    optimizeBuildStrategyTool,
+    smartRetryAnalysisTool,
+    // Deploy control
+    triggerBuildTool,
+    retryDeploymentTool,
+    cancelDeploymentTool,
+    rollbackToDeployTool,
+    // Phase 3: Content Workflow Integration
+    analyzeContentPerformanceTool,
+    formatErrorForAiTool,
+    generateContentOptimizationReportTool,
+    monitorSiteTool,
+    monitorDigitalzangoCalendarTool
+  );
+}
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import { getSiteBuildMetrics } from '../netlify/history';
+import { getBuildLogLines } from '../netlify/logs';
+import { billingPeriodRange, siteShare } from '../netlify/usage';
+import { ErrorPatternAnalyzer, formatErrorDetails, formatEvidence } from '../utils/errorAnalysis';
+import { formatRepoFindings, repoFindingsForDiagnosis } from '../utils/repoInspector';
+import { defineTool } from './registry';
+import { getTeamBuildMinutes, inspectSiteRepository, isLowOnBuildMinutes, repoPathSchema, siteReferenceSchema } from './helpers';
+import {
+  buildDiagnosisSchema,
+  buildMetricsSchema,
+  buildMinutesQuotaSchema,
+  deploymentSchema,
+  repositoryFindingsSchema,
+  serializeDeployment,
+  serializeDiagnosis,
+  serializeSite,
+  siteSchema
+} from './schemas';
+
+// Phase 1: Advanced monitoring tools
+
+export const listSitesTool = defineTool({
+  name: "list-sites",
+  description: "List all Netlify sites in your account",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    total: z.number(),
+    sites: z.array(siteSchema),
+  }),
+  errorMessage: "Error fetching sites",
+  handler: async (_args, { client }) => {
+    const sites = await client.getSites();
+    const siteList = sites.map(site => 
+      `• **${site.name}** (${site.id})\n  URL: ${site.url}\n  State: ${site.state}\n  Updated: ${new Date(site.updated_at).toLocaleString()}`
+    ).join('\n\n');
+
+    return {
+      markdown: `**Your Netlify Sites (${sites.length} total):**\n\n${siteList}`,
+      data: { total: sites.length, sites: sites.map(serializeSite) },
+    };
+  },
+});
+
+export const checkDeploymentStatusTool = defineTool({
+  name: "check-deployment-status",
+  description: "Check recent deployment status for a specific site",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    limit: z.number().int().positive().default(5).describe("Number of recent deployments to check (default: 5)"),
+    branch: z.string().min(1).optional().describe("Only include deployments from this branch"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    branch: z.string().optional(),
+    deployments: z.array(deploymentSchema),
+  }),
+  errorMessage: "Error checking deployment status",
+  handler: async ({ siteId: requestedSiteId, limit, branch }, { client, resolveSite }) => {
+    const { id: siteId } = await resolveSite(requestedSiteId);
+    const deployments = await client.getDeployments(siteId, limit, { branch });
+    const data = { siteId, branch, deployments: deployments.map(serializeDeployment) };
+    
+    if (deployments.length === 0) {
+      return { markdown: `No deployments found for site: ${siteId}`, data };
+    }
+
+    const statusReport = deployments.map(deploy => {
+      const status = deploy.state === 'ready' ? '✅' : 
+                    deploy.state === 'error' ? '❌' : 
+                    deploy.state === 'building' ? '🔄' : '⏳';
+      
+      return `${status} **${deploy.state.toUpperCase()}** - ${new Date(deploy.created_at).toLocaleString()}\n   Branch: ${deploy.branch || 'unknown'}\n   Commit: ${deploy.commit_ref?.substring(0, 7) || 'unknown'}\n   Deploy Time: ${deploy.deploy_time ? Math.ceil(deploy.deploy_time / 60) + ' minutes' : 'unknown'}${deploy.error_message ? `\n   Error: ${deploy.error_message.substring(0, 100)}...` : ''}`;
+    }).join('\n\n');
+
+    return { markdown: `**Recent Deployments for ${siteId}:**\n\n${statusReport}`, data };
+  },
+});
+
+export const getFailedDeploymentsTool = defineTool({
+  name: "get-failed-deployments",
+  description: "Get detailed information about failed deployments",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+    limit: z.number().int().min(0).default(3).describe("Number of failed deployments to retrieve (default: 3)"),
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    deployments: z.array(deploymentSchema),
+  }),
+  errorMessage: "Error fetching failed deployments",
+  handler: async ({ siteId: requestedSiteId, limit }, { client, resolveSite }) => {
+    const { id: siteId } = await resolveSite(requestedSiteId);
+    const failedDeployments = await client.getFailedDeployments(siteId);
+    const limitedFailures = failedDeployments.slice(0, limit);
+    const data = { siteId, deployments: limitedFailures.map(serializeDeployment) };
+    
+    if (limitedFailures.length === 0) {
+      return { markdown: `✅ No failed deployments found for site: ${siteId}`, data };
+    }
+
+    const failureReport = limitedFailures.map(deploy => {
+      return `❌ **Deployment ${deploy.id.substring(0, 8)}**\n   Time: ${new Date(deploy.created_at).toLocaleString()}\n   Branch: ${deploy.branch || 'unknown'}\n   Deploy Time: ${deploy.deploy_time ? Math.ceil(deploy.deploy_time / 60) + ' minutes' : 'unknown'}\n   Error: ${deploy.error_message?.substring(0, 200) || 'No specific error message'}...`;
+    }).join('\n\n');
+
+    return { markdown: `**Failed Deployments for ${siteId}:**\n\n${failureReport}`, data };
+  },
+});
+
+export const getBuildMetricsTool = defineTool({
+  name: "get-build-metrics",
+  description: "Get comprehensive build metrics and performance data",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    metrics: buildMetricsSchema.describe("The site's builds in the team's billing period"),
+    siteShare: z.number().describe("Percentage of the team's build minutes used by the site"),
+    buildMinutes: buildMinutesQuotaSchema.describe("The team's build minutes"),
+    lowBuildMinutes: z.boolean(),
+    highFailureRate: z.boolean(),
+  }),
+  errorMessage: "Error fetching build metrics",
+  handler: async ({ siteId: requestedSiteId }, { client, profile, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const metrics = await getSiteBuildMetrics(client, history, siteId, billingPeriodRange(quota));
+    const share = siteShare(metrics.buildMinutesUsed, quota);
+    const lowBuildMinutes = isLowOnBuildMinutes(quota);
+    
+    const metricsReport = `**📊 Build Metrics for ${siteId}:**
+
+**Performance:**
+• Average Build Time: ${metrics.averageBuildTime} minutes
+• Build Minutes Used: ${metrics.buildMinutesUsed} minutes (${share}% of the team's)
+• Failure Rate: ${metrics.failureRate}%
+
+**Team Build Minutes (${quota.account.name}):**
+• Used: ${quota.minutesUsed}/${quota.includedMinutes} minutes
+• Remaining: ${quota.remaining} minutes until ${new Date(quota.period.end).toLocaleDateString()}
+• Projected by period end: ${quota.projectedMinutes} minutes
+
+**Status:**
+${lowBuildMinutes ? '⚠️ **WARNING:** Low build minutes remaining!' : '✅ Build minutes usage is healthy'}
+${metrics.failureRate > 20 ? '⚠️ **WARNING:** High failure rate detected!' : '✅ Failure rate is acceptable'}
+
+**Recommendations:**
+${lowBuildMinutes ? '• Consider optimizing build process to reduce minutes usage\n' : ''}${metrics.failureRate > 20 ? '• Investigate recurring build failures\n' : ''}• Monitor build performance regularly`;
+
+    return {
+      markdown: metricsReport,
+      data: {
+        siteId,
+        metrics,
+        siteShare: share,
+        buildMinutes: quota,
+        lowBuildMinutes,
+        highFailureRate: metrics.failureRate > 20,
+      },
+    };
+  },
+});
+
+export const analyzeBuildErrorTool = defineTool({
+  name: "analyze-build-error",
+  description: "Analyze build errors with AI-powered pattern recognition",
+  inputSchema: z.object({
+    deployId: z.string().min(1).describe("Deployment ID to analyze for errors"),
+    repoPath: repoPathSchema,
+  }),
+  outputSchema: z.object({
+    deployId: z.string(),
+    diagnosis: buildDiagnosisSchema,
+    repository: repositoryFindingsSchema.nullable(),
+  }),
+  errorMessage: "Error analyzing build error",
+  handler: async ({ deployId, repoPath }, { client, resolveSite, resolveLocalPath }) => {
+    const deployment = await client.getDeploymentInfo(deployId);
+    const logs = await getBuildLogLines(client, deployId);
+    const diagnosis = ErrorPatternAnalyzer.diagnose(logs, deployment.error_message);
+    const inspection = inspectSiteRepository(await resolveSite(deployment.site_id), repoPath && resolveLocalPath(repoPath));
+    const repository = inspection ? { repoPath: inspection.repoPath, findings: repoFindingsForDiagnosis(inspection, diagnosis) } : null;
+    const data = { deployId, diagnosis: serializeDiagnosis(diagnosis), repository };
+
+    if (diagnosis.candidates.length === 0 && diagnosis.unrecognized.length === 0) {
+      return { markdown: `✅ No errors found in build logs for deployment ${deployId}`, data };
+    }
+
+    let analysisReport = `**🔍 Build Error Analysis for Deployment ${deployId}:**\n\n`;
+
+    const [primary, ...alternatives] = diagnosis.candidates;
+    if (primary) {
+      analysisReport += `**Most Likely Cause: ${primary.pattern.category}** (${primary.pattern.severity} severity, ${primary.confidence}% confidence)\n`;
+      analysisReport += formatErrorDetails(primary.details).map(detail => `• ${detail}\n`).join('');
+      if (diagnosis.exitCode !== null) {
+        analysisReport += `• Exit code: ${diagnosis.exitCode}\n`;
+      }
+      analysisReport += `• Build Time Impact: ${primary.pattern.buildTimeImpact} minutes\n`;
+      analysisReport += `• Quick Fixes: ${primary.pattern.quickFixes.join(', ')}\n\n`;
+      analysisReport += `**Evidence:**\n\`\`\`\n${formatEvidence(primary.evidence)}\n\`\`\`\n\n`;
+    } else {
+      analysisReport += `**Most Likely Cause:** Unrecognized Error - requires manual investigation\n\n`;
+    }
+
+    if (alternatives.length > 0) {
+      analysisReport += `**Other Possible Causes:**\n`;
+      analysisReport += alternatives.map(candidate =>
+        `• ${candidate.pattern.category} (${candidate.pattern.severity}, ${candidate.confidence}%) - ${formatEvidence(candidate.evidence.slice(0, 1))}`
+      ).join('\n') + '\n\n';
+    }
+
+    if (diagnosis.unrecognized.length > 0) {
+      analysisReport += `**Unrecognized Error Output:**\n`;
+      analysisReport += diagnosis.unrecognized.map(block => `• ${formatEvidence(block.lines.slice(0, 1))}`).join('\n') + '\n\n';
+    }
+
+    if (repository) {
+      analysisReport += `**Repository Checks (${repository.repoPath}):**\n`;
+      analysisReport += (formatRepoFindings(repository.findings) || '✅ netlify.toml, package.json, lockfiles and Node version are consistent') + '\n\n';
+    }
+
+    analysisReport += `Use search-build-logs with a line's message to see the surrounding output.`;
+
+    return { markdown: analysisReport, data };
+  },
+});
+
+export const getAdvancedDeploymentStatusTool = defineTool({
+  name: "get-advanced-deployment-status",
+  description: "Get advanced deployment status with metrics and analysis",
+  inputSchema: z.object({
+    siteId: siteReferenceSchema,
+  }),
+  outputSchema: z.object({
+    siteId: z.string(),
+    summary: z.object({
+      totalDeployments: z.number(),
+      successfulDeployments: z.number(),
+      failedDeployments: z.number(),
+      buildMinutesAlert: z.boolean(),
+    }),
+    metrics: buildMetricsSchema.describe("The site's builds in the team's billing period"),
+    buildMinutes: buildMinutesQuotaSchema.describe("The team's build minutes"),
+    deployments: z.array(deploymentSchema),
+  }),
+  errorMessage: "Error retrieving advanced deployment status",
+  handler: async ({ siteId: requestedSiteId }, { client, profile, resolveSite, history }) => {
+    const site = await resolveSite(requestedSiteId);
+    const siteId = site.id;
+    const quota = await getTeamBuildMinutes(client, profile, site);
+    const [deployments, metrics] = await Promise.all([
+      client.getDeployments(siteId, 10),
+      getSiteBuildMetrics(client, history, siteId, billingPeriodRange(quota))
+    ]);
+
+    const recentDeployments = deployments.map(deploy => ({
+      id: deploy.id,
+      state: deploy.state,
+      created_at: deploy.created_at,
+      published_at: deploy.published_at,
+      deploy_time: deploy.deploy_time,
+      error_message: deploy.error_message
+    }));
+
+    const summary = {
+      totalDeployments: recentDeployments.length,
+      successfulDeployments: recentDeployments.filter(d => d.state === 'ready').length,
+      failedDeployments: recentDeployments.filter(d => d.state === 'error').length,
+      buildMinutesAlert: isLowOnBuildMinutes(quota)
+    };
+
+    const advancedReport = `**🚀 Advanced Deployment Status for ${siteId}:**
+
+**📊 Summary:**
+• Total Recent Deployments: ${summary.totalDeployments}
+• Successful: ${summary.successfulDeployments} (${Math.round((summary.successfulDeployments / summary.totalDeployments) * 100)}%)
+• Failed: ${summary.failedDeployments} (${Math.round((summary.failedDeployments / summary.totalDeployments) * 100)}%)
+
+**📈 Build Metrics:**
+• Average Build Time: ${metrics.averageBuildTime} minutes
+• Build Minutes Used: ${metrics.buildMinutesUsed} minutes (${siteShare(metrics.buildMinutesUsed, quota)}% of the team's)
+• Team Minutes Remaining: ${quota.remaining}/${quota.includedMinutes} minutes
+• Failure Rate: ${metrics.failureRate}%
+
+**🔔 Alerts:**
+${summary.buildMinutesAlert ? '⚠️ Low build minutes remaining - optimize builds\n' : ''}${metrics.failureRate > 20 ? '⚠️ High failure rate - investigate recurring issues\n' : ''}${summary.buildMinutesAlert || metrics.failureRate > 20 ? '' : '✅ All systems operating normally'}
+
+**📋 Recent Deployments:**
+${recentDeployments.slice(0, 5).map(deploy => {
+  const status = deploy.state === 'ready' ? '✅' : deploy.state === 'error' ? '❌' : '🔄';
+  return `${status} ${deploy.state} - ${new Date(deploy.created_at).toLocaleString()} (${deploy.deploy_time ? Math.ceil(deploy.deploy_time / 60) + 'min' : 'unknown'})`;
+}).join('\n')}`;
+
+    return {
+      markdown: advancedReport,
+      data: { siteId, summary, metrics, buildMinutes: quota, deployments: deployments.map(serializeDeployment) },
+    };
+  },
+});
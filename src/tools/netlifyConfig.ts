@@ -0,0 +1,361 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parseNetlifyConfig } from '../utils/netlifyConfig';
+import { ConfigIssue, ConfigRule, validateNetlifyConfig } from '../utils/netlifyConfigValidator';
+import {
+  RedirectAuditFinding,
+  RedirectHop,
+  RedirectRule,
+  auditRedirectRules,
+  describeRedirectRule,
+  loadRedirectRules,
+  ruleLocation,
+  simulateRequest
+} from '../utils/redirects';
+import { defineTool, ToolContext } from './registry';
+import { getProjectContext, siteReferenceSchema } from './helpers';
+
+// Configuration tools - check netlify.toml and redirect rules before a deploy ships them
+
+const configRuleSchema = z.object({
+  id: z.string(),
+  category: z.string(),
+  commonCauses: z.array(z.string()),
+  quickFixes: z.array(z.string()),
+  preventionTips: z.array(z.string()),
+});
+
+export const validateNetlifyConfigTool = defineTool({
+  name: "validate-netlify-config",
+  description: "Validate a netlify.toml before deploying: TOML syntax, build settings, context overrides, redirects, headers, plugins and functions, with line numbers and fixes",
+  inputSchema: z.object({
+    content: z.string().optional().describe("netlify.toml content to validate"),
+    path: z.string().min(1).optional().describe("Path of a netlify.toml, or of the directory containing it"),
+    siteId: siteReferenceSchema.describe("Validate the netlify.toml in the repoPath of this site's project context, when neither content nor path is given"),
+  }),
+  outputSchema: z.object({
+    source: z.string(),
+    valid: z.boolean(),
+    errors: z.number(),
+    warnings: z.number(),
+    issues: z.array(z.object({
+      ruleId: z.string(),
+      category: z.string(),
+      severity: z.enum(['error', 'warning']),
+      line: z.number().nullable(),
+      path: z.string().nullable(),
+      message: z.string(),
+    })),
+    rules: z.array(configRuleSchema).describe("Causes, fixes and prevention tips of the rules with issues"),
+    summary: z.object({
+      command: z.string().nullable(),
+      publish: z.string().nullable(),
+      base: z.string().nullable(),
+      contexts: z.array(z.string()),
+      redirects: z.number(),
+      headers: z.number(),
+      plugins: z.array(z.string()),
+      functionsDirectory: z.string().nullable(),
+    }).nullable(),
+  }),
+  errorMessage: "Error validating netlify.toml",
+  handler: async ({ content, path: configPath, siteId }, context) => {
+    const { text, source } = await readConfig(content, configPath, siteId, context);
+    const { valid, config, issues } = validateNetlifyConfig(text);
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+    const rules = Array.from(new Set(issues.map(issue => issue.rule)));
+
+    let report = `**🧪 netlify.toml Validation: ${source}**\n\n`;
+    report += issues.length === 0
+      ? '✅ No problems found'
+      : `${valid ? '✅ Netlify can read the file' : '❌ Netlify will reject or misapply this configuration'} - ${errors.length} errors, ${warnings.length} warnings`;
+
+    if (errors.length > 0) report += `\n\n**Errors:**\n${errors.map(formatIssue).join('\n')}`;
+    if (warnings.length > 0) report += `\n\n**Warnings:**\n${warnings.map(formatIssue).join('\n')}`;
+    if (rules.length > 0) report += `\n\n**How to Fix:**\n\n${rules.map(rule => formatRule(rule, issues)).join('\n\n')}`;
+
+    if (config) {
+      const build = config.build;
+      report += `\n\n**Configuration:**\n`;
+      report += `• Build: ${build.command ? `\`${build.command}\`` : 'no command'}${build.publish ? ` → ${build.publish}` : ''}${build.base ? ` (base: ${build.base})` : ''}\n`;
+      report += `• Contexts: ${Object.keys(config.contexts).join(', ') || 'none'}\n`;
+      report += `• Redirects: ${config.redirects.length} • Header rules: ${config.headers.length}\n`;
+      report += `• Plugins: ${config.plugins.map(plugin => plugin.package).join(', ') || 'none'}\n`;
+      report += `• Functions: ${config.functionsDirectory || 'default directory'}`;
+    }
+
+    return {
+      markdown: report,
+      data: {
+        source,
+        valid,
+        errors: errors.length,
+        warnings: warnings.length,
+        issues: issues.map(issue => ({
+          ruleId: issue.rule.id,
+          category: issue.rule.category,
+          severity: issue.severity,
+          line: issue.line,
+          path: issue.path,
+          message: issue.message,
+        })),
+        rules: rules.map(({ id, category, commonCauses, quickFixes, preventionTips }) => ({ id, category, commonCauses, quickFixes, preventionTips })),
+        summary: config ? {
+          command: config.build.command,
+          publish: config.build.publish,
+          base: config.build.base,
+          contexts: Object.keys(config.contexts),
+          redirects: config.redirects.length,
+          headers: config.headers.length,
+          plugins: config.plugins.map(plugin => plugin.package),
+          functionsDirectory: config.functionsDirectory,
+        } : null,
+      },
+    };
+  },
+});
+
+const redirectRuleRefSchema = z.object({
+  file: z.string(),
+  line: z.number().nullable(),
+  rule: z.string().describe("The rule as written in _redirects"),
+});
+
+export const testRedirectsTool = defineTool({
+  name: "test-redirects",
+  description: "Test Netlify redirect and header rules from _redirects, _headers and netlify.toml: which rule fires for each URL and where it leads, or audit the rules for ones that never fire, loops and chains",
+  inputSchema: z.object({
+    mode: z.enum(['simulate', 'audit']).default('simulate').describe("simulate: follow each URL through the rules; audit: find shadowed rules, redirect loops and chains"),
+    urls: z.array(z.string().min(1)).max(100).optional().describe("Paths or full URLs to request, e.g. /calendario/janeiro?ref=news"),
+    country: z.string().length(2).optional().describe("Two-letter country code of the visitor, for Country conditions"),
+    language: z.string().min(2).optional().describe("Browser language of the visitor, e.g. pt-AO, for Language conditions"),
+    existingPaths: z.array(z.string()).optional().describe("Paths served by a file of the deploy, which rules without force (!) leave alone"),
+    redirects: z.string().optional().describe("_redirects content"),
+    headers: z.string().optional().describe("_headers content"),
+    netlifyToml: z.string().optional().describe("netlify.toml content"),
+    path: z.string().min(1).optional().describe("Directory with netlify.toml; _redirects and _headers are read from its publish directory or the directory itself"),
+    siteId: siteReferenceSchema.describe("Read the rules from the repoPath of this site's project context, when no content or path is given"),
+  }),
+  outputSchema: z.object({
+    mode: z.enum(['simulate', 'audit']),
+    sources: z.array(z.object({ file: z.string(), source: z.string() })),
+    redirectRules: z.number(),
+    headerRules: z.number(),
+    problems: z.array(z.object({ file: z.string(), line: z.number().nullable(), message: z.string() })),
+    results: z.array(z.object({
+      url: z.string(),
+      finalUrl: z.string(),
+      status: z.number(),
+      loop: z.boolean(),
+      hops: z.array(z.object({
+        url: z.string(),
+        rule: redirectRuleRefSchema.nullable(),
+        status: z.number(),
+        outcome: z.enum(['redirect', 'rewrite', 'proxy', 'error', 'file', 'none']),
+        target: z.string(),
+        skipped: z.array(z.object({ rule: redirectRuleRefSchema, reason: z.string() })),
+      })),
+      headers: z.record(z.string()),
+    })),
+    findings: z.array(z.object({
+      severity: z.enum(['error', 'warning']),
+      kind: z.enum(['duplicate', 'shadowed', 'loop', 'chain']),
+      rule: redirectRuleRefSchema,
+      shadowedBy: redirectRuleRefSchema.nullable(),
+      message: z.string(),
+    })),
+  }),
+  errorMessage: "Error testing redirects",
+  handler: async ({ mode, urls, country, language, existingPaths, redirects, headers, netlifyToml, path: rulesPath, siteId }, context) => {
+    if (mode === 'simulate' && (!urls || urls.length === 0)) {
+      throw new Error('Pass urls to simulate, or set mode to "audit" to look for rules that never fire');
+    }
+
+    const files = await readRuleFiles({ redirects, headers, netlifyToml }, rulesPath, siteId, context);
+    const ruleSet = loadRedirectRules(files.contents);
+
+    let report = mode === 'simulate'
+      ? `**🔀 Redirect Test: ${urls!.length} URLs, ${ruleSet.redirects.length} redirect rules, ${ruleSet.headers.length} header rules**\n\n`
+      : `**🔀 Redirect Audit: ${ruleSet.redirects.length} redirect rules**\n\n`;
+    report += `Sources: ${files.sources.map(({ file, source }) => file === source ? file : `${file} (${source})`).join(', ')}`;
+
+    if (ruleSet.problems.length > 0) {
+      report += `\n\n**File Problems:**\n${ruleSet.problems.map(problem => `❌ ${ruleLocation(problem)} - ${problem.message}`).join('\n')}`;
+    }
+
+    const results = mode === 'simulate'
+      ? urls!.map(url => simulateRequest(ruleSet, { url, country, language, existingPaths }))
+      : [];
+    const findings = mode === 'audit' ? auditRedirectRules(ruleSet) : [];
+
+    for (const simulation of results) {
+      report += `\n\n**${simulation.url}**\n${simulation.hops.map(formatHop).join('\n')}`;
+      if (simulation.loop) report += '\n❌ Redirect loop - browsers give up with "too many redirects"';
+      for (const { rule, reason } of simulation.hops.flatMap(hop => hop.skipped)) {
+        report += `\n• Skipped ${ruleLocation(rule)} - ${reason}`;
+      }
+      const headerLines = Object.entries(simulation.headers).map(([name, value]) => `${name}: ${value}`);
+      if (headerLines.length > 0) report += `\n• Headers: ${headerLines.join('; ')}`;
+    }
+
+    if (mode === 'audit') {
+      const errors = findings.filter(finding => finding.severity === 'error');
+      const warnings = findings.filter(finding => finding.severity === 'warning');
+      report += '\n\n';
+      report += findings.length === 0
+        ? '✅ Every rule can fire, with no redirect loops or chains'
+        : `${errors.length > 0 ? '❌' : '⚠️'} ${errors.length} rules never fire or loop, ${warnings.length} redirect chains`;
+      if (errors.length > 0) report += `\n\n**Errors:**\n${errors.map(formatFinding).join('\n')}`;
+      if (warnings.length > 0) report += `\n\n**Warnings:**\n${warnings.map(formatFinding).join('\n')}`;
+    }
+
+    return {
+      markdown: report,
+      data: {
+        mode,
+        sources: files.sources,
+        redirectRules: ruleSet.redirects.length,
+        headerRules: ruleSet.headers.length,
+        problems: ruleSet.problems,
+        results: results.map(simulation => {
+          const last = simulation.hops[simulation.hops.length - 1];
+          return {
+            url: simulation.url,
+            finalUrl: last.outcome === 'redirect' ? last.target : last.url,
+            status: last.status,
+            loop: simulation.loop,
+            hops: simulation.hops.map(hop => ({
+              url: hop.url,
+              rule: hop.rule && ruleRef(hop.rule),
+              status: hop.status,
+              outcome: hop.outcome,
+              target: hop.target,
+              skipped: hop.skipped.map(({ rule, reason }) => ({ rule: ruleRef(rule), reason })),
+            })),
+            headers: simulation.headers,
+          };
+        }),
+        findings: findings.map(finding => ({
+          severity: finding.severity,
+          kind: finding.kind,
+          rule: ruleRef(finding.rule),
+          shadowedBy: finding.shadowedBy && ruleRef(finding.shadowedBy),
+          message: finding.message,
+        })),
+      },
+    };
+  },
+});
+
+// The netlify.toml to validate: inline content, a path, or the site's local checkout
+async function readConfig(content: string | undefined, configPath: string | undefined, siteId: string | undefined, context: ToolContext): Promise<{ text: string; source: string }> {
+  if (content !== undefined) {
+    return { text: content, source: 'inline content' };
+  }
+
+  let file = configPath ? context.resolveLocalPath(configPath) : await checkoutPath(siteId, context, 'content or path');
+  if (fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+    file = path.join(file, 'netlify.toml');
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`${file} does not exist`);
+  }
+  return { text: fs.readFileSync(file, 'utf8'), source: file };
+}
+
+// Rule files given inline, or read from a directory or the site's local checkout. Inline content
+// wins over the file of the same name.
+async function readRuleFiles(
+  inline: { redirects?: string; headers?: string; netlifyToml?: string },
+  rulesPath: string | undefined,
+  siteId: string | undefined,
+  context: ToolContext
+): Promise<{ contents: { redirects: string | null; headers: string | null; netlifyToml: string | null }; sources: Array<{ file: string; source: string }> }> {
+  const hasInline = Object.values(inline).some(value => value !== undefined);
+  const dir = rulesPath ? context.resolveLocalPath(rulesPath) : hasInline ? null : await checkoutPath(siteId, context, 'redirects, headers, netlifyToml or path');
+  if (dir && !(fs.existsSync(dir) && fs.statSync(dir).isDirectory())) {
+    throw new Error(`${dir} is not a directory`);
+  }
+
+  const sources: Array<{ file: string; source: string }> = [];
+  const read = (file: string, content: string | undefined, dirs: string[]): string | null => {
+    if (content !== undefined) {
+      sources.push({ file, source: 'inline content' });
+      return content;
+    }
+    const found = dirs.map(candidate => path.join(candidate, file)).find(candidate => fs.existsSync(candidate));
+    if (!found) return null;
+    sources.push({ file, source: found });
+    return fs.readFileSync(found, 'utf8');
+  };
+
+  const netlifyToml = read('netlify.toml', inline.netlifyToml, dir ? [dir] : []);
+  const dirs = dir ? [publishDirectory(dir, netlifyToml), dir].filter((candidate): candidate is string => candidate !== null) : [];
+  const redirects = read('_redirects', inline.redirects, dirs);
+  const headers = read('_headers', inline.headers, dirs);
+
+  if (sources.length === 0) {
+    throw new Error(`No _redirects, _headers or netlify.toml in ${dir}`);
+  }
+  return { contents: { redirects, headers, netlifyToml }, sources };
+}
+
+// The publish directory of a checkout, where the build copies _redirects and _headers from
+function publishDirectory(dir: string, netlifyToml: string | null): string | null {
+  if (netlifyToml === null) return null;
+  try {
+    const { base, publish } = parseNetlifyConfig(netlifyToml).build;
+    return publish ? path.join(dir, base ?? '', publish) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Local checkout of the site, from the repoPath of its project context
+async function checkoutPath(siteId: string | undefined, { resolveSite }: ToolContext, alternatives: string): Promise<string> {
+  const site = await resolveSite(siteId);
+  const repoPath = getProjectContext(site).repoPath;
+  if (!repoPath) {
+    throw new Error(`Pass ${alternatives} - ${site.name} has no repoPath in its project context`);
+  }
+  return repoPath;
+}
+
+// "❌ line 4 - build.command must be a string, not 42"
+function formatIssue(issue: ConfigIssue): string {
+  const icon = issue.severity === 'error' ? '❌' : '⚠️';
+  return `${icon} ${issue.line !== null ? `line ${issue.line}` : 'file'} - ${issue.message}`;
+}
+
+function formatRule(rule: ConfigRule, issues: ConfigIssue[]): string {
+  const count = issues.filter(issue => issue.rule === rule).length;
+  return `**${rule.category}** (${count} ${count === 1 ? 'issue' : 'issues'})\n` +
+    `• Common Causes: ${rule.commonCauses.join(', ')}\n` +
+    `• Quick Fixes: ${rule.quickFixes.join(', ')}\n` +
+    `• Prevention: ${rule.preventionTips.join(', ')}`;
+}
+
+function ruleRef(rule: RedirectRule): { file: string; line: number | null; rule: string } {
+  return { file: rule.file, line: rule.line, rule: describeRedirectRule(rule) };
+}
+
+// "↪️ 301 redirect to /calendar/janeiro - _redirects:3 `/calendario/:mes /calendar/:mes 301`"
+function formatHop(hop: RedirectHop): string {
+  const rule = hop.rule ? ` - ${ruleLocation(hop.rule)} \`${describeRedirectRule(hop.rule)}\`` : '';
+  switch (hop.outcome) {
+    case 'redirect': return `↪️ ${hop.status} redirect to ${hop.target}${rule}`;
+    case 'rewrite': return `✅ 200 rewrite, serves ${hop.target}${rule}`;
+    case 'proxy': return `✅ 200 proxy to ${hop.target}${rule}`;
+    case 'error': return `⚠️ ${hop.status}, serves ${hop.target}${rule}`;
+    case 'file': return `✅ 200 file ${hop.target} - ${ruleLocation(hop.rule!)} matches but is not forced, so the file wins`;
+    case 'none': return `✅ 200 ${hop.target} - no rule fires`;
+  }
+}
+
+function formatFinding(finding: RedirectAuditFinding): string {
+  const icon = finding.severity === 'error' ? '❌' : '⚠️';
+  return `${icon} ${ruleLocation(finding.rule)} \`${describeRedirectRule(finding.rule)}\` - ${finding.message}`;
+}
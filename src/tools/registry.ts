@@ -0,0 +1,300 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ResponseCache } from '../netlify/cache';
+import { NetlifyClient, NetlifySite } from '../netlify/client';
+import { NetlifyApiError } from '../netlify/errors';
+import { SiteResolver } from '../netlify/siteResolver';
+import { HistoryStore } from '../utils/historyStore';
+import { NetlifyProfile, ProfileManager } from '../utils/profiles';
+
+export interface ToolContext {
+  // Client for the profile selected by the call's profile argument
+  client: NetlifyClient;
+  profile: NetlifyProfile;
+  profiles: ProfileManager;
+  // Finds a site by ID, name, domain or alias, defaulting to the profile's site
+  resolveSite: (reference?: string) => Promise<NetlifySite>;
+  // Absolute form of a local path argument; throws when the caller may not read it
+  resolveLocalPath: (requested: string) => string;
+  // Local deploy history of the sites the tools look at
+  history: HistoryStore;
+  cache: ResponseCache;
+  // Sends an MCP progress notification when the caller asked for them, otherwise does nothing
+  reportProgress: (progress: ToolProgress) => Promise<void>;
+  // Aborted when the client cancels the request; long-running tools stop polling on it
+  signal: AbortSignal;
+  registry: ToolRegistry;
+}
+
+export interface ToolProgress {
+  // Increases with every notification; total is set when the amount of work is known
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// What the server passes to callTool; the registry resolves the profile and client
+export interface ToolCallContext {
+  profiles: ProfileManager;
+  sites: SiteResolver;
+  history: HistoryStore;
+  cache: ResponseCache;
+  reportProgress?: (progress: ToolProgress) => Promise<void>;
+  signal?: AbortSignal;
+  // Directories path arguments must point inside; unset allows any path, for clients on this machine
+  localRoots?: string[];
+}
+
+// What a tool handler produces: the markdown report and the same data in structured form
+export interface ToolOutput<Data> {
+  markdown: string;
+  data: Data;
+}
+
+export interface ToolDefinition<Input extends z.AnyZodObject = z.AnyZodObject, Output extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  inputSchema: Input;
+  // Schema of the structured content, advertised to clients as the tool's outputSchema
+  outputSchema: Output;
+  // Prefix for the ❌ message when the handler throws, e.g. "Error fetching sites"
+  errorMessage: string;
+  // Declared as a method so a definition with specific schemas is still a ToolDefinition
+  handler(args: z.infer<Input>, context: ToolContext): Promise<ToolOutput<z.input<Output>>>;
+}
+
+// Declares a tool; the generics keep the handler's argument and output types tied to its schemas
+export function defineTool<Input extends z.AnyZodObject, Output extends z.AnyZodObject>(
+  definition: ToolDefinition<Input, Output>
+): ToolDefinition<Input, Output> {
+  return definition;
+}
+
+// Every tool accepts a format argument controlling its text content. Structured content is
+// always included because the MCP spec requires it for tools that declare an outputSchema.
+export const outputFormatSchema = z.enum(['markdown', 'json', 'both']).default('markdown')
+  .describe("Text output format: markdown report, JSON data, or both (structured content is always included)");
+
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+// Every tool also accepts a profile argument selecting the Netlify account to use
+const profileArgumentSchema = z.string().min(1).optional()
+  .describe("Configured profile (Netlify account) to use - see list-profiles; defaults to the default profile");
+
+const errorOutputSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  retryable: z.boolean(),
+});
+
+export function formatToolOutput(output: ToolOutput<Record<string, unknown>>, format: OutputFormat): CallToolResult {
+  const content: CallToolResult['content'] = [];
+  if (format !== 'json') {
+    content.push({ type: "text", text: output.markdown });
+  }
+  if (format !== 'markdown') {
+    content.push({ type: "text", text: JSON.stringify(output.data, null, 2) });
+  }
+  return {
+    content,
+    structuredContent: output.data,
+  };
+}
+
+// Builds a tool error result. Netlify API failures carry a structured error code
+// (AUTH_INVALID, NOT_FOUND, RATE_LIMITED, ...) so assistants can react to them
+export function createErrorResult(action: string, error: unknown): CallToolResult {
+  if (error instanceof NetlifyApiError) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ ${action} [${error.code}]: ${error.message}\n💡 ${error.hint}`,
+        },
+      ],
+      structuredContent: {
+        error: error.toJSON(),
+      },
+      isError: true,
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `❌ ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      },
+    ],
+    structuredContent: {
+      error: {
+        code: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        retryable: false,
+      },
+    },
+    isError: true,
+  };
+}
+
+function createValidationErrorResult(toolName: string, error: z.ZodError): CallToolResult {
+  const issues = error.issues.map(issue => ({
+    path: issue.path.join('.') || '(arguments)',
+    message: issue.message,
+  }));
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `❌ Invalid arguments for ${toolName} [INVALID_ARGUMENTS]:\n${issues.map(issue => `• ${issue.path}: ${issue.message}`).join('\n')}`,
+      },
+    ],
+    structuredContent: {
+      error: {
+        code: 'INVALID_ARGUMENTS',
+        message: `Invalid arguments for ${toolName}`,
+        retryable: false,
+        issues,
+      },
+    },
+    isError: true,
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(...definitions: ToolDefinition[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+    return this;
+  }
+
+  get names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  // Tool list for the ListTools response, with JSON Schema generated from each zod schema
+  listTools(): Tool[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toInputJsonSchema(withCommonArguments(tool.inputSchema)),
+      outputSchema: toOutputJsonSchema(tool.outputSchema),
+    }));
+  }
+
+  async callTool(name: string, args: unknown, context: ToolCallContext): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return createErrorResult("Unexpected error", new Error(`Unknown tool: ${name}`));
+    }
+
+    const { profiles, sites, history, cache, reportProgress, signal, localRoots } = context;
+    const schema = withCommonArguments(tool.inputSchema, profiles);
+    const parsed = schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      return createValidationErrorResult(name, parsed.error);
+    }
+
+    const { format, profile: profileName, fresh, ...toolArgs } = parsed.data as { format: OutputFormat; profile?: string; fresh: boolean } & Record<string, unknown>;
+    try {
+      const profile = profiles.get(profileName);
+      const client = profiles.createClient(profile, { cache, fresh });
+      const output = await tool.handler(toolArgs, {
+        client,
+        profile,
+        profiles,
+        resolveSite: reference => sites.resolve(client, profile, reference),
+        resolveLocalPath: requested => resolveLocalPath(requested, localRoots),
+        history,
+        cache,
+        reportProgress: reportProgress || (async () => undefined),
+        signal: signal || new AbortController().signal,
+        registry: this,
+      });
+      return formatToolOutput(output, format);
+    } catch (error) {
+      return createErrorResult(tool.errorMessage, error);
+    }
+  }
+}
+
+// Every tool also accepts fresh, skipping cached API responses for that call
+const freshArgumentSchema = z.boolean().default(false)
+  .describe("Fetch fresh data from the Netlify API instead of using cached responses");
+
+// Adds the format, profile and fresh arguments; with the call's profiles, unknown profile names
+// are rejected along with the other invalid arguments
+function withCommonArguments(schema: z.AnyZodObject, profiles?: ProfileManager) {
+  const profile = profiles
+    ? profileArgumentSchema.refine(
+        name => name === undefined || profiles.has(name),
+        name => ({ message: `Unknown profile "${name}". Configured profiles: ${profiles.names.join(', ') || 'none'}` })
+      )
+    : profileArgumentSchema;
+  return schema.extend({ format: outputFormatSchema, profile, fresh: freshArgumentSchema });
+}
+
+// Resolves a path argument. With roots, the path (after following symlinks) must be one of them
+// or inside one, so remote clients can't make the tools read arbitrary files of this machine.
+function resolveLocalPath(requested: string, roots: string[] | undefined): string {
+  const resolved = path.resolve(requested);
+  if (!roots) {
+    return resolved;
+  }
+
+  const real = realPath(resolved);
+  const allowed = roots.some(root => {
+    const relative = path.relative(realPath(root), real);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+  if (!allowed) {
+    throw new Error(roots.length > 0
+      ? `${requested} is outside the project checkouts this server may read: ${roots.join(', ')}`
+      : `${requested} can't be read - no project context has a repoPath, and over HTTP only those checkouts may be read`);
+  }
+  return resolved;
+}
+
+// The path with symlinks followed, or as given when it doesn't exist
+function realPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return file;
+  }
+}
+
+function toInputJsonSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { ...jsonSchema, type: 'object' } as Tool['inputSchema'];
+}
+
+// Error results carry { error } instead of the tool's data, so the advertised schema
+// accepts either the data's required fields or an error object
+function toOutputJsonSchema(schema: z.AnyZodObject): Tool['outputSchema'] {
+  const options = { $refStrategy: 'none', removeAdditionalStrategy: 'strict' } as const;
+  const { $schema, ...data } = zodToJsonSchema(schema, options) as { properties?: Record<string, unknown>; required?: string[] } & Record<string, unknown>;
+  const { $schema: _, ...error } = zodToJsonSchema(errorOutputSchema, options) as Record<string, unknown>;
+
+  return {
+    type: 'object',
+    properties: {
+      ...data.properties,
+      error,
+    },
+    anyOf: [
+      { required: data.required || [] },
+      { required: ['error'] },
+    ],
+  } as Tool['outputSchema'];
+}
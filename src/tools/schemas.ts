@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { DeploymentInfo, NetlifyDeployment, NetlifySite } from '../netlify/client';
+import { BuildDiagnosis, ErrorPattern } from '../utils/errorAnalysis';
+
+// Output schemas shared by the tools' structured content. These mirror the interfaces in
+// netlify/client.ts and utils/errorAnalysis.ts so assistants get the same data as the reports.
+
+export const siteSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string(),
+  admin_url: z.string(),
+  deploy_url: z.string(),
+  state: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const deploymentSchema = z.object({
+  id: z.string(),
+  state: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  published_at: z.string().nullish(),
+  error_message: z.string().nullish(),
+  deploy_time: z.number().nullish(),
+  branch: z.string().nullish(),
+  commit_ref: z.string().nullish(),
+  site_id: z.string(),
+  url: z.string().nullish(),
+  deploy_url: z.string().nullish(),
+  admin_url: z.string().nullish(),
+  commit_url: z.string().nullish(),
+  review_id: z.number().nullish(),
+  review_url: z.string().nullish(),
+  screenshot_url: z.string().nullish(),
+});
+
+export const buildMetricsSchema = z.object({
+  duration: z.number(),
+  buildMinutesUsed: z.number(),
+  averageBuildTime: z.number(),
+  failureRate: z.number(),
+});
+
+export const buildMinutesQuotaSchema = z.object({
+  account: z.object({
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    plan: z.string().nullable(),
+  }),
+  period: z.object({
+    start: z.string(),
+    end: z.string(),
+    daysElapsed: z.number(),
+    daysTotal: z.number(),
+  }),
+  minutesUsed: z.number(),
+  includedMinutes: z.number(),
+  limitSource: z.enum(['config', 'plan', 'default']),
+  remaining: z.number(),
+  percentUsed: z.number(),
+  projectedMinutes: z.number(),
+  projectedOverage: z.number(),
+  lastUpdatedAt: z.string().nullable(),
+});
+
+export const buildMinutesUsageSchema = buildMinutesQuotaSchema.extend({
+  sites: z.array(z.object({
+    siteId: z.string(),
+    name: z.string(),
+    minutes: z.number(),
+    builds: z.number(),
+    share: z.number(),
+  })),
+  unattributedMinutes: z.number(),
+});
+
+export const errorPatternSchema = z.object({
+  id: z.string(),
+  pattern: z.string().describe("Regular expression source"),
+  category: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  buildTimeImpact: z.number(),
+  commonCauses: z.array(z.string()),
+  quickFixes: z.array(z.string()),
+  preventionTips: z.array(z.string()),
+  source: z.string().describe("Pattern file the pattern was loaded from"),
+});
+
+const evidenceLineSchema = z.object({
+  line: z.number().nullable().describe("Build log line number, or null for the deployment's error message"),
+  message: z.string(),
+});
+
+// Ranked causes of a failed build from ErrorPatternAnalyzer.diagnose
+export const buildDiagnosisSchema = z.object({
+  candidates: z.array(z.object({
+    pattern: errorPatternSchema,
+    score: z.number(),
+    confidence: z.number().describe("Share of the total score of all candidates, as a percentage"),
+    evidence: z.array(evidenceLineSchema),
+    details: z.object({
+      file: z.string().optional(),
+      line: z.number().optional(),
+      column: z.number().optional(),
+      errorCode: z.string().optional(),
+      packageName: z.string().optional(),
+      command: z.string().optional(),
+    }),
+  })),
+  unrecognized: z.array(z.object({
+    startLine: z.number().nullable(),
+    endLine: z.number().nullable(),
+    lines: z.array(evidenceLineSchema),
+  })),
+  exitCode: z.number().nullable(),
+});
+
+// Findings of the local repository inspection that go with a diagnosis, see utils/repoInspector.ts
+export const repositoryFindingsSchema = z.object({
+  repoPath: z.string(),
+  findings: z.array(z.object({
+    severity: z.enum(['error', 'warning', 'info']),
+    file: z.string(),
+    line: z.number().nullable(),
+    message: z.string(),
+    fix: z.string().nullable(),
+  })),
+});
+
+export const buildLogLineSchema = z.object({
+  line: z.number().describe("Line number in the full log, also used as the tail-build-logs cursor"),
+  timestamp: z.string(),
+  level: z.enum(['info', 'warn', 'error']),
+  message: z.string(),
+  source: z.string(),
+});
+
+const failureOccurrenceSchema = z.object({
+  deployId: z.string(),
+  createdAt: z.string(),
+  branch: z.string().nullable(),
+  commitRef: z.string().nullable(),
+  commitUrl: z.string().nullable(),
+});
+
+// Failed deploys grouped by normalized error message, from clusterFailures
+export const failureClusterSchema = z.object({
+  signature: z.string().describe("Error message with hashes, paths, line numbers and timestamps normalized"),
+  category: z.string(),
+  patternId: z.string().nullable(),
+  example: z.string(),
+  count: z.number(),
+  share: z.number().describe("Percentage of the analyzed failures"),
+  firstSeen: failureOccurrenceSchema,
+  lastSeen: failureOccurrenceSchema,
+  branches: z.array(z.string()),
+  lastSuccessBefore: failureOccurrenceSchema.nullable(),
+  successesBetween: z.number(),
+  fixedBy: failureOccurrenceSchema.nullable(),
+  kind: z.enum(['one-off', 'persistent', 'intermittent']),
+  occurrences: z.array(failureOccurrenceSchema),
+});
+
+export const retryRecommendationSchema = z.object({
+  recommended: z.boolean(),
+  reasons: z.array(z.string()),
+});
+
+export const contentMetricsSchema = z.object({
+  totalPosts: z.number(),
+  averagePostSize: z.number(),
+  imageOptimizationOpportunities: z.number(),
+  buildTimePerPost: z.number(),
+  incrementalBuildSupport: z.boolean(),
+});
+
+export const seasonalTrendSchema = z.object({
+  month: z.string(),
+  deploymentCount: z.number(),
+  averageBuildTime: z.number(),
+});
+
+// Result of the deploy control tools (and smart-retry-analysis when it executes a retry)
+export const deployActionSchema = z.object({
+  action: z.string(),
+  status: z.enum(['dry-run', 'confirmation-required', 'refused', 'skipped', 'completed']),
+  plan: z.array(z.string()),
+  deployment: deploymentSchema.optional(),
+  build: z.object({ id: z.string(), deploy_id: z.string() }).optional(),
+  reason: z.string().optional(),
+});
+
+export type DeployAction = z.infer<typeof deployActionSchema>;
+
+export function serializeSite(site: NetlifySite): z.infer<typeof siteSchema> {
+  return {
+    id: site.id,
+    name: site.name,
+    url: site.url,
+    admin_url: site.admin_url,
+    deploy_url: site.deploy_url,
+    state: site.state,
+    created_at: site.created_at,
+    updated_at: site.updated_at,
+  };
+}
+
+// Keeps only the DeploymentInfo fields so structured content stays small
+export function serializeDeployment(deployment: NetlifyDeployment | DeploymentInfo): z.infer<typeof deploymentSchema> {
+  return {
+    id: deployment.id,
+    state: deployment.state,
+    created_at: deployment.created_at,
+    updated_at: deployment.updated_at,
+    published_at: deployment.published_at,
+    error_message: deployment.error_message,
+    deploy_time: deployment.deploy_time,
+    branch: deployment.branch,
+    commit_ref: deployment.commit_ref,
+    site_id: deployment.site_id,
+    url: deployment.url,
+    deploy_url: deployment.deploy_url,
+    admin_url: deployment.admin_url,
+    commit_url: deployment.commit_url,
+    review_id: deployment.review_id,
+    review_url: deployment.review_url,
+    screenshot_url: deployment.screenshot_url,
+  };
+}
+
+export function serializeErrorPattern(pattern: ErrorPattern): z.infer<typeof errorPatternSchema> {
+  return {
+    ...pattern,
+    pattern: pattern.pattern.source,
+  };
+}
+
+export function serializeDiagnosis(diagnosis: BuildDiagnosis): z.infer<typeof buildDiagnosisSchema> {
+  return {
+    ...diagnosis,
+    candidates: diagnosis.candidates.map(candidate => ({ ...candidate, pattern: serializeErrorPattern(candidate.pattern) })),
+  };
+}
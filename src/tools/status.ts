@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { config } from '../utils/config';
+import { defineTool } from './registry';
+
+export const helloTool = defineTool({
+  name: "hello",
+  description: "Test connectivity and server status",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    status: z.string(),
+    tools: z.array(z.string()),
+  }),
+  errorMessage: "Error checking server status",
+  handler: async (_args, { registry }) => {
+    const availableTools = registry.names.filter(name => name !== "hello");
+    return {
+      markdown: `🚀 ${config.server.displayName} v${config.server.version} is running successfully!\n\n✅ Connected to Netlify API\n✅ Phase 1: Advanced monitoring active\n✅ Phase 2: Free tier optimization tools ready\n✅ Phase 3: Content workflow integration enabled\n✅ AI assistant integration ready\n✅ Project context recommendations active\n\nAvailable tools: ${availableTools.join(', ')}`,
+      data: { status: 'running', tools: availableTools },
+    };
+  },
+});
+
+export const listProfilesTool = defineTool({
+  name: "list-profiles",
+  description: "List the configured Netlify profiles (accounts), their default sites and build minute limits",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    defaultProfile: z.string(),
+    profiles: z.array(z.object({
+      name: z.string(),
+      isDefault: z.boolean(),
+      source: z.enum(['environment', 'file']),
+      apiUrl: z.string(),
+      siteId: z.string().nullable(),
+      accountId: z.string().nullable(),
+      buildMinutesLimit: z.number().nullable(),
+      tokenConfigured: z.boolean(),
+    })),
+  }),
+  errorMessage: "Error listing profiles",
+  handler: async (_args, { profiles }) => {
+    // Tokens are never included, only whether one is set
+    const configured = profiles.list().map(profile => ({
+      name: profile.name,
+      isDefault: profile.name === profiles.defaultProfile,
+      source: profile.source,
+      apiUrl: profile.apiUrl,
+      siteId: profile.siteId || null,
+      accountId: profile.accountId || null,
+      buildMinutesLimit: profile.buildMinutesLimit ?? null,
+      tokenConfigured: profile.accessToken.length > 0,
+    }));
+
+    const profileList = configured.map(profile =>
+      `• **${profile.name}**${profile.isDefault ? ' (default)' : ''}\n  Default site: ${profile.siteId || 'none - pass siteId'}\n  Build minutes: ${profile.buildMinutesLimit ? `${profile.buildMinutesLimit}/month` : 'plan default'}\n  Token: ${profile.tokenConfigured ? '✅ configured' : '❌ missing'}\n  Source: ${profile.source}`
+    ).join('\n\n');
+
+    return {
+      markdown: `**🔑 Netlify Profiles (${configured.length} configured):**\n\n${profileList}\n\nPass \`profile\` to any tool to use a profile other than ${profiles.defaultProfile}.`,
+      data: { defaultProfile: profiles.defaultProfile, profiles: configured },
+    };
+  },
+});
+
+export const cacheStatsTool = defineTool({
+  name: "cache-stats",
+  description: "Show how often Netlify API responses were served from the response cache, per endpoint, and optionally clear it",
+  inputSchema: z.object({
+    clear: z.boolean().default(false).describe("Empty the cache and reset the counts after reporting them"),
+  }),
+  outputSchema: z.object({
+    backend: z.enum(['memory', 'disk', 'off']),
+    entries: z.number(),
+    hits: z.number(),
+    misses: z.number(),
+    bypassed: z.number().describe("Lookups skipped because the tool call asked for fresh data"),
+    hitRate: z.number(),
+    endpoints: z.array(z.object({
+      endpoint: z.string(),
+      hits: z.number(),
+      misses: z.number(),
+      bypassed: z.number(),
+      hitRate: z.number(),
+    })),
+    cleared: z.boolean(),
+  }),
+  errorMessage: "Error reading cache statistics",
+  handler: async ({ clear }, { cache }) => {
+    const stats = cache.stats();
+    if (clear) cache.clear();
+    const data = { ...stats, cleared: clear };
+
+    if (stats.backend === 'off') {
+      return {
+        markdown: `⚠️ The response cache is off - set NETLIFY_CACHE=memory or NETLIFY_CACHE=disk to enable it`,
+        data,
+      };
+    }
+
+    const endpoints = stats.endpoints.map(endpoint =>
+      `• ${endpoint.endpoint}: ${endpoint.hits} hits, ${endpoint.misses} misses (${endpoint.hitRate}%)${endpoint.bypassed > 0 ? `, ${endpoint.bypassed} fresh` : ''}`
+    ).join('\n');
+
+    return {
+      markdown: `**🗃️ Response Cache (${stats.backend}):**
+
+• Cached responses: ${stats.entries}
+• Hit rate: ${stats.hitRate}% (${stats.hits} hits, ${stats.misses} misses)
+• Fresh requests: ${stats.bypassed}
+
+${endpoints ? `**By Endpoint:**\n${endpoints}` : 'No API requests made yet.'}${clear ? '\n\n✅ Cache cleared' : ''}`,
+      data,
+    };
+  },
+});
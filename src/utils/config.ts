@@ -1,12 +1,57 @@
 import 'dotenv/config';
+import os from 'os';
+import path from 'path';
+import type { CacheBackendName } from '../netlify/cache';
+import { loadErrorPatternCatalog } from './patternCatalog';
+import { loadProjectContexts } from './projectContext';
+import { loadPromptTemplates } from './promptTemplates';
+import { loadProfileConfig, parseSiteAliases } from './profiles';
 
 export const config = {
   netlify: {
     accessToken: process.env.NETLIFY_ACCESS_TOKEN || '',
-    siteId: process.env.NETLIFY_SITE_ID || 'digitalzango-agricultural-calendar',
+    apiUrl: process.env.NETLIFY_API_URL || 'https://api.netlify.com/api/v1',
+    siteId: process.env.NETLIFY_SITE_ID || '',
+    accountId: process.env.NETLIFY_ACCOUNT_ID || '',
+    siteAliases: parseSiteAliases(process.env.NETLIFY_SITE_ALIASES || ''),
+    buildMinutesLimit: process.env.NETLIFY_BUILD_MINUTES_LIMIT ? parseInt(process.env.NETLIFY_BUILD_MINUTES_LIMIT, 10) : undefined,
+    requestTimeoutMs: parseInt(process.env.NETLIFY_REQUEST_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.NETLIFY_MAX_RETRIES || '3', 10),
+  },
+  // Named profiles from netlify-profiles.json and NETLIFY_PROFILE_<NAME>_* variables
+  profiles: loadProfileConfig(),
+  // Built-in error patterns plus the project's pattern files (NETLIFY_ERROR_PATTERNS_PATH)
+  errorPatterns: loadErrorPatternCatalog(),
+  // Built-in prompt templates, replaced by the project's (NETLIFY_PROMPT_TEMPLATES_PATH)
+  promptTemplates: loadPromptTemplates(),
+  // Framework, audience and recommendation packs of each site's project (NETLIFY_PROJECT_CONTEXT_PATH)
+  projectContexts: loadProjectContexts(),
+  // Local record of each site's deploys, failure diagnoses and metrics snapshots
+  history: {
+    enabled: process.env.NETLIFY_HISTORY_ENABLED !== 'false',
+    dir: process.env.NETLIFY_HISTORY_DIR || path.join(os.homedir(), '.netlify-mcp', 'history'),
+    syncIntervalMs: parseInt(process.env.NETLIFY_HISTORY_SYNC_INTERVAL_MS || '60000', 10),
+  },
+  // Cache of Netlify API responses shared by all tool calls: memory, disk or off (NETLIFY_CACHE)
+  cache: {
+    backend: parseCacheBackend(process.env.NETLIFY_CACHE || 'memory'),
+    dir: process.env.NETLIFY_CACHE_DIR || path.join(os.homedir(), '.netlify-mcp', 'cache'),
+  },
+  // How often deploys with resource subscribers are checked for state changes
+  resources: {
+    pollIntervalMs: parseInt(process.env.NETLIFY_RESOURCE_POLL_INTERVAL_MS || '10000', 10),
+  },
+  // stdio by default; --http or MCP_TRANSPORT=http serves streamable HTTP on PORT instead
+  transport: {
+    mode: process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http' ? 'http' as const : 'stdio' as const,
+    port: parseInt(process.env.PORT || '3000', 10),
+    host: process.env.HOST || '127.0.0.1',
+    authToken: process.env.MCP_AUTH_TOKEN || '',
   },
   server: {
     name: 'netlify-mcp-server',
+    // Shown in the startup banner and the hello tool (MCP_SERVER_DISPLAY_NAME)
+    displayName: process.env.MCP_SERVER_DISPLAY_NAME || 'Netlify MCP Server',
     version: '1.0.0',
   },
   development: {
@@ -16,16 +61,25 @@ export const config = {
 };
 
 // Validate configuration
-if (!config.netlify.accessToken) {
+if (!config.netlify.accessToken && config.profiles.profiles.length === 0) {
   console.error('⚠️ Warning: NETLIFY_ACCESS_TOKEN not found in environment variables');
   console.error('Please check your .env file and ensure NETLIFY_ACCESS_TOKEN is set');
 }
 
 if (!config.netlify.siteId) {
-  console.warn('⚠️ Warning: NETLIFY_SITE_ID not set, using default value');
+  console.warn('⚠️ Warning: NETLIFY_SITE_ID not set, tools will need a siteId argument');
+}
+
+function parseCacheBackend(value: string): CacheBackendName {
+  if (value === 'memory' || value === 'disk' || value === 'off') {
+    return value;
+  }
+  console.error(`⚠️ Warning: Unknown NETLIFY_CACHE "${value}" (expected memory, disk or off), using memory`);
+  return 'memory';
 }
 
 // Export individual configurations for easier imports
 export const netlifyConfig = config.netlify;
+export const profileConfig = config.profiles;
 export const serverConfig = config.server;
 export const devConfig = config.development;
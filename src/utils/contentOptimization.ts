@@ -1,4 +1,5 @@
 import { DeploymentInfo } from '../netlify/client';
+import { formatRecommendationPacks, GENERIC_PROJECT_CONTEXT, ProjectContext, recommendationPacksFor } from './projectContext';
 
 export interface ContentMetrics {
   totalPosts: number;
@@ -40,8 +41,8 @@ export class ContentOptimizer {
     };
   }
 
-  static generateContentOptimizationReport(metrics: ContentMetrics): string {
-    return `**📝 DigitalZango Content Optimization Report**
+  static generateContentOptimizationReport(metrics: ContentMetrics, context: ProjectContext = GENERIC_PROJECT_CONTEXT): string {
+    return `**📝 ${context.name ? `${context.name} ` : ''}Content Optimization Report**
 
 **Content Statistics:**
 • Total posts analyzed: ${metrics.totalPosts}
@@ -52,12 +53,12 @@ export class ContentOptimizer {
 • Image optimization potential: ${metrics.imageOptimizationOpportunities} images
 • Incremental builds: ${metrics.incrementalBuildSupport ? '✅ Supported' : '❌ Not configured'}
 
-**Recommendations for Agricultural Calendar:**
-• Optimize seasonal images before upload
+**Recommendations:**
+• Optimize images before upload
 • Use WebP format for better compression
 • Consider lazy loading for image galleries
 • Implement content caching for static pages
-• Batch content updates for seasonal campaigns
+• Batch content updates into scheduled releases
 • Use responsive images for mobile optimization
 • Implement progressive image loading for better UX`.trim();
   }
@@ -81,15 +82,16 @@ export class ContentOptimizer {
     }));
   }
 
-  static generateAgriculturalContentRecommendations(metrics: ContentMetrics): string[] {
+  // Generic recommendations for the metrics, then those of the project's content packs
+  static generateContentRecommendations(metrics: ContentMetrics, context: ProjectContext = GENERIC_PROJECT_CONTEXT): string[] {
     const recommendations: string[] = [];
 
     if (metrics.buildTimePerPost > 3) {
-      recommendations.push("🚀 Optimize build performance: Consider splitting large agricultural guides into smaller posts");
+      recommendations.push("🚀 Optimize build performance: Consider splitting large guides into smaller posts");
     }
 
     if (metrics.imageOptimizationOpportunities > 10) {
-      recommendations.push("🖼️ Image optimization: Compress agricultural photos and diagrams before upload");
+      recommendations.push("🖼️ Image optimization: Compress photos and diagrams before upload");
     }
 
     if (!metrics.incrementalBuildSupport) {
@@ -97,12 +99,16 @@ export class ContentOptimizer {
     }
 
     if (metrics.averagePostSize > 500) {
-      recommendations.push("📝 Content optimization: Break down large agricultural articles into series");
+      recommendations.push("📝 Content optimization: Break down large articles into series");
     }
 
-    recommendations.push("🌾 Seasonal planning: Schedule agricultural content updates during low-traffic periods");
-    recommendations.push("📱 Mobile optimization: Ensure agricultural calendar is mobile-responsive");
-    recommendations.push("🔗 SEO optimization: Use agricultural keywords for better search visibility");
+    recommendations.push(`🗓️ Release planning: Schedule content updates during low-traffic periods${context.audience ? ` for ${context.audience}` : ''}`);
+    recommendations.push("📱 Mobile optimization: Ensure the site is mobile-responsive");
+    recommendations.push("🔗 SEO optimization: Use the keywords your audience searches for");
+
+    for (const pack of recommendationPacksFor(context, 'content')) {
+      recommendations.push(...pack.recommendations);
+    }
 
     return recommendations;
   }
@@ -164,20 +170,20 @@ export class ContentOptimizer {
   }
 }
 
-export class DigitalZangoContentAnalyzer {
-  static generateBlogOptimizationReport(deployments: DeploymentInfo[]): string {
+export class ContentReportBuilder {
+  static generateBlogOptimizationReport(deployments: DeploymentInfo[], context: ProjectContext = GENERIC_PROJECT_CONTEXT): string {
     const metrics = ContentOptimizer.analyzeContentImpact(deployments);
-    const recommendations = ContentOptimizer.generateAgriculturalContentRecommendations(metrics);
+    const recommendations = ContentOptimizer.generateContentRecommendations(metrics, context);
     const optimizationScore = ContentOptimizer.calculateOptimizationScore(metrics);
     const seasonalTrends = ContentOptimizer.analyzeSeasonalTrends(deployments);
 
-    return `**🌾 DigitalZango Blog & Content Analysis**
+    return `**📝 ${context.name ? `${context.name} ` : ''}Blog & Content Analysis**
 
 **Optimization Score: ${optimizationScore}/100**
 
-${ContentOptimizer.generateContentOptimizationReport(metrics)}
+${ContentOptimizer.generateContentOptimizationReport(metrics, context)}
 
-**Agricultural Content Recommendations:**
+**Content Recommendations:**
 ${recommendations.map(rec => `• ${rec}`).join('\n')}
 
 **Seasonal Content Trends:**
@@ -186,34 +192,32 @@ ${seasonalTrends.map(trend =>
 ).join('\n')}
 
 **Content Creator Workflow Tips:**
-• Schedule agricultural content during planting/harvest seasons
+• Plan releases ahead with a content calendar${context.deployCadence ? ` (current cadence: ${context.deployCadence})` : ''}
 • Batch social media content updates for efficiency
-• Optimize affiliate marketing product images
-• Use content calendar for consistent posting
-• Implement lazy loading for image-heavy agricultural guides`;
+• Optimize product and gallery images
+• Implement lazy loading for image-heavy pages`;
   }
 
-  static generateSocialMediaOptimizationTips(): string {
+  static generateSocialMediaOptimizationTips(context: ProjectContext = GENERIC_PROJECT_CONTEXT): string {
+    const packs = formatRecommendationPacks(context, 'social-media');
     return `**📱 Social Media Integration Optimization**
 
-**YouTube Content:**
+**Embedded Video:**
 • Optimize video thumbnails for faster page loads
-• Use progressive image loading for video galleries
 • Implement lazy loading for embedded videos
 
-**Instagram Integration:**
-• Compress agricultural photos before embedding
+**Embedded Images:**
+• Compress photos before embedding
 • Use WebP format for better mobile performance
 • Implement responsive image galleries
 
-**Facebook Page Integration:**
+**Shared Links:**
 • Optimize shared content previews
 • Use efficient image formats for social cards
 • Implement proper Open Graph tags
 
 **Cross-Platform Efficiency:**
 • Batch social media updates with blog posts
-• Use consistent agricultural branding across platforms
-• Optimize images once, use across all platforms`;
+• Optimize images once, use across all platforms${packs ? `\n\n${packs}` : ''}`;
   }
 }
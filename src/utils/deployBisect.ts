@@ -0,0 +1,56 @@
+import type { NetlifyDeployment } from '../netlify/client';
+
+export interface DeployBisection {
+  // Oldest failed deploy of the unbroken run of failures ending at the starting deploy
+  firstRed: NetlifyDeployment;
+  // Newest successful deploy before it, or null when none was found in the history
+  lastGreen: NetlifyDeployment | null;
+  // Failed deploys from the starting deploy back to firstRed, newest first
+  failedRun: NetlifyDeployment[];
+  // Deploys in the run that neither passed nor failed (cancelled, skipped or still building)
+  skipped: number;
+}
+
+// Commit page URLs of the Git hosts Netlify links to, and the compare view of each
+const COMPARE_URL_BUILDERS: Array<{ pattern: RegExp; build: (repo: string, base: string, head: string) => string }> = [
+  { pattern: /^(https:\/\/github\.com\/[^/]+\/[^/]+)\/commit\/[0-9a-f]+/i, build: (repo, base, head) => `${repo}/compare/${base}...${head}` },
+  { pattern: /^(https:\/\/gitlab\.com\/.+?)\/-\/commit\/[0-9a-f]+/i, build: (repo, base, head) => `${repo}/-/compare/${base}...${head}` },
+  { pattern: /^(https:\/\/bitbucket\.org\/[^/]+\/[^/]+)\/commits\/[0-9a-f]+/i, build: (repo, base, head) => `${repo}/branches/compare/${head}%0D${base}` },
+];
+
+// Walks a branch's deploy history, newest first and starting at a failed deploy, back to the
+// last successful deploy. The regression was introduced between that deploy and firstRed.
+export function bisectDeploys(history: NetlifyDeployment[]): DeployBisection {
+  const [start] = history;
+  if (!start || start.state !== 'error') {
+    throw new Error('Bisecting needs a deploy history that starts at a failed deploy');
+  }
+
+  const failedRun: NetlifyDeployment[] = [];
+  let skipped = 0;
+  let lastGreen: NetlifyDeployment | null = null;
+
+  for (const deployment of history) {
+    if (deployment.state === 'ready') {
+      lastGreen = deployment;
+      break;
+    }
+    if (deployment.state === 'error') {
+      failedRun.push(deployment);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { firstRed: failedRun[failedRun.length - 1], lastGreen, failedRun, skipped };
+}
+
+// Link to the changes between two commits, built from a commit URL of the same repository.
+// Returns null for Git hosts without a known compare view.
+export function compareCommitsUrl(commitUrl: string | undefined, base: string, head: string): string | null {
+  for (const { pattern, build } of COMPARE_URL_BUILDERS) {
+    const match = commitUrl?.match(pattern);
+    if (match) return build(match[1], base, head);
+  }
+  return null;
+}
@@ -1,4 +1,8 @@
+import { config } from './config';
+
+// A compiled entry of the error pattern catalog (see patterns/netlify.yaml)
 export interface ErrorPattern {
+  id: string;
   pattern: RegExp;
   category: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -6,113 +10,177 @@ export interface ErrorPattern {
   commonCauses: string[];
   quickFixes: string[];
   preventionTips: string[];
+  // Pattern file the entry was loaded from, e.g. "builtin/netlify.yaml"
+  source: string;
 }
 
-export const NETLIFY_ERROR_PATTERNS: ErrorPattern[] = [
-  {
-    pattern: /npm.*ERR.*peer dep/i,
-    category: 'Dependency Conflict',
-    severity: 'high',
-    buildTimeImpact: 2,
-    commonCauses: ['Peer dependency version mismatch', 'Package.json conflicts'],
-    quickFixes: ['npm install --legacy-peer-deps', 'Update conflicting packages'],
-    preventionTips: ['Regular dependency audits', 'Lock file maintenance']
-  },
-  {
-    pattern: /out of memory|heap.*limit/i,
-    category: 'Memory Limit',
-    severity: 'critical',
-    buildTimeImpact: 5,
-    commonCauses: ['Large bundle size', 'Memory-intensive build process'],
-    quickFixes: ['Increase Node memory limit', 'Optimize bundle splitting'],
-    preventionTips: ['Bundle analysis', 'Code splitting', 'Image optimization']
-  },
-  {
-    pattern: /command not found.*gatsby|hugo|next/i,
-    category: 'Build Tool Missing',
-    severity: 'high',
-    buildTimeImpact: 1,
-    commonCauses: ['Missing build dependencies', 'Incorrect build command'],
-    quickFixes: ['Update package.json scripts', 'Install missing dependencies'],
-    preventionTips: ['Verify build commands locally', 'Document build requirements']
-  },
-  {
-    pattern: /failed to fetch|network error|timeout/i,
-    category: 'Network Issue',
-    severity: 'medium',
-    buildTimeImpact: 3,
-    commonCauses: ['External API unavailable', 'DNS resolution issues', 'CDN problems'],
-    quickFixes: ['Retry build', 'Check external service status', 'Implement fallbacks'],
-    preventionTips: ['Add retry logic', 'Monitor external dependencies', 'Use CDN alternatives']
-  },
-  {
-    pattern: /typescript.*error|ts\(\d+\)/i,
-    category: 'TypeScript Error',
-    severity: 'high',
-    buildTimeImpact: 2,
-    commonCauses: ['Type definition issues', 'Strict mode violations', 'Missing type declarations'],
-    quickFixes: ['Fix type annotations', 'Update @types packages', 'Add type assertions'],
-    preventionTips: ['Enable strict TypeScript checking', 'Regular type audits', 'Use proper typing']
-  },
-  {
-    pattern: /next.*build.*failed|next.*error/i,
-    category: 'Next.js Build Error',
-    severity: 'high',
-    buildTimeImpact: 3,
-    commonCauses: ['Invalid Next.js configuration', 'Build optimization issues', 'Static generation errors'],
-    quickFixes: ['Check next.config.js', 'Update Next.js version', 'Fix static props'],
-    preventionTips: ['Test builds locally', 'Monitor Next.js updates', 'Validate configurations']
-  },
-  {
-    pattern: /eslint.*error|linting.*failed/i,
-    category: 'Linting Error',
-    severity: 'medium',
-    buildTimeImpact: 1,
-    commonCauses: ['Code style violations', 'ESLint configuration issues', 'Deprecated rules'],
-    quickFixes: ['Fix linting errors', 'Update ESLint config', 'Disable problematic rules'],
-    preventionTips: ['Pre-commit hooks', 'IDE linting integration', 'Regular rule updates']
-  }
+// A build log line to analyze; the line number defaults to the position in the log
+export interface AnalyzedLogLine {
+  line?: number;
+  level: string;
+  message: string;
+}
+
+// Consecutive log lines that belong to one failure, e.g. an npm ERR! block or a stack trace
+export interface ErrorBlock {
+  startLine: number | null;
+  endLine: number | null;
+  lines: EvidenceLine[];
+}
+
+// A log line supporting a diagnosis; line is null for the deployment's own error message
+export interface EvidenceLine {
+  line: number | null;
+  message: string;
+}
+
+// Specifics pulled from the error output
+export interface ErrorDetails {
+  file?: string;
+  line?: number;
+  column?: number;
+  errorCode?: string;
+  packageName?: string;
+  command?: string;
+}
+
+export interface DiagnosisCandidate {
+  pattern: ErrorPattern;
+  score: number;
+  // Share of the total score of all candidates, as a percentage
+  confidence: number;
+  evidence: EvidenceLine[];
+  details: ErrorDetails;
+}
+
+export interface BuildDiagnosis {
+  // Most likely cause first
+  candidates: DiagnosisCandidate[];
+  // Error blocks no pattern recognized
+  unrecognized: ErrorBlock[];
+  exitCode: number | null;
+}
+
+// Lines that start an error block
+const ERROR_LINE_PATTERN = /\b(?:error|failed|failure|fatal|exception|panic|cannot find|can't resolve|could not|unable to|not found|out of memory|incompatible|unsupported|timed out|exceeded)\b|\bERR!/i;
+// Lines that continue one: stack frames, indented output, npm ERR! blocks, code frames and file locations
+const CONTINUATION_PATTERN = /^\s+at\s|^\s{2,}\S|^\s*npm ERR!|^\s*[|>~^]|^\s*\d+\s*\||:\d+:\d+/;
+// Netlify's summary of a failed build; it carries the exit code but says nothing about the cause
+const BUILD_FAILED_PATTERN = /non-zero exit code:?\s*(\d+)|Failed during stage|Command failed with exit code (\d+)/i;
+
+const SEVERITY_WEIGHT: Record<ErrorPattern['severity'], number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+const FILE_LOCATION_PATTERN = /((?:[\w.@-]+\/)*[\w.@-]+\.(?:tsx?|jsx?|mjs|cjs|vue|svelte|astro|css|scss|sass|md|mdx|json|toml|ya?ml))(?::(\d+)(?::(\d+))?|\((\d+),(\d+)\))/;
+const TS_ERROR_CODE_PATTERN = /\bTS(\d{4,5})\b|\bts\((\d{4,5})\)/i;
+const COMMAND_NOT_FOUND_PATTERN = /([\w.-]+): (?:command )?not found/i;
+const PACKAGE_PATTERNS = [
+  /peer(?: dep(?:endency)?)? ((?:@[\w.-]+\/)?[\w.-]+)@/i,
+  /Cannot find module ['"]([^'"]+)['"]/i,
+  /Can't resolve ['"]([^'"]+)['"]/i,
+  /registry\.npmjs\.org\/((?:@[\w.-]+(?:\/|%2f))?[\w.-]+)/i,
+  /No matching version found for ((?:@[\w.-]+\/)?[\w.-]+)@/i,
+  /No matching distribution found for ([\w.-]+)/i,
+  /No module named ['"]?([\w.-]+)/i,
+  /Could not find gem '([\w.-]+)/i,
+  /An error occurred while installing ([\w.-]+)/i,
 ];
 
 export class ErrorPatternAnalyzer {
-  static analyzeError(errorMessage: string, buildLogs: any[]): ErrorPattern | null {
-    for (const pattern of NETLIFY_ERROR_PATTERNS) {
-      if (pattern.pattern.test(errorMessage)) {
-        return pattern;
-      }
-    }
-    return null;
+  // The most likely cause of a failure, looking at the error message and the whole log
+  static analyzeError(errorMessage: string, buildLogs: AnalyzedLogLine[]): ErrorPattern | null {
+    return this.diagnose(buildLogs, errorMessage).candidates[0]?.pattern || null;
   }
 
-  static generateAIPrompt(error: ErrorPattern, context: any): string {
-    return `NETLIFY BUILD ERROR ANALYSIS FOR DIGITALZANGO
+  // Groups the log into error blocks and scores every pattern that matches any of them. A
+  // pattern scores higher for more evidence lines, for higher severity, for matching lines
+  // logged as errors and for matching the block closest to where the build failed.
+  static diagnose(
+    buildLogs: AnalyzedLogLine[],
+    errorMessage?: string,
+    patterns: ErrorPattern[] = config.errorPatterns.patterns
+  ): BuildDiagnosis {
+    const blocks = this.extractErrorBlocks(buildLogs);
+    const exitCode = findExitCode([...buildLogs.map(log => log.message), errorMessage || '']);
 
-Error Category: ${error.category}
-Severity: ${error.severity}
-Build Time Impact: ${error.buildTimeImpact} minutes
+    if (errorMessage && !BUILD_FAILED_PATTERN.test(errorMessage)) {
+      blocks.push({ startLine: null, endLine: null, lines: [{ line: null, message: errorMessage }] });
+    }
 
-Context:
-- Site: DigitalZango Agricultural Calendar
-- Build Minutes Remaining: ${context.buildMinutesRemaining || 'Unknown'}
-- Recent Failure Rate: ${context.failureRate || 'Unknown'}%
-- Project Type: Next.js + TypeScript Agricultural Calendar App
+    const errorLevelLines = new Set(
+      buildLogs.map((log, index) => (log.level === 'error' ? log.line ?? index + 1 : null)).filter(line => line !== null)
+    );
+    const lastLogBlock = blocks.filter(block => block.startLine !== null).pop();
 
-Quick Fixes Available:
-${error.quickFixes.map(fix => `• ${fix}`).join('\n')}
+    const candidates = new Map<ErrorPattern, { score: number; evidence: EvidenceLine[]; blocks: ErrorBlock[] }>();
+    const recognized = new Set<ErrorBlock>();
 
-Common Causes:
-${error.commonCauses.map(cause => `• ${cause}`).join('\n')}
+    for (const block of blocks) {
+      for (const pattern of patterns) {
+        let evidence = block.lines.filter(line => pattern.pattern.test(line.message));
+        // Some messages are wrapped over several lines
+        if (evidence.length === 0 && pattern.pattern.test(block.lines.map(line => line.message.trim()).join(' '))) {
+          evidence = block.lines;
+        }
+        if (evidence.length === 0) continue;
 
-Prevention Tips:
-${error.preventionTips.map(tip => `• ${tip}`).join('\n')}
+        const fromErrorLines = block.lines.some(line => line.line === null || errorLevelLines.has(line.line));
+        const score = SEVERITY_WEIGHT[pattern.severity]
+          + 2 * Math.min(evidence.length, 3)
+          + (fromErrorLines ? 2 : 0)
+          + (block === lastLogBlock ? 1 : 0);
 
-Please provide:
-1. Root cause analysis for this specific error
-2. Step-by-step fix implementation for Next.js/TypeScript project
-3. Prevention strategy for future builds
-4. Build time optimization recommendations for agricultural calendar app
-5. Specific considerations for Angola deployment context
-    `.trim();
+        const candidate = candidates.get(pattern) || { score: 0, evidence: [], blocks: [] };
+        candidate.score += score;
+        candidate.evidence.push(...evidence);
+        candidate.blocks.push(block);
+        candidates.set(pattern, candidate);
+        recognized.add(block);
+      }
+    }
+
+    const totalScore = Array.from(candidates.values()).reduce((sum, candidate) => sum + candidate.score, 0);
+    const ranked = Array.from(candidates.entries())
+      .map(([pattern, candidate]) => ({
+        pattern,
+        score: candidate.score,
+        confidence: Math.round((candidate.score / totalScore) * 100),
+        evidence: candidate.evidence,
+        details: extractErrorDetails(candidate.blocks.flatMap(block => block.lines)),
+      }))
+      .sort((a, b) => b.score - a.score || SEVERITY_WEIGHT[b.pattern.severity] - SEVERITY_WEIGHT[a.pattern.severity]);
+
+    return {
+      candidates: ranked,
+      unrecognized: blocks.filter(block => !recognized.has(block)),
+      exitCode,
+    };
+  }
+
+  // Splits a log into blocks of error output. A block starts at a line logged as an error or
+  // containing an error keyword, and continues over stack frames, indented lines and npm ERR!
+  // lines even when they were logged as info.
+  static extractErrorBlocks(buildLogs: AnalyzedLogLine[]): ErrorBlock[] {
+    const blocks: ErrorBlock[] = [];
+    let current: ErrorBlock | null = null;
+
+    buildLogs.forEach((log, index) => {
+      const line = log.line ?? index + 1;
+      const message = log.message || '';
+      const startsBlock = log.level === 'error' || ERROR_LINE_PATTERN.test(message);
+
+      if (message.trim() && !BUILD_FAILED_PATTERN.test(message) && (startsBlock || (current && CONTINUATION_PATTERN.test(message)))) {
+        if (!current) {
+          current = { startLine: line, endLine: line, lines: [] };
+          blocks.push(current);
+        }
+        current.lines.push({ line, message });
+        current.endLine = line;
+      } else {
+        current = null;
+      }
+    });
+
+    return blocks;
   }
 
   static categorizeErrors(buildLogs: any[]): {
@@ -130,16 +198,15 @@ Please provide:
       unrecognized: [] as string[]
     };
 
-    const errorLogs = buildLogs.filter(log => log.level === 'error');
-    
-    errorLogs.forEach(log => {
-      const pattern = this.analyzeError(log.message, buildLogs);
-      if (pattern) {
-        categorized[pattern.severity].push(pattern);
+    // Each error block counts once, under the pattern that explains it best
+    for (const block of this.extractErrorBlocks(buildLogs)) {
+      const best = this.diagnose(block.lines.map(line => ({ line: line.line ?? undefined, level: 'error', message: line.message }))).candidates[0];
+      if (best) {
+        categorized[best.pattern.severity].push(best.pattern);
       } else {
-        categorized.unrecognized.push(log.message);
+        categorized.unrecognized.push(block.lines.map(line => line.message).join('\n'));
       }
-    });
+    }
 
     return categorized;
   }
@@ -158,7 +225,7 @@ Please provide:
     ]);
 
     return `
-DIGITALZANGO BUILD ERROR SUMMARY REPORT
+BUILD ERROR SUMMARY REPORT
 
 Build Metrics:
 - Build Minutes Used: ${buildMetrics.buildMinutesUsed || 'Unknown'}
@@ -183,7 +250,69 @@ Next Steps:
 1. Address critical errors first to prevent build failures
 2. Implement prevention strategies for recurring issues
 3. Monitor build minute usage to stay within free tier limits
-4. Set up automated error detection for agricultural calendar deployments
+4. Set up automated error detection for your deployments
     `.trim();
   }
 }
+
+// "src/pages/index.tsx:42:7", "TS2322", "package react" etc. for reports
+export function formatErrorDetails(details: ErrorDetails): string[] {
+  const formatted: string[] = [];
+  if (details.file) {
+    formatted.push(`File: ${details.file}${details.line ? `:${details.line}${details.column ? `:${details.column}` : ''}` : ''}`);
+  }
+  if (details.errorCode) formatted.push(`Error code: ${details.errorCode}`);
+  if (details.packageName) formatted.push(`Package: ${details.packageName}`);
+  if (details.command) formatted.push(`Command: ${details.command}`);
+  return formatted;
+}
+
+// "line 4 | npm ERR! ..." for each evidence line; the deployment's own error message has no line
+export function formatEvidence(lines: EvidenceLine[]): string {
+  return lines.map(line => `${line.line === null ? 'error message' : `line ${line.line}`} | ${line.message}`).join('\n');
+}
+
+function extractErrorDetails(lines: EvidenceLine[]): ErrorDetails {
+  const details: ErrorDetails = {};
+
+  for (const { message } of lines) {
+    const location = !details.file ? message.match(FILE_LOCATION_PATTERN) : null;
+    if (location) {
+      details.file = location[1];
+      const line = location[2] || location[4];
+      const column = location[3] || location[5];
+      if (line) details.line = parseInt(line, 10);
+      if (column) details.column = parseInt(column, 10);
+    }
+
+    const errorCode = !details.errorCode ? message.match(TS_ERROR_CODE_PATTERN) : null;
+    if (errorCode) {
+      details.errorCode = `TS${errorCode[1] || errorCode[2]}`;
+    }
+
+    const command = !details.command ? message.match(COMMAND_NOT_FOUND_PATTERN) : null;
+    if (command) {
+      details.command = command[1];
+    }
+
+    for (const pattern of details.packageName ? [] : PACKAGE_PATTERNS) {
+      const match = message.match(pattern);
+      if (match) {
+        details.packageName = match[1].replace(/%2f/i, '/');
+        break;
+      }
+    }
+  }
+
+  return details;
+}
+
+function findExitCode(messages: string[]): number | null {
+  for (const message of messages) {
+    const match = message.match(BUILD_FAILED_PATTERN);
+    if (match && (match[1] || match[2])) {
+      return parseInt(match[1] || match[2], 10);
+    }
+  }
+  return null;
+}
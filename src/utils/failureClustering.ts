@@ -0,0 +1,146 @@
+import type { NetlifyDeployment } from '../netlify/client';
+import type { BuildDiagnosis } from './errorAnalysis';
+
+// A failed deploy reduced to the one message that best describes why it failed
+export interface FailedBuild {
+  deployment: NetlifyDeployment;
+  message: string;
+  category: string;
+  patternId: string | null;
+}
+
+export interface FailureOccurrence {
+  deployId: string;
+  createdAt: string;
+  branch: string | null;
+  commitRef: string | null;
+  commitUrl: string | null;
+}
+
+export interface FailureCluster {
+  signature: string;
+  category: string;
+  patternId: string | null;
+  // Message of the most recent occurrence, before normalization
+  example: string;
+  count: number;
+  // Percentage of the analyzed failures in this cluster
+  share: number;
+  firstSeen: FailureOccurrence;
+  lastSeen: FailureOccurrence;
+  branches: string[];
+  // Last successful deploy on an affected branch before the first occurrence, if it is in the history
+  lastSuccessBefore: FailureOccurrence | null;
+  // Successful deploys on an affected branch between the first and last occurrence
+  successesBetween: number;
+  // First successful deploy on an affected branch after the last occurrence
+  fixedBy: FailureOccurrence | null;
+  // one-off: seen once; persistent: failing every time since it started (a regression);
+  // intermittent: builds pass in between (flaky infrastructure or tests)
+  kind: 'one-off' | 'persistent' | 'intermittent';
+  // Newest first
+  occurrences: FailureOccurrence[];
+}
+
+export const UNRECOGNIZED_FAILURE_CATEGORY = 'Unrecognized Error';
+const MAX_SIGNATURE_LENGTH = 200;
+
+// Applied in order: timestamps before numbers, URLs before paths, paths before line numbers
+const SIGNATURE_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b\d{1,2}:\d{2}:\d{2}(?:\.\d+)?(?:\s?[AP]M)?/gi, '<time>'],
+  [/\bhttps?:\/\/\S+/g, '<url>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,64}\b/gi, '<hash>'],
+  [/(?:\.{0,2}\/)?(?:[\w.@-]+\/)+[\w.@-]+/g, '<path>'],
+  [/(?::\d+){1,2}\b|\(\d+,\d+\)/g, ''],
+  [/\bv?\d+(?:\.\d+)+(?:-[\w.]+)?\b/g, '<version>'],
+  [/\b\d+\b/g, '<n>'],
+  [/\s+/g, ' '],
+];
+
+// Normalizes a failure message so the same error from different builds compares equal:
+// hashes, paths, line numbers, versions, timestamps and other numbers are replaced
+export function failureSignature(message: string): string {
+  const signature = SIGNATURE_REPLACEMENTS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), message);
+  return signature.trim().slice(0, MAX_SIGNATURE_LENGTH);
+}
+
+// The message that best describes a failed build: the first log line supporting the most
+// likely cause, else the first unrecognized error line, else the deployment's error message
+export function describeFailure(deployment: NetlifyDeployment, diagnosis: BuildDiagnosis): FailedBuild {
+  const [primary] = diagnosis.candidates;
+  if (primary) {
+    return {
+      deployment,
+      message: primary.evidence[0]?.message || deployment.error_message || primary.pattern.category,
+      category: primary.pattern.category,
+      patternId: primary.pattern.id,
+    };
+  }
+
+  return {
+    deployment,
+    message: diagnosis.unrecognized[0]?.lines[0]?.message || deployment.error_message || 'Build failed without an error message',
+    category: UNRECOGNIZED_FAILURE_CATEGORY,
+    patternId: null,
+  };
+}
+
+// Groups failed builds by signature. `history` is the deploy history the failures were
+// taken from (any state); it shows whether builds passed between occurrences.
+export function clusterFailures(failures: FailedBuild[], history: NetlifyDeployment[]): FailureCluster[] {
+  const groups = new Map<string, FailedBuild[]>();
+  for (const failure of failures) {
+    const signature = failureSignature(failure.message);
+    groups.set(signature, [...(groups.get(signature) || []), failure]);
+  }
+
+  const time = (deployment: NetlifyDeployment) => new Date(deployment.created_at).getTime();
+  const byDate = (a: NetlifyDeployment, b: NetlifyDeployment) => time(b) - time(a);
+  const successes = history.filter(deployment => deployment.state === 'ready').sort(byDate);
+
+  const clusters = Array.from(groups.entries()).map(([signature, members]): FailureCluster => {
+    const deployments = members.map(member => member.deployment).sort(byDate);
+    const newest = deployments[0];
+    const oldest = deployments[deployments.length - 1];
+    const branches = Array.from(new Set(deployments.map(deployment => deployment.branch).filter((branch): branch is string => !!branch)));
+
+    const onAffectedBranch = (deployment: NetlifyDeployment) => branches.length === 0 || branches.includes(deployment.branch || '');
+    const successesBetween = successes.filter(deployment =>
+      onAffectedBranch(deployment) && time(deployment) > time(oldest) && time(deployment) < time(newest)
+    ).length;
+    const lastSuccessBefore = successes.find(deployment => onAffectedBranch(deployment) && time(deployment) < time(oldest));
+    const fixedBy = successes.filter(deployment => onAffectedBranch(deployment) && time(deployment) > time(newest)).pop();
+    const latest = members.find(member => member.deployment === newest)!;
+
+    return {
+      signature,
+      category: latest.category,
+      patternId: latest.patternId,
+      example: latest.message,
+      count: members.length,
+      share: Math.round((members.length / failures.length) * 100),
+      firstSeen: toOccurrence(oldest),
+      lastSeen: toOccurrence(newest),
+      branches,
+      lastSuccessBefore: lastSuccessBefore ? toOccurrence(lastSuccessBefore) : null,
+      successesBetween,
+      fixedBy: fixedBy ? toOccurrence(fixedBy) : null,
+      kind: members.length === 1 ? 'one-off' : successesBetween > 0 ? 'intermittent' : 'persistent',
+      occurrences: deployments.map(toOccurrence),
+    };
+  });
+
+  return clusters.sort((a, b) => b.count - a.count || b.lastSeen.createdAt.localeCompare(a.lastSeen.createdAt));
+}
+
+function toOccurrence(deployment: NetlifyDeployment): FailureOccurrence {
+  return {
+    deployId: deployment.id,
+    createdAt: deployment.created_at,
+    branch: deployment.branch || null,
+    commitRef: deployment.commit_ref || null,
+    commitUrl: deployment.commit_url || null,
+  };
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import type { BuildMetrics, NetlifyDeployment } from '../netlify/client';
+
+export interface HistoryStoreOptions {
+  enabled: boolean;
+  // Directory holding one <siteId>.jsonl file per site
+  dir: string;
+  // Minimum time between the syncs tools run before reading a site's history (default: 1 minute)
+  syncIntervalMs?: number;
+}
+
+// What the local history keeps of a build's failure, so trends do not refetch build logs
+export interface StoredDiagnosis {
+  deployId: string;
+  category: string;
+  patternId: string | null;
+  message: string;
+}
+
+export interface MetricsSnapshot {
+  recordedAt: string;
+  metrics: BuildMetrics;
+}
+
+// One line of a site's history file. Files are only ever appended to: a deploy recorded
+// again (e.g. once its build finished) replaces the earlier record when the file is read.
+export type HistoryRecord =
+  | { type: 'deploy'; recordedAt: string; deploy: NetlifyDeployment }
+  | ({ type: 'diagnosis'; recordedAt: string } & StoredDiagnosis)
+  | ({ type: 'metrics' } & MetricsSnapshot)
+  | { type: 'sync'; recordedAt: string; deploys: number };
+
+export interface SiteHistory {
+  // Newest first
+  deploys: NetlifyDeployment[];
+  diagnoses: Map<string, StoredDiagnosis>;
+  metrics: MetricsSnapshot[];
+  lastSyncAt: string | null;
+}
+
+interface CachedHistory {
+  // Bytes of the file already read, so records appended by another process are picked up
+  offset: number;
+  deploys: Map<string, NetlifyDeployment>;
+  diagnoses: Map<string, StoredDiagnosis>;
+  metrics: MetricsSnapshot[];
+  lastSyncAt: string | null;
+}
+
+interface SyncState {
+  done: Promise<void>;
+  // Null while the sync is running
+  finishedAt: number | null;
+}
+
+export const DEFAULT_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Fields of a deploy worth keeping; the API returns many more
+const STORED_DEPLOY_FIELDS: Array<keyof NetlifyDeployment> = [
+  'id', 'site_id', 'state', 'created_at', 'updated_at', 'published_at', 'error_message', 'deploy_time',
+  'branch', 'commit_ref', 'commit_url', 'url', 'deploy_url', 'admin_url', 'review_id', 'review_url',
+];
+
+// Append-only JSON Lines store of each site's deploys, failure diagnoses and metrics snapshots.
+// Reads are cached in memory and only parse what was appended since the last read.
+export class HistoryStore {
+  private cache = new Map<string, CachedHistory>();
+  private syncs = new Map<string, SyncState>();
+
+  // The options object is read on every call, so configuration changes apply immediately
+  constructor(private options: HistoryStoreOptions) {}
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  get dir(): string {
+    return this.options.dir;
+  }
+
+  read(siteId: string): SiteHistory {
+    const cached = this.load(siteId);
+    return {
+      deploys: Array.from(cached.deploys.values())
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+      diagnoses: new Map(cached.diagnoses),
+      metrics: [...cached.metrics],
+      lastSyncAt: cached.lastSyncAt,
+    };
+  }
+
+  append(siteId: string, records: HistoryRecord[]): void {
+    if (records.length === 0) return;
+    const stored = records.map(record => record.type === 'deploy' ? { ...record, deploy: pickDeployFields(record.deploy) } : record);
+
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    fs.appendFileSync(this.fileFor(siteId), stored.map(record => JSON.stringify(record) + '\n').join(''));
+    // Reading back keeps the cache and its offset in step with the file
+    this.load(siteId);
+  }
+
+  // Runs sync unless the site's history was synced less than syncIntervalMs ago. While a sync
+  // is running, further calls wait for it instead of starting another.
+  throttleSync(siteId: string, sync: () => Promise<unknown>): Promise<void> {
+    const file = this.fileFor(siteId);
+    const previous = this.syncs.get(file);
+    const intervalMs = this.options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+    if (previous && (previous.finishedAt === null || Date.now() - previous.finishedAt < intervalMs)) {
+      return previous.done;
+    }
+
+    const state: SyncState = { done: Promise.resolve(), finishedAt: null };
+    state.done = sync().then(
+      () => { state.finishedAt = Date.now(); },
+      error => {
+        this.syncs.delete(file);
+        throw error;
+      }
+    );
+    this.syncs.set(file, state);
+    return state.done;
+  }
+
+  // Forgets the cached contents and sync times, e.g. after the directory changed
+  clearCache(): void {
+    this.cache.clear();
+    this.syncs.clear();
+  }
+
+  private load(siteId: string): CachedHistory {
+    const file = this.fileFor(siteId);
+    let cached = this.cache.get(file);
+
+    const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    if (!cached || size < cached.offset) {
+      cached = { offset: 0, deploys: new Map(), diagnoses: new Map(), metrics: [], lastSyncAt: null };
+      this.cache.set(file, cached);
+    }
+    if (size === cached.offset) {
+      return cached;
+    }
+
+    const buffer = Buffer.alloc(size - cached.offset);
+    const fd = fs.openSync(file, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, cached.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // A line cut off by a crash mid-write has no newline yet; leave it for the next read
+    const text = buffer.toString('utf8');
+    const complete = text.slice(0, text.lastIndexOf('\n') + 1);
+    cached.offset += Buffer.byteLength(complete);
+
+    let skipped = 0;
+    for (const line of complete.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        applyRecord(cached, JSON.parse(line) as HistoryRecord);
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      console.error(`⚠️ Warning: Skipped ${skipped} unreadable lines in deploy history file ${file}`);
+    }
+    return cached;
+  }
+
+  private fileFor(siteId: string): string {
+    return path.join(this.options.dir, `${siteId.replace(/[^\w.-]/g, '_')}.jsonl`);
+  }
+}
+
+function applyRecord(history: CachedHistory, record: HistoryRecord): void {
+  switch (record.type) {
+    case 'deploy':
+      history.deploys.set(record.deploy.id, record.deploy);
+      break;
+    case 'diagnosis':
+      history.diagnoses.set(record.deployId, {
+        deployId: record.deployId,
+        category: record.category,
+        patternId: record.patternId,
+        message: record.message,
+      });
+      break;
+    case 'metrics':
+      history.metrics.push({ recordedAt: record.recordedAt, metrics: record.metrics });
+      break;
+    case 'sync':
+      history.lastSyncAt = record.recordedAt;
+      break;
+    default:
+      throw new Error(`Unknown history record type: ${(record as { type: unknown }).type}`);
+  }
+}
+
+function pickDeployFields(deploy: NetlifyDeployment): NetlifyDeployment {
+  const picked: Record<string, unknown> = {};
+  for (const field of STORED_DEPLOY_FIELDS) {
+    if (deploy[field] !== undefined && deploy[field] !== null) picked[field] = deploy[field];
+  }
+  return picked as unknown as NetlifyDeployment;
+}
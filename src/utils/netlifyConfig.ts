@@ -0,0 +1,112 @@
+import { TomlDocument, TomlTable, TomlValue, isTomlTable, parseToml, tomlPath } from './toml';
+
+// The settings of a netlify.toml file the diagnosis tools look at, with the line each came from
+
+export interface NetlifyBuildSettings {
+  base: string | null;
+  command: string | null;
+  publish: string | null;
+  functions: string | null;
+  ignore: string | null;
+  environment: Record<string, string>;
+}
+
+export interface NetlifyRedirectRule {
+  from: string;
+  to: string;
+  status: number;
+  force: boolean;
+  query: Record<string, string>;
+  conditions: Record<string, string[]>;
+  line: number | null;
+}
+
+export interface NetlifyHeaderRule {
+  for: string;
+  values: Record<string, string>;
+  line: number | null;
+}
+
+export interface NetlifyPluginEntry {
+  package: string;
+  line: number | null;
+}
+
+export interface NetlifyConfigFile {
+  build: NetlifyBuildSettings;
+  // [context.production], [context.deploy-preview], [context.<branch>] etc.
+  contexts: Record<string, NetlifyBuildSettings>;
+  redirects: NetlifyRedirectRule[];
+  headers: NetlifyHeaderRule[];
+  plugins: NetlifyPluginEntry[];
+  // [functions] directory, falling back to build.functions
+  functionsDirectory: string | null;
+  document: TomlDocument;
+}
+
+export function parseNetlifyConfig(text: string): NetlifyConfigFile {
+  return readNetlifyConfig(parseToml(text));
+}
+
+// Reads the known settings of a parsed netlify.toml; values of the wrong type are left out
+export function readNetlifyConfig(document: TomlDocument): NetlifyConfigFile {
+  const { data, lines } = document;
+  const functions = table(data.functions);
+
+  return {
+    build: readBuildSettings(table(data.build)),
+    contexts: Object.fromEntries(Object.entries(table(data.context)).map(([name, settings]) => [name, readBuildSettings(table(settings))])),
+    redirects: tables(data.redirects).map((rule, index) => ({
+      from: text(rule.from) || '',
+      to: text(rule.to) || '',
+      status: typeof rule.status === 'number' ? rule.status : 301,
+      force: rule.force === true,
+      query: strings(table(rule.query)),
+      conditions: Object.fromEntries(Object.entries(table(rule.conditions)).map(([name, values]) => [
+        name,
+        (Array.isArray(values) ? values : [values]).filter((value): value is string => typeof value === 'string'),
+      ])),
+      line: lines.get(tomlPath('redirects', index)) ?? null,
+    })),
+    headers: tables(data.headers).map((rule, index) => ({
+      for: text(rule.for) || '',
+      values: strings(table(rule.values)),
+      line: lines.get(tomlPath('headers', index)) ?? null,
+    })),
+    plugins: tables(data.plugins)
+      .map((plugin, index) => ({ package: text(plugin.package) || '', line: lines.get(tomlPath('plugins', index)) ?? null }))
+      .filter(plugin => plugin.package),
+    functionsDirectory: text(functions.directory) ?? text(table(data.build).functions),
+    document,
+  };
+}
+
+function readBuildSettings(build: TomlTable): NetlifyBuildSettings {
+  return {
+    base: text(build.base),
+    command: text(build.command),
+    publish: text(build.publish),
+    functions: text(build.functions),
+    ignore: text(build.ignore),
+    environment: strings(table(build.environment)),
+  };
+}
+
+function table(value: TomlValue | undefined): TomlTable {
+  return isTomlTable(value) ? value : {};
+}
+
+function tables(value: TomlValue | undefined): TomlTable[] {
+  return Array.isArray(value) ? value.filter(isTomlTable) : [];
+}
+
+function text(value: TomlValue | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+// Keeps string values, and numbers and booleans as written, e.g. NODE_VERSION = 20
+function strings(values: TomlTable): Record<string, string> {
+  return Object.fromEntries(Object.entries(values)
+    .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+    .map(([key, value]) => [key, String(value)]));
+}
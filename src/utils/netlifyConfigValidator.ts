@@ -0,0 +1,500 @@
+import type { ErrorPattern } from './errorAnalysis';
+import { NetlifyConfigFile, readNetlifyConfig } from './netlifyConfig';
+import { TomlDocument, TomlParseError, TomlTable, TomlValue, isTomlTable, parseToml, tomlPath } from './toml';
+
+// Checks a netlify.toml against the file-based configuration Netlify understands. Every
+// problem belongs to a rule described like an ErrorPattern, so reports can give the same
+// causes, quick fixes and prevention tips as a build error diagnosis.
+
+export type ConfigRule = Pick<ErrorPattern, 'id' | 'category' | 'commonCauses' | 'quickFixes' | 'preventionTips'>;
+
+export interface ConfigIssue {
+  rule: ConfigRule;
+  // Errors make Netlify reject the file or misbehave; warnings are likely mistakes
+  severity: 'error' | 'warning';
+  line: number | null;
+  // Setting the issue is about, e.g. "redirects.0.status"
+  path: string | null;
+  message: string;
+}
+
+export interface NetlifyConfigValidation {
+  valid: boolean;
+  // Null when the file is not valid TOML
+  config: NetlifyConfigFile | null;
+  // In file order
+  issues: ConfigIssue[];
+}
+
+export const CONFIG_RULES = {
+  syntax: {
+    id: 'toml-syntax',
+    category: 'TOML Syntax',
+    commonCauses: ['Unquoted string value', 'Unclosed quote, bracket or table header', 'Key or table defined twice'],
+    quickFixes: ['Fix the syntax on the reported line', 'Quote string values, e.g. command = "npm run build"'],
+    preventionTips: ['Validate netlify.toml in CI before pushing', 'Use an editor with TOML syntax highlighting'],
+  },
+  sections: {
+    id: 'unknown-section',
+    category: 'Unknown Configuration Section',
+    commonCauses: ['Misspelled table name', 'Setting placed outside of its table'],
+    quickFixes: ['Rename the table to one Netlify supports: build, context, redirects, headers, plugins, functions, edge_functions, dev'],
+    preventionTips: ['Keep netlify.toml close to the file-based configuration docs'],
+  },
+  build: {
+    id: 'build-settings',
+    category: 'Build Settings',
+    commonCauses: ['Misspelled build setting', 'Setting of the wrong type', 'Environment value that is not a string'],
+    quickFixes: ['Check the setting names in [build]: base, command, publish, functions, edge_functions, ignore, environment', 'Quote environment values, e.g. NODE_VERSION = "20"'],
+    preventionTips: ['Run the build command from netlify.toml locally before pushing'],
+  },
+  contexts: {
+    id: 'context-overrides',
+    category: 'Context Overrides',
+    commonCauses: ['Misspelled deploy context such as deploy_preview', 'Build setting placed in the wrong table'],
+    quickFixes: ['Use production, deploy-preview, branch-deploy, dev or a branch name as the context', 'Put overrides directly in [context.<name>], e.g. [context.production] command = "..."'],
+    preventionTips: ['Check deploy previews use the settings you expect'],
+  },
+  redirects: {
+    id: 'redirect-rules',
+    category: 'Redirect Rule',
+    commonCauses: ['Rule missing its from or to path', 'Placeholder or splat used in to but not in from', 'Unsupported status or condition'],
+    quickFixes: ['Give every [[redirects]] entry a from and a to', 'Define :placeholders and * in from before using them in to', 'Test the rules with the test-redirects tool'],
+    preventionTips: ['Keep redirects in one place (_redirects or netlify.toml)', 'Review redirect changes in deploy previews'],
+  },
+  headers: {
+    id: 'header-rules',
+    category: 'Header Rule',
+    commonCauses: ['[[headers]] entry without for or values', 'Header name with invalid characters', 'Header value that is not a string'],
+    quickFixes: ['Give every [[headers]] entry a for path and a [headers.values] table', 'Quote header values'],
+    preventionTips: ['Check response headers of a deploy preview with curl -I'],
+  },
+  plugins: {
+    id: 'plugin-declarations',
+    category: 'Plugin Declaration',
+    commonCauses: ['[[plugins]] entry without a package', 'Plugin declared twice', 'Inputs outside of [plugins.inputs]'],
+    quickFixes: ['Give every [[plugins]] entry a package', 'Put plugin options in [plugins.inputs]'],
+    preventionTips: ['Pin plugin versions in package.json devDependencies'],
+  },
+  functions: {
+    id: 'functions-settings',
+    category: 'Functions Settings',
+    commonCauses: ['Unsupported node_bundler', 'Invalid cron schedule', 'Functions directory set twice'],
+    quickFixes: ['Use node_bundler = "esbuild" (or "zisi", "none")', 'Write schedules as five-field cron expressions or @hourly, @daily, @weekly, @monthly, @yearly'],
+    preventionTips: ['Run netlify functions:serve locally to check the functions bundle'],
+  },
+  edgeFunctions: {
+    id: 'edge-functions-settings',
+    category: 'Edge Functions Settings',
+    commonCauses: ['[[edge_functions]] entry without function or path', 'Path not starting with /'],
+    quickFixes: ['Give every [[edge_functions]] entry a function and a path (or pattern)'],
+    preventionTips: ['Test edge functions with netlify dev before deploying'],
+  },
+} satisfies Record<string, ConfigRule>;
+
+type SettingType = 'string' | 'boolean' | 'integer' | 'number' | 'table' | 'array' | 'table-array';
+
+const TOP_LEVEL_SETTINGS: Record<string, SettingType> = {
+  build: 'table',
+  context: 'table',
+  redirects: 'table-array',
+  headers: 'table-array',
+  plugins: 'table-array',
+  functions: 'table',
+  edge_functions: 'table-array',
+  dev: 'table',
+  images: 'table',
+  template: 'table',
+};
+const BUILD_SETTINGS: Record<string, SettingType> = {
+  base: 'string',
+  command: 'string',
+  publish: 'string',
+  functions: 'string',
+  edge_functions: 'string',
+  ignore: 'string',
+  environment: 'table',
+  processing: 'table',
+};
+const CONTEXT_SETTINGS: Record<string, SettingType> = { ...BUILD_SETTINGS, plugins: 'table-array' };
+const REDIRECT_SETTINGS: Record<string, SettingType> = {
+  from: 'string',
+  to: 'string',
+  status: 'integer',
+  force: 'boolean',
+  query: 'table',
+  conditions: 'table',
+  headers: 'table',
+  signed: 'string',
+};
+const HEADER_SETTINGS: Record<string, SettingType> = { for: 'string', values: 'table' };
+const PLUGIN_SETTINGS: Record<string, SettingType> = { package: 'string', inputs: 'table', pinned_version: 'string' };
+const FUNCTION_SETTINGS: Record<string, SettingType> = {
+  node_bundler: 'string',
+  external_node_modules: 'array',
+  included_files: 'array',
+  ignored_node_modules: 'array',
+  schedule: 'string',
+};
+const EDGE_FUNCTION_SETTINGS: Record<string, SettingType> = {
+  function: 'string',
+  path: 'string',
+  pattern: 'string',
+  excludedPath: 'string',
+  excludedPattern: 'string',
+  cache: 'string',
+};
+
+const DEPLOY_CONTEXTS = ['production', 'deploy-preview', 'branch-deploy', 'dev'];
+const REDIRECT_STATUSES = [200, 301, 302, 303, 307, 308, 404, 410, 451];
+const REDIRECT_CONDITIONS = ['Country', 'Language', 'Role', 'Cookie'];
+const NODE_BUNDLERS = ['esbuild', 'zisi', 'none'];
+const SCHEDULE_SHORTCUTS = ['@yearly', '@annually', '@monthly', '@weekly', '@daily', '@hourly'];
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+const PLACEHOLDER_PATTERN = /:([A-Za-z_][\w-]*)/g;
+
+export function validateNetlifyConfig(text: string): NetlifyConfigValidation {
+  let document: TomlDocument;
+  try {
+    document = parseToml(text);
+  } catch (error) {
+    if (!(error instanceof TomlParseError)) throw error;
+    return {
+      valid: false,
+      config: null,
+      issues: [{ rule: CONFIG_RULES.syntax, severity: 'error', line: error.line, path: null, message: error.reason }],
+    };
+  }
+
+  const issues = new ConfigChecker(document).check();
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    config: readNetlifyConfig(document),
+    issues: issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity)),
+  };
+}
+
+class ConfigChecker {
+  private readonly issues: ConfigIssue[] = [];
+
+  constructor(private readonly document: TomlDocument) {}
+
+  check(): ConfigIssue[] {
+    const { data } = this.document;
+    this.checkSettings(data, [], TOP_LEVEL_SETTINGS, CONFIG_RULES.sections);
+
+    if (isTomlTable(data.build)) {
+      this.checkSettings(data.build, ['build'], BUILD_SETTINGS, CONFIG_RULES.build);
+      this.checkBuild(data.build, ['build'], CONFIG_RULES.build);
+    }
+    if (isTomlTable(data.context)) this.checkContexts(data.context);
+    this.entries(data.redirects, 'redirects').forEach(([rule, path]) => this.checkRedirect(rule, path));
+    this.entries(data.headers, 'headers').forEach(([rule, path]) => this.checkHeader(rule, path));
+    this.checkPlugins(this.entries(data.plugins, 'plugins'));
+    if (isTomlTable(data.functions)) this.checkFunctions(data.functions, isTomlTable(data.build) ? data.build : {});
+    this.entries(data.edge_functions, 'edge_functions').forEach(([entry, path]) => this.checkEdgeFunction(entry, path));
+
+    return this.issues;
+  }
+
+  private checkBuild(build: TomlTable, path: string[], rule: ConfigRule): void {
+    if (typeof build.command === 'string' && !build.command.trim()) {
+      this.report(rule, 'warning', [...path, 'command'], 'The build command is empty - remove it to deploy the publish directory as it is');
+    }
+    if (build.processing !== undefined) {
+      this.report(rule, 'warning', [...path, 'processing'], 'Post processing (asset optimization) is no longer supported by Netlify and is ignored');
+    }
+    if (isTomlTable(build.environment)) {
+      for (const [name, value] of Object.entries(build.environment)) {
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          this.report(rule, 'warning', [...path, 'environment', name], `Environment variable ${name} is set to ${value} without quotes - Netlify passes it on as the string "${value}"`);
+        } else if (typeof value !== 'string') {
+          this.report(rule, 'error', [...path, 'environment', name], `Environment variable ${name} must be a string`);
+        }
+      }
+    }
+  }
+
+  private checkContexts(contexts: TomlTable): void {
+    for (const [name, settings] of Object.entries(contexts)) {
+      const path = ['context', name];
+      if (!isTomlTable(settings)) {
+        this.report(CONFIG_RULES.contexts, 'error', path, `context.${name} must be a table of build settings, e.g. [context.${name}]`);
+        continue;
+      }
+      const intended = closestName(name, DEPLOY_CONTEXTS);
+      if (intended && intended !== name) {
+        this.report(CONFIG_RULES.contexts, 'warning', path, `Context "${name}" only applies to a branch named ${name} - did you mean ${intended}?`);
+      }
+      if (name in BUILD_SETTINGS) {
+        this.report(CONFIG_RULES.contexts, 'warning', path, `[context.${name}] configures a branch named ${name} - put the ${name} setting in [context.<context-name>] instead`);
+        continue;
+      }
+      this.checkSettings(settings, path, CONTEXT_SETTINGS, CONFIG_RULES.contexts);
+      this.checkBuild(settings, path, CONFIG_RULES.contexts);
+      this.checkPlugins(this.entries(settings.plugins, ...path, 'plugins'));
+    }
+  }
+
+  private checkRedirect(redirect: TomlTable, path: string[]): void {
+    const rule = CONFIG_RULES.redirects;
+    this.checkSettings(redirect, path, REDIRECT_SETTINGS, rule);
+
+    const from = typeof redirect.from === 'string' ? redirect.from : null;
+    const to = typeof redirect.to === 'string' ? redirect.to : null;
+    if (redirect.from === undefined) this.report(rule, 'error', path, 'Redirect rule has no from path');
+    if (redirect.to === undefined) this.report(rule, 'error', path, `Redirect rule${from ? ` for ${from}` : ''} has no to path or URL`);
+
+    if (from !== null && !from.startsWith('/') && !/^https?:\/\//.test(from)) {
+      this.report(rule, 'error', [...path, 'from'], `from path "${from}" must start with / or be a full URL`);
+    }
+    if (from !== null && from.includes('*') && !from.endsWith('*')) {
+      this.report(rule, 'warning', [...path, 'from'], `The * in "${from}" only works as the last character of the path`);
+    }
+    if (to !== null && !to.startsWith('/') && !/^https?:\/\//.test(to)) {
+      this.report(rule, 'error', [...path, 'to'], `to "${to}" must start with / or be a full URL`);
+    }
+
+    if (from !== null && to !== null) {
+      if (to.includes(':splat') && !from.includes('*')) {
+        this.report(rule, 'warning', [...path, 'to'], `to uses :splat but from "${from}" has no *`);
+      }
+      const defined = new Set([
+        ...placeholders(from),
+        ...(isTomlTable(redirect.query) ? Object.values(redirect.query).filter((value): value is string => typeof value === 'string').flatMap(placeholders) : []),
+      ]);
+      const undefinedPlaceholders = placeholders(to.replace(/^https?:\/\/[^/]+/, '')).filter(name => name !== 'splat' && !defined.has(name));
+      if (undefinedPlaceholders.length > 0) {
+        this.report(rule, 'warning', [...path, 'to'], `to uses ${undefinedPlaceholders.map(name => `:${name}`).join(', ')}, which from and query don't define`);
+      }
+    }
+
+    if (typeof redirect.status === 'number' && Number.isInteger(redirect.status) && !REDIRECT_STATUSES.includes(redirect.status)) {
+      this.report(rule, 'warning', [...path, 'status'], `Status ${redirect.status} is unusual for a redirect - Netlify supports ${REDIRECT_STATUSES.join(', ')}`);
+    }
+
+    if (isTomlTable(redirect.query)) {
+      for (const [name, value] of Object.entries(redirect.query)) {
+        if (typeof value !== 'string') this.report(rule, 'error', [...path, 'query', name], `Query parameter ${name} must be a string, e.g. ${name} = ":${name}"`);
+      }
+    }
+
+    if (isTomlTable(redirect.conditions)) {
+      for (const [name, values] of Object.entries(redirect.conditions)) {
+        const conditionPath = [...path, 'conditions', name];
+        if (!REDIRECT_CONDITIONS.includes(name)) {
+          const intended = closestName(name, REDIRECT_CONDITIONS, true);
+          this.report(rule, 'warning', conditionPath, `Unknown condition ${name}${intended ? ` - did you mean ${intended}?` : ` - Netlify supports ${REDIRECT_CONDITIONS.join(', ')}`}`);
+          continue;
+        }
+        if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+          this.report(rule, 'error', conditionPath, `Condition ${name} must be a list of strings, e.g. ${name} = ["${name === 'Language' ? 'pt' : name === 'Country' ? 'AO' : 'admin'}"]`);
+          continue;
+        }
+        const invalidCodes = name === 'Country' ? values.filter(value => !/^[A-Za-z]{2}$/.test(String(value))) : [];
+        if (invalidCodes.length > 0) {
+          this.report(rule, 'warning', conditionPath, `Country conditions take two-letter ISO 3166 codes, not ${invalidCodes.join(', ')}`);
+        }
+      }
+    }
+
+    if (redirect.headers !== undefined && !(redirect.status === 200 && to !== null && /^https?:\/\//.test(to))) {
+      this.report(rule, 'warning', [...path, 'headers'], 'Redirect headers are only sent to the target of a proxy rewrite (status 200 to a full URL)');
+    }
+  }
+
+  private checkHeader(header: TomlTable, path: string[]): void {
+    const rule = CONFIG_RULES.headers;
+    this.checkSettings(header, path, HEADER_SETTINGS, rule);
+
+    if (header.for === undefined) this.report(rule, 'error', path, 'Header rule has no for path');
+    if (typeof header.for === 'string' && !header.for.startsWith('/')) {
+      this.report(rule, 'error', [...path, 'for'], `for path "${header.for}" must start with /`);
+    }
+    if (header.values === undefined) {
+      this.report(rule, 'error', path, `Header rule${typeof header.for === 'string' ? ` for ${header.for}` : ''} has no values - add a [headers.values] table`);
+    } else if (isTomlTable(header.values)) {
+      if (Object.keys(header.values).length === 0) this.report(rule, 'warning', [...path, 'values'], 'Header rule sets no headers');
+      for (const [name, value] of Object.entries(header.values)) {
+        if (!HEADER_NAME_PATTERN.test(name)) {
+          this.report(rule, 'error', [...path, 'values', name], `"${name}" is not a valid header name`);
+        }
+        const isStringList = Array.isArray(value) && value.every(entry => typeof entry === 'string');
+        if (typeof value !== 'string' && !isStringList) {
+          this.report(rule, 'error', [...path, 'values', name], `Header ${name} must be a string`);
+        }
+      }
+    }
+  }
+
+  private checkPlugins(plugins: Array<[TomlTable, string[]]>): void {
+    const rule = CONFIG_RULES.plugins;
+    const seen = new Set<string>();
+    for (const [plugin, path] of plugins) {
+      this.checkSettings(plugin, path, PLUGIN_SETTINGS, rule);
+      if (plugin.package === undefined) {
+        this.report(rule, 'error', path, 'Plugin has no package');
+      } else if (typeof plugin.package === 'string') {
+        if (seen.has(plugin.package)) this.report(rule, 'warning', [...path, 'package'], `Plugin ${plugin.package} is declared more than once`);
+        seen.add(plugin.package);
+      }
+    }
+  }
+
+  private checkFunctions(functions: TomlTable, build: TomlTable): void {
+    const rule = CONFIG_RULES.functions;
+    const settings: Record<string, SettingType> = { directory: 'string', ...FUNCTION_SETTINGS };
+
+    for (const [name, value] of Object.entries(functions)) {
+      // Tables configure the functions matching their name, e.g. [functions."api-*"]
+      if (isTomlTable(value) && !(name in settings)) {
+        this.checkSettings(value, ['functions', name], FUNCTION_SETTINGS, rule);
+        this.checkFunctionSettings(value, ['functions', name]);
+      } else {
+        this.checkSettings({ [name]: value }, ['functions'], settings, rule);
+      }
+    }
+    if (functions.schedule !== undefined) {
+      this.report(rule, 'error', ['functions', 'schedule'], 'schedule applies to one function - put it in [functions."<function-name>"]');
+    }
+    this.checkFunctionSettings(functions, ['functions']);
+
+    if (typeof functions.directory === 'string' && typeof build.functions === 'string' && functions.directory !== build.functions) {
+      this.report(rule, 'warning', ['build', 'functions'], `build.functions (${build.functions}) is ignored because [functions] sets directory = "${functions.directory}"`);
+    }
+  }
+
+  private checkFunctionSettings(settings: TomlTable, path: string[]): void {
+    const rule = CONFIG_RULES.functions;
+    if (typeof settings.node_bundler === 'string' && !NODE_BUNDLERS.includes(settings.node_bundler)) {
+      this.report(rule, 'error', [...path, 'node_bundler'], `node_bundler "${settings.node_bundler}" is not supported - use ${NODE_BUNDLERS.join(', ')}`);
+    }
+    for (const key of ['external_node_modules', 'included_files', 'ignored_node_modules']) {
+      const value = settings[key];
+      if (Array.isArray(value) && value.some(entry => typeof entry !== 'string')) {
+        this.report(rule, 'error', [...path, key], `${key} must be a list of strings`);
+      }
+    }
+    if (typeof settings.schedule === 'string' && path.length > 1 && !isCronExpression(settings.schedule)) {
+      this.report(rule, 'error', [...path, 'schedule'], `"${settings.schedule}" is not a cron expression - use five fields (e.g. "0 6 * * *") or ${SCHEDULE_SHORTCUTS.join(', ')}`);
+    }
+  }
+
+  private checkEdgeFunction(entry: TomlTable, path: string[]): void {
+    const rule = CONFIG_RULES.edgeFunctions;
+    this.checkSettings(entry, path, EDGE_FUNCTION_SETTINGS, rule);
+    if (entry.function === undefined) this.report(rule, 'error', path, 'Edge function declaration has no function');
+    if (entry.path === undefined && entry.pattern === undefined) this.report(rule, 'error', path, 'Edge function declaration has no path or pattern');
+    if (typeof entry.path === 'string' && !entry.path.startsWith('/')) {
+      this.report(rule, 'error', [...path, 'path'], `path "${entry.path}" must start with /`);
+    }
+    if (typeof entry.cache === 'string' && entry.cache !== 'manual') {
+      this.report(rule, 'error', [...path, 'cache'], `cache must be "manual", not "${entry.cache}"`);
+    }
+  }
+
+  // Reports settings that are unknown or of the wrong type
+  private checkSettings(table: TomlTable, path: string[], known: Record<string, SettingType>, rule: ConfigRule): void {
+    const where = path.length > 0 ? `[${displayPath(path)}]` : 'the top level';
+    for (const [key, value] of Object.entries(table)) {
+      const expected = known[key];
+      if (!expected) {
+        const intended = closestName(key, Object.keys(known));
+        this.report(rule, 'warning', [...path, key], `Unknown setting ${key} in ${where}${intended ? ` - did you mean ${intended}?` : ''}`);
+        continue;
+      }
+      if (!hasType(value, expected)) {
+        const hint = expected === 'table-array' && isTomlTable(value) ? ` - write [[${displayPath([...path, key])}]], not [${displayPath([...path, key])}]` : '';
+        this.report(rule, 'error', [...path, key], `${displayPath([...path, key])} must be ${TYPE_NAMES[expected]}, not ${typeName(value)}${hint}`);
+      }
+    }
+  }
+
+  // The tables of an array of tables with their paths; anything else is reported by checkSettings
+  private entries(value: TomlValue | undefined, ...path: string[]): Array<[TomlTable, string[]]> {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap((entry, index): Array<[TomlTable, string[]]> => isTomlTable(entry) ? [[entry, [...path, String(index)]]] : []);
+  }
+
+  private report(rule: ConfigRule, severity: ConfigIssue['severity'], path: string[], message: string): void {
+    this.issues.push({ rule, severity, line: this.lineOf(path), path: path.length > 0 ? tomlPath(...path) : null, message });
+  }
+
+  // The line of the setting, or of the closest table that has one
+  private lineOf(path: string[]): number | null {
+    for (let length = path.length; length > 0; length--) {
+      const line = this.document.lines.get(tomlPath(...path.slice(0, length)));
+      if (line !== undefined) return line;
+    }
+    return null;
+  }
+}
+
+const TYPE_NAMES: Record<SettingType, string> = {
+  string: 'a string',
+  boolean: 'true or false',
+  integer: 'a whole number',
+  number: 'a number',
+  table: 'a table',
+  array: 'a list',
+  'table-array': 'an array of tables',
+};
+
+function hasType(value: TomlValue, type: SettingType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number';
+    case 'table': return isTomlTable(value);
+    case 'array': return Array.isArray(value);
+    case 'table-array': return Array.isArray(value) && value.every(isTomlTable);
+  }
+}
+
+function typeName(value: TomlValue): string {
+  if (Array.isArray(value)) return 'a list';
+  if (isTomlTable(value)) return 'a table';
+  if (typeof value === 'string') return `the string "${value}"`;
+  return String(value);
+}
+
+// "redirects[0].status" for display
+function displayPath(path: string[]): string {
+  return path.map((segment, index) => /^\d+$/.test(segment) ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`).join('');
+}
+
+function placeholders(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+}
+
+function isCronExpression(schedule: string): boolean {
+  return SCHEDULE_SHORTCUTS.includes(schedule) || /^\S+(?:\s+\S+){4}$/.test(schedule.trim());
+}
+
+// The known name a misspelled one was probably meant to be: up to two edits away for long
+// names, one for short ones and only _ for - for names of three letters or less
+function closestName(name: string, known: string[], ignoreCase = false): string | null {
+  const normalize = (value: string) => (ignoreCase ? value.toLowerCase() : value).replace(/_/g, '-');
+  let best: { name: string; distance: number } | null = null;
+  for (const candidate of known) {
+    const distance = editDistance(normalize(name), normalize(candidate));
+    const allowed = candidate.length <= 3 ? 0 : candidate.length <= 5 ? 1 : 2;
+    if (distance <= allowed && (!best || distance < best.distance)) best = { name: candidate, distance };
+  }
+  return best && best.name !== name ? best.name : null;
+}
+
+// Insertions, deletions, substitutions and swaps of neighbouring letters
+function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
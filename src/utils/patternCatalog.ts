@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { ErrorPattern } from './errorAnalysis';
+
+// Where a pattern file came from: shipped with the server, or added by the project
+export interface PatternSource {
+  path: string;
+  origin: 'builtin' | 'project';
+  version: number;
+  patterns: number;
+}
+
+export interface ErrorPatternCatalog {
+  patterns: ErrorPattern[];
+  sources: PatternSource[];
+  warnings: string[];
+}
+
+export const BUILTIN_PATTERNS_DIR = path.resolve(__dirname, '../../patterns');
+export const DEFAULT_PROJECT_PATTERNS_DIR = 'error-patterns';
+export const PATTERN_FILE_VERSION = 1;
+const PATTERN_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Fields of one catalog entry. The "g" and "y" flags are rejected because they make
+// RegExp.test stateful between log lines.
+const patternFields = {
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Pattern ids may only contain lowercase letters, digits and dashes"),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported'),
+  category: z.string().min(1),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  buildTimeImpact: z.number().min(0),
+  commonCauses: z.array(z.string()),
+  quickFixes: z.array(z.string()),
+  preventionTips: z.array(z.string()),
+};
+
+export const patternDefinitionSchema = z.object({
+  ...patternFields,
+  flags: patternFields.flags.default('i'),
+  commonCauses: patternFields.commonCauses.default([]),
+  quickFixes: patternFields.quickFixes.default([]),
+  preventionTips: patternFields.preventionTips.default([]),
+}).strict();
+
+// An entry overriding a pattern loaded earlier only needs the fields it changes
+const patternOverrideSchema = z.object(patternFields).partial().extend({
+  id: patternFields.id,
+  disabled: z.boolean().optional(),
+}).strict();
+
+const patternFileSchema = z.object({
+  version: z.literal(PATTERN_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported pattern file version, expected ${PATTERN_FILE_VERSION}` }),
+  }),
+  patterns: z.array(z.record(z.unknown())),
+}).strict();
+
+export type PatternDefinition = z.infer<typeof patternDefinitionSchema>;
+
+// Loads the built-in pattern files, then the project's files from NETLIFY_ERROR_PATTERNS_PATH
+// (files or directories separated by the path delimiter) or ./error-patterns. Later files
+// override earlier ones by id. Every entry is validated and its regex compiled here, so a
+// broken project pattern is reported at startup and skipped instead of failing a diagnosis.
+export function loadErrorPatternCatalog(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd(),
+  builtinDir: string = BUILTIN_PATTERNS_DIR
+): ErrorPatternCatalog {
+  const warnings: string[] = [];
+  const sources: PatternSource[] = [];
+  const definitions = new Map<string, PatternDefinition & { source: string }>();
+
+  const builtinFiles = listPatternFiles(builtinDir);
+  if (builtinFiles.length === 0) {
+    throw new Error(`No built-in error pattern files found in ${builtinDir}`);
+  }
+
+  const explicitPaths = env.NETLIFY_ERROR_PATTERNS_PATH?.split(path.delimiter).filter(Boolean);
+  const projectPaths = explicitPaths || [DEFAULT_PROJECT_PATTERNS_DIR];
+  const projectFiles: string[] = [];
+  for (const projectPath of projectPaths) {
+    const resolved = path.resolve(cwd, projectPath);
+    if (!fs.existsSync(resolved)) {
+      if (explicitPaths) warnings.push(`NETLIFY_ERROR_PATTERNS_PATH entry ${resolved} does not exist`);
+      continue;
+    }
+    projectFiles.push(...(fs.statSync(resolved).isDirectory() ? listPatternFiles(resolved) : [resolved]));
+  }
+
+  const files = [
+    ...builtinFiles.map(file => ({ file, origin: 'builtin' as const })),
+    ...projectFiles.map(file => ({ file, origin: 'project' as const })),
+  ];
+
+  for (const { file, origin } of files) {
+    const label = origin === 'builtin' ? `builtin/${path.basename(file)}` : path.relative(cwd, file) || file;
+    const problems: string[] = [];
+    let loaded = 0;
+
+    const entries = readPatternFile(file, problems);
+    entries?.forEach((entry, index) => {
+      const where = `patterns[${index}]${typeof entry.id === 'string' ? ` (${entry.id})` : ''}`;
+      const existing = typeof entry.id === 'string' ? definitions.get(entry.id) : undefined;
+
+      const parsed = existing ? patternOverrideSchema.safeParse(entry) : patternDefinitionSchema.safeParse(entry);
+      if (!parsed.success) {
+        problems.push(`${where}: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; ')}`);
+        return;
+      }
+
+      const { disabled, ...fields } = parsed.data as Partial<PatternDefinition> & { id: string; disabled?: boolean };
+      if (disabled) {
+        definitions.delete(fields.id);
+        loaded++;
+        return;
+      }
+
+      const definition = { ...existing, ...fields, source: label } as PatternDefinition & { source: string };
+      const compileError = checkPattern(definition.pattern, definition.flags);
+      if (compileError) {
+        problems.push(`${where}: invalid regular expression: ${compileError}`);
+        return;
+      }
+
+      definitions.set(definition.id, definition);
+      loaded++;
+    });
+
+    if (problems.length > 0) {
+      // A broken built-in file is a bug in the server, not a configuration problem
+      if (origin === 'builtin') {
+        throw new Error(`Invalid built-in error pattern file ${file}:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+      }
+      warnings.push(`Ignoring invalid entries in error pattern file ${file}:\n${problems.map(problem => `• ${problem}`).join('\n')}`);
+    }
+    if (entries) {
+      sources.push({ path: file, origin, version: PATTERN_FILE_VERSION, patterns: loaded });
+    }
+  }
+
+  for (const warning of warnings) {
+    console.error(`⚠️ Warning: ${warning}`);
+  }
+
+  return {
+    patterns: Array.from(definitions.values()).map(compilePattern),
+    sources,
+    warnings,
+  };
+}
+
+export function compilePattern(definition: PatternDefinition & { source: string }): ErrorPattern {
+  return {
+    id: definition.id,
+    pattern: new RegExp(definition.pattern, definition.flags),
+    category: definition.category,
+    severity: definition.severity,
+    buildTimeImpact: definition.buildTimeImpact,
+    commonCauses: definition.commonCauses,
+    quickFixes: definition.quickFixes,
+    preventionTips: definition.preventionTips,
+    source: definition.source,
+  };
+}
+
+// The compile error of a regular expression, or null when it is valid
+export function checkPattern(pattern: string, flags: string = 'i'): string | null {
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function listPatternFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => PATTERN_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+function readPatternFile(file: string, problems: string[]): Record<string, unknown>[] | null {
+  let content: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    content = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : yaml.load(text);
+  } catch (error) {
+    problems.push(`could not be parsed: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+
+  const parsed = patternFileSchema.safeParse(content);
+  if (!parsed.success) {
+    problems.push(...parsed.error.issues.map(issue => `${issue.path.join('.') || '(file)'}: ${issue.message}`));
+    return null;
+  }
+  return parsed.data.patterns;
+}
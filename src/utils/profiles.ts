@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { NetlifyClient, NetlifyClientOptions } from '../netlify/client';
+
+// A named Netlify account: its token, API endpoint, default site and plan limits
+export interface NetlifyProfile {
+  name: string;
+  accessToken: string;
+  apiUrl: string;
+  siteId?: string;
+  accountId?: string;
+  // Short names for sites, e.g. { calendar: "digitalzango-agricultural-calendar" }
+  siteAliases: Record<string, string>;
+  // Monthly build minutes of the team's plan; when unset the plan's included minutes reported by Netlify are used
+  buildMinutesLimit?: number;
+  source: 'environment' | 'file';
+}
+
+export interface ProfileConfig {
+  defaultProfile?: string;
+  profiles: NetlifyProfile[];
+}
+
+export const DEFAULT_PROFILE_NAME = 'default';
+export const DEFAULT_PROFILES_FILE = 'netlify-profiles.json';
+const DEFAULT_API_URL = 'https://api.netlify.com/api/v1';
+
+const profileNameSchema = z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Profile names may only contain lowercase letters, digits and dashes");
+
+// Format of netlify-profiles.json. Tokens can be read from another environment variable
+// with accessTokenEnv so the file itself can be committed without secrets.
+const profileFileSchema = z.object({
+  defaultProfile: profileNameSchema.optional(),
+  profiles: z.record(profileNameSchema, z.object({
+    accessToken: z.string().optional(),
+    accessTokenEnv: z.string().optional(),
+    apiUrl: z.string().url().optional(),
+    siteId: z.string().optional(),
+    accountId: z.string().optional(),
+    buildMinutesLimit: z.number().int().positive().optional(),
+    siteAliases: z.record(z.string().min(1)).optional(),
+  }).strict()),
+}).strict();
+
+// NETLIFY_PROFILE_<NAME>_<SETTING>, e.g. NETLIFY_PROFILE_CLIENT_A_ACCESS_TOKEN for profile "client-a"
+const PROFILE_ENV_PATTERN = /^NETLIFY_PROFILE_([A-Z0-9_]+?)_(ACCESS_TOKEN|API_URL|SITE_ID|SITE_ALIASES|ACCOUNT_ID|BUILD_MINUTES_LIMIT)$/;
+
+type ProfileSettings = Partial<Omit<NetlifyProfile, 'name' | 'source'>>;
+
+// The single-account NETLIFY_* settings from config.ts
+export interface NetlifySettings extends ProfileSettings {
+  requestTimeoutMs: number;
+  maxRetries: number;
+}
+
+// Reads profiles from the profiles file and NETLIFY_PROFILE_* variables. Environment
+// settings override the file, setting by setting. Problems are reported as warnings so
+// a broken profile does not stop the server from starting with the default account.
+export function loadProfileConfig(env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): ProfileConfig {
+  const settings = new Map<string, { source: NetlifyProfile['source']; values: ProfileSettings }>();
+  let defaultProfile: string | undefined;
+
+  const file = readProfilesFile(env, cwd);
+  if (file) {
+    defaultProfile = file.defaultProfile;
+    for (const [name, entry] of Object.entries(file.profiles)) {
+      const { accessTokenEnv, ...values } = entry;
+      settings.set(name, {
+        source: 'file',
+        values: { ...values, accessToken: values.accessToken ?? (accessTokenEnv ? env[accessTokenEnv] : undefined) },
+      });
+    }
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(PROFILE_ENV_PATTERN);
+    if (!match || !value) continue;
+
+    const name = match[1].toLowerCase().replace(/_/g, '-');
+    const entry = settings.get(name) || { source: 'environment' as const, values: {} };
+    switch (match[2]) {
+      case 'ACCESS_TOKEN': entry.values.accessToken = value; break;
+      case 'API_URL': entry.values.apiUrl = value; break;
+      case 'SITE_ID': entry.values.siteId = value; break;
+      case 'SITE_ALIASES': entry.values.siteAliases = { ...entry.values.siteAliases, ...parseSiteAliases(value) }; break;
+      case 'ACCOUNT_ID': entry.values.accountId = value; break;
+      case 'BUILD_MINUTES_LIMIT': {
+        const limit = parseInt(value, 10);
+        if (limit > 0) {
+          entry.values.buildMinutesLimit = limit;
+        } else {
+          console.error(`⚠️ Warning: ${key} must be a positive number of minutes, ignoring "${value}"`);
+        }
+        break;
+      }
+    }
+    settings.set(name, entry);
+  }
+
+  const profiles = Array.from(settings.entries()).map(([name, { source, values }]) => {
+    if (!values.accessToken) {
+      console.error(`⚠️ Warning: Netlify profile "${name}" has no access token`);
+    }
+    return createProfile(name, source, values);
+  });
+
+  return {
+    defaultProfile: env.NETLIFY_DEFAULT_PROFILE || defaultProfile,
+    profiles,
+  };
+}
+
+function readProfilesFile(env: NodeJS.ProcessEnv, cwd: string): z.infer<typeof profileFileSchema> | null {
+  const explicitPath = env.NETLIFY_PROFILES_FILE;
+  const filePath = path.resolve(cwd, explicitPath || DEFAULT_PROFILES_FILE);
+
+  if (!fs.existsSync(filePath)) {
+    if (explicitPath) {
+      console.error(`⚠️ Warning: NETLIFY_PROFILES_FILE ${filePath} does not exist`);
+    }
+    return null;
+  }
+
+  try {
+    const parsed = profileFileSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(file)'}: ${issue.message}`);
+      console.error(`⚠️ Warning: Ignoring invalid profiles file ${filePath}:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+      return null;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.error(`⚠️ Warning: Could not read profiles file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+// Parses "alias=site,alias=site" lists such as NETLIFY_SITE_ALIASES=calendar=digitalzango-agricultural-calendar
+export function parseSiteAliases(value: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const [alias, site] = pair.split('=').map(part => part.trim());
+    if (alias && site) {
+      aliases[alias] = site;
+    } else if (pair.trim()) {
+      console.error(`⚠️ Warning: Ignoring site alias "${pair.trim()}" - expected alias=site`);
+    }
+  }
+  return aliases;
+}
+
+export function createProfile(name: string, source: NetlifyProfile['source'], values: ProfileSettings): NetlifyProfile {
+  return {
+    name,
+    accessToken: values.accessToken || '',
+    apiUrl: values.apiUrl || DEFAULT_API_URL,
+    siteId: values.siteId || undefined,
+    accountId: values.accountId || undefined,
+    siteAliases: values.siteAliases || {},
+    buildMinutesLimit: values.buildMinutesLimit || undefined,
+    source,
+  };
+}
+
+// The profiles a tool call can choose from, and the clients built for them
+export class ProfileManager {
+  private profiles = new Map<string, NetlifyProfile>();
+
+  constructor(profiles: NetlifyProfile[], readonly defaultProfile: string = DEFAULT_PROFILE_NAME, private clientOptions: NetlifyClientOptions = {}) {
+    for (const profile of profiles) {
+      this.profiles.set(profile.name, profile);
+    }
+  }
+
+  // Combines the NETLIFY_* settings (the "default" profile) with the named profiles; a
+  // named profile called "default" replaces the one built from NETLIFY_ACCESS_TOKEN
+  static fromConfig(netlify: NetlifySettings, profileConfig: ProfileConfig): ProfileManager {
+    const defaultProfile = createProfile(DEFAULT_PROFILE_NAME, 'environment', netlify);
+    const named = profileConfig.profiles.filter(profile => profile.name !== DEFAULT_PROFILE_NAME);
+    const profiles = profileConfig.profiles.length > named.length ? profileConfig.profiles : [defaultProfile, ...named];
+
+    return new ProfileManager(profiles, profileConfig.defaultProfile || DEFAULT_PROFILE_NAME, {
+      timeoutMs: netlify.requestTimeoutMs,
+      maxRetries: netlify.maxRetries,
+    });
+  }
+
+  get names(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  list(): NetlifyProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  get(name: string = this.defaultProfile): NetlifyProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown profile "${name}". Configured profiles: ${this.names.join(', ') || 'none'}`);
+    }
+    return profile;
+  }
+
+  createClient(profile: NetlifyProfile, options: NetlifyClientOptions = {}): NetlifyClient {
+    return new NetlifyClient(profile.accessToken, {
+      ...this.clientOptions,
+      ...options,
+      baseUrl: profile.apiUrl,
+    });
+  }
+}
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { NetlifySite } from '../netlify/client';
+import { normalizeSiteReference, siteKeys } from '../netlify/siteResolver';
+
+// Reports a recommendation pack can add its recommendations to
+export const RECOMMENDATION_TOPICS = ['build-strategy', 'retry', 'content', 'social-media', 'monitoring'] as const;
+
+export type RecommendationTopic = typeof RECOMMENDATION_TOPICS[number];
+
+export interface RecommendationPack {
+  id: string;
+  title: string;
+  topics: RecommendationTopic[];
+  recommendations: string[];
+}
+
+// What the analyzers and prompt builders know about the project behind a site
+export interface ProjectContext {
+  // Site IDs, names or domains the context applies to; ["*"] for every site without its own
+  sites: string[];
+  name: string | null;
+  framework: string | null;
+  contentTypes: string[];
+  deployCadence: string | null;
+  locale: string | null;
+  audience: string | null;
+  recommendationPacks: RecommendationPack[];
+  // Local checkout of the site's repository, read by the diagnosis tools
+  repoPath: string | null;
+  // File the context was loaded from, or "builtin" for the generic context
+  source: string;
+}
+
+export interface ProjectContextCatalog {
+  contexts: ProjectContext[];
+  warnings: string[];
+}
+
+export const DEFAULT_PROJECT_CONTEXT_DIR = 'project-contexts';
+export const PROJECT_CONTEXT_FILE_VERSION = 1;
+const PROJECT_CONTEXT_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+// A file with this name applies to every site that has no context of its own
+const DEFAULT_CONTEXT_FILE_NAME = 'default';
+const ALL_SITES = '*';
+
+// Used for sites without a project context: no assumptions about framework or audience
+export const GENERIC_PROJECT_CONTEXT: ProjectContext = {
+  sites: [ALL_SITES],
+  name: null,
+  framework: null,
+  contentTypes: [],
+  deployCadence: null,
+  locale: null,
+  audience: null,
+  recommendationPacks: [],
+  repoPath: null,
+  source: 'builtin',
+};
+
+const recommendationPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Pack ids may only contain lowercase letters, digits and dashes"),
+  title: z.string().min(1),
+  topics: z.array(z.enum(RECOMMENDATION_TOPICS)).min(1),
+  recommendations: z.array(z.string().min(1)).min(1),
+}).strict();
+
+const projectContextFileSchema = z.object({
+  version: z.literal(PROJECT_CONTEXT_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported project context file version, expected ${PROJECT_CONTEXT_FILE_VERSION}` }),
+  }),
+  sites: z.array(z.string().min(1)).min(1).optional(),
+  name: z.string().min(1).optional(),
+  framework: z.string().min(1).optional(),
+  contentTypes: z.array(z.string().min(1)).default([]),
+  deployCadence: z.string().min(1).optional(),
+  locale: z.string().min(1).optional(),
+  audience: z.string().min(1).optional(),
+  recommendationPacks: z.array(recommendationPackSchema).default([]),
+  // Relative to the directory of the context file
+  repoPath: z.string().min(1).optional(),
+}).strict();
+
+// Loads the project context files from NETLIFY_PROJECT_CONTEXT_PATH (files or directories
+// separated by the path delimiter) or ./project-contexts. A file applies to the sites it lists,
+// or to the site named like the file (e.g. project-contexts/my-site.yaml); default.yaml applies
+// to every other site. Invalid files are reported and skipped.
+export function loadProjectContexts(env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): ProjectContextCatalog {
+  const warnings: string[] = [];
+  const contexts: ProjectContext[] = [];
+
+  const explicitPaths = env.NETLIFY_PROJECT_CONTEXT_PATH?.split(path.delimiter).filter(Boolean);
+  const files: string[] = [];
+  for (const contextPath of explicitPaths || [DEFAULT_PROJECT_CONTEXT_DIR]) {
+    const resolved = path.resolve(cwd, contextPath);
+    if (!fs.existsSync(resolved)) {
+      if (explicitPaths) warnings.push(`NETLIFY_PROJECT_CONTEXT_PATH entry ${resolved} does not exist`);
+      continue;
+    }
+    files.push(...(fs.statSync(resolved).isDirectory() ? listContextFiles(resolved) : [resolved]));
+  }
+
+  const claimedBy = new Map<string, string>();
+  for (const file of files) {
+    const label = path.relative(cwd, file) || file;
+    let parsed: z.infer<typeof projectContextFileSchema>;
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      const content = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : yaml.load(text);
+      const result = projectContextFileSchema.safeParse(content);
+      if (!result.success) {
+        warnings.push(`Ignoring project context file ${file}:\n${result.error.issues.map(issue => `• ${issue.path.join('.') || '(file)'}: ${issue.message}`).join('\n')}`);
+        continue;
+      }
+      parsed = result.data;
+    } catch (error) {
+      warnings.push(`Ignoring project context file ${file}: could not be parsed: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const baseName = path.basename(file, path.extname(file));
+    const sites = parsed.sites || [baseName === DEFAULT_CONTEXT_FILE_NAME ? ALL_SITES : baseName];
+    for (const site of sites) {
+      const key = site === ALL_SITES ? ALL_SITES : normalizeSiteReference(site);
+      const earlier = claimedBy.get(key);
+      if (earlier) warnings.push(`Project context ${label} replaces ${earlier} for site "${site}"`);
+      claimedBy.set(key, label);
+    }
+
+    contexts.push({
+      sites,
+      name: parsed.name ?? null,
+      framework: parsed.framework ?? null,
+      contentTypes: parsed.contentTypes,
+      deployCadence: parsed.deployCadence ?? null,
+      locale: parsed.locale ?? null,
+      audience: parsed.audience ?? null,
+      recommendationPacks: parsed.recommendationPacks,
+      repoPath: parsed.repoPath ? path.resolve(path.dirname(file), parsed.repoPath) : null,
+      source: label,
+    });
+  }
+
+  for (const warning of warnings) {
+    console.error(`⚠️ Warning: ${warning}`);
+  }
+
+  return { contexts, warnings };
+}
+
+// The context of a site: the last one listing any of its IDs, names or domains, then the
+// default context, then the generic one
+export function findProjectContext(contexts: ProjectContext[], site: NetlifySite): ProjectContext {
+  const keys = siteKeys(site);
+  const matching = [...contexts].reverse();
+  return matching.find(context => context.sites.some(reference => reference !== ALL_SITES && keys.includes(normalizeSiteReference(reference))))
+    || matching.find(context => context.sites.includes(ALL_SITES))
+    || GENERIC_PROJECT_CONTEXT;
+}
+
+// Sites named by the project contexts, in file order; the default context names none
+export function projectContextSites(contexts: ProjectContext[]): string[] {
+  return contexts.flatMap(context => context.sites.filter(site => site !== ALL_SITES));
+}
+
+// Local checkouts of the configured projects, the only directories HTTP clients may point tools at
+export function projectContextRoots(contexts: ProjectContext[]): string[] {
+  return Array.from(new Set(contexts.flatMap(context => context.repoPath ? [context.repoPath] : [])));
+}
+
+// Recommendations of the context's packs for one report, grouped by pack
+export function recommendationPacksFor(context: ProjectContext, topic: RecommendationTopic): RecommendationPack[] {
+  return context.recommendationPacks.filter(pack => pack.topics.includes(topic));
+}
+
+// Markdown sections of the packs for a report, e.g. "**Calendar Tips:**\n• ...", or ''
+export function formatRecommendationPacks(context: ProjectContext, topic: RecommendationTopic): string {
+  return recommendationPacksFor(context, topic)
+    .map(pack => `**${pack.title}:**\n${pack.recommendations.map(recommendation => `• ${recommendation}`).join('\n')}`)
+    .join('\n\n');
+}
+
+// "- Framework: Next.js" lines for AI prompts, or '' for the generic context
+export function describeProjectContext(context: ProjectContext): string {
+  const lines: Array<[string, string | null]> = [
+    ['Project', context.name],
+    ['Framework', context.framework],
+    ['Content Types', context.contentTypes.join(', ') || null],
+    ['Deploy Cadence', context.deployCadence],
+    ['Locale', context.locale],
+    ['Audience', context.audience],
+  ];
+  return lines.filter(([, value]) => value).map(([label, value]) => `- ${label}: ${value}`).join('\n');
+}
+
+function listContextFiles(dir: string): string[] {
+  return fs.readdirSync(dir)
+    .filter(name => PROJECT_CONTEXT_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
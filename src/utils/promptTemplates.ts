@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface PromptTemplate {
+  // Name of the prompt the template is for, from its file name
+  name: string;
+  text: string;
+  // "builtin/<file>" or the path of the project's file
+  source: string;
+}
+
+export interface PromptTemplateSet {
+  templates: Map<string, PromptTemplate>;
+  warnings: string[];
+}
+
+// Values a template is rendered with; null and '' count as missing in sections
+export type PromptVariables = Record<string, string | number | null>;
+
+// Variables each prompt renders its template with. A customized template may only use these,
+// which is checked when it is loaded rather than on every call.
+export const PROMPT_VARIABLES = {
+  'triage-failed-deploy': [
+    'siteName', 'siteUrl', 'projectContext', 'deployId', 'state', 'createdAt', 'branch', 'commitRef', 'errorMessage',
+    'buildMinutesRemaining', 'failureRate', 'averageBuildTime', 'errorCategory', 'severity', 'buildTimeImpact',
+    'quickFixes', 'commonCauses', 'preventionTips', 'details', 'evidence', 'logSummary', 'repoPath', 'repoFindings',
+  ],
+  'plan-build-minute-budget': [
+    'projectContext', 'teamName', 'plan', 'periodStart', 'periodEnd', 'dayOfPeriod', 'daysTotal', 'minutesUsed',
+    'includedMinutes', 'percentUsed', 'remaining', 'projectedMinutes', 'projectedOverage', 'siteUsage', 'siteName',
+    'siteBuilds', 'averageBuildTime', 'failureRate', 'failedBuildMinutes', 'failedBuilds', 'plannedDeploys',
+  ],
+  'review-content-release': [
+    'projectContext', 'siteName', 'deployId', 'state', 'branch', 'commitRef', 'createdAt', 'buildTime', 'previewUrl',
+    'errorMessage', 'averageBuildTime', 'failureRate', 'buildMinutesRemaining', 'totalPosts', 'buildTimePerPost',
+    'incrementalBuilds', 'optimizationScore', 'recentDeploys', 'logTail',
+  ],
+} as const;
+
+export type PromptName = keyof typeof PROMPT_VARIABLES;
+
+// The variables of one prompt, all of which its variables builder must set
+export type PromptVariablesOf<Name extends PromptName> = Record<(typeof PROMPT_VARIABLES)[Name][number], string | number | null>;
+
+export const BUILTIN_PROMPTS_DIR = path.resolve(__dirname, '../../prompts');
+export const DEFAULT_PROJECT_PROMPTS_DIR = 'prompt-templates';
+const PROMPT_TEMPLATE_EXTENSIONS = ['.md', '.txt'];
+
+// {{name}} inserts a value; {{#name}}...{{/name}} is kept only when the value is set and
+// {{^name}}...{{/name}} only when it is not
+const SECTION_PATTERN = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const TAG_PATTERN = /\{\{\s*[#^/]?\s*(\w+)\s*\}\}/g;
+
+// Loads the built-in prompt templates, then the project's from NETLIFY_PROMPT_TEMPLATES_PATH
+// (directories separated by the path delimiter) or ./prompt-templates. A project file replaces
+// the built-in template of the same name; broken files, and files using variables the prompt
+// doesn't provide, are reported and skipped.
+export function loadPromptTemplates(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd(),
+  builtinDir: string = BUILTIN_PROMPTS_DIR,
+  declaredVariables: Record<string, readonly string[]> = PROMPT_VARIABLES
+): PromptTemplateSet {
+  const warnings: string[] = [];
+  const templates = new Map<string, PromptTemplate>();
+
+  const builtinFiles = listTemplateFiles(builtinDir);
+  if (builtinFiles.length === 0) {
+    throw new Error(`No built-in prompt templates found in ${builtinDir}`);
+  }
+  for (const file of builtinFiles) {
+    const template = { name: templateName(file), text: fs.readFileSync(file, 'utf8'), source: `builtin/${path.basename(file)}` };
+    const problems = checkPromptTemplate(template.text, declaredVariables[template.name]);
+    if (problems.length > 0) {
+      throw new Error(`Invalid built-in prompt template ${file}: ${problems.join('; ')}`);
+    }
+    templates.set(template.name, template);
+  }
+
+  const explicitPaths = env.NETLIFY_PROMPT_TEMPLATES_PATH?.split(path.delimiter).filter(Boolean);
+  for (const projectPath of explicitPaths || [DEFAULT_PROJECT_PROMPTS_DIR]) {
+    const resolved = path.resolve(cwd, projectPath);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      if (explicitPaths) warnings.push(`NETLIFY_PROMPT_TEMPLATES_PATH entry ${resolved} is not a directory`);
+      continue;
+    }
+
+    for (const file of listTemplateFiles(resolved)) {
+      const name = templateName(file);
+      if (!templates.has(name)) {
+        warnings.push(`Ignoring prompt template ${file}: there is no prompt named "${name}" (available: ${Array.from(templates.keys()).join(', ')})`);
+        continue;
+      }
+      const text = fs.readFileSync(file, 'utf8');
+      const problems = checkPromptTemplate(text, declaredVariables[name]);
+      if (problems.length > 0) {
+        warnings.push(`Ignoring prompt template ${file}: ${problems.join('; ')}`);
+        continue;
+      }
+      templates.set(name, { name, text, source: path.relative(cwd, file) || file });
+    }
+  }
+
+  for (const warning of warnings) {
+    console.error(`⚠️ Warning: ${warning}`);
+  }
+
+  return { templates, warnings };
+}
+
+// Syntax problems of a template, such as a section that is never closed, and the variables
+// it uses that are not among the given ones
+export function checkPromptTemplate(text: string, variables?: readonly string[]): string[] {
+  let remaining = text;
+  let match: RegExpMatchArray | null;
+  while ((match = remaining.match(SECTION_PATTERN))) {
+    const [section, , , body] = match;
+    remaining = remaining.replace(section, () => body);
+  }
+  const unbalanced = remaining.match(/\{\{\s*[#^/]\s*\w+\s*\}\}/g) || [];
+  const problems = unbalanced.map(tag => `${tag} has no matching ${tag.includes('/') ? 'opening' : 'closing'} tag`);
+
+  const unknown = variables ? templateVariables(text).filter(name => !variables.includes(name)) : [];
+  if (unknown.length > 0) {
+    problems.push(`unknown variables ${unknown.join(', ')} - available: ${variables!.join(', ')}`);
+  }
+  return problems;
+}
+
+// Every variable a template refers to, in order of first use
+export function templateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(TAG_PATTERN), match => match[1])));
+}
+
+// Fills a template. Unknown variables are an error rather than an empty string, so a typo
+// in a customized template is noticed instead of silently dropping context.
+export function renderPromptTemplate(template: PromptTemplate, variables: PromptVariables): string {
+  const unknown = templateVariables(template.text).filter(name => !(name in variables));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt template ${template.source} uses unknown variables: ${unknown.join(', ')} - available: ${Object.keys(variables).join(', ')}`);
+  }
+
+  let text = template.text;
+  let match: RegExpMatchArray | null;
+  while ((match = text.match(SECTION_PATTERN))) {
+    const [section, kind, name, body] = match;
+    const value = variables[name];
+    const isSet = value !== null && value !== '';
+    text = text.replace(section, () => (kind === '#') === isSet ? body : '');
+  }
+
+  return text
+    .replace(VARIABLE_PATTERN, (_tag, name: string) => String(variables[name] ?? ''))
+    // Sections on lines of their own leave blank lines behind
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function listTemplateFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => PROMPT_TEMPLATE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+function templateName(file: string): string {
+  return path.basename(file, path.extname(file));
+}
@@ -0,0 +1,488 @@
+import { NetlifyHeaderRule, NetlifyRedirectRule, parseNetlifyConfig } from './netlifyConfig';
+import { TomlParseError } from './toml';
+
+// Reads redirect and header rules from _redirects, _headers and netlify.toml, and works out
+// what Netlify does with a request: which rule fires, where it sends the visitor and which
+// headers come back. Rules are tried in order and the first match wins, so an audit can also
+// tell which rules are shadowed by an earlier one and never fire.
+
+export interface RedirectRule extends NetlifyRedirectRule {
+  // "_redirects" or "netlify.toml"
+  file: string;
+}
+
+export interface HeaderRule extends NetlifyHeaderRule {
+  file: string;
+}
+
+export interface RuleFileProblem {
+  file: string;
+  line: number | null;
+  message: string;
+}
+
+export interface RedirectRuleSet {
+  // _redirects rules first, then netlify.toml, the order Netlify tries them in
+  redirects: RedirectRule[];
+  headers: HeaderRule[];
+  problems: RuleFileProblem[];
+}
+
+export interface RedirectRequest {
+  url: string;
+  // Two-letter country code and language of the visitor, for Country and Language conditions
+  country?: string | null;
+  language?: string | null;
+  // Paths served by a file of the deploy, which rules without force leave alone
+  existingPaths?: string[];
+}
+
+export type RedirectOutcome = 'redirect' | 'rewrite' | 'proxy' | 'error' | 'file' | 'none';
+
+export interface RedirectHop {
+  url: string;
+  // Null when no rule fires
+  rule: RedirectRule | null;
+  status: number;
+  // Where the visitor is sent, or what is served in place of the URL
+  target: string;
+  outcome: RedirectOutcome;
+  // Earlier rules whose path matched but that did not fire, and why
+  skipped: Array<{ rule: RedirectRule; reason: string }>;
+}
+
+export interface RedirectSimulation {
+  url: string;
+  // One hop per request, following redirects within the site
+  hops: RedirectHop[];
+  // True when the redirects come back to a URL already visited
+  loop: boolean;
+  // Headers of the response to the last request
+  headers: Record<string, string>;
+}
+
+export interface RedirectAuditFinding {
+  severity: 'error' | 'warning';
+  kind: 'duplicate' | 'shadowed' | 'loop' | 'chain';
+  rule: RedirectRule;
+  // The earlier rule that fires instead, for duplicates and shadowed rules
+  shadowedBy: RedirectRule | null;
+  message: string;
+}
+
+export const REDIRECT_CONDITIONS = ['Country', 'Language', 'Role', 'Cookie'];
+
+const MAX_HOPS = 10;
+const PLACEHOLDER_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+const FULL_URL_PATTERN = /^https?:\/\//i;
+// Host for parsing request paths; never shown
+const LOCAL_ORIGIN = 'http://site.local';
+
+// Parses a _redirects file: "from [param=:value ...] to [status[!]] [Condition=a,b ...]" per line
+export function parseRedirectsFile(text: string, file = '_redirects'): { rules: RedirectRule[]; problems: RuleFileProblem[] } {
+  const rules: RedirectRule[] = [];
+  const problems: RuleFileProblem[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.trim();
+    if (!content || content.startsWith('#')) return;
+
+    const [from, ...tokens] = content.split(/\s+/);
+    const query: Record<string, string> = {};
+    while (tokens.length > 0 && tokens[0].includes('=') && !isTarget(tokens[0])) {
+      const [name, ...value] = tokens.shift()!.split('=');
+      query[name] = value.join('=');
+    }
+
+    const to = tokens.shift();
+    if (!to) {
+      problems.push({ file, line, message: `Rule for ${from} has no target` });
+      return;
+    }
+
+    let status = 301;
+    let force = false;
+    const statusMatch = tokens[0]?.match(/^(\d{3})(!?)$/);
+    if (statusMatch) {
+      tokens.shift();
+      status = Number(statusMatch[1]);
+      force = statusMatch[2] === '!';
+    }
+
+    const conditions: Record<string, string[]> = {};
+    for (const token of tokens) {
+      const [name, values] = token.split('=', 2);
+      if (values === undefined || !REDIRECT_CONDITIONS.includes(name)) {
+        problems.push({ file, line, message: `Unexpected "${token}" - expected a status code or a ${REDIRECT_CONDITIONS.join('/')} condition` });
+        continue;
+      }
+      conditions[name] = values.split(',').filter(Boolean);
+    }
+
+    rules.push({ file, line, from, to, status, force, query, conditions });
+  });
+
+  return { rules, problems };
+}
+
+// Parses a _headers file: a path on its own line, followed by indented "Name: value" lines
+export function parseHeadersFile(text: string, file = '_headers'): { rules: HeaderRule[]; problems: RuleFileProblem[] } {
+  const rules: HeaderRule[] = [];
+  const problems: RuleFileProblem[] = [];
+  let current: HeaderRule | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.trim();
+    if (!content || content.startsWith('#')) return;
+
+    if (!/^\s/.test(raw)) {
+      current = { file, line, for: content, values: {} };
+      rules.push(current);
+      if (!content.startsWith('/') && !FULL_URL_PATTERN.test(content)) {
+        problems.push({ file, line, message: `Path ${content} must start with / - indent header lines to attach them to the path above` });
+      }
+      return;
+    }
+
+    const separator = content.indexOf(':');
+    if (separator <= 0) {
+      problems.push({ file, line, message: `Expected "Header-Name: value", not "${content}"` });
+    } else if (!current) {
+      problems.push({ file, line, message: `Header ${content.slice(0, separator)} has no path above it` });
+    } else {
+      addHeader(current.values, content.slice(0, separator).trim(), content.slice(separator + 1).trim());
+    }
+  });
+
+  return { rules, problems };
+}
+
+// Collects the rules of the files a deploy has; any of them may be missing
+export function loadRedirectRules(files: { redirects?: string | null; headers?: string | null; netlifyToml?: string | null }): RedirectRuleSet {
+  const ruleSet: RedirectRuleSet = { redirects: [], headers: [], problems: [] };
+
+  if (files.redirects != null) {
+    const { rules, problems } = parseRedirectsFile(files.redirects);
+    ruleSet.redirects.push(...rules);
+    ruleSet.problems.push(...problems);
+  }
+  if (files.headers != null) {
+    const { rules, problems } = parseHeadersFile(files.headers);
+    ruleSet.headers.push(...rules);
+    ruleSet.problems.push(...problems);
+  }
+  if (files.netlifyToml != null) {
+    try {
+      const config = parseNetlifyConfig(files.netlifyToml);
+      ruleSet.redirects.push(...config.redirects.filter(rule => rule.from && rule.to).map(rule => ({ ...rule, file: 'netlify.toml' })));
+      ruleSet.headers.push(...config.headers.filter(rule => rule.for).map(rule => ({ ...rule, file: 'netlify.toml' })));
+    } catch (error) {
+      if (!(error instanceof TomlParseError)) throw error;
+      ruleSet.problems.push({ file: 'netlify.toml', line: error.line, message: `netlify.toml cannot be parsed: ${error.reason}` });
+    }
+  }
+
+  return ruleSet;
+}
+
+// Follows a request through the rules, and through the redirects they send it on to
+export function simulateRequest(ruleSet: RedirectRuleSet, request: RedirectRequest): RedirectSimulation {
+  const hops: RedirectHop[] = [];
+  const visited = new Set<string>();
+  let url = request.url;
+  let loop = false;
+
+  while (hops.length < MAX_HOPS) {
+    visited.add(normalizeUrl(url));
+    const hop = matchRequest(ruleSet.redirects, { ...request, url });
+    hops.push(hop);
+
+    if (hop.outcome !== 'redirect' || !sameSite(request.url, hop.target)) break;
+    if (visited.has(normalizeUrl(hop.target))) {
+      loop = true;
+      break;
+    }
+    url = hop.target;
+  }
+
+  const last = hops[hops.length - 1];
+  return { url: request.url, hops, loop, headers: matchHeaders(ruleSet.headers, last.url) };
+}
+
+// The first rule that fires for a request
+export function matchRequest(rules: RedirectRule[], request: RedirectRequest): RedirectHop {
+  const requested = parseUrl(request.url);
+  const skipped: RedirectHop['skipped'] = [];
+
+  for (const rule of rules) {
+    const from = splitFrom(rule.from);
+    if (from.host && from.host !== requested.host) continue;
+
+    const params = matchPath(from.path, requested.path);
+    if (!params) continue;
+
+    const queryMismatch = matchQuery(rule.query, requested.query, params);
+    if (queryMismatch) {
+      skipped.push({ rule, reason: queryMismatch });
+      continue;
+    }
+    const conditionMismatch = matchConditions(rule.conditions, request);
+    if (conditionMismatch) {
+      skipped.push({ rule, reason: conditionMismatch });
+      continue;
+    }
+
+    if (!rule.force && isExistingPath(requested.path, request.existingPaths)) {
+      return { url: request.url, rule, status: 200, target: requested.path + requested.search, outcome: 'file', skipped };
+    }
+
+    let target = substitute(rule.to, params);
+    if (Object.keys(rule.query).length === 0 && !target.includes('?') && requested.search) {
+      target += requested.search;
+    }
+    return { url: request.url, rule, status: rule.status, target, outcome: outcomeOf(rule.status, target), skipped };
+  }
+
+  return { url: request.url, rule: null, status: 200, target: requested.path + requested.search, outcome: 'none', skipped };
+}
+
+// Headers Netlify adds to the response for a URL; values of the same header from several rules are combined
+export function matchHeaders(rules: HeaderRule[], url: string): Record<string, string> {
+  const { host, path } = parseUrl(url);
+  const headers: Record<string, string> = {};
+
+  for (const rule of rules) {
+    const pattern = splitFrom(rule.for);
+    if (pattern.host && pattern.host !== host) continue;
+    if (!matchPath(pattern.path, path)) continue;
+    for (const [name, value] of Object.entries(rule.values)) addHeader(headers, name, value);
+  }
+
+  return headers;
+}
+
+// Rules that never fire because an earlier rule matches every request they do, and redirects
+// that send visitors round in a loop or through another redirect
+export function auditRedirectRules(ruleSet: RedirectRuleSet): RedirectAuditFinding[] {
+  const findings: RedirectAuditFinding[] = [];
+  const rules = ruleSet.redirects;
+
+  rules.forEach((rule, index) => {
+    const earlier = rules.slice(0, index).find(candidate => covers(candidate, rule));
+    if (earlier) {
+      const duplicate = covers(rule, earlier);
+      findings.push({
+        severity: 'error',
+        kind: duplicate ? 'duplicate' : 'shadowed',
+        rule,
+        shadowedBy: earlier,
+        message: duplicate
+          ? `Never fires - it repeats ${ruleLocation(earlier)}, which comes first`
+          : `Never fires - ${ruleLocation(earlier)} (${earlier.from}) matches every URL it does and comes first`,
+      });
+      return;
+    }
+
+    // Redirects to a fixed page of the site can be followed without knowing the request
+    if (outcomeOf(rule.status, rule.to) !== 'redirect' || FULL_URL_PATTERN.test(rule.to) || rule.to.match(PLACEHOLDER_PATTERN)) return;
+    const request = {
+      url: rule.to,
+      country: rule.conditions.Country?.[0] ?? null,
+      language: rule.conditions.Language?.[0] ?? null,
+    };
+    const simulation = simulateRequest(ruleSet, request);
+    const path = redirectPath([rule.from, rule.to, ...simulation.hops.filter(hop => hop.outcome === 'redirect').map(hop => hop.target)]);
+    if (simulation.loop || normalizeUrl(rule.to) === normalizeUrl(rule.from)) {
+      findings.push({ severity: 'error', kind: 'loop', rule, shadowedBy: null, message: `Redirect loop: ${path.join(' → ')}` });
+    } else if (simulation.hops[0].outcome === 'redirect') {
+      findings.push({ severity: 'warning', kind: 'chain', rule, shadowedBy: null, message: `Redirect chain: ${path.join(' → ')} - redirect straight to the last URL` });
+    }
+  });
+
+  return findings;
+}
+
+// "_redirects:4"
+export function ruleLocation(rule: { file: string; line: number | null }): string {
+  return rule.line !== null ? `${rule.file}:${rule.line}` : rule.file;
+}
+
+// The rule as it would be written in _redirects, e.g. "/old /new 302!"
+export function describeRedirectRule(rule: RedirectRule): string {
+  return [
+    rule.from,
+    ...Object.entries(rule.query).map(([name, value]) => `${name}=${value}`),
+    rule.to,
+    `${rule.status}${rule.force ? '!' : ''}`,
+    ...Object.entries(rule.conditions).map(([name, values]) => `${name}=${values.join(',')}`),
+  ].join(' ');
+}
+
+// The URLs of a redirect chain, up to the first one visited again
+function redirectPath(urls: string[]): string[] {
+  const seen = new Set<string>();
+  const path: string[] = [];
+  for (const url of urls) {
+    path.push(url);
+    if (seen.has(normalizeUrl(url))) break;
+    seen.add(normalizeUrl(url));
+  }
+  return path;
+}
+
+// Whether every request that earlier matches is also matched by later, so later can't fire
+function covers(earlier: RedirectRule, later: RedirectRule): boolean {
+  const a = splitFrom(earlier.from);
+  const b = splitFrom(later.from);
+  if (a.host !== b.host || !patternCovers(a.path, b.path)) return false;
+
+  const queryCovered = Object.entries(earlier.query).every(([name, value]) =>
+    name in later.query && (value.startsWith(':') || later.query[name] === value));
+  const conditionsCovered = Object.entries(earlier.conditions).every(([name, values]) =>
+    later.conditions[name]?.length > 0 && later.conditions[name].every(value => values.some(allowed => allowed.toLowerCase() === value.toLowerCase())));
+
+  return queryCovered && conditionsCovered;
+}
+
+function patternCovers(earlier: string, later: string): boolean {
+  const a = segments(earlier);
+  const b = segments(later);
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === '*' && i === a.length - 1) return true;
+    if (i >= b.length || (b[i] === '*' && i === b.length - 1)) return false;
+    if (a[i].startsWith(':')) continue;
+    if (a[i] !== b[i]) return false;
+  }
+  return a.length === b.length;
+}
+
+// Placeholder values of a path, with the splat as "splat", or null when it doesn't match.
+// A * as the last segment matches the rest of the path, including nothing.
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const expected = segments(pattern);
+  const actual = segments(path);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i] === '*' && i === expected.length - 1) {
+      params.splat = actual.slice(i).join('/');
+      return params;
+    }
+    if (i >= actual.length) return null;
+    if (expected[i].startsWith(':')) {
+      params[expected[i].slice(1)] = actual[i];
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return expected.length === actual.length ? params : null;
+}
+
+// Why the query doesn't match, or null; placeholders in the rule's query pick up their values
+function matchQuery(query: Record<string, string>, actual: URLSearchParams, params: Record<string, string>): string | null {
+  for (const [name, value] of Object.entries(query)) {
+    const given = actual.get(name);
+    if (given === null) return `needs the query parameter ${name}`;
+    if (value.startsWith(':')) {
+      params[value.slice(1)] = given;
+    } else if (given !== value) {
+      return `needs ${name}=${value}, not ${name}=${given}`;
+    }
+  }
+  return null;
+}
+
+// Why the visitor doesn't meet the rule's conditions, or null
+function matchConditions(conditions: Record<string, string[]>, request: RedirectRequest): string | null {
+  for (const [name, values] of Object.entries(conditions)) {
+    const list = values.join(',');
+    if (name === 'Country') {
+      if (!request.country) return `Country=${list} needs a country`;
+      if (!values.some(value => value.toLowerCase() === request.country!.toLowerCase())) return `Country=${list} doesn't include ${request.country}`;
+    } else if (name === 'Language') {
+      if (!request.language) return `Language=${list} needs a language`;
+      const language = request.language.toLowerCase();
+      // pt matches a visitor whose browser asks for pt-AO
+      if (!values.some(value => value.toLowerCase() === language || value.toLowerCase() === language.split('-')[0])) {
+        return `Language=${list} doesn't include ${request.language}`;
+      }
+    } else {
+      return `${name} conditions depend on the visitor's login and cookies, which can't be simulated`;
+    }
+  }
+  return null;
+}
+
+function isExistingPath(path: string, existingPaths: string[] = []): boolean {
+  const normalized = normalizePath(path);
+  return existingPaths.some(existing => normalizePath(existing.replace(/(?:\/index)?\.html$/, '')) === normalized);
+}
+
+// Fills in :placeholders and :splat from the matched request
+function substitute(to: string, params: Record<string, string>): string {
+  return to.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => params[name] ?? placeholder);
+}
+
+function outcomeOf(status: number, target: string): RedirectOutcome {
+  if (status === 200) return FULL_URL_PATTERN.test(target) ? 'proxy' : 'rewrite';
+  if (status >= 400) return 'error';
+  return 'redirect';
+}
+
+function isTarget(token: string): boolean {
+  return token.startsWith('/') || FULL_URL_PATTERN.test(token);
+}
+
+function addHeader(headers: Record<string, string>, name: string, value: string): void {
+  const existing = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  if (existing) {
+    headers[existing] = `${headers[existing]}, ${value}`;
+  } else {
+    headers[name] = value;
+  }
+}
+
+// Host (for rules of a full URL) and path of a from or for pattern
+function splitFrom(from: string): { host: string | null; path: string } {
+  const match = from.match(/^https?:\/\/([^/]+)(\/.*)?$/i);
+  return match ? { host: match[1].toLowerCase(), path: match[2] || '/' } : { host: null, path: from };
+}
+
+function parseUrl(url: string): { host: string | null; path: string; query: URLSearchParams; search: string } {
+  const parsed = new URL(url, LOCAL_ORIGIN);
+  return {
+    host: FULL_URL_PATTERN.test(url) ? parsed.host.toLowerCase() : null,
+    path: decodePath(parsed.pathname),
+    query: parsed.searchParams,
+    search: parsed.search,
+  };
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+function sameSite(requestUrl: string, target: string): boolean {
+  return !FULL_URL_PATTERN.test(target) || parseUrl(target).host === parseUrl(requestUrl).host;
+}
+
+// Netlify ignores a trailing slash when matching
+function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+function normalizeUrl(url: string): string {
+  const { host, path, search } = parseUrl(url);
+  return `${host ?? ''}${normalizePath(path)}${search}`;
+}
+
+function segments(path: string): string[] {
+  return normalizePath(path).split('/');
+}
@@ -0,0 +1,476 @@
+import fs from 'fs';
+import path from 'path';
+import type { BuildDiagnosis } from './errorAnalysis';
+import { NetlifyConfigFile, parseNetlifyConfig } from './netlifyConfig';
+import { TomlParseError } from './toml';
+
+// Reads a site's local checkout - netlify.toml, package.json, lockfiles and .nvmrc - so a
+// diagnosis can point at the setting that is wrong instead of giving generic advice
+
+export interface RepoFinding {
+  severity: 'error' | 'warning' | 'info';
+  // Relative to the repository, e.g. "netlify.toml" or "web/package.json"
+  file: string;
+  line: number | null;
+  message: string;
+  fix: string | null;
+}
+
+export interface PackageManifest {
+  file: string;
+  scripts: Record<string, string>;
+  engines: Record<string, string>;
+  packageManager: string | null;
+  // dependencies and devDependencies with their version ranges
+  dependencies: Record<string, string>;
+}
+
+export interface RepoInspection {
+  repoPath: string;
+  netlifyToml: { file: string; config: NetlifyConfigFile | null } | null;
+  packageJson: PackageManifest | null;
+  lockfiles: string[];
+  // .nvmrc or .node-version
+  nodeVersionFile: { file: string; version: string } | null;
+  findings: RepoFinding[];
+}
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+interface NodeVersionSource {
+  label: string;
+  version: string;
+  file: string;
+  line: number | null;
+}
+
+// In the order Netlify checks them when picking a package manager
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+const NODE_VERSION_FILES = ['.nvmrc', '.node-version'];
+// Commands whose package is named differently
+const COMMAND_PACKAGES: Record<string, string> = {
+  tsc: 'typescript',
+  eleventy: '@11ty/eleventy',
+  ng: '@angular/cli',
+  vue: '@vue/cli',
+  docusaurus: '@docusaurus/core',
+  netlify: 'netlify-cli',
+};
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.ts', 'next.config.cjs'];
+
+// Reads the repository at repoPath. A missing or unreadable file becomes a finding, so the
+// inspection always succeeds unless the directory itself does not exist.
+export function inspectRepository(repoPath: string): RepoInspection {
+  const root = path.resolve(repoPath);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`Repository path ${root} is not a directory`);
+  }
+
+  const findings: RepoFinding[] = [];
+  const inspection: RepoInspection = { repoPath: root, netlifyToml: null, packageJson: null, lockfiles: [], nodeVersionFile: null, findings };
+
+  const tomlText = readFile(root, 'netlify.toml');
+  if (tomlText !== null) {
+    try {
+      inspection.netlifyToml = { file: 'netlify.toml', config: parseNetlifyConfig(tomlText) };
+    } catch (error) {
+      if (!(error instanceof TomlParseError)) throw error;
+      inspection.netlifyToml = { file: 'netlify.toml', config: null };
+      findings.push({
+        severity: 'error',
+        file: 'netlify.toml',
+        line: error.line,
+        message: `netlify.toml cannot be parsed: ${error.reason}`,
+        fix: 'Fix the syntax; validate-netlify-config lists every problem in the file',
+      });
+    }
+  }
+
+  // Netlify runs the build in the base directory, which is where package.json belongs
+  const config = inspection.netlifyToml?.config || null;
+  const base = config?.build.base || '';
+  const packageDir = path.join(root, base);
+  const packageFile = path.join(base, 'package.json');
+  const packageText = readFile(packageDir, 'package.json');
+  if (packageText !== null) {
+    try {
+      const manifest = JSON.parse(packageText);
+      inspection.packageJson = {
+        file: packageFile,
+        scripts: stringRecord(manifest.scripts),
+        engines: stringRecord(manifest.engines),
+        packageManager: typeof manifest.packageManager === 'string' ? manifest.packageManager : null,
+        dependencies: { ...stringRecord(manifest.devDependencies), ...stringRecord(manifest.dependencies) },
+      };
+    } catch (error) {
+      findings.push({
+        severity: 'error',
+        file: packageFile,
+        line: null,
+        message: `package.json is not valid JSON: ${error instanceof Error ? error.message : error}`,
+        fix: 'Fix the JSON syntax, e.g. trailing commas or missing quotes',
+      });
+    }
+  }
+
+  // Lockfiles of a monorepo usually live at the root
+  for (const dir of base ? [base, ''] : ['']) {
+    inspection.lockfiles = LOCKFILES.map(([file]) => path.join(dir, file)).filter(file => fs.existsSync(path.join(root, file)));
+    if (inspection.lockfiles.length > 0) break;
+  }
+
+  for (const file of NODE_VERSION_FILES.flatMap(name => base ? [path.join(base, name), name] : [name])) {
+    const version = readFile(root, file)?.split('\n')[0].trim();
+    if (version) {
+      inspection.nodeVersionFile = { file, version };
+      break;
+    }
+  }
+
+  findings.push(
+    ...checkBuildCommand(inspection),
+    ...checkLockfiles(inspection),
+    ...checkNodeVersion(inspection),
+    ...checkPlugins(inspection, root),
+    ...checkFunctionsDirectory(inspection, root),
+  );
+  return inspection;
+}
+
+// Findings worth showing with a diagnosis: everything the inspection found, plus what the
+// repository says about the most likely cause
+export function repoFindingsForDiagnosis(inspection: RepoInspection, diagnosis: BuildDiagnosis): RepoFinding[] {
+  const findings = [...inspection.findings];
+  const primary = diagnosis.candidates[0];
+  if (!primary) return findings;
+
+  const { packageJson, netlifyToml, lockfiles, nodeVersionFile } = inspection;
+  const config = netlifyToml?.config || null;
+  const { details } = primary;
+
+  switch (primary.pattern.id) {
+    case 'node-version-mismatch': {
+      const versions = nodeVersionSources(inspection).map(source => `${source.label} ${source.version}`);
+      if (packageJson?.engines.node) versions.push(`engines.node ${packageJson.engines.node}`);
+      findings.push(versions.length > 0
+        ? { severity: 'info', file: nodeVersionFile?.file || packageJson?.file || 'netlify.toml', line: null, message: `Node versions configured: ${versions.join(', ')}`, fix: null }
+        : { severity: 'warning', file: packageJson?.file || 'package.json', line: null, message: 'No Node version is pinned, so Netlify builds with its default version', fix: 'Add an .nvmrc with the Node version you develop with' });
+      break;
+    }
+    case 'lockfile-mismatch':
+      findings.push(lockfiles.length > 0
+        ? { severity: 'info', file: lockfiles[0], line: null, message: `Lockfiles in the repository: ${lockfiles.join(', ')}${packageJson?.packageManager ? `; packageManager is ${packageJson.packageManager}` : ''}`, fix: `Run ${installCommand(inspection)} locally and commit the updated ${lockfiles[0]}` }
+        : { severity: 'warning', file: packageJson?.file || 'package.json', line: null, message: 'The build expects a lockfile but the repository has none', fix: 'Commit the lockfile your package manager writes' });
+      break;
+    case 'build-tool-missing':
+      if (details.command && packageJson) {
+        const packageName = COMMAND_PACKAGES[details.command] || details.command;
+        if (!packageJson.dependencies[packageName]) {
+          findings.push({
+            severity: 'error',
+            file: packageJson.file,
+            line: null,
+            message: `\`${details.command}\` is run by the build but ${packageName} is not in package.json dependencies or devDependencies`,
+            fix: `${addCommand(inspection)} ${packageName}`,
+          });
+        }
+      }
+      break;
+    case 'dependency-conflict':
+      if (details.packageName && packageJson?.dependencies[details.packageName]) {
+        findings.push({ severity: 'info', file: packageJson.file, line: null, message: `package.json requires ${details.packageName}@${packageJson.dependencies[details.packageName]}`, fix: null });
+      }
+      break;
+    case 'missing-env-var': {
+      const names = Object.keys(config?.build.environment || {});
+      findings.push({
+        severity: 'info',
+        file: 'netlify.toml',
+        line: config?.document.lines.get('build.environment') ?? null,
+        message: names.length > 0 ? `netlify.toml sets ${names.join(', ')}; other variables must be set in the Netlify UI` : 'netlify.toml sets no build environment variables; they must be set in the Netlify UI',
+        fix: null,
+      });
+      break;
+    }
+    case 'nextjs-build-error': {
+      const nextConfig = NEXT_CONFIG_FILES.map(file => path.join(config?.build.base || '', file)).find(file => fs.existsSync(path.join(inspection.repoPath, file)));
+      const nextVersion = packageJson?.dependencies.next;
+      findings.push({
+        severity: 'info',
+        file: nextConfig || packageJson?.file || 'package.json',
+        line: null,
+        message: `Next.js ${nextVersion || 'is not in package.json'}${nextConfig ? `, configured in ${nextConfig}` : ', no next.config file'}`,
+        fix: null,
+      });
+      break;
+    }
+  }
+
+  return findings;
+}
+
+// "❌ netlify.toml:3 - message" lines with the fix below, for reports and AI prompts
+export function formatRepoFindings(findings: RepoFinding[]): string {
+  return findings.map(finding => {
+    const icon = finding.severity === 'error' ? '❌' : finding.severity === 'warning' ? '⚠️' : 'ℹ️';
+    const location = `${finding.file}${finding.line !== null ? `:${finding.line}` : ''}`;
+    return `${icon} ${location} - ${finding.message}${finding.fix ? `\n   Fix: ${finding.fix}` : ''}`;
+  }).join('\n');
+}
+
+function checkBuildCommand(inspection: RepoInspection): RepoFinding[] {
+  const config = inspection.netlifyToml?.config;
+  const command = config?.build.command;
+  const packageJson = inspection.packageJson;
+  if (!command || !packageJson) return [];
+
+  const line = config.document.lines.get('build.command') ?? null;
+  const findings: RepoFinding[] = [];
+  const steps = command.split(/&&|\|\||;/).map(step => step.trim()).filter(Boolean);
+
+  for (const step of steps) {
+    const script = scriptRunBy(step);
+    if (script && !packageJson.scripts[script]) {
+      findings.push({
+        severity: 'error',
+        file: 'netlify.toml',
+        line,
+        message: `Your build command \`${command}\` runs scripts.${script}, which ${packageJson.file} doesn't define${packageJson.scripts.build ? ` (scripts.build is \`${packageJson.scripts.build}\`)` : ''}`,
+        fix: packageJson.scripts.build ? `Set build.command to \`${runCommand(inspection, 'build')}\`` : `Add a ${script} script to ${packageJson.file}`,
+      });
+    }
+  }
+
+  const runsScripts = steps.some(step => scriptRunBy(step) !== null);
+  const buildScript = packageJson.scripts.build;
+  if (!runsScripts && buildScript && normalizeCommand(command) !== normalizeCommand(buildScript)) {
+    findings.push({
+      severity: 'warning',
+      file: 'netlify.toml',
+      line,
+      message: `Your build command \`${command}\` doesn't match scripts.build (\`${buildScript}\`), so Netlify builds differently than \`${runCommand(inspection, 'build')}\` does locally`,
+      fix: `Set build.command to \`${runCommand(inspection, 'build')}\``,
+    });
+  }
+
+  return findings;
+}
+
+function checkLockfiles(inspection: RepoInspection): RepoFinding[] {
+  const { lockfiles, packageJson } = inspection;
+  const findings: RepoFinding[] = [];
+  const managers = Array.from(new Set(lockfiles.map(lockfileManager)));
+
+  if (managers.length > 1) {
+    findings.push({
+      severity: 'warning',
+      file: lockfiles[0],
+      line: null,
+      message: `Lockfiles of several package managers: ${lockfiles.join(', ')}. Netlify installs with ${managers[0]}`,
+      fix: `Delete the lockfiles of the package managers you don't use`,
+    });
+  }
+
+  const declared = packageJson?.packageManager?.split('@')[0];
+  if (declared && managers.length > 0 && !managers.includes(declared as PackageManager)) {
+    findings.push({
+      severity: 'warning',
+      file: packageJson!.file,
+      line: null,
+      message: `packageManager is ${packageJson!.packageManager} but the repository has ${lockfiles.join(', ')}`,
+      fix: `Install with ${declared} and commit its lockfile, or update packageManager`,
+    });
+  }
+
+  if (packageJson && managers.length === 0 && Object.keys(packageJson.dependencies).length > 0) {
+    findings.push({
+      severity: 'warning',
+      file: packageJson.file,
+      line: null,
+      message: 'No lockfile, so every build resolves dependency versions again and may get different ones',
+      fix: 'Commit the lockfile your package manager writes',
+    });
+  }
+
+  return findings;
+}
+
+function checkNodeVersion(inspection: RepoInspection): RepoFinding[] {
+  const sources = nodeVersionSources(inspection);
+  const findings: RepoFinding[] = [];
+  const [effective, ...overridden] = sources;
+
+  for (const source of overridden) {
+    if (nodeMajor(source.version) !== null && nodeMajor(source.version) !== nodeMajor(effective.version)) {
+      findings.push({
+        severity: 'warning',
+        file: source.file,
+        line: source.line,
+        message: `${effective.label} ${effective.version} overrides ${source.label} ${source.version}`,
+        fix: 'Pin the same Node version in both places',
+      });
+    }
+  }
+
+  const range = inspection.packageJson?.engines.node;
+  const major = effective ? nodeMajor(effective.version) : null;
+  if (range && major !== null && satisfiesMajor(range, major) === false) {
+    findings.push({
+      severity: 'warning',
+      file: inspection.packageJson!.file,
+      line: null,
+      message: `Netlify builds with Node ${effective.version} from ${effective.label}, which doesn't satisfy engines.node ${range}`,
+      fix: `Change ${effective.label} to a version matching ${range}`,
+    });
+  }
+
+  return findings;
+}
+
+function checkPlugins(inspection: RepoInspection, root: string): RepoFinding[] {
+  const config = inspection.netlifyToml?.config;
+  if (!config) return [];
+
+  return config.plugins.flatMap((plugin): RepoFinding[] => {
+    if (/^\.{0,2}\//.test(plugin.package)) {
+      return fs.existsSync(path.join(root, config.build.base || '', plugin.package)) ? [] : [{
+        severity: 'error',
+        file: 'netlify.toml',
+        line: plugin.line,
+        message: `Local plugin ${plugin.package} does not exist`,
+        fix: 'Fix the plugin path; it is relative to the base directory',
+      }];
+    }
+    return inspection.packageJson && !inspection.packageJson.dependencies[plugin.package] ? [{
+      severity: 'info',
+      file: 'netlify.toml',
+      line: plugin.line,
+      message: `Plugin ${plugin.package} is not in package.json, so Netlify installs its latest version on every build`,
+      fix: `${addCommand(inspection)} ${plugin.package} to pin its version`,
+    }] : [];
+  });
+}
+
+function checkFunctionsDirectory(inspection: RepoInspection, root: string): RepoFinding[] {
+  const config = inspection.netlifyToml?.config;
+  const directory = config?.functionsDirectory;
+  if (!config || !directory || fs.existsSync(path.join(root, config.build.base || '', directory))) return [];
+
+  return [{
+    severity: 'warning',
+    file: 'netlify.toml',
+    line: config.document.lines.get('functions.directory') ?? config.document.lines.get('build.functions') ?? null,
+    message: `Functions directory ${directory} does not exist`,
+    fix: 'Create the directory or fix the path; it is relative to the base directory',
+  }];
+}
+
+// Where the build's Node version comes from, the one Netlify uses first
+function nodeVersionSources(inspection: RepoInspection): NodeVersionSource[] {
+  const sources: NodeVersionSource[] = [];
+  const config = inspection.netlifyToml?.config;
+  const environmentVersion = config?.build.environment.NODE_VERSION;
+  if (environmentVersion) {
+    sources.push({ label: 'NODE_VERSION', version: environmentVersion, file: 'netlify.toml', line: config.document.lines.get('build.environment.NODE_VERSION') ?? null });
+  }
+  if (inspection.nodeVersionFile) {
+    sources.push({ label: inspection.nodeVersionFile.file, version: inspection.nodeVersionFile.version, file: inspection.nodeVersionFile.file, line: 1 });
+  }
+  return sources;
+}
+
+// "build" for "npm run build", "yarn build", "pnpm run build" etc.
+function scriptRunBy(step: string): string | null {
+  const match = step.match(/^(?:npm|pnpm|bun)\s+(?:run(?:-script)?\s+)([\w:.-]+)|^(?:yarn|pnpm)\s+(?:run\s+)?([\w:.-]+)/);
+  if (!match) return null;
+  const script = match[1] || match[2];
+  // yarn install, pnpm install etc. are not scripts
+  return ['install', 'add', 'i', 'ci', 'exec', 'dlx'].includes(script) ? null : script;
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+function lockfileManager(lockfile: string): PackageManager {
+  return LOCKFILES.find(([file]) => path.basename(lockfile) === file)![1];
+}
+
+function packageManager(inspection: RepoInspection): PackageManager {
+  return inspection.lockfiles.length > 0 ? lockfileManager(inspection.lockfiles[0]) : 'npm';
+}
+
+function runCommand(inspection: RepoInspection, script: string): string {
+  const manager = packageManager(inspection);
+  return manager === 'yarn' ? `yarn ${script}` : `${manager} run ${script}`;
+}
+
+function installCommand(inspection: RepoInspection): string {
+  return `${packageManager(inspection)} install`;
+}
+
+function addCommand(inspection: RepoInspection): string {
+  const manager = packageManager(inspection);
+  return manager === 'npm' ? 'npm install --save-dev' : `${manager} add -D`;
+}
+
+// 20 for "v20.11.0", "20" or "20.x"; null for aliases like "lts/*"
+function nodeMajor(version: string): number | null {
+  const match = version.trim().match(/^v?(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// Whether a Node major version can satisfy a semver range such as ">=18", "^18 || ^20" or
+// "16 - 20"; null when the range is too unusual to tell
+function satisfiesMajor(range: string, major: number): boolean | null {
+  const alternatives = range.split('||').map(alternative => alternative.trim());
+  let unknown = false;
+
+  for (const alternative of alternatives) {
+    const hyphen = alternative.match(/^v?(\d+)\S*\s+-\s+v?(\d+)/);
+    if (hyphen) {
+      if (major >= parseInt(hyphen[1], 10) && major <= parseInt(hyphen[2], 10)) return true;
+      continue;
+    }
+    const comparators = alternative.replace(/(>=|<=|[<>=^~])\s+/g, '$1').split(/\s+/).filter(Boolean);
+    if (comparators.length === 0 || comparators.some(comparator => comparator === '*' || comparator === 'x')) return true;
+
+    const results = comparators.map(comparator => {
+      const match = comparator.match(/^(>=|<=|[<>=^~])?v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/);
+      if (!match) return null;
+      const [, operator = '', majorText, minor, patch] = match;
+      const bound = parseInt(majorText, 10);
+      const exactMajor = !minor || minor === 'x' || minor === '*' || (minor === '0' && (!patch || patch === '0' || patch === 'x'));
+      switch (operator) {
+        case '>=': return major >= bound;
+        case '>': return exactMajor && !minor ? major > bound : major >= bound;
+        case '<': return exactMajor ? major < bound : major <= bound;
+        case '<=': return major <= bound;
+        default: return major === bound;
+      }
+    });
+    if (results.includes(null)) {
+      unknown = true;
+    } else if (results.every(Boolean)) {
+      return true;
+    }
+  }
+
+  return unknown ? null : false;
+}
+
+function readFile(dir: string, file: string): string | null {
+  const fullPath = path.join(dir, file);
+  return fs.existsSync(fullPath) && fs.statSync(fullPath).isFile() ? fs.readFileSync(fullPath, 'utf8') : null;
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
@@ -0,0 +1,359 @@
+// A small TOML reader for netlify.toml files: tables, arrays of tables, dotted keys, strings,
+// numbers, booleans, dates (kept as strings), arrays and inline tables. It records the line of
+// every key so checks can point at the setting they are about.
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export interface TomlDocument {
+  data: TomlTable;
+  // Line of every key and table header by path, e.g. "build.command" or "redirects.0.from"
+  lines: Map<string, number>;
+}
+
+export class TomlParseError extends Error {
+  readonly line: number;
+  // The message without the line, e.g. "Unterminated string"
+  readonly reason: string;
+
+  constructor(reason: string, line: number) {
+    super(`line ${line}: ${reason}`);
+    this.name = new.target.name;
+    this.line = line;
+    this.reason = reason;
+  }
+}
+
+const BARE_KEY_PATTERN = /[A-Za-z0-9_-]/;
+const NUMBER_PATTERN = /^[+-]?(?:0x[0-9a-fA-F_]+|0o[0-7_]+|0b[01_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?|inf|nan)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$|^\d{2}:\d{2}:\d{2}(?:\.\d+)?$/;
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', e: '\x1b', '"': '"', '\\': '\\' };
+
+// Parses a TOML document; throws TomlParseError with the line of the first problem
+export function parseToml(text: string): TomlDocument {
+  return new TomlParser(text).parse();
+}
+
+// "redirects.0.from" for the path ["redirects", 0, "from"]
+export function tomlPath(...segments: Array<string | number>): string {
+  return segments.join('.');
+}
+
+export function isTomlTable(value: unknown): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+class TomlParser {
+  private pos = 0;
+  private line = 1;
+  private readonly data: TomlTable = {};
+  private readonly lines = new Map<string, number>();
+  // Tables created by a header or a key, which a later header may not define again
+  private readonly defined = new Set<TomlTable>();
+  // Inline tables and arrays, which are closed to later additions
+  private readonly sealed = new Set<TomlValue>();
+  private current: { table: TomlTable; path: string[] } = { table: this.data, path: [] };
+
+  constructor(private readonly text: string) {}
+
+  parse(): TomlDocument {
+    while (this.pos < this.text.length) {
+      this.skipWhitespace();
+      const char = this.peek();
+      if (char === undefined) break;
+      if (char === '\n' || char === '\r' || char === '#') {
+        this.skipToLineEnd();
+        continue;
+      }
+      if (char === '[') {
+        this.parseHeader();
+      } else {
+        this.parseKeyValue(this.current.table, this.current.path);
+      }
+      this.expectLineEnd();
+    }
+    return { data: this.data, lines: this.lines };
+  }
+
+  private parseHeader(): void {
+    const line = this.line;
+    const isArray = this.text.startsWith('[[', this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipWhitespace();
+    const keys = this.parseKey();
+    this.skipWhitespace();
+    if (!this.text.startsWith(isArray ? ']]' : ']', this.pos)) {
+      this.fail(`Expected "${isArray ? ']]' : ']'}" to close the table header`);
+    }
+    this.pos += isArray ? 2 : 1;
+
+    let table = this.data;
+    const path: string[] = [];
+    keys.forEach((key, index) => {
+      const last = index === keys.length - 1;
+      let value = table[key];
+
+      if (last && isArray) {
+        if (value === undefined) {
+          value = table[key] = [];
+        } else if (!Array.isArray(value) || this.sealed.has(value)) {
+          this.fail(`Cannot define "${[...path, key].join('.')}" as an array of tables, it is already defined`, line);
+        }
+        const entries = value as TomlValue[];
+        const entry: TomlTable = {};
+        entries.push(entry);
+        this.defined.add(entry);
+        path.push(key, String(entries.length - 1));
+        table = entry;
+        return;
+      }
+
+      if (value === undefined) {
+        value = table[key] = {};
+        if (last) this.defined.add(value);
+      } else if (Array.isArray(value) && !this.sealed.has(value)) {
+        // A subtable of the last entry of an array of tables, e.g. [redirects.headers]
+        path.push(key, String(value.length - 1));
+        table = value[value.length - 1] as TomlTable;
+        return;
+      } else if (!isTomlTable(value) || this.sealed.has(value) || (last && this.defined.has(value))) {
+        this.fail(`Table "${[...path, key].join('.')}" is already defined`, line);
+      } else if (last) {
+        this.defined.add(value);
+      }
+      path.push(key);
+      table = value as TomlTable;
+    });
+
+    this.lines.set(path.join('.'), line);
+    this.current = { table, path };
+  }
+
+  private parseKeyValue(table: TomlTable, path: string[]): void {
+    const line = this.line;
+    const keys = this.parseKey();
+    this.skipWhitespace();
+    if (this.peek() !== '=') this.fail(`Expected "=" after the key "${keys.join('.')}"`);
+    this.pos++;
+    this.skipWhitespace();
+
+    let target = table;
+    const targetPath = [...path];
+    for (const key of keys.slice(0, -1)) {
+      const existing = target[key];
+      if (existing === undefined) {
+        target[key] = {};
+      } else if (!isTomlTable(existing) || this.sealed.has(existing)) {
+        this.fail(`Key "${[...targetPath, key].join('.')}" is already defined`, line);
+      }
+      target = target[key] as TomlTable;
+      this.defined.add(target);
+      targetPath.push(key);
+    }
+
+    const key = keys[keys.length - 1];
+    const fullPath = [...targetPath, key];
+    if (key in target) this.fail(`Key "${fullPath.join('.')}" is already defined`, line);
+    target[key] = this.parseValue(fullPath);
+    this.lines.set(fullPath.join('.'), line);
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.peek();
+      if (char === '"' || char === "'") {
+        keys.push(this.parseString());
+      } else {
+        const start = this.pos;
+        while (this.pos < this.text.length && BARE_KEY_PATTERN.test(this.text[this.pos])) this.pos++;
+        if (start === this.pos) this.fail(char === undefined || char === '\n' ? 'Expected a key' : `Unexpected "${char}" in a key`);
+        keys.push(this.text.slice(start, this.pos));
+      }
+      this.skipWhitespace();
+      if (this.peek() !== '.') return keys;
+      this.pos++;
+    }
+  }
+
+  private parseValue(path: string[]): TomlValue {
+    const char = this.peek();
+    if (char === '"' || char === "'") return this.parseString();
+    if (char === '[') return this.parseArray(path);
+    if (char === '{') return this.parseInlineTable(path);
+
+    const start = this.pos;
+    while (this.pos < this.text.length && !/[\s,\]}#]/.test(this.text[this.pos])) {
+      // Dates may use a space between the date and the time
+      if (this.text[this.pos + 1] === ' ' && /^\d{4}-\d{2}-\d{2} \d/.test(this.text.slice(start, this.pos + 3))) this.pos++;
+      this.pos++;
+    }
+    const token = this.text.slice(start, this.pos);
+
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (DATE_PATTERN.test(token)) return token;
+    if (NUMBER_PATTERN.test(token)) {
+      const clean = token.replace(/_/g, '');
+      if (/inf$/.test(clean)) return clean.startsWith('-') ? -Infinity : Infinity;
+      if (/nan$/.test(clean)) return NaN;
+      if (/^[+-]?0[xob]/.test(clean)) {
+        const sign = clean.startsWith('-') ? -1 : 1;
+        return sign * Number(clean.replace(/^[+-]/, ''));
+      }
+      return Number(clean);
+    }
+    if (!token) this.fail(char === undefined || char === '\n' || char === '\r' ? 'Missing value' : `Unexpected "${char}"`);
+    this.fail(`Invalid value ${token} - strings need quotes`);
+  }
+
+  private parseString(): string {
+    const quote = this.text[this.pos];
+    const multiline = this.text.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    const startLine = this.line;
+    this.pos += delimiter.length;
+    // A newline right after the opening delimiter is not part of the string
+    if (multiline && /^\r?\n/.test(this.text.slice(this.pos, this.pos + 2))) {
+      this.pos = this.text.indexOf('\n', this.pos) + 1;
+      this.line++;
+    }
+
+    let value = '';
+    for (;;) {
+      if (this.pos >= this.text.length) this.fail('Unterminated string', startLine);
+      const char = this.text[this.pos];
+
+      if (this.text.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may end a multi-line string, e.g. """a "quote"""""
+        let end = this.pos + delimiter.length;
+        while (multiline && this.text[end] === quote && end - this.pos < 5) end++;
+        value += quote.repeat(end - this.pos - delimiter.length);
+        this.pos = end;
+        return value;
+      }
+      if (char === '\n') {
+        if (!multiline) this.fail('Unterminated string');
+        this.line++;
+      }
+      if (char === '\\' && quote === '"') {
+        const next = this.text[this.pos + 1];
+        if (multiline && /[ \t\r\n]/.test(next ?? '')) {
+          // A line ending backslash trims the newline and the whitespace after it
+          let end = this.pos + 1;
+          while (end < this.text.length && /[ \t\r\n]/.test(this.text[end])) {
+            if (this.text[end] === '\n') this.line++;
+            end++;
+          }
+          this.pos = end;
+          continue;
+        }
+        if (next === 'u' || next === 'U') {
+          const length = next === 'u' ? 4 : 8;
+          const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+          if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) this.fail(`Invalid unicode escape \\${next}${hex}`);
+          value += String.fromCodePoint(parseInt(hex, 16));
+          this.pos += 2 + length;
+          continue;
+        }
+        if (next === undefined || !(next in ESCAPES)) this.fail(`Invalid escape sequence \\${next ?? ''}`);
+        value += ESCAPES[next];
+        this.pos += 2;
+        continue;
+      }
+      value += char;
+      this.pos++;
+    }
+  }
+
+  private parseArray(path: string[]): TomlValue[] {
+    this.pos++;
+    const values: TomlValue[] = [];
+    for (;;) {
+      this.skipBlank();
+      if (this.peek() === ']') break;
+      values.push(this.parseValue([...path, String(values.length)]));
+      this.skipBlank();
+      if (this.peek() === ',') {
+        this.pos++;
+        continue;
+      }
+      if (this.peek() !== ']') this.fail(this.peek() === undefined ? 'Unterminated array' : 'Expected "," or "]" in an array');
+      break;
+    }
+    this.pos++;
+    this.sealed.add(values);
+    return values;
+  }
+
+  private parseInlineTable(path: string[]): TomlTable {
+    this.pos++;
+    const table: TomlTable = {};
+    this.skipWhitespace();
+    if (this.peek() === '}') {
+      this.pos++;
+      this.sealed.add(table);
+      return table;
+    }
+    for (;;) {
+      this.skipWhitespace();
+      if (this.peek() === undefined || this.peek() === '\n' || this.peek() === '\r') this.fail('Inline tables must be on one line');
+      this.parseKeyValue(table, path);
+      this.skipWhitespace();
+      const char = this.peek();
+      this.pos++;
+      if (char === '}') break;
+      if (char !== ',') this.fail(char === '\n' || char === undefined ? 'Inline tables must be on one line' : 'Expected "," or "}" in an inline table');
+    }
+    this.sealed.add(table);
+    return table;
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespace();
+    const char = this.peek();
+    if (char !== undefined && char !== '\n' && char !== '\r' && char !== '#') {
+      this.fail(`Unexpected "${char}" after the value - one key per line`);
+    }
+    this.skipToLineEnd();
+  }
+
+  // Spaces, newlines and comments inside arrays
+  private skipBlank(): void {
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.peek();
+      if (char === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\n') this.line++;
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') this.pos++;
+  }
+
+  private skipToLineEnd(): void {
+    while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+    if (this.pos < this.text.length) {
+      this.pos++;
+      this.line++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.pos];
+  }
+
+  private fail(message: string, line: number = this.line): never {
+    throw new TomlParseError(message, line);
+  }
+}
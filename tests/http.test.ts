@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { RunningHttpServer, startHttpServer } from '../src/http';
+import { createServer } from '../src/index';
+import { config } from '../src/utils/config';
+import { callToolText } from './support/mcpClient';
+import { GENERIC_PROJECT_CONTEXT } from '../src/utils/projectContext';
+
+const TOKEN = 'shared-server-token';
+
+describe('HTTP transport', () => {
+  let running: RunningHttpServer;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    running = await startHttpServer(() => createServer('http'), { port: 0, host: '127.0.0.1', authToken: TOKEN });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    await running.close();
+  });
+
+  const connect = async (token = TOKEN) => {
+    const client = new Client({ name: 'netlify-mcp-server-tests', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(running.url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  it('serves several client sessions at once', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const { tools } = await first.client.listTools();
+    const hello = await second.client.callTool({ name: 'hello', arguments: {} });
+
+    expect(tools.map(tool => tool.name)).toContain('watch-deployment');
+    expect((hello.content as { text: string }[])[0].text).toContain('is running successfully');
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(running.sessionCount).toBe(2);
+  });
+
+  it('rejects clients without the bearer token', async () => {
+    const response = await fetch(running.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', Authorization: 'Bearer wrong' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    await expect(connect('wrong')).rejects.toThrow();
+    expect(running.sessionCount).toBe(0);
+  });
+
+  it('ends a session when the client terminates it', async () => {
+    const { transport } = await connect();
+    const sessionId = transport.sessionId;
+
+    await transport.terminateSession();
+    const response = await fetch(running.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${TOKEN}`,
+        'Mcp-Session-Id': sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(running.sessionCount).toBe(0);
+  });
+
+  it('reports health without authentication', async () => {
+    await connect();
+
+    const response = await fetch(running.url.replace('/mcp', '/health'));
+
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 1 });
+  });
+
+  it('closes open sessions on shutdown', async () => {
+    await connect();
+
+    await running.close();
+
+    expect(running.sessionCount).toBe(0);
+    await expect(fetch(running.url.replace('/mcp', '/health'))).rejects.toThrow();
+    running = await startHttpServer(() => createServer('http'), { port: 0, host: '127.0.0.1', authToken: TOKEN });
+  });
+
+  it('needs a token to start', async () => {
+    await expect(startHttpServer(createServer, { port: 0, host: '127.0.0.1', authToken: '' })).rejects.toThrow('MCP_AUTH_TOKEN must be set');
+  });
+
+  describe('local paths', () => {
+    const noProjectContexts = config.projectContexts;
+    let repoPath: string;
+    let elsewhere: string;
+
+    beforeEach(() => {
+      repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'calendar-repo-'));
+      elsewhere = fs.mkdtempSync(path.join(os.tmpdir(), 'elsewhere-'));
+      fs.writeFileSync(path.join(repoPath, 'netlify.toml'), '[build]\n  command = "npm run build"\n');
+      fs.writeFileSync(path.join(elsewhere, 'netlify.toml'), '[build]\n  command = "npm run build"\n');
+      fs.symlinkSync(elsewhere, path.join(repoPath, 'linked'));
+      config.projectContexts = { contexts: [{ ...GENERIC_PROJECT_CONTEXT, sites: ['site-calendar'], repoPath }], warnings: [] };
+    });
+
+    afterEach(() => {
+      config.projectContexts = noProjectContexts;
+      fs.rmSync(repoPath, { recursive: true, force: true });
+      fs.rmSync(elsewhere, { recursive: true, force: true });
+    });
+
+    const validate = (client: Client, configPath: string) => callToolText(client, 'validate-netlify-config', { path: configPath });
+
+    it('only reads files inside the project checkouts', async () => {
+      const { client } = await connect();
+
+      const inside = await validate(client, repoPath);
+      const outside = await validate(client, elsewhere);
+      const throughLink = await validate(client, path.join(repoPath, 'linked', 'netlify.toml'));
+      const upwards = await validate(client, path.join(repoPath, '..', path.basename(elsewhere)));
+
+      expect(inside.result.isError).toBeFalsy();
+      expect(inside.text).toContain('✅ No problems found');
+      for (const rejected of [outside, throughLink, upwards]) {
+        expect(rejected.result.isError).toBe(true);
+        expect(rejected.text).toContain(`is outside the project checkouts this server may read: ${repoPath}`);
+      }
+    });
+
+    it('reads no files when no project has a checkout', async () => {
+      config.projectContexts = noProjectContexts;
+      const { client } = await connect();
+
+      const { result, text } = await callToolText(client, 'test-redirects', { mode: 'audit', path: repoPath });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain("no project context has a repoPath, and over HTTP only those checkouts may be read");
+    });
+  });
+});
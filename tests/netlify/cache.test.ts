@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ResponseCache } from '../../src/netlify/cache';
+import { NetlifyClient } from '../../src/netlify/client';
+import { FakeNetlifyApi, startFakeNetlifyApi } from '../support/fakeNetlifyApi';
+
+const NOW = new Date('2025-07-20T12:00:00.000Z');
+
+describe('response cache', () => {
+  let api: FakeNetlifyApi;
+  let cache: ResponseCache;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval', 'nextTick', 'queueMicrotask', 'hrtime', 'performance'] });
+    api.reset();
+    cache = new ResponseCache({ backend: 'memory', dir: '' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createClient = (options: { fresh?: boolean; token?: string } = {}) =>
+    new NetlifyClient(options.token || 'test-token', { baseUrl: api.url, maxRetries: 0, cache, fresh: options.fresh });
+  const requestsTo = (pathSuffix: string) => api.requests.filter(request => request.path.endsWith(pathSuffix)).length;
+
+  it('answers repeated requests from the cache until the endpoint TTL runs out', async () => {
+    const client = createClient();
+    await client.getSites();
+    await createClient().getSites();
+    expect(requestsTo('/sites')).toBe(1);
+
+    jest.setSystemTime(new Date(NOW.getTime() + 6 * 60 * 1000));
+    await client.getSites();
+
+    expect(requestsTo('/sites')).toBe(2);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, hitRate: 33, endpoints: [{ endpoint: 'sites', hits: 1, misses: 2 }] });
+  });
+
+  it('keeps finished deploys and their logs, but not running builds', async () => {
+    const client = createClient();
+    for (let call = 0; call < 2; call++) {
+      await client.getDeploymentInfo('dep-cal-010');
+      await client.getBuildLogs('dep-cal-010');
+      await client.getDeploymentInfo('dep-cal-012');
+      await client.getBuildLogs('dep-cal-012');
+    }
+    jest.setSystemTime(new Date(NOW.getTime() + 24 * 60 * 60 * 1000));
+    await client.getDeploymentInfo('dep-cal-010');
+
+    expect(requestsTo('/deploys/dep-cal-010')).toBe(1);
+    expect(requestsTo('/deploys/dep-cal-010/logs')).toBe(1);
+    expect(requestsTo('/deploys/dep-cal-012')).toBe(2);
+    expect(requestsTo('/deploys/dep-cal-012/logs')).toBe(2);
+  });
+
+  it('learns which deploys finished from deploy lists', async () => {
+    const client = createClient();
+    await client.getDeployments('site-calendar', 5);
+    await client.getDeploymentInfo('dep-cal-011');
+
+    expect(requestsTo('/deploys/dep-cal-011')).toBe(0);
+  });
+
+  it('fetches fresh data when asked and stores it for later calls', async () => {
+    await createClient().getSites();
+    await createClient({ fresh: true }).getSites();
+    await createClient().getSites();
+
+    expect(requestsTo('/sites')).toBe(2);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, bypassed: 1 });
+  });
+
+  it("drops an account's cached responses after it changes a deploy", async () => {
+    const client = createClient();
+    await client.getDeployments('site-calendar', 5);
+    await client.retryDeployment('dep-cal-010');
+    const [latest] = await client.getDeployments('site-calendar', 5);
+
+    expect(latest.id).toMatch(/^dep-new-/);
+  });
+
+  it('keeps accounts apart', async () => {
+    await createClient().getSites();
+    await createClient({ token: 'other-token' }).getSites();
+
+    expect(requestsTo('/sites')).toBe(2);
+  });
+
+  it('hands out copies of cached responses', async () => {
+    const [site] = await createClient().getSites();
+    site.name = 'changed';
+
+    expect((await createClient().getSites())[0].name).not.toBe('changed');
+  });
+
+  it('keeps responses on disk across server restarts', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'netlify-cache-'));
+    try {
+      cache = new ResponseCache({ backend: 'disk', dir });
+      await createClient().getDeploymentInfo('dep-cal-010');
+
+      cache = new ResponseCache({ backend: 'disk', dir });
+      await createClient().getDeploymentInfo('dep-cal-010');
+
+      expect(requestsTo('/deploys/dep-cal-010')).toBe(1);
+      expect(cache.stats()).toMatchObject({ backend: 'disk', entries: 1, hits: 1 });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does nothing when turned off', async () => {
+    cache = new ResponseCache({ backend: 'off', dir: '' });
+    await createClient().getSites();
+    await createClient().getSites();
+
+    expect(requestsTo('/sites')).toBe(2);
+    expect(cache.stats()).toMatchObject({ backend: 'off', entries: 0, hits: 0, misses: 0 });
+  });
+});
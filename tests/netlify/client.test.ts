@@ -0,0 +1,155 @@
+import { NetlifyClient, parseNextLink } from '../../src/netlify/client';
+import {
+  NetlifyAuthError,
+  NetlifyInvalidResponseError,
+  NetlifyNetworkError,
+  NetlifyNotFoundError,
+  NetlifyRateLimitError,
+  NetlifyServerError
+} from '../../src/netlify/errors';
+import {
+  BROKEN_SITE_ID,
+  FakeNetlifyApi,
+  HTML_SITE_ID,
+  INVALID_TOKEN,
+  RATE_LIMITED_SITE_ID,
+  SLOW_SITE_ID,
+  STALLED_SITE_ID,
+  startFakeNetlifyApi
+} from '../support/fakeNetlifyApi';
+
+const NOW = new Date('2025-07-20T12:00:00.000Z');
+
+describe('NetlifyClient', () => {
+  let api: FakeNetlifyApi;
+  let client: NetlifyClient;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi({ maxPerPage: 3 });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval', 'nextTick', 'queueMicrotask', 'hrtime', 'performance'] });
+    api.reset();
+    client = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('parseNextLink', () => {
+    it('returns the rel="next" URL', () => {
+      const header = '<https://api.netlify.com/api/v1/sites/x/deploys?page=2>; rel="next", <https://api.netlify.com/api/v1/sites/x/deploys?page=5>; rel="last"';
+      expect(parseNextLink(header)).toBe('https://api.netlify.com/api/v1/sites/x/deploys?page=2');
+    });
+
+    it('returns null on the last page', () => {
+      expect(parseNextLink('<https://api.netlify.com/api/v1/sites/x/deploys?page=5>; rel="last"')).toBeNull();
+      expect(parseNextLink(null)).toBeNull();
+    });
+  });
+
+  describe('deploy history', () => {
+    it('follows Link headers across pages', async () => {
+      const deployments = await client.getDeployments('site-calendar', 10);
+
+      expect(deployments).toHaveLength(10);
+      expect(deployments[0].id).toBe('dep-cal-012');
+      expect(api.requests.filter(r => r.path === '/sites/site-calendar/deploys')).toHaveLength(4);
+    });
+
+    it('stops paging once deploys fall before the range', async () => {
+      const deployments = await client.getDeploymentsInRange('site-calendar', {
+        since: '2025-07-13T00:00:00.000Z',
+        until: '2025-07-19T00:00:00.000Z'
+      });
+
+      expect(deployments.map(d => d.id)).toEqual(['dep-cal-010', 'dep-cal-009', 'dep-cal-008']);
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it('filters by branch', async () => {
+      const deployments = await client.getDeployments('site-calendar', 10, { branch: 'feature/harvest-guide' });
+
+      expect(deployments.map(d => d.id)).toEqual(['dep-cal-009', 'dep-cal-005']);
+      expect(api.requests[0].query.branch).toBe('feature/harvest-guide');
+    });
+
+    it('computes build metrics over the current month only, ignoring the same month last year', async () => {
+      const metrics = await client.getBuildMetrics('site-calendar');
+
+      expect(metrics.buildMinutesUsed).toBe(17);
+      expect(metrics.failureRate).toBe(25);
+    });
+  });
+
+  describe('errors', () => {
+    it('raises NetlifyAuthError for an invalid token', async () => {
+      const badClient = new NetlifyClient(INVALID_TOKEN, { baseUrl: api.url, maxRetries: 0 });
+
+      await expect(badClient.getSites()).rejects.toBeInstanceOf(NetlifyAuthError);
+      await expect(badClient.getSites()).rejects.toMatchObject({
+        code: 'AUTH_INVALID',
+        status: 401,
+        message: 'Failed to fetch sites: HTTP 401: Access Denied: Invalid token'
+      });
+    });
+
+    it('raises NetlifyNotFoundError for an unknown deploy', async () => {
+      await expect(client.getDeploymentInfo('dep-missing')).rejects.toBeInstanceOf(NetlifyNotFoundError);
+    });
+
+    it('retries rate-limited requests and reports the rate limit', async () => {
+      const retryingClient = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 2 });
+
+      const error = await retryingClient.getDeployments(RATE_LIMITED_SITE_ID).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetlifyRateLimitError);
+      expect(error.retryAfterMs).toBe(0);
+      expect(error.rateLimit.remaining).toBe(0);
+      expect(api.requests).toHaveLength(3);
+    });
+
+    it('retries server errors for GET but not for POST requests', async () => {
+      const retryingClient = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 2, retryBaseDelayMs: 1 });
+
+      await expect(retryingClient.getDeployments(BROKEN_SITE_ID)).rejects.toBeInstanceOf(NetlifyServerError);
+      expect(api.requests).toHaveLength(3);
+
+      api.reset();
+      await expect(retryingClient.triggerBuild(BROKEN_SITE_ID)).rejects.toBeInstanceOf(NetlifyServerError);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('aborts requests that exceed the timeout', async () => {
+      const impatientClient = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0, timeoutMs: 50 });
+
+      const error = await impatientClient.getDeployments(SLOW_SITE_ID).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetlifyNetworkError);
+      expect(error.code).toBe('TIMEOUT');
+    });
+
+    it('times out a response whose body stalls after the headers', async () => {
+      const impatientClient = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0, timeoutMs: 50 });
+
+      const error = await impatientClient.getDeployments(STALLED_SITE_ID).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetlifyNetworkError);
+      expect(error.code).toBe('TIMEOUT');
+    });
+
+    it('reports a successful response that is not JSON', async () => {
+      const error = await client.getDeployments(HTML_SITE_ID).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetlifyInvalidResponseError);
+      expect(error).toMatchObject({ code: 'INVALID_RESPONSE', status: 200, retryable: false });
+      expect(error.message).toContain('HTTP 200: expected JSON, got text/html');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NetlifyClient } from '../../src/netlify/client';
+import { getDeployHistory, getSiteBuildMetrics, summarizeHistoryByMonth, syncSiteHistory } from '../../src/netlify/history';
+import { HistoryStore } from '../../src/utils/historyStore';
+import { FakeNetlifyApi, startFakeNetlifyApi } from '../support/fakeNetlifyApi';
+
+const NOW = new Date('2025-07-20T12:00:00.000Z');
+const JULY = { since: new Date('2025-07-01T00:00:00.000Z'), until: new Date('2025-08-01T00:00:00.000Z') };
+
+describe('deploy history sync', () => {
+  let api: FakeNetlifyApi;
+  let client: NetlifyClient;
+  let dir: string;
+  let store: HistoryStore;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi({ maxPerPage: 5 });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+    client = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0 });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-history-'));
+    store = new HistoryStore({ enabled: true, dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const logRequests = () => api.requests.filter(request => request.path.endsWith('/logs'));
+
+  it('imports the deploy history and diagnoses failed builds', async () => {
+    const result = await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+    const history = store.read('site-calendar');
+
+    expect(result).toEqual({
+      siteId: 'site-calendar',
+      newDeploys: 12,
+      updatedDeploys: 0,
+      diagnosed: 3,
+      undiagnosed: 0,
+      totalDeploys: 12,
+      oldestDeployAt: history.deploys[11].created_at,
+      newestDeployAt: '2025-07-20T11:55:00.000Z',
+    });
+    expect(history.diagnoses.get('dep-cal-010')).toMatchObject({ category: 'Dependency Conflict', patternId: 'dependency-conflict' });
+    expect(history.metrics).toHaveLength(1);
+    expect(logRequests()).toHaveLength(3);
+  });
+
+  it('only reads back to the newest recorded deploy or the oldest running build', async () => {
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+    api.requests.length = 0;
+    api.updateDeploy('dep-cal-012', { state: 'ready', deploy_time: 120, published_at: '2025-07-20T11:57:00.000Z' });
+
+    const result = await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+
+    expect(result).toMatchObject({ newDeploys: 0, updatedDeploys: 1, diagnosed: 0, totalDeploys: 12 });
+    expect(api.requests).toHaveLength(1);
+    expect(store.read('site-calendar').deploys[0]).toMatchObject({ id: 'dep-cal-012', state: 'ready' });
+  });
+
+  it('records new deploys and diagnoses failures beyond the limit on later syncs', async () => {
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW, maxDiagnoses: 1 });
+    expect(store.read('site-calendar').diagnoses.size).toBe(1);
+
+    await client.retryDeployment('dep-cal-010');
+    const result = await syncSiteHistory(client, store, 'site-calendar', { now: NOW, maxDiagnoses: 1 });
+
+    expect(result).toMatchObject({ newDeploys: 1, diagnosed: 1, undiagnosed: 1, totalDeploys: 13 });
+  });
+
+  it('leaves the file alone when a sync finds nothing new', async () => {
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+    const file = path.join(dir, 'site-calendar.jsonl');
+    const size = fs.statSync(file).size;
+
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+
+    expect(fs.statSync(file).size).toBe(size);
+  });
+
+  it('computes the same build metrics as the API', async () => {
+    const expected = await client.getBuildMetrics('site-calendar', JULY);
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+
+    expect(await getSiteBuildMetrics(client, store, 'site-calendar', JULY)).toEqual(expected);
+  });
+
+  it('reads from the API until the history is imported', async () => {
+    expect(await getSiteBuildMetrics(client, store, 'site-calendar', JULY)).toMatchObject({ buildMinutesUsed: 17, failureRate: 25 });
+    expect(await getDeployHistory(client, store, 'site-calendar')).toHaveLength(12);
+    expect(logRequests()).toHaveLength(0);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('brings an imported history up to date at most once per sync interval', async () => {
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW, maxDiagnoses: 1 });
+    api.requests.length = 0;
+    api.updateDeploy('dep-cal-012', { state: 'ready', deploy_time: 120, published_at: '2025-07-20T11:57:00.000Z' });
+
+    const [deploys] = await Promise.all([
+      getDeployHistory(client, store, 'site-calendar'),
+      getSiteBuildMetrics(client, store, 'site-calendar', JULY),
+    ]);
+    await getSiteBuildMetrics(client, store, 'site-calendar', JULY);
+
+    // One deploy list request, and the failures left undiagnosed wait for sync-deploy-history
+    expect(api.requests).toHaveLength(1);
+    expect(deploys[0]).toMatchObject({ id: 'dep-cal-012', state: 'ready' });
+    expect(store.read('site-calendar').diagnoses.size).toBe(1);
+  });
+
+  it('syncs on every read with a zero sync interval', async () => {
+    const eager = new HistoryStore({ enabled: true, dir, syncIntervalMs: 0 });
+    await syncSiteHistory(client, eager, 'site-calendar', { now: NOW });
+    api.requests.length = 0;
+
+    await getSiteBuildMetrics(client, eager, 'site-calendar', JULY);
+    await getSiteBuildMetrics(client, eager, 'site-calendar', JULY);
+
+    expect(api.requests).toHaveLength(2);
+  });
+
+  it('falls back to the API when the history is disabled', async () => {
+    const disabled = new HistoryStore({ enabled: false, dir });
+
+    expect(await getSiteBuildMetrics(client, disabled, 'site-calendar', JULY)).toMatchObject({ buildMinutesUsed: 17, failureRate: 25 });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('summarizes the history by month', async () => {
+    await syncSiteHistory(client, store, 'site-calendar', { now: NOW });
+
+    const [july, june] = summarizeHistoryByMonth(store.read('site-calendar'));
+
+    expect(july).toEqual({
+      month: '2025-07',
+      deploys: 8,
+      failures: 2,
+      failureRate: 25,
+      averageBuildTime: expect.any(Number),
+      buildMinutesUsed: 17,
+      topFailureCategory: expect.any(String),
+    });
+    expect(june).toMatchObject({ month: '2025-06', deploys: 3, failures: 1, topFailureCategory: 'Network Issue' });
+  });
+});
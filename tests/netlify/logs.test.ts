@@ -0,0 +1,173 @@
+import { NetlifyClient } from '../../src/netlify/client';
+import { BuildWatchUpdate, fetchBuildLog, normalizeBuildLog, normalizeLogMessage, readBuildLogSince, searchBuildLog, watchBuild } from '../../src/netlify/logs';
+import { FakeNetlifyApi, startFakeNetlifyApi } from '../support/fakeNetlifyApi';
+
+describe('build logs', () => {
+  let api: FakeNetlifyApi;
+  let client: NetlifyClient;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+    client = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0 });
+  });
+
+  const log = (message: string, level: 'info' | 'warn' | 'error' = 'info') =>
+    ({ timestamp: '2025-07-18T09:00:05Z', level, message, source: 'build' });
+
+  // Finishes the running fixture build shortly after the first poll
+  const finishBuildSoon = () => setTimeout(() => {
+    api.appendLogs('dep-cal-012', [{ created_at: '2025-07-20T11:56:30.000Z', level: 'info', message: 'Site is live', source: 'build' }]);
+    api.updateDeploy('dep-cal-012', { state: 'ready' });
+  }, 30);
+
+  describe('normalizeLogMessage', () => {
+    it.each([
+      ['ANSI colours', '\u001b[31mError:\u001b[39m build failed', 'Error: build failed'],
+      ['clock timestamps', '9:00:05 AM: $ npm install', '$ npm install'],
+      ['ISO timestamps', '[2025-07-18T09:00:05.123Z] $ npm install', '$ npm install'],
+      ['coloured timestamps', '\u001b[36m9:00:05 AM:\u001b[39m Starting build script', 'Starting build script'],
+      ['carriage-return progress', 'Downloading 10%\rDownloading 100%', 'Downloading 100%'],
+    ])('strips %s', (_kind, message, expected) => {
+      expect(normalizeLogMessage(message)).toBe(expected);
+    });
+
+    it('keeps time-like text later in the line', () => {
+      expect(normalizeLogMessage('Build started at 9:00:05 AM')).toBe('Build started at 9:00:05 AM');
+    });
+  });
+
+  describe('normalizeBuildLog', () => {
+    it('numbers each line of multi-line entries', () => {
+      const lines = normalizeBuildLog([log('first'), log('second\nthird\n', 'error')]);
+
+      expect(lines).toEqual([
+        { line: 1, timestamp: '2025-07-18T09:00:05.000Z', level: 'info', message: 'first', source: 'build' },
+        { line: 2, timestamp: '2025-07-18T09:00:05.000Z', level: 'error', message: 'second', source: 'build' },
+        { line: 3, timestamp: '2025-07-18T09:00:05.000Z', level: 'error', message: 'third', source: 'build' },
+      ]);
+    });
+  });
+
+  describe('searchBuildLog', () => {
+    const lines = normalizeBuildLog(['one', 'Error here', 'three', 'four', 'ERROR there'].map(message => log(message)));
+
+    it('matches keywords case-insensitively with context', () => {
+      const { matches, total } = searchBuildLog(lines, { query: 'error', contextLines: 1 });
+
+      expect(total).toBe(2);
+      expect(matches[0].before.map(line => line.line)).toEqual([1]);
+      expect(matches[0].after.map(line => line.line)).toEqual([3]);
+      expect(matches[1].after).toEqual([]);
+    });
+
+    it('treats keywords literally unless regex is set', () => {
+      expect(searchBuildLog(lines, { query: 'E.*there' }).total).toBe(0);
+      expect(searchBuildLog(lines, { query: 'E.*there', regex: true }).total).toBe(1);
+    });
+
+    it('limits the matches but reports the total', () => {
+      const { matches, total } = searchBuildLog(lines, { query: 'error', maxMatches: 1 });
+
+      expect(matches).toHaveLength(1);
+      expect(total).toBe(2);
+    });
+  });
+
+  describe('fetchBuildLog', () => {
+    it('returns the log of a running build as incomplete', async () => {
+      const result = await fetchBuildLog(client, 'dep-cal-012');
+
+      expect(result).toMatchObject({ state: 'building', complete: false });
+      expect(result.lines).toHaveLength(4);
+    });
+
+    it('follows a running build until it finishes', async () => {
+      finishBuildSoon();
+
+      const result = await fetchBuildLog(client, 'dep-cal-012', { follow: true, timeoutMs: 2000, pollIntervalMs: 10 });
+
+      expect(result).toMatchObject({ state: 'ready', complete: true });
+      expect(result.lines[result.lines.length - 1]).toMatchObject({ line: 5, message: 'Site is live' });
+    });
+
+    it('stops following at the timeout', async () => {
+      const result = await fetchBuildLog(client, 'dep-cal-012', { follow: true, timeoutMs: 50, pollIntervalMs: 10 });
+
+      expect(result.complete).toBe(false);
+    });
+  });
+
+  describe('watchBuild', () => {
+    it('reports each state change with the new log lines', async () => {
+      const updates: BuildWatchUpdate[] = [];
+      // Each update moves the build on, so every poll sees the next state
+      const advance = [
+        () => api.updateDeploy('dep-cal-012', { state: 'processing' }),
+        () => {
+          api.appendLogs('dep-cal-012', [{ created_at: '2025-07-20T11:56:30.000Z', level: 'error', message: 'Deploy failed', source: 'build' }]);
+          api.updateDeploy('dep-cal-012', { state: 'error' });
+        },
+      ];
+
+      const result = await watchBuild(client, 'dep-cal-012', {
+        timeoutMs: 2000,
+        pollIntervalMs: 10,
+        onUpdate: update => {
+          updates.push(update);
+          advance.shift()?.();
+        },
+      });
+
+      expect(result.transitions.map(transition => transition.state)).toEqual(['building', 'processing', 'error']);
+      expect(result).toMatchObject({ state: 'error', complete: true });
+      expect(updates.map(update => [update.previousState, update.state, update.newLines.length])).toEqual([
+        [null, 'building', 4],
+        ['building', 'processing', 0],
+        ['processing', 'error', 1],
+      ]);
+    });
+
+    it('stops watching at the timeout', async () => {
+      const result = await watchBuild(client, 'dep-cal-012', { timeoutMs: 50, pollIntervalMs: 10 });
+
+      expect(result).toMatchObject({ state: 'building', complete: false, transitions: [{ state: 'building' }] });
+    });
+
+    it('stops polling when the request is cancelled', async () => {
+      const controller = new AbortController();
+      const polls = () => api.requests.filter(r => r.path === '/deploys/dep-cal-012').length;
+      setTimeout(() => controller.abort(new Error('Request cancelled')), 30);
+
+      const started = Date.now();
+      await expect(watchBuild(client, 'dep-cal-012', { timeoutMs: 60_000, pollIntervalMs: 10_000, signal: controller.signal }))
+        .rejects.toThrow('Request cancelled');
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(polls()).toBe(1);
+    });
+  });
+
+  describe('readBuildLogSince', () => {
+    it('returns only the lines after the cursor', async () => {
+      const result = await readBuildLogSince(client, 'dep-cal-010', 3);
+
+      expect(result.lines.map(line => line.line)).toEqual([4, 5]);
+    });
+
+    it('waits for new lines of a running build', async () => {
+      finishBuildSoon();
+
+      const result = await readBuildLogSince(client, 'dep-cal-012', 4, { timeoutMs: 2000, pollIntervalMs: 10 });
+
+      expect(result.lines).toEqual([expect.objectContaining({ line: 5, message: 'Site is live' })]);
+    });
+  });
+});
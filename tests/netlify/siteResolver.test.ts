@@ -0,0 +1,98 @@
+import { NetlifyClient } from '../../src/netlify/client';
+import { NetlifyAmbiguousSiteError, NetlifyNotFoundError, NetlifyRateLimitError } from '../../src/netlify/errors';
+import { SiteResolver } from '../../src/netlify/siteResolver';
+import { createProfile, NetlifyProfile } from '../../src/utils/profiles';
+import { FakeNetlifyApi, RATE_LIMITED_SITE_ID, startFakeNetlifyApi } from '../support/fakeNetlifyApi';
+
+describe('SiteResolver', () => {
+  let api: FakeNetlifyApi;
+  let client: NetlifyClient;
+  let profile: NetlifyProfile;
+  let resolver: SiteResolver;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+    profile = createProfile('default', 'environment', {
+      accessToken: 'test-token',
+      apiUrl: api.url,
+      siteAliases: { calendar: 'digitalzango-agricultural-calendar' },
+    });
+    client = new NetlifyClient(profile.accessToken, { baseUrl: api.url, maxRetries: 0 });
+    resolver = new SiteResolver();
+  });
+
+  const siteListRequests = () => api.requests.filter(r => r.path === '/sites');
+
+  it.each([
+    ['site ID', 'site-calendar'],
+    ['name', 'Digitalzango-Agricultural-Calendar'],
+    ['custom domain', 'calendar.digitalzango.com'],
+    ['site URL', 'https://www.calendar.digitalzango.com/'],
+    ['alias', 'Calendar'],
+  ])('resolves a %s', async (_kind, reference) => {
+    const site = await resolver.resolve(client, profile, reference);
+
+    expect(site.id).toBe('site-calendar');
+  });
+
+  it("falls back to the profile's default site", async () => {
+    const site = await resolver.resolve(client, { ...profile, siteId: 'portfolio.digitalzango.com' });
+
+    expect(site.id).toBe('site-portfolio');
+  });
+
+  it('requires a site when the profile has no default', async () => {
+    await expect(resolver.resolve(client, profile)).rejects.toThrow('No siteId given and profile "default" has no default site');
+  });
+
+  it('caches the site list between calls', async () => {
+    await resolver.resolve(client, profile, 'site-calendar');
+    await resolver.resolve(client, profile, 'client-portfolio');
+
+    expect(siteListRequests()).toHaveLength(1);
+  });
+
+  it('fetches the site list again for a fresh client', async () => {
+    await resolver.resolve(client, profile, 'site-calendar');
+    await resolver.resolve(client.withoutCache(), profile, 'client-portfolio');
+    await resolver.resolve(client, profile, 'site-calendar');
+
+    expect(siteListRequests()).toHaveLength(2);
+  });
+
+  it('refreshes the cached list before giving up on a site', async () => {
+    await resolver.resolve(client, profile, 'site-calendar');
+
+    await expect(resolver.resolve(client, profile, 'site-missing')).rejects.toBeInstanceOf(NetlifyNotFoundError);
+    expect(siteListRequests()).toHaveLength(2);
+    expect(api.requests.map(r => r.path)).toContain('/sites/site-missing');
+  });
+
+  it('lists candidates for a partial match', async () => {
+    const error = await resolver.resolve(client, profile, 'digitalzango').catch(e => e);
+
+    expect(error).toBeInstanceOf(NetlifyAmbiguousSiteError);
+    expect(error.code).toBe('AMBIGUOUS_SITE');
+    expect(error.candidates.map((site: { id: string }) => site.id)).toEqual(['site-calendar', 'site-portfolio']);
+    expect(error.toJSON()).toMatchObject({ candidates: [{ name: 'digitalzango-agricultural-calendar' }, { name: 'client-portfolio' }] });
+  });
+
+  it('reports an unknown site as not found', async () => {
+    await expect(resolver.resolve(client, profile, 'site-missing')).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'No site matches "site-missing" by ID, name, domain or alias',
+    });
+  });
+
+  it('passes through API errors for sites outside the list', async () => {
+    await expect(resolver.resolve(client, profile, RATE_LIMITED_SITE_ID)).rejects.toBeInstanceOf(NetlifyRateLimitError);
+  });
+});
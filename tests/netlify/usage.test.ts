@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NetlifyClient } from '../../src/netlify/client';
+import { NetlifyNotFoundError } from '../../src/netlify/errors';
+import { syncSiteHistory } from '../../src/netlify/history';
+import { findAccount, getBuildMinutesQuota, getBuildMinutesUsage, projectUsage } from '../../src/netlify/usage';
+import { HistoryStore } from '../../src/utils/historyStore';
+import { FakeNetlifyApi, startFakeNetlifyApi } from '../support/fakeNetlifyApi';
+
+describe('build minutes usage', () => {
+  const now = new Date('2025-07-20T12:00:00Z');
+  let api: FakeNetlifyApi;
+  let client: NetlifyClient;
+  // Without a local history the sites' deploys come from the API
+  const history = new HistoryStore({ enabled: false, dir: '' });
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(() => {
+    api.reset();
+    client = new NetlifyClient('test-token', { baseUrl: api.url, maxRetries: 0 });
+  });
+
+  describe('findAccount', () => {
+    it('finds a team by ID or slug', async () => {
+      await expect(findAccount(client, 'acct-digitalzango')).resolves.toMatchObject({ slug: 'digitalzango' });
+      await expect(findAccount(client, 'digitalzango')).resolves.toMatchObject({ id: 'acct-digitalzango' });
+    });
+
+    it('uses the only team when none is given', async () => {
+      await expect(findAccount(client)).resolves.toMatchObject({ slug: 'digitalzango' });
+    });
+
+    it('lists the available teams for an unknown team', async () => {
+      const error = await findAccount(client, 'other-team').catch(e => e);
+
+      expect(error).toBeInstanceOf(NetlifyNotFoundError);
+      expect(error.message).toContain('Available teams: digitalzango');
+    });
+  });
+
+  describe('getBuildMinutesUsage', () => {
+    it("uses the plan's included minutes", async () => {
+      const usage = await getBuildMinutesUsage(client, history, await findAccount(client), { now });
+
+      expect(usage).toMatchObject({ minutesUsed: 20, includedMinutes: 300, limitSource: 'plan', remaining: 280, percentUsed: 7 });
+    });
+
+    it('prefers a configured limit', async () => {
+      const usage = await getBuildMinutesUsage(client, history, await findAccount(client), { limit: 25, now });
+
+      expect(usage).toMatchObject({ includedMinutes: 25, limitSource: 'config', remaining: 5, projectedOverage: 15 });
+    });
+
+    it('attributes minutes to the sites of the team', async () => {
+      const usage = await getBuildMinutesUsage(client, history, await findAccount(client), { now });
+
+      expect(usage.sites).toEqual([
+        { siteId: 'site-calendar', name: 'digitalzango-agricultural-calendar', minutes: 15, builds: 6, share: 75 },
+        { siteId: 'site-portfolio', name: 'client-portfolio', minutes: 1, builds: 1, share: 5 },
+      ]);
+      expect(usage.unattributedMinutes).toBe(4);
+    });
+
+    it("reads a site's deploys from its local history", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-history-'));
+      try {
+        const store = new HistoryStore({ enabled: true, dir });
+        await syncSiteHistory(client, store, 'site-calendar', { now, maxDiagnoses: 0 });
+        const account = await findAccount(client);
+        await getBuildMinutesUsage(client, store, account, { now });
+        api.requests.length = 0;
+
+        // The history was just brought up to date, so only the site without one is fetched
+        const usage = await getBuildMinutesUsage(client, store, account, { now });
+
+        expect(usage.sites[0]).toMatchObject({ siteId: 'site-calendar', minutes: 15, builds: 6 });
+        expect(api.requests.map(request => request.path)).not.toContain('/sites/site-calendar/deploys');
+        expect(api.requests.map(request => request.path)).toContain('/sites/site-portfolio/deploys');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('getBuildMinutesQuota', () => {
+    it("reads the team's totals without going through its sites' deploys", async () => {
+      const account = await findAccount(client);
+      api.requests.length = 0;
+
+      const quota = await getBuildMinutesQuota(client, account, { now });
+
+      expect(quota).toMatchObject({ minutesUsed: 20, remaining: 280, projectedMinutes: 40, period: { daysTotal: 31 } });
+      expect(quota).not.toHaveProperty('sites');
+      expect(api.requests.map(request => request.path)).toEqual(['/digitalzango/builds/status']);
+    });
+  });
+
+  describe('projectUsage', () => {
+    const start = new Date('2025-07-01T00:00:00Z');
+    const end = new Date('2025-07-31T00:00:00Z');
+
+    it('extrapolates linearly to the end of the period', () => {
+      expect(projectUsage(50, start, end, new Date('2025-07-11T00:00:00Z'))).toEqual({ projectedMinutes: 150, daysElapsed: 10, daysTotal: 30 });
+    });
+
+    it('does not extrapolate from the first hour of a period', () => {
+      expect(projectUsage(5, start, end, new Date('2025-07-01T00:30:00Z')).projectedMinutes).toBe(5);
+    });
+
+    it('stops at the end of the period', () => {
+      expect(projectUsage(90, start, end, new Date('2025-08-15T00:00:00Z'))).toEqual({ projectedMinutes: 90, daysElapsed: 30, daysTotal: 30 });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { createServer } from '../src/index';
+import { config } from '../src/utils/config';
+import { loadPromptTemplates } from '../src/utils/promptTemplates';
+import { FakeNetlifyApi, startFakeNetlifyApi } from './support/fakeNetlifyApi';
+import { callToolText, connectTestClient } from './support/mcpClient';
+
+const NOW = new Date('2025-07-20T12:00:00.000Z');
+
+describe('MCP prompts', () => {
+  let api: FakeNetlifyApi;
+  let client: Client;
+  const builtinTemplates = config.promptTemplates;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+    config.netlify.apiUrl = api.url;
+    config.netlify.accessToken = 'test-token';
+    config.netlify.maxRetries = 0;
+    client = await connectTestClient(createServer());
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await api.close();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval', 'nextTick', 'queueMicrotask', 'hrtime', 'performance'] });
+    api.reset();
+    config.netlify.siteId = 'site-calendar';
+    config.profiles = { profiles: [] };
+    config.promptTemplates = builtinTemplates;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const getPromptText = async (name: string, args: Record<string, string> = {}) => {
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    expect(messages).toHaveLength(1);
+    return (messages[0].content as { text: string }).text;
+  };
+
+  it('lists the prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual(['triage-failed-deploy', 'plan-build-minute-budget', 'review-content-release']);
+    expect(prompts[0].arguments).toEqual([
+      expect.objectContaining({ name: 'deployId', required: false }),
+      expect.objectContaining({ name: 'siteId', required: false }),
+      expect.objectContaining({ name: 'profile', required: false }),
+    ]);
+  });
+
+  describe('triage-failed-deploy', () => {
+    it('fills the template with the diagnosis of a deploy', async () => {
+      const text = await getPromptText('triage-failed-deploy', { deployId: 'dep-cal-010' });
+
+      expect(text).toMatch(/^NETLIFY BUILD ERROR ANALYSIS FOR digitalzango-agricultural-calendar/);
+      expect(text).toContain('Error Category: Dependency Conflict');
+      expect(text).toContain('• Package: react');
+      expect(text).toContain('line 4: npm ERR! Could not resolve dependency');
+      expect(text).toContain('Build Minutes Remaining: 280\n- Recent Failure Rate: 29%');
+      expect(text).not.toContain('Angola');
+      expect(text).not.toContain('Project Context');
+    });
+
+    it("defaults to the site's latest failed deploy", async () => {
+      const text = await getPromptText('triage-failed-deploy', { siteId: 'calendar.digitalzango.com' });
+
+      expect(text).toContain('Deployment ID: dep-cal-010');
+    });
+
+    it('uses the generic layout when no pattern matches', async () => {
+      const text = await getPromptText('triage-failed-deploy', { deployId: 'dep-cal-011' });
+
+      expect(text).toMatch(/^NETLIFY DEPLOYMENT ERROR ANALYSIS/);
+      expect(text).toContain('No known error pattern matched this failure.');
+      expect(text).toContain('- line 2: Site is live');
+    });
+  });
+
+  it('plans the build minute budget from team usage and the period’s failures', async () => {
+    const text = await getPromptText('plan-build-minute-budget', { plannedDeploys: 'Harvest calendar update\nNewsletter landing page' });
+
+    expect(text).toContain('NETLIFY BUILD MINUTE BUDGET FOR DigitalZango');
+    expect(text).toContain('- 2025-07-05 - 2025-08-05');
+    expect(text).toContain('- Used: 20/300 minutes');
+    expect(text).toContain('• dep-cal-010 (error');
+    expect(text).toContain('Planned Deploys for the Rest of the Period:\nHarvest calendar update');
+  });
+
+  it('reviews the latest deploy as a content release', async () => {
+    const text = await getPromptText('review-content-release');
+
+    expect(text).toContain('NETLIFY CONTENT RELEASE REVIEW FOR digitalzango-agricultural-calendar');
+    expect(text).toContain('- Deployment ID: dep-cal-012');
+    expect(text).toContain('- Build Time: not finished');
+    expect(text).toContain('End of the Build Log:');
+    expect(text).not.toContain('• dep-cal-012');
+  });
+
+  it('rejects unknown prompts, invalid arguments and missing deploys', async () => {
+    await expect(client.getPrompt({ name: 'deploy-party' })).rejects.toThrow(/Unknown prompt: deploy-party/);
+    await expect(client.getPrompt({ name: 'triage-failed-deploy', arguments: { profile: 'client-b' } })).rejects.toThrow(/Unknown profile "client-b"/);
+    await expect(client.getPrompt({ name: 'triage-failed-deploy', arguments: { deployId: 'dep-missing' } })).rejects.toThrow(/not found/i);
+  });
+
+  describe('customized templates', () => {
+    let dir: string;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      errorSpy.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const useTemplate = (name: string, text: string) => {
+      fs.writeFileSync(path.join(dir, `${name}.md`), text);
+      config.promptTemplates = loadPromptTemplates({ NETLIFY_PROMPT_TEMPLATES_PATH: dir }, dir);
+    };
+
+    it('are used by the prompt and by format-error-for-ai', async () => {
+      useTemplate('triage-failed-deploy', 'Platform team triage of {{deployId}} on {{siteName}}: {{errorCategory}}');
+
+      const promptText = await getPromptText('triage-failed-deploy', { deployId: 'dep-cal-010' });
+      const { text: toolText } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-010' });
+
+      expect(promptText).toBe('Platform team triage of dep-cal-010 on digitalzango-agricultural-calendar: Dependency Conflict');
+      expect(toolText).toContain(promptText);
+    });
+
+    it('are skipped with a warning when they use unknown variables', async () => {
+      useTemplate('review-content-release', 'Review {{deployID}}');
+
+      expect(config.promptTemplates.warnings).toEqual([expect.stringContaining('review-content-release.md: unknown variables deployID')]);
+      expect(await getPromptText('review-content-release')).toContain('dep-cal-011');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../src/index';
+import { DeploySubscriptions, parseResourceUri } from '../src/resources';
+import { config } from '../src/utils/config';
+import { FakeNetlifyApi, startFakeNetlifyApi } from './support/fakeNetlifyApi';
+import { connectTestClient } from './support/mcpClient';
+
+describe('MCP resources', () => {
+  let api: FakeNetlifyApi;
+  let client: Client;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi();
+    config.netlify.apiUrl = api.url;
+    config.netlify.accessToken = 'test-token';
+    config.netlify.maxRetries = 0;
+    config.resources.pollIntervalMs = 10;
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  beforeEach(async () => {
+    api.reset();
+    config.netlify.siteId = '';
+    config.profiles = { profiles: [] };
+    client = await connectTestClient(createServer());
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const readText = async (uri: string) => {
+    const { contents } = await client.readResource({ uri });
+    return (contents[0] as { text: string; mimeType: string });
+  };
+
+  it('parses resource URIs', () => {
+    expect(parseResourceUri('netlify://sites/site-calendar')).toEqual({ kind: 'site', siteId: 'site-calendar' });
+    expect(parseResourceUri('netlify://sites/site-calendar/deploys')).toEqual({ kind: 'site-deploys', siteId: 'site-calendar' });
+    expect(parseResourceUri('netlify://deploys/dep-cal-010/log')).toEqual({ kind: 'deploy-log', deployId: 'dep-cal-010' });
+    expect(parseResourceUri('netlify://deploys/dep-cal-010/files')).toBeNull();
+    expect(parseResourceUri('https://example.com')).toBeNull();
+  });
+
+  it('lists sites as resources and the URI templates', async () => {
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resources.map(resource => resource.uri)).toEqual(['netlify://sites/site-calendar', 'netlify://sites/site-portfolio']);
+    expect(resources[0]).toMatchObject({ name: 'digitalzango-agricultural-calendar', description: 'calendar.digitalzango.com' });
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'netlify://sites/{siteId}',
+      'netlify://sites/{siteId}/deploys',
+      'netlify://deploys/{deployId}',
+      'netlify://deploys/{deployId}/log',
+    ]);
+  });
+
+  it('reads sites by id or name, their deploys, a deploy and its build log', async () => {
+    const site = JSON.parse((await readText('netlify://sites/client-portfolio')).text);
+    const deploys = JSON.parse((await readText('netlify://sites/site-calendar/deploys')).text);
+    const deploy = JSON.parse((await readText('netlify://deploys/dep-cal-010')).text);
+    const log = await readText('netlify://deploys/dep-cal-010/log');
+
+    expect(site).toMatchObject({ id: 'site-portfolio', name: 'client-portfolio' });
+    expect(deploys).toHaveLength(12);
+    expect(deploys[0]).toMatchObject({ id: 'dep-cal-012', state: 'building' });
+    expect(deploy).toMatchObject({ id: 'dep-cal-010', state: 'error' });
+    expect(log.mimeType).toBe('text/plain');
+    expect(log.text.split('\n')).toContain('npm ERR! code ERESOLVE');
+  });
+
+  it('rejects unknown URIs and reports missing deploys as not found', async () => {
+    await expect(client.readResource({ uri: 'netlify://deploys/dep-cal-010/files' })).rejects.toThrow(/Unknown resource URI/);
+    await expect(client.readResource({ uri: 'netlify://deploys/dep-missing' })).rejects.toMatchObject({ code: -32002 });
+    await expect(client.subscribeResource({ uri: 'netlify://sites/site-calendar' })).rejects.toThrow(/Only deploys and build logs/);
+  });
+
+  it('notifies subscribers when a deploy changes state', async () => {
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updates.push(notification.params.uri);
+    });
+    const deployChecks = () => api.requests.filter(r => r.path === '/deploys/dep-cal-012').length;
+
+    await client.subscribeResource({ uri: 'netlify://deploys/dep-cal-012' });
+    await client.subscribeResource({ uri: 'netlify://deploys/dep-cal-012/log' });
+    await waitFor(() => deployChecks() > 0);
+    expect(updates).toEqual([]);
+
+    api.updateDeploy('dep-cal-012', { state: 'ready' });
+    await waitFor(() => updates.length === 2);
+    expect(updates.sort()).toEqual(['netlify://deploys/dep-cal-012', 'netlify://deploys/dep-cal-012/log']);
+
+    // Finished deploys are no longer polled
+    const checks = deployChecks();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(deployChecks()).toBe(checks);
+  });
+
+  it('stops polling once every subscription is gone', async () => {
+    await client.subscribeResource({ uri: 'netlify://deploys/dep-cal-012' });
+    await client.unsubscribeResource({ uri: 'netlify://deploys/dep-cal-012' });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    // Only the check that recorded the state on subscribing
+    expect(api.requests.filter(r => r.path === '/deploys/dep-cal-012')).toHaveLength(1);
+  });
+});
+
+describe('DeploySubscriptions', () => {
+  const silenceWarnings = () => jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a change that happens before the first poll', async () => {
+    let state = 'building';
+    const notified: string[] = [];
+    const subscriptions = new DeploySubscriptions({ pollIntervalMs: 60_000 }, async () => state, async uri => { notified.push(uri); });
+
+    await subscriptions.subscribe('netlify://deploys/dep-1', 'dep-1');
+    state = 'ready';
+    await subscriptions.poll();
+    subscriptions.stop();
+
+    expect(notified).toEqual(['netlify://deploys/dep-1']);
+  });
+
+  it('keeps polling when a notification cannot be sent', async () => {
+    const warn = silenceWarnings();
+    let state = 'building';
+    const subscriptions = new DeploySubscriptions({ pollIntervalMs: 60_000 }, async () => state, async () => {
+      throw new Error('Not connected');
+    });
+
+    await subscriptions.subscribe('netlify://deploys/dep-1', 'dep-1');
+    state = 'ready';
+    await expect(subscriptions.poll()).resolves.toBeUndefined();
+    subscriptions.stop();
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not notify'), 'Not connected');
+  });
+
+  it('does not poll again once stopped during a poll', async () => {
+    let checks = 0;
+    const subscriptions: DeploySubscriptions = new DeploySubscriptions({ pollIntervalMs: 5 }, async () => {
+      checks++;
+      // The server closes while the second check is in flight
+      if (checks === 2) subscriptions.stop();
+      return 'building';
+    }, async () => undefined);
+
+    await subscriptions.subscribe('netlify://deploys/dep-1', 'dep-1');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(checks).toBe(2);
+    await subscriptions.subscribe('netlify://deploys/dep-2', 'dep-2');
+    expect(checks).toBe(2);
+  });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
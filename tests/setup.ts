@@ -0,0 +1,8 @@
+// Keep tests off the real Netlify API; suites point the client at the fake API instead
+process.env.NETLIFY_ACCESS_TOKEN = 'test-token';
+process.env.NETLIFY_API_URL = 'http://127.0.0.1:9/api/v1';
+process.env.NETLIFY_MAX_RETRIES = '0';
+process.env.NETLIFY_SITE_ID = 'site-calendar';
+process.env.NETLIFY_CACHE = 'off';
+// Suites that test the deploy history enable it with a temporary directory
+process.env.NETLIFY_HISTORY_ENABLED = 'false';
@@ -0,0 +1,287 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import sitesFixture from '../fixtures/sites.json';
+import deploysFixture from '../fixtures/deploys.json';
+import logsFixture from '../fixtures/logs.json';
+import accountsFixture from '../fixtures/accounts.json';
+import buildStatusFixture from '../fixtures/build-status.json';
+
+export const INVALID_TOKEN = 'invalid-token';
+export const RATE_LIMITED_SITE_ID = 'site-rate-limited';
+export const BROKEN_SITE_ID = 'site-broken';
+export const SLOW_SITE_ID = 'site-slow';
+export const STALLED_SITE_ID = 'site-stalled';
+export const HTML_SITE_ID = 'site-html';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+export interface FakeNetlifyApiOptions {
+  // Caps per_page so small fixtures still span several pages
+  maxPerPage?: number;
+}
+
+export interface FakeNetlifyApi {
+  url: string;
+  requests: RecordedRequest[];
+  // Simulate a running build: append log entries and change the deploy as Netlify would
+  appendLogs(deployId: string, entries: unknown[]): void;
+  updateDeploy(deployId: string, changes: Record<string, unknown>): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  handle: (params: string[], url: URL, body: unknown) => { status: number; body: unknown; headers?: Record<string, string> };
+};
+
+const notFound = () => ({ status: 404, body: { code: 404, message: 'Not Found' } });
+
+// In-process stand-in for the Netlify API, serving the JSON fixtures under tests/fixtures
+export async function startFakeNetlifyApi(options: FakeNetlifyApiOptions = {}): Promise<FakeNetlifyApi> {
+  const maxPerPage = options.maxPerPage || 100;
+  const requests: RecordedRequest[] = [];
+  let deploys = clone(deploysFixture) as any[];
+  let logs = clone(logsFixture) as Record<string, unknown[]>;
+  let baseUrl = '';
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      pattern: /^\/sites$/,
+      handle: () => ({ status: 200, body: sitesFixture })
+    },
+    {
+      method: 'GET',
+      pattern: /^\/sites\/([^/]+)$/,
+      handle: ([siteId]) => {
+        // Like Netlify, accept either the site ID or its custom domain
+        const site = sitesFixture.find(s => s.id === siteId || s.custom_domain === siteId);
+        return site ? { status: 200, body: site } : notFound();
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/accounts$/,
+      handle: () => ({ status: 200, body: accountsFixture })
+    },
+    {
+      method: 'GET',
+      pattern: /^\/([^/]+)\/builds\/status$/,
+      handle: ([accountId]) => {
+        const account = accountsFixture.find(a => a.id === accountId || a.slug === accountId);
+        return account
+          ? { status: 200, body: (buildStatusFixture as Record<string, unknown[]>)[account.slug] }
+          : notFound();
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/sites\/([^/]+)\/deploys$/,
+      handle: ([siteId], url) => {
+        if (!sitesFixture.some(site => site.id === siteId)) return notFound();
+
+        const branch = url.searchParams.get('branch');
+        const matching = deploys.filter(deploy => deploy.site_id === siteId && (!branch || deploy.branch === branch));
+        const perPage = Math.min(Number(url.searchParams.get('per_page') || 100), maxPerPage);
+        const page = Number(url.searchParams.get('page') || 1);
+        const lastPage = Math.max(1, Math.ceil(matching.length / perPage));
+
+        const pageLink = (target: number, rel: string) => {
+          const link = new URL(url.pathname, baseUrl);
+          url.searchParams.forEach((value, key) => link.searchParams.set(key, value));
+          link.searchParams.set('page', String(target));
+          return `<${link.toString()}>; rel="${rel}"`;
+        };
+        const links = [];
+        if (page < lastPage) links.push(pageLink(page + 1, 'next'));
+        links.push(pageLink(lastPage, 'last'));
+
+        return {
+          status: 200,
+          body: matching.slice((page - 1) * perPage, page * perPage),
+          headers: { link: links.join(', ') }
+        };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/deploys\/([^/]+)$/,
+      handle: ([deployId]) => {
+        const deploy = deploys.find(d => d.id === deployId);
+        return deploy ? { status: 200, body: deploy } : notFound();
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/deploys\/([^/]+)\/logs$/,
+      handle: ([deployId]) => {
+        if (!deploys.some(d => d.id === deployId)) return notFound();
+        return { status: 200, body: logs[deployId] || [] };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/sites\/([^/]+)\/builds$/,
+      handle: ([siteId]) => {
+        if (!sitesFixture.some(site => site.id === siteId)) return notFound();
+        const deploy = createDeploy(siteId, 'enqueued');
+        return {
+          status: 200,
+          body: { id: `build-${deploy.id}`, deploy_id: deploy.id, done: false, created_at: deploy.created_at }
+        };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/deploys\/([^/]+)\/retry$/,
+      handle: ([deployId]) => {
+        const deploy = deploys.find(d => d.id === deployId);
+        if (!deploy) return notFound();
+        return { status: 200, body: createDeploy(deploy.site_id, 'enqueued', deploy) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/deploys\/([^/]+)\/cancel$/,
+      handle: ([deployId]) => {
+        const deploy = deploys.find(d => d.id === deployId);
+        if (!deploy) return notFound();
+        deploy.state = 'error';
+        deploy.error_message = 'Canceled build';
+        return { status: 200, body: deploy };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/sites\/([^/]+)\/deploys\/([^/]+)\/restore$/,
+      handle: ([siteId, deployId]) => {
+        const deploy = deploys.find(d => d.id === deployId && d.site_id === siteId);
+        if (!deploy) return notFound();
+        deploy.published_at = new Date().toISOString();
+        return { status: 200, body: deploy };
+      }
+    }
+  ];
+
+  function createDeploy(siteId: string, state: string, source: any = {}) {
+    const id = `dep-new-${deploys.length + 1}`;
+    const createdAt = new Date().toISOString();
+    const deploy = {
+      ...source,
+      id,
+      site_id: siteId,
+      state,
+      created_at: createdAt,
+      updated_at: createdAt,
+      branch: source.branch || 'main',
+      error_message: undefined,
+      published_at: undefined,
+      deploy_time: undefined
+    };
+    deploys = [deploy, ...deploys];
+    return deploy;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/api\/v1/, '');
+    const rawBody = await readBody(req);
+    const body = rawBody ? JSON.parse(rawBody) : undefined;
+
+    requests.push({
+      method: req.method || 'GET',
+      path,
+      query: Object.fromEntries(url.searchParams.entries()),
+      body
+    });
+
+    const send = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(payload));
+    };
+
+    // Error states
+    if (req.headers.authorization === `Bearer ${INVALID_TOKEN}`) {
+      return send(401, { code: 401, message: 'Access Denied: Invalid token' });
+    }
+    if (path.includes(RATE_LIMITED_SITE_ID)) {
+      return send(429, { code: 429, message: 'Rate limit exceeded' }, {
+        'Retry-After': '0',
+        'X-RateLimit-Limit': '500',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.floor(Date.now() / 1000) + 60)
+      });
+    }
+    if (path.includes(BROKEN_SITE_ID)) {
+      return send(500, { code: 500, message: 'Internal Server Error' });
+    }
+    if (path.includes(SLOW_SITE_ID)) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return send(200, []);
+    }
+    if (path.includes(STALLED_SITE_ID)) {
+      // Headers and the start of the body arrive at once, the rest much later
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('[');
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return res.end(']');
+    }
+    if (path.includes(HTML_SITE_ID)) {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end('<html><body>Maintenance</body></html>');
+    }
+
+    for (const route of routes) {
+      const match = route.method === req.method ? path.match(route.pattern) : null;
+      if (match) {
+        const result = route.handle(match.slice(1), url, body);
+        return send(result.status, result.body, result.headers);
+      }
+    }
+
+    send(404, { code: 404, message: 'Not Found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/api/v1`;
+
+  return {
+    url: baseUrl,
+    requests,
+    appendLogs(deployId, entries) {
+      logs[deployId] = [...(logs[deployId] || []), ...entries];
+    },
+    updateDeploy(deployId, changes) {
+      Object.assign(deploys.find(d => d.id === deployId), changes);
+    },
+    reset() {
+      requests.length = 0;
+      deploys = clone(deploysFixture) as any[];
+      logs = clone(logsFixture) as Record<string, unknown[]>;
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
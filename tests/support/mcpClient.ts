@@ -0,0 +1,24 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+// Connects an MCP client to the server over an in-memory transport, so tool calls go
+// through the real CallToolRequestSchema handler
+export async function connectTestClient(server: Server): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'netlify-mcp-server-tests', version: '1.0.0' });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+  return client;
+}
+
+export async function callToolText(client: Client, name: string, args: Record<string, unknown> = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  return {
+    result,
+    text: content.map(item => item.text).join('\n')
+  };
+}
@@ -0,0 +1,1137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { server } from '../src/index';
+import { config } from '../src/utils/config';
+import { createProfile } from '../src/utils/profiles';
+import { loadProjectContexts } from '../src/utils/projectContext';
+import {
+  BROKEN_SITE_ID,
+  FakeNetlifyApi,
+  INVALID_TOKEN,
+  RATE_LIMITED_SITE_ID,
+  startFakeNetlifyApi
+} from './support/fakeNetlifyApi';
+import { callToolText, connectTestClient } from './support/mcpClient';
+
+const NOW = new Date('2025-07-20T12:00:00.000Z');
+
+describe('MCP tools end-to-end', () => {
+  let api: FakeNetlifyApi;
+  let client: Client;
+
+  beforeAll(async () => {
+    api = await startFakeNetlifyApi({ maxPerPage: 5 });
+    config.netlify.apiUrl = api.url;
+    config.netlify.accessToken = 'test-token';
+    config.netlify.maxRetries = 0;
+    client = await connectTestClient(server);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await api.close();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['setTimeout', 'clearTimeout', 'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval', 'nextTick', 'queueMicrotask', 'hrtime', 'performance'] });
+    api.reset();
+    config.netlify.accessToken = 'test-token';
+    config.netlify.siteId = '';
+    config.profiles = { profiles: [] };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const mutatingRequests = () => api.requests.filter(r => r.method === 'POST');
+
+  it('lists every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(expect.arrayContaining([
+      'hello', 'cache-stats', 'list-sites', 'check-deployment-status', 'get-failed-deployments', 'get-build-metrics',
+      'analyze-build-error', 'get-advanced-deployment-status', 'search-build-logs', 'tail-build-logs', 'watch-deployment', 'list-error-patterns', 'test-error-pattern', 'find-recurring-failures', 'bisect-deploy-failure', 'sync-deploy-history', 'validate-netlify-config', 'test-redirects', 'check-build-minutes', 'optimize-build-strategy',
+      'smart-retry-analysis', 'analyze-content-performance', 'format-error-for-ai',
+      'generate-content-optimization-report', 'monitor-site', 'monitor-digitalzango-calendar'
+    ]));
+    expect(tools.every(tool => tool.outputSchema?.type === 'object')).toBe(true);
+  });
+
+  describe('structured output', () => {
+    it('returns the report data as structured content', async () => {
+      const { result } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+
+      expect(result.structuredContent).toMatchObject({
+        siteId: 'site-calendar',
+        metrics: { buildMinutesUsed: 15, failureRate: 29 },
+        siteShare: 75,
+        buildMinutes: { account: { slug: 'digitalzango' }, minutesUsed: 20, includedMinutes: 300, remaining: 280 },
+        lowBuildMinutes: false,
+        highFailureRate: true,
+      });
+    });
+
+    it('returns JSON text when asked for json', async () => {
+      const { result } = await callToolText(client, 'get-failed-deployments', { siteId: 'site-calendar', format: 'json' });
+      const content = result.content as { text: string }[];
+
+      expect(content).toHaveLength(1);
+      expect(JSON.parse(content[0].text)).toEqual(result.structuredContent);
+      expect((result.structuredContent as any).deployments.map((d: { id: string }) => d.id)).toEqual(['dep-cal-010', 'dep-cal-008', 'dep-cal-003']);
+    });
+
+    it('returns markdown and JSON text when asked for both', async () => {
+      const { result } = await callToolText(client, 'list-sites', { format: 'both' });
+      const content = result.content as { text: string }[];
+
+      expect(content).toHaveLength(2);
+      expect(content[0].text).toContain('Your Netlify Sites (2 total)');
+      expect(JSON.parse(content[1].text)).toMatchObject({ total: 2, sites: [{ id: 'site-calendar' }, { id: 'site-portfolio' }] });
+    });
+  });
+
+  it('rejects invalid arguments before calling the API', async () => {
+    const { result, text } = await callToolText(client, 'check-deployment-status', { siteId: '', limit: 'five' });
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('• siteId: String must contain at least 1 character(s)');
+    expect(text).toContain('• limit: Expected number, received string');
+    expect(api.requests).toHaveLength(0);
+  });
+
+  describe('profiles', () => {
+    const useProfiles = () => {
+      config.profiles = {
+        defaultProfile: 'agency',
+        profiles: [
+          createProfile('agency', 'file', { accessToken: 'test-token', apiUrl: api.url, siteId: 'site-calendar', buildMinutesLimit: 1000 }),
+          createProfile('client-portfolio', 'environment', { accessToken: INVALID_TOKEN, apiUrl: api.url }),
+        ],
+      };
+    };
+
+    it('lists the configured profiles without their tokens', async () => {
+      useProfiles();
+
+      const { result, text } = await callToolText(client, 'list-profiles');
+
+      expect(text).toContain('Netlify Profiles (3 configured)');
+      expect(text).toContain('**agency** (default)');
+      expect(text).not.toContain('test-token');
+      expect(result.structuredContent).toMatchObject({
+        defaultProfile: 'agency',
+        profiles: [
+          { name: 'default', isDefault: false, siteId: null },
+          { name: 'agency', isDefault: true, siteId: 'site-calendar', buildMinutesLimit: 1000, tokenConfigured: true },
+          { name: 'client-portfolio', isDefault: false, source: 'environment' },
+        ],
+      });
+    });
+
+    it("uses the default profile's site and build minute limit", async () => {
+      useProfiles();
+
+      const { result, text } = await callToolText(client, 'check-build-minutes');
+
+      expect(text).toContain('Used: 20/1000 minutes (2%, configured limit)');
+      expect(result.structuredContent).toMatchObject({ siteId: 'site-calendar', usage: { includedMinutes: 1000, limitSource: 'config', remaining: 980 } });
+    });
+
+    it('uses the token of the profile a call selects', async () => {
+      useProfiles();
+
+      const { result } = await callToolText(client, 'list-sites', { profile: 'client-portfolio' });
+
+      expect(result.structuredContent).toMatchObject({ error: { code: 'AUTH_INVALID' } });
+    });
+
+    it('rejects unknown profiles', async () => {
+      const { result, text } = await callToolText(client, 'list-sites', { profile: 'client-b' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('• profile: Unknown profile "client-b". Configured profiles: default');
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('asks for a siteId when the profile has no default site', async () => {
+      const { result, text } = await callToolText(client, 'get-build-metrics');
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('No siteId given and profile "default" has no default site');
+    });
+  });
+
+  describe('hello', () => {
+    it('reports server status without calling the API', async () => {
+      const { text } = await callToolText(client, 'hello');
+
+      expect(text).toContain('🚀 Netlify MCP Server v1.0.0 is running successfully');
+      expect(text).toContain('list-sites, check-deployment-status');
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('cache-stats', () => {
+    beforeEach(() => {
+      config.cache.backend = 'memory';
+    });
+
+    afterEach(async () => {
+      await callToolText(client, 'cache-stats', { clear: true });
+      config.cache.backend = 'off';
+    });
+
+    it('reports cache hits per endpoint', async () => {
+      await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+      const { result } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+      const { result: stats, text } = await callToolText(client, 'cache-stats');
+
+      expect(result.structuredContent).toMatchObject({ metrics: { buildMinutesUsed: 15 } });
+      expect(api.requests.filter(request => request.path === '/sites/site-calendar/deploys')).toHaveLength(2);
+      expect(text).toContain('**🗃️ Response Cache (memory):**');
+      expect(text).toContain('• deploys: 2 hits, 2 misses (50%)');
+      expect(stats.structuredContent).toMatchObject({
+        backend: 'memory',
+        cleared: false,
+        endpoints: expect.arrayContaining([{ endpoint: 'deploys', hits: 2, misses: 2, bypassed: 0, hitRate: 50 }]),
+      });
+    });
+
+    it('skips the cache for calls asking for fresh data', async () => {
+      await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+      api.updateDeploy('dep-cal-011', { state: 'error' });
+
+      const { result: cached } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+      const { result: fresh } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar', fresh: true });
+
+      expect(cached.structuredContent).toMatchObject({ metrics: { failureRate: 29 } });
+      expect(fresh.structuredContent).toMatchObject({ metrics: { failureRate: 43 } });
+      // The fresh call also lists the sites again to resolve the site
+      expect((await callToolText(client, 'cache-stats')).result.structuredContent).toMatchObject({ bypassed: 5 });
+    });
+
+    it('explains how to enable a disabled cache', async () => {
+      config.cache.backend = 'off';
+
+      const { text } = await callToolText(client, 'cache-stats');
+
+      expect(text).toContain('⚠️ The response cache is off');
+    });
+  });
+
+  describe('list-sites', () => {
+    it('lists the fixture sites', async () => {
+      const { text } = await callToolText(client, 'list-sites');
+
+      expect(text).toContain('Your Netlify Sites (2 total)');
+      expect(text).toContain('digitalzango-agricultural-calendar');
+      expect(text).toContain('client-portfolio');
+    });
+
+    it('returns AUTH_INVALID for a rejected token', async () => {
+      config.netlify.accessToken = INVALID_TOKEN;
+
+      const { result, text } = await callToolText(client, 'list-sites');
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('[AUTH_INVALID]');
+      expect(result.structuredContent).toMatchObject({ error: { code: 'AUTH_INVALID', status: 401 } });
+    });
+  });
+
+  describe('check-deployment-status', () => {
+    it('shows recent deployments across pages', async () => {
+      const { text } = await callToolText(client, 'check-deployment-status', { siteId: 'site-calendar', limit: 7 });
+
+      expect(text).toContain('Recent Deployments for site-calendar');
+      expect(text.match(/Branch:/g)).toHaveLength(7);
+      expect(api.requests.filter(r => r.path === '/sites/site-calendar/deploys')).toHaveLength(2);
+    });
+
+    it('filters by branch', async () => {
+      const { text } = await callToolText(client, 'check-deployment-status', { siteId: 'site-calendar', branch: 'feature/harvest-guide' });
+
+      expect(text.match(/Branch: feature\/harvest-guide/g)).toHaveLength(2);
+      expect(text).not.toContain('Branch: main');
+    });
+
+    it('accepts a site name or custom domain', async () => {
+      const byName = await callToolText(client, 'check-deployment-status', { siteId: 'digitalzango-agricultural-calendar', limit: 1 });
+      const byDomain = await callToolText(client, 'check-deployment-status', { siteId: 'calendar.digitalzango.com', limit: 1 });
+
+      expect(byName.text).toContain('Recent Deployments for site-calendar');
+      expect(byDomain.text).toContain('Recent Deployments for site-calendar');
+    });
+
+    it('returns AMBIGUOUS_SITE with the candidate sites', async () => {
+      const { result, text } = await callToolText(client, 'check-deployment-status', { siteId: 'digitalzango' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('[AMBIGUOUS_SITE]');
+      expect(result.structuredContent).toMatchObject({
+        error: { code: 'AMBIGUOUS_SITE', candidates: [{ id: 'site-calendar' }, { id: 'site-portfolio' }] },
+      });
+    });
+
+    it('returns NOT_FOUND for an unknown site', async () => {
+      const { result, text } = await callToolText(client, 'check-deployment-status', { siteId: 'site-missing' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('[NOT_FOUND]');
+    });
+
+    it('returns RATE_LIMITED when the API throttles requests', async () => {
+      const { result } = await callToolText(client, 'check-deployment-status', { siteId: RATE_LIMITED_SITE_ID });
+
+      expect(result.structuredContent).toMatchObject({ error: { code: 'RATE_LIMITED', retryAfterSeconds: 0 } });
+    });
+  });
+
+  describe('get-failed-deployments', () => {
+    it('lists failed deployments up to the limit', async () => {
+      const { text } = await callToolText(client, 'get-failed-deployments', { siteId: 'site-calendar', limit: 2 });
+
+      expect(text.match(/❌ \*\*Deployment/g)).toHaveLength(2);
+      expect(text).toContain('non-zero exit code: 1');
+    });
+
+    it('reports a clean history', async () => {
+      const { text } = await callToolText(client, 'get-failed-deployments', { siteId: 'site-portfolio', limit: 0 });
+
+      expect(text).toContain('No failed deployments found');
+    });
+  });
+
+  describe('get-build-metrics', () => {
+    it('summarises the current month', async () => {
+      const { text } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+
+      expect(text).toContain("Build Minutes Used: 15 minutes (75% of the team's)");
+      expect(text).toContain('**Team Build Minutes (DigitalZango):**\n• Used: 20/300 minutes\n• Remaining: 280 minutes until');
+      expect(text).toContain('Failure Rate: 29%');
+    });
+
+    it('returns SERVER_ERROR when the API fails', async () => {
+      const { result, text } = await callToolText(client, 'get-build-metrics', { siteId: BROKEN_SITE_ID });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('[SERVER_ERROR]');
+    });
+  });
+
+  describe('analyze-build-error', () => {
+    it('recognises error patterns in the build log', async () => {
+      const { text } = await callToolText(client, 'analyze-build-error', { deployId: 'dep-cal-010' });
+
+      expect(text).toContain('Build Error Analysis for Deployment dep-cal-010');
+      expect(text).toContain('Most Likely Cause: Dependency Conflict');
+      expect(text).toContain('• Package: react');
+      expect(text).toContain('• Exit code: 1');
+      expect(text).toContain('line 4 | npm ERR! Could not resolve dependency');
+    });
+
+    it('extracts the failing file and TypeScript error code', async () => {
+      const { result, text } = await callToolText(client, 'analyze-build-error', { deployId: 'dep-cal-008' });
+
+      expect(text).toContain('Most Likely Cause: TypeScript Error');
+      expect(text).toContain('• File: src/components/PlantingCalendar.tsx:42:7');
+      expect(text).toContain('• Error code: TS2322');
+      expect(result.structuredContent).toMatchObject({
+        diagnosis: {
+          candidates: [{
+            pattern: { category: 'TypeScript Error' },
+            evidence: [{ line: 3 }],
+            details: { file: 'src/components/PlantingCalendar.tsx', line: 42, column: 7, errorCode: 'TS2322' },
+          }],
+          exitCode: 2,
+        },
+      });
+    });
+
+    it('reports a clean log', async () => {
+      const { text } = await callToolText(client, 'analyze-build-error', { deployId: 'dep-cal-011' });
+
+      expect(text).toContain('No errors found');
+    });
+
+    describe('with a local checkout', () => {
+      let repoPath: string;
+
+      beforeEach(() => {
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'calendar-repo-'));
+        fs.writeFileSync(path.join(repoPath, 'netlify.toml'), '[build]\n  command = "next build"\n  publish = "out"\n');
+        fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify({ scripts: { build: 'next build && next export' }, dependencies: { react: '^18.2.0', 'react-calendar': '^3.9.0' } }));
+        fs.writeFileSync(path.join(repoPath, 'package-lock.json'), '{}');
+      });
+
+      afterEach(() => {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+      });
+
+      it('checks the repository against the failure', async () => {
+        const { result, text } = await callToolText(client, 'analyze-build-error', { deployId: 'dep-cal-010', repoPath });
+
+        expect(text).toContain(`**Repository Checks (${repoPath}):**`);
+        expect(text).toContain("⚠️ netlify.toml:2 - Your build command `next build` doesn't match scripts.build (`next build && next export`)");
+        expect(text).toContain('   Fix: Set build.command to `npm run build`');
+        expect(text).toContain('ℹ️ package.json - package.json requires react@^18.2.0');
+        expect(result.structuredContent).toMatchObject({
+          repository: { repoPath, findings: [{ severity: 'warning', line: 2 }, { severity: 'info' }] },
+        });
+      });
+
+      it('adds the findings to the AI prompt', async () => {
+        const { result, text } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-010', repoPath });
+
+        expect(text).toContain(`Repository Checks (${repoPath}):\n⚠️ netlify.toml:2 - Your build command`);
+        expect(text).toContain(`**Repository Checks:**\n✅ Included from ${repoPath}`);
+        expect(result.structuredContent).toMatchObject({ repoPath });
+      });
+
+      it('reports a path that is not a checkout', async () => {
+        const { result, text } = await callToolText(client, 'analyze-build-error', { deployId: 'dep-cal-010', repoPath: path.join(repoPath, 'missing') });
+
+        expect(result.isError).toBe(true);
+        expect(text).toContain('is not a directory');
+      });
+    });
+  });
+
+  describe('search-build-logs', () => {
+    it('finds keyword matches with surrounding lines', async () => {
+      const { result, text } = await callToolText(client, 'search-build-logs', { deployId: 'dep-cal-010', query: 'ERESOLVE', contextLines: 1 });
+
+      expect(text).toContain('1 matching lines for `ERESOLVE` in 5 lines');
+      expect(text).toContain('  2 | $ npm install\n> 3 | npm ERR! code ERESOLVE\n  4 | npm ERR! Could not resolve dependency');
+      expect(result.structuredContent).toMatchObject({
+        complete: true,
+        totalMatches: 1,
+        matches: [{ line: { line: 3, level: 'error' }, before: [{ line: 2 }], after: [{ line: 4 }] }],
+      });
+    });
+
+    it('searches by regular expression and level', async () => {
+      const { result } = await callToolText(client, 'search-build-logs', { deployId: 'dep-cal-010', query: 'npm (ERR|install)', regex: true, level: 'error', contextLines: 0 });
+
+      expect(result.structuredContent).toMatchObject({ totalMatches: 2, matches: [{ line: { line: 3 } }, { line: { line: 4 } }] });
+    });
+
+    it('searches the normalized log of a running build', async () => {
+      const { text } = await callToolText(client, 'search-build-logs', { deployId: 'dep-cal-012', query: 'next build' });
+
+      expect(text).toContain('> 2 | $ next build');
+      expect(text).toContain('Build is still building - the log is incomplete');
+    });
+
+    it('rejects an invalid regular expression', async () => {
+      const { result, text } = await callToolText(client, 'search-build-logs', { deployId: 'dep-cal-010', query: 'npm (', regex: true });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('Invalid regular expression');
+      expect(api.requests).toHaveLength(0);
+    });
+  });
+
+  describe('tail-build-logs', () => {
+    it('returns the last lines of the log', async () => {
+      const { result, text } = await callToolText(client, 'tail-build-logs', { deployId: 'dep-cal-010', maxLines: 2 });
+
+      expect(text).toContain('4 | npm ERR! Could not resolve dependency');
+      expect(text).toContain('5 | Build script returned non-zero exit code: 1');
+      expect(text).not.toContain('npm ERR! code ERESOLVE');
+      expect(text).toContain('Build finished (error) - this is the end of the log.');
+      expect(result.structuredContent).toMatchObject({ complete: true, nextCursor: 5, hasMore: false });
+    });
+
+    it('follows a running build from a cursor', async () => {
+      const first = await callToolText(client, 'tail-build-logs', { deployId: 'dep-cal-012' });
+
+      expect(first.text).toContain('Build is still building. Call again with cursor: 4');
+      expect(first.result.structuredContent).toMatchObject({
+        nextCursor: 4,
+        lines: [
+          { line: 1, message: 'Starting build script' },
+          { line: 2, message: '$ next build' },
+          { line: 3, message: 'Creating an optimized production build...' },
+          { line: 4, message: 'Installing dependencies 100%' },
+        ],
+      });
+
+      api.appendLogs('dep-cal-012', [{ created_at: '2025-07-20T11:56:30.000Z', level: 'info', message: '11:56:30 AM: Site is live', source: 'build' }]);
+      api.updateDeploy('dep-cal-012', { state: 'ready' });
+      const next = await callToolText(client, 'tail-build-logs', { deployId: 'dep-cal-012', cursor: 4 });
+
+      expect(next.result.structuredContent).toMatchObject({ state: 'ready', complete: true, nextCursor: 5, lines: [{ line: 5, message: 'Site is live' }] });
+    });
+
+    it('pages through lines after a cursor', async () => {
+      const { result, text } = await callToolText(client, 'tail-build-logs', { deployId: 'dep-cal-010', cursor: 1, maxLines: 2 });
+
+      expect(text).toContain('More lines are available - call again with cursor: 3.');
+      expect(result.structuredContent).toMatchObject({ nextCursor: 3, hasMore: true, lines: [{ line: 2 }, { line: 3 }] });
+    });
+
+    it('reports when there are no new lines', async () => {
+      const { text } = await callToolText(client, 'tail-build-logs', { deployId: 'dep-cal-010', cursor: 5 });
+
+      expect(text).toContain('No new lines since line 5.');
+    });
+  });
+
+  describe('watch-deployment', () => {
+    it('sends progress notifications until the build finishes', async () => {
+      const progress: string[] = [];
+      setTimeout(() => {
+        api.appendLogs('dep-cal-012', [{ created_at: '2025-07-20T11:56:30.000Z', level: 'info', message: 'Site is live', source: 'build' }]);
+        api.updateDeploy('dep-cal-012', { state: 'ready' });
+      }, 100);
+
+      const result = await client.callTool(
+        { name: 'watch-deployment', arguments: { deployId: 'dep-cal-012', pollIntervalSeconds: 1, logLines: 2 } },
+        undefined,
+        { onprogress: ({ message }) => { progress.push(message || ''); } }
+      );
+      const text = (result.content as { text: string }[])[0].text;
+
+      expect(progress).toEqual([
+        'building (4 log lines)\nCreating an optimized production build...\nInstalling dependencies 100%',
+        'building → ready (5 log lines)\nSite is live',
+      ]);
+      expect(text).toContain('**👀 Deployment dep-cal-012:** building → ready');
+      expect(text).toContain('✅ Build finished successfully (5 log lines)');
+      expect(result.structuredContent).toMatchObject({ state: 'ready', complete: true, totalLines: 5, diagnosis: null });
+    });
+
+    it('diagnoses a build that failed', async () => {
+      const { result, text } = await callToolText(client, 'watch-deployment', { deployId: 'dep-cal-010' });
+
+      expect(text).toContain('❌ Build finished with state: error');
+      expect(text).toContain('**Most Likely Cause: Dependency Conflict**');
+      expect(result.structuredContent).toMatchObject({ transitions: [{ state: 'error' }], diagnosis: { candidates: [{ pattern: { id: 'dependency-conflict' } }] } });
+    });
+
+    it('stops at the timeout while the build is still running', async () => {
+      const { result, text } = await callToolText(client, 'watch-deployment', { deployId: 'dep-cal-012', timeoutSeconds: 0 });
+
+      expect(text).toContain('⏳ Build is still building after 0 seconds');
+      expect(result.structuredContent).toMatchObject({ complete: false, diagnosis: null });
+    });
+
+    it('returns as many log lines as asked for', async () => {
+      const twoLines = await callToolText(client, 'watch-deployment', { deployId: 'dep-cal-012', timeoutSeconds: 0, logLines: 2 });
+      expect((twoLines.result.structuredContent as { lastLines: unknown[] }).lastLines).toHaveLength(2);
+
+      const noLines = await callToolText(client, 'watch-deployment', { deployId: 'dep-cal-012', timeoutSeconds: 0, logLines: 0 });
+      expect(noLines.result.structuredContent).toMatchObject({ lastLines: [] });
+      expect(noLines.text).not.toContain('**Last Log Lines:**');
+    });
+  });
+
+  describe('list-error-patterns', () => {
+    it('lists the built-in catalog', async () => {
+      const { result, text } = await callToolText(client, 'list-error-patterns');
+
+      expect(text).toContain('Error Pattern Catalog (22 of 22 patterns)');
+      expect(text).toContain('**build-tool-missing** - Build Tool Missing (high, 1 min)');
+      expect(result.structuredContent).toMatchObject({
+        total: 22,
+        warnings: [],
+        sources: [{ origin: 'builtin', patterns: 3 }, { origin: 'builtin', patterns: 5 }, { origin: 'builtin', patterns: 14 }],
+      });
+    });
+
+    it('filters by severity', async () => {
+      const { result } = await callToolText(client, 'list-error-patterns', { severity: 'critical' });
+
+      expect(result.structuredContent).toMatchObject({ total: 1, patterns: [{ id: 'memory-limit', source: 'builtin/netlify.yaml' }] });
+    });
+  });
+
+  describe('test-error-pattern', () => {
+    const sampleLog = [
+      '9:00:05 AM: $ npm run build',
+      '9:00:40 AM: Error: Invalid planting date "2025-13-01" in content/calendar/maize.md',
+      '9:00:40 AM:     at parseCalendar (scripts/calendar.js:12:9)',
+      '9:00:41 AM: Build script returned non-zero exit code: 1',
+    ].join('\n');
+
+    it('shows the matching lines and the rank in a diagnosis', async () => {
+      const { result, text } = await callToolText(client, 'test-error-pattern', {
+        pattern: 'Invalid planting date', category: 'Calendar Data Error', sampleLog,
+      });
+
+      expect(text).toContain('Matches:** 1 of 4 lines');
+      expect(text).toContain('line 2 | Error: Invalid planting date');
+      expect(text).toContain('🥇 Most likely cause');
+      expect(result.structuredContent).toMatchObject({ valid: true, rank: 1, matchesInErrorBlocks: 1, diagnosis: [{ id: 'test-pattern', category: 'Calendar Data Error' }] });
+    });
+
+    it("tests against a deployment's build log", async () => {
+      const { result } = await callToolText(client, 'test-error-pattern', { pattern: 'ERESOLVE', severity: 'low', deployId: 'dep-cal-010' });
+
+      expect(result.structuredContent).toMatchObject({
+        matches: [{ line: 3, message: 'npm ERR! code ERESOLVE' }],
+        rank: 2,
+        diagnosis: [{ id: 'dependency-conflict' }, { id: 'test-pattern' }],
+      });
+    });
+
+    it('reports a pattern that does not compile', async () => {
+      const { result, text } = await callToolText(client, 'test-error-pattern', { pattern: 'npm ERR! (', sampleLog });
+
+      expect(result.isError).toBeFalsy();
+      expect(text).toContain('❌ Invalid pattern');
+      expect(result.structuredContent).toMatchObject({ valid: false, compileError: expect.stringContaining('Unterminated group') });
+    });
+
+    it('needs a log to test against', async () => {
+      const { result, text } = await callToolText(client, 'test-error-pattern', { pattern: 'oops' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('Pass sampleLog or deployId');
+    });
+  });
+
+  describe('find-recurring-failures', () => {
+    beforeEach(() => {
+      // The TypeScript error of dep-cal-008 comes back on the next main build, and the weather
+      // API times out again two weeks after dep-cal-003
+      api.updateDeploy('dep-cal-011', { state: 'error', error_message: "Failed during stage 'building site': Build script returned non-zero exit code: 2" });
+      api.appendLogs('dep-cal-011', [
+        { level: 'error', message: "Type error: Type 'string' is not assignable to type 'number'. ts(2322)" },
+        { level: 'info', message: '  src/components/PlantingCalendar.tsx:57:3' },
+      ]);
+      api.updateDeploy('dep-cal-006', { state: 'error', error_message: 'Failed to fetch remote data: network timeout' });
+      api.appendLogs('dep-cal-006', [
+        { level: 'error', message: 'Failed to fetch https://api.weather.example/frost-dates: network timeout' },
+      ]);
+    });
+
+    it('clusters failures by normalized error across deploys', async () => {
+      const { result, text } = await callToolText(client, 'find-recurring-failures', { siteId: 'site-calendar' });
+
+      expect(text).toContain('5 failed deploys out of 12 checked, in 3 distinct failures');
+      expect(text).toContain('🚨 **TypeScript Error** - 2 failures (40%)');
+      expect(text).toContain('No build passed between its occurrences since commit d4e5f6a - likely a regression introduced there');
+      expect(text).toContain('🔄 **Network Issue** - 2 failures (40%)');
+      expect(text).toContain('1 successful build in between - likely flaky');
+      expect(result.structuredContent).toMatchObject({
+        analyzedFailures: 5,
+        missingLogs: 0,
+        clusters: [
+          {
+            patternId: 'typescript-error',
+            kind: 'persistent',
+            firstSeen: { deployId: 'dep-cal-008', commitRef: 'd4e5f6a1b2c30000000000000000000000000008' },
+            lastSeen: { deployId: 'dep-cal-011' },
+            lastSuccessBefore: { deployId: 'dep-cal-007' },
+            fixedBy: null,
+            branches: ['main'],
+          },
+          {
+            patternId: 'network-issue',
+            kind: 'intermittent',
+            signature: 'Failed to fetch <url> network timeout',
+            successesBetween: 1,
+            fixedBy: { deployId: 'dep-cal-007' },
+            occurrences: [{ deployId: 'dep-cal-006' }, { deployId: 'dep-cal-003' }],
+          },
+          { patternId: 'dependency-conflict', kind: 'one-off', count: 1 },
+        ],
+      });
+    });
+
+    it('analyzes only the most recent failures', async () => {
+      const { result } = await callToolText(client, 'find-recurring-failures', { siteId: 'site-calendar', limit: 2 });
+
+      expect(result.structuredContent).toMatchObject({ analyzedFailures: 2, scannedDeploys: 6 });
+      expect((result.structuredContent as any).clusters.map((c: { patternId: string }) => c.patternId)).toEqual(['typescript-error', 'dependency-conflict']);
+    });
+
+    it('reports a site without failures', async () => {
+      const { text } = await callToolText(client, 'find-recurring-failures', { siteId: 'site-calendar', branch: 'feature/harvest-guide' });
+
+      expect(text).toContain('✅ No failed deployments found for site: site-calendar on branch feature/harvest-guide');
+    });
+  });
+
+  describe('bisect-deploy-failure', () => {
+    it('finds the commit range where the branch broke', async () => {
+      const { result, text } = await callToolText(client, 'bisect-deploy-failure', { deployId: 'dep-cal-010' });
+
+      expect(text).toContain('✅ Last successful deploy: dep-cal-007');
+      expect(text).toContain('❌ First failed deploy: dep-cal-008');
+      expect(text).toContain('**Commit Range:** e5f6a1b...d4e5f6a');
+      expect(text).toContain('Compare: https://github.com/digitalzango/agricultural-calendar/compare/e5f6a1b2c3d40000000000000000000000000007...d4e5f6a1b2c30000000000000000000000000008');
+      expect(text).toContain('Most likely cause: TypeScript Error');
+      expect(text).toContain('⚠️ dep-cal-010 fails with a different error than dep-cal-008');
+      expect(result.structuredContent).toMatchObject({
+        branch: 'main',
+        lastGreen: { id: 'dep-cal-007' },
+        firstRed: { id: 'dep-cal-008' },
+        failedDeploys: 2,
+        skippedDeploys: 0,
+        sameFailure: false,
+        diagnosis: { candidates: [{ pattern: { id: 'typescript-error' } }] },
+      });
+    });
+
+    it('starts from the failed deploy itself when the previous deploy passed', async () => {
+      const { result } = await callToolText(client, 'bisect-deploy-failure', { deployId: 'dep-cal-003' });
+
+      expect(result.structuredContent).toMatchObject({
+        lastGreen: { id: 'dep-cal-002' },
+        firstRed: { id: 'dep-cal-003' },
+        failedDeploys: 1,
+        sameFailure: true,
+        commitRange: { base: 'd4e5f6a1b2c30000000000000000000000000002', head: 'c3d4e5f6a1b20000000000000000000000000003' },
+      });
+    });
+
+    it('reads no more deploys than maxDeploys', async () => {
+      const { result, text } = await callToolText(client, 'bisect-deploy-failure', { deployId: 'dep-cal-010', maxDeploys: 2 });
+
+      expect(text).toContain('⚠️ No successful deploy in the last 2 deploys - the branch has been failing since at least dep-cal-008');
+      expect(result.structuredContent).toMatchObject({ lastGreen: null, firstRed: { id: 'dep-cal-008' }, failedDeploys: 2 });
+    });
+
+    it('refuses a deploy that did not fail', async () => {
+      const { result, text } = await callToolText(client, 'bisect-deploy-failure', { deployId: 'dep-cal-011' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('Deployment dep-cal-011 did not fail (state: ready)');
+    });
+  });
+
+  describe('sync-deploy-history', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-history-'));
+      Object.assign(config.history, { enabled: true, dir });
+    });
+
+    afterEach(() => {
+      Object.assign(config.history, { enabled: false, dir: '' });
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('records the deploy history and summarizes it by month', async () => {
+      const { result, text } = await callToolText(client, 'sync-deploy-history', { siteId: 'site-calendar' });
+
+      expect(text).toContain('✅ Synced: 12 new deploys, 0 updated, 3 failures diagnosed');
+      expect(text).toContain('• 2025-07: 8 deploys, 2 failed (25%)');
+      expect(result.structuredContent).toMatchObject({
+        siteId: 'site-calendar',
+        historyDir: dir,
+        totalDeploys: 12,
+        metricsSnapshots: 1,
+        months: [{ month: '2025-07', buildMinutesUsed: 17 }, { month: '2025-06', topFailureCategory: 'Network Issue' }, { month: '2024-07' }],
+      });
+    });
+
+    it('serves build metrics from the recorded history', async () => {
+      await callToolText(client, 'sync-deploy-history', { siteId: 'site-calendar' });
+      api.requests.length = 0;
+
+      const { result } = await callToolText(client, 'get-build-metrics', { siteId: 'site-calendar' });
+
+      expect(result.structuredContent).toMatchObject({ metrics: { buildMinutesUsed: 15, failureRate: 29 } });
+      expect(api.requests.filter(request => request.path.endsWith('/deploys'))).toHaveLength(1);
+    });
+
+    it('explains how to enable a disabled history', async () => {
+      config.history.enabled = false;
+
+      const { result, text } = await callToolText(client, 'sync-deploy-history', { siteId: 'site-calendar' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('NETLIFY_HISTORY_ENABLED=true');
+    });
+  });
+
+  describe('get-advanced-deployment-status', () => {
+    it('combines deployments and metrics', async () => {
+      const { text } = await callToolText(client, 'get-advanced-deployment-status', { siteId: 'site-calendar' });
+
+      expect(text).toContain('Total Recent Deployments: 10');
+      expect(text).toContain('Team Minutes Remaining: 280/300 minutes');
+    });
+  });
+
+  describe('validate-netlify-config', () => {
+    it('reports errors and warnings with their lines and fixes', async () => {
+      const content = '[build]\n  command = "npm run build"\n  publsh = "out"\n\n[[redirects]]\n  from = "/calendar/:month"\n  to = "/calendario/:mes"\n';
+      const { result, text } = await callToolText(client, 'validate-netlify-config', { content });
+
+      expect(text).toContain('**🧪 netlify.toml Validation: inline content**');
+      expect(text).toContain('✅ Netlify can read the file - 0 errors, 2 warnings');
+      expect(text).toContain('⚠️ line 3 - Unknown setting publsh in [build] - did you mean publish?');
+      expect(text).toContain("⚠️ line 7 - to uses :mes, which from and query don't define");
+      expect(text).toContain('**Redirect Rule** (1 issue)\n• Common Causes: Rule missing its from or to path');
+      expect(text).toContain('• Build: `npm run build`');
+      expect(result.structuredContent).toMatchObject({
+        valid: true,
+        errors: 0,
+        warnings: 2,
+        issues: [{ ruleId: 'build-settings', line: 3, path: 'build.publsh' }, { ruleId: 'redirect-rules', line: 7 }],
+        summary: { command: 'npm run build', redirects: 1 },
+      });
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('reads netlify.toml from a directory', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'netlify-config-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'netlify.toml'), '[build]\ncommand = npm run build\n');
+        const { result, text } = await callToolText(client, 'validate-netlify-config', { path: dir });
+
+        expect(text).toContain(`Validation: ${path.join(dir, 'netlify.toml')}`);
+        expect(text).toContain('❌ line 2 - Invalid value npm - strings need quotes');
+        expect(text).toContain('**TOML Syntax** (1 issue)');
+        expect(result.structuredContent).toMatchObject({ valid: false, errors: 1, summary: null });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('needs content, a path or a site with a local checkout', async () => {
+      const { result, text } = await callToolText(client, 'validate-netlify-config', { siteId: 'site-portfolio' });
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('Pass content or path - client-portfolio has no repoPath in its project context');
+    });
+  });
+
+  describe('test-redirects', () => {
+    const redirects = [
+      '/calendario/:mes  /calendar/:mes  301',
+      '/loja  /shop/pt  302  Country=AO',
+      '/*  /index.html  200',
+      '/calendario/marco  /calendar/march  301',
+    ].join('\n');
+
+    it('reports which rule fires for each URL', async () => {
+      const { result, text } = await callToolText(client, 'test-redirects', {
+        urls: ['/calendario/janeiro?ref=news', '/loja'],
+        country: 'AO',
+        redirects,
+        headers: '/calendar/*\n  Cache-Control: public, max-age=3600',
+      });
+
+      expect(text).toContain('**🔀 Redirect Test: 2 URLs, 4 redirect rules, 1 header rules**');
+      expect(text).toContain('Sources: _redirects (inline content), _headers (inline content)');
+      expect(text).toContain('**/calendario/janeiro?ref=news**\n↪️ 301 redirect to /calendar/janeiro?ref=news - _redirects:1 `/calendario/:mes /calendar/:mes 301`');
+      expect(text).toContain('✅ 200 rewrite, serves /index.html?ref=news - _redirects:3 `/* /index.html 200`');
+      expect(text).toContain('• Headers: Cache-Control: public, max-age=3600');
+      expect(text).toContain('**/loja**\n↪️ 302 redirect to /shop/pt - _redirects:2 `/loja /shop/pt 302 Country=AO`');
+      expect(result.structuredContent).toMatchObject({
+        mode: 'simulate',
+        redirectRules: 4,
+        results: [
+          { url: '/calendario/janeiro?ref=news', finalUrl: '/calendar/janeiro?ref=news', status: 200, hops: [{ rule: { line: 1 }, outcome: 'redirect' }, { rule: { line: 3 }, outcome: 'rewrite' }] },
+          { url: '/loja', status: 200, hops: [{ status: 302, target: '/shop/pt' }, { outcome: 'rewrite' }] },
+        ],
+        findings: [],
+      });
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('audits the rules of a directory for ones that never fire', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redirects-'));
+      try {
+        fs.mkdirSync(path.join(dir, 'public'));
+        fs.writeFileSync(path.join(dir, 'netlify.toml'), '[build]\n  publish = "public"\n\n[[redirects]]\n  from = "/home"\n  to = "/"\n');
+        fs.writeFileSync(path.join(dir, 'public', '_redirects'), redirects);
+        const { result, text } = await callToolText(client, 'test-redirects', { mode: 'audit', path: dir });
+
+        expect(text).toContain('**🔀 Redirect Audit: 5 redirect rules**');
+        expect(text).toContain(`Sources: netlify.toml (${path.join(dir, 'netlify.toml')}), _redirects (${path.join(dir, 'public', '_redirects')})`);
+        expect(text).toContain('❌ 2 rules never fire or loop, 0 redirect chains');
+        expect(text).toContain('❌ _redirects:4 `/calendario/marco /calendar/march 301` - Never fires - _redirects:1 (/calendario/:mes) matches every URL it does and comes first');
+        expect(text).toContain('❌ netlify.toml:4 `/home / 301` - Never fires - _redirects:3 (/*) matches every URL it does and comes first');
+        expect(result.structuredContent).toMatchObject({
+          mode: 'audit',
+          results: [],
+          findings: [{ kind: 'shadowed', rule: { line: 4 }, shadowedBy: { line: 1 } }, { kind: 'shadowed', rule: { file: 'netlify.toml' } }],
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('needs urls to simulate and rules to test', async () => {
+      const noUrls = await callToolText(client, 'test-redirects', { redirects });
+      expect(noUrls.result.isError).toBe(true);
+      expect(noUrls.text).toContain('Pass urls to simulate, or set mode to "audit" to look for rules that never fire');
+
+      const noRules = await callToolText(client, 'test-redirects', { mode: 'audit', siteId: 'site-portfolio' });
+      expect(noRules.result.isError).toBe(true);
+      expect(noRules.text).toContain('Pass redirects, headers, netlifyToml or path - client-portfolio has no repoPath in its project context');
+    });
+  });
+
+  describe('check-build-minutes', () => {
+    it("reports the team's usage from the account usage API", async () => {
+      const { result, text } = await callToolText(client, 'check-build-minutes', { siteId: 'site-calendar' });
+
+      expect(text).toContain('Build Minutes Status for DigitalZango');
+      expect(text).toContain('🟢 GOOD - 280 minutes remaining');
+      expect(text).toContain('Used: 20/300 minutes (7%, plan allowance)');
+      expect(text).toContain('Projected by period end: 40 minutes');
+      expect(api.requests.map(r => r.path)).toContain('/digitalzango/builds/status');
+      expect(result.structuredContent).toMatchObject({
+        status: 'good',
+        siteId: 'site-calendar',
+        usage: { account: { slug: 'digitalzango', plan: 'Starter' }, period: { daysElapsed: 15.5, daysTotal: 31 } },
+      });
+    });
+
+    it('attributes minutes to each site of the team', async () => {
+      const { text } = await callToolText(client, 'check-build-minutes', { siteId: 'client-portfolio' });
+
+      expect(text).toContain('• digitalzango-agricultural-calendar: 15 minutes (6 builds, 75%)');
+      expect(text).toContain('• 👉 client-portfolio: 1 minutes (1 builds, 5%)');
+      expect(text).toContain('• Other (deleted sites or unreported builds): 4 minutes');
+    });
+
+    it('flags a projected overage against the configured limit', async () => {
+      config.netlify.buildMinutesLimit = 35;
+
+      try {
+        const { result, text } = await callToolText(client, 'check-build-minutes', { siteId: 'site-calendar' });
+
+        expect(text).toContain('🔴 CRITICAL - 15 minutes remaining');
+        expect(text).toContain('⚠️ 5 minutes over the limit');
+        expect(result.structuredContent).toMatchObject({ status: 'critical', usage: { projectedOverage: 5 } });
+      } finally {
+        config.netlify.buildMinutesLimit = undefined;
+      }
+    });
+  });
+
+  describe('optimize-build-strategy', () => {
+    it('analyses deploys within the timeframe', async () => {
+      const { text } = await callToolText(client, 'optimize-build-strategy', { siteId: 'site-calendar', timeframe: 'week' });
+
+      expect(text).toContain('Build Strategy Analysis (week)');
+      expect(text).toContain('Deployments analyzed: 5');
+    });
+
+    it("budgets with the team's minutes and billing period", async () => {
+      const { result, text } = await callToolText(client, 'optimize-build-strategy', { siteId: 'site-calendar' });
+
+      expect(text).toContain('• Team usage: 20/300 minutes, 280 remaining until');
+      expect(text).toContain("• This site: 15 minutes (75% of the team's)");
+      expect(text).toContain('• Projected by period end: 40 minutes');
+      expect(result.structuredContent).toMatchObject({
+        siteShare: 75,
+        buildMinutes: { period: { start: '2025-07-05T00:00:00.000Z', daysElapsed: 15.5, daysTotal: 31 }, projectedMinutes: 40 },
+      });
+    });
+  });
+
+  describe('smart-retry-analysis', () => {
+    it('recommends retrying a network failure', async () => {
+      const { text } = await callToolText(client, 'smart-retry-analysis', { deploymentId: 'dep-cal-003' });
+
+      expect(text).toContain('Error Type:** Network Issue');
+      expect(text).toContain('✅ RETRY');
+      expect(text).toContain('Team minutes remaining: 280 minutes');
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+
+    it("holds off when the team's minutes run low", async () => {
+      config.netlify.buildMinutesLimit = 40;
+      try {
+        const { result, text } = await callToolText(client, 'smart-retry-analysis', { deploymentId: 'dep-cal-003' });
+
+        expect(text).toContain('Critical: Less than 30 build minutes remaining');
+        expect(result.structuredContent).toMatchObject({ retry: { recommended: false }, buildMinutes: { remaining: 20 } });
+      } finally {
+        config.netlify.buildMinutesLimit = undefined;
+      }
+    });
+
+    it('does not recommend retrying a code error found in the log', async () => {
+      const { text } = await callToolText(client, 'smart-retry-analysis', { deploymentId: 'dep-cal-008', executeRetry: true, confirm: true });
+
+      expect(text).toContain('Error Type:** TypeScript Error');
+      expect(text).toContain('❌ DO NOT RETRY');
+      expect(text).toContain('Skipped');
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+
+    it('acts on its own verdict once confirmed', async () => {
+      const { text } = await callToolText(client, 'smart-retry-analysis', { deploymentId: 'dep-cal-003', executeRetry: true, confirm: true });
+
+      expect(text).toContain('Retry started');
+      expect(mutatingRequests().map(r => r.path)).toEqual(['/deploys/dep-cal-003/retry']);
+    });
+  });
+
+  describe('trigger-build', () => {
+    it('requires confirmation', async () => {
+      const { result, text } = await callToolText(client, 'trigger-build', { siteId: 'site-calendar' });
+
+      expect(text).toContain('Confirmation Required: Trigger Build');
+      expect(result.structuredContent).toMatchObject({ action: 'Trigger Build', status: 'confirmation-required' });
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+
+    it('previews in dry-run mode even when confirmed', async () => {
+      const { text } = await callToolText(client, 'trigger-build', { siteId: 'site-calendar', dryRun: true, confirm: true });
+
+      expect(text).toContain('Dry Run: Trigger Build');
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+
+    it('triggers a build once confirmed', async () => {
+      const { text } = await callToolText(client, 'trigger-build', { siteId: 'site-calendar', clearCache: true, confirm: true });
+
+      expect(text).toContain('Build Triggered for site-calendar');
+      expect(mutatingRequests()).toEqual([
+        expect.objectContaining({ path: '/sites/site-calendar/builds', body: { clear_cache: true } })
+      ]);
+    });
+  });
+
+  describe('retry-deployment', () => {
+    it('retries once confirmed', async () => {
+      const { text } = await callToolText(client, 'retry-deployment', { deploymentId: 'dep-cal-010', confirm: true });
+
+      expect(text).toContain('Deployment Retry Started');
+      expect(mutatingRequests().map(r => r.path)).toEqual(['/deploys/dep-cal-010/retry']);
+    });
+  });
+
+  describe('cancel-deployment', () => {
+    it('cancels a running build once confirmed', async () => {
+      const { text } = await callToolText(client, 'cancel-deployment', { deploymentId: 'dep-cal-012', confirm: true });
+
+      expect(text).toContain('Deployment Cancelled');
+      expect(mutatingRequests().map(r => r.path)).toEqual(['/deploys/dep-cal-012/cancel']);
+    });
+
+    it('refuses to cancel a finished deployment', async () => {
+      const { text } = await callToolText(client, 'cancel-deployment', { deploymentId: 'dep-cal-011', confirm: true });
+
+      expect(text).toContain('cannot be cancelled');
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+  });
+
+  describe('rollback-to-deploy', () => {
+    it('publishes a previous deployment once confirmed', async () => {
+      const { text } = await callToolText(client, 'rollback-to-deploy', { deploymentId: 'dep-cal-007', confirm: true });
+
+      expect(text).toContain('Rollback Complete');
+      expect(mutatingRequests().map(r => r.path)).toEqual(['/sites/site-calendar/deploys/dep-cal-007/restore']);
+    });
+
+    it('refuses to publish a failed deployment', async () => {
+      const { text } = await callToolText(client, 'rollback-to-deploy', { deploymentId: 'dep-cal-010', confirm: true });
+
+      expect(text).toContain('only successful (ready) deployments can be published');
+      expect(mutatingRequests()).toHaveLength(0);
+    });
+  });
+
+  describe('analyze-content-performance', () => {
+    it('scores content performance for the timeframe', async () => {
+      const { text } = await callToolText(client, 'analyze-content-performance', { siteId: 'site-calendar', timeframe: 'quarter' });
+
+      expect(text).toContain('Content Performance Analysis (quarter)');
+      expect(text).toMatch(/Optimization Score: \d+\/100/);
+    });
+  });
+
+  describe('format-error-for-ai', () => {
+    it('builds a pattern-specific prompt', async () => {
+      const { text } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-003' });
+
+      expect(text).toContain('AI-Ready Error Analysis');
+      expect(text).toContain('Error Category: Network Issue');
+    });
+
+    it('includes the evidence found in the build log', async () => {
+      const { text } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-010' });
+
+      expect(text).toContain('Error Category: Dependency Conflict');
+      expect(text).toContain('• Package: react');
+      expect(text).toContain('line 4: npm ERR! Could not resolve dependency');
+    });
+
+    it('falls back to a generic prompt', async () => {
+      const { text } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-011' });
+
+      expect(text).toContain('NETLIFY DEPLOYMENT ERROR ANALYSIS');
+      expect(text).toContain('Deployment ID: dep-cal-011');
+      expect(text).toContain('- line 2: Site is live');
+    });
+  });
+
+  describe('project context', () => {
+    const noProjectContexts = config.projectContexts;
+
+    beforeEach(() => {
+      config.projectContexts = loadProjectContexts({ NETLIFY_PROJECT_CONTEXT_PATH: path.join(__dirname, '..', 'project-context.example.yaml') });
+    });
+
+    afterEach(() => {
+      config.projectContexts = noProjectContexts;
+    });
+
+    it('names the project and adds its recommendation packs to the content report', async () => {
+      const { text } = await callToolText(client, 'generate-content-optimization-report', { siteId: 'site-calendar' });
+
+      expect(text).toContain('DigitalZango Agricultural Calendar Blog & Content Analysis');
+      expect(text).toContain('Seasonal Content Trends');
+      expect(text).toContain('**YouTube, Instagram and Facebook:**');
+    });
+
+    it('describes the project in the AI prompt', async () => {
+      const { text } = await callToolText(client, 'format-error-for-ai', { deploymentId: 'dep-cal-010' });
+
+      expect(text).toContain('Project Context:\n- Project: DigitalZango Agricultural Calendar');
+      expect(text).toContain('- Audience: Farmers and gardeners in Angola');
+      expect(text).toContain('**Project Context:**\n✅ Included from project-context.example.yaml');
+    });
+
+    it('monitors the first site with a project context', async () => {
+      const { text } = await callToolText(client, 'monitor-site');
+
+      expect(text).toContain('DigitalZango Agricultural Calendar Monitoring Report');
+      expect(text).toContain('Name: digitalzango-agricultural-calendar');
+      expect(text).toContain('Status: 🔄 BUILDING');
+      expect(text).toContain("Build Minutes Used: 15 minutes (75% of the team's)");
+      expect(text).toContain('Team Minutes Remaining: 280/300 minutes');
+      expect(text).toContain('**Calendar Checks:**');
+    });
+
+    it('still answers to the deprecated monitor-digitalzango-calendar name', async () => {
+      const { tools } = await client.listTools();
+      const { text } = await callToolText(client, 'monitor-digitalzango-calendar', { siteId: 'site-portfolio' });
+
+      expect(tools.find(tool => tool.name === 'monitor-digitalzango-calendar')?.description).toMatch(/^Deprecated: use monitor-site/);
+      expect(text).toContain('Name: client-portfolio');
+    });
+
+    it('gives generic advice to sites without one', async () => {
+      const { text } = await callToolText(client, 'generate-content-optimization-report', { siteId: 'site-portfolio' });
+
+      expect(text).toContain('📝 Blog & Content Analysis');
+      expect(text).not.toMatch(/agricultural|DigitalZango/i);
+    });
+  });
+
+  it('rejects unknown tools', async () => {
+    const { result, text } = await callToolText(client, 'does-not-exist');
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('Unknown tool: does-not-exist');
+  });
+});
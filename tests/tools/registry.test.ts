@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { ResponseCache } from '../../src/netlify/cache';
+import { NetlifyNotFoundError } from '../../src/netlify/errors';
+import { SiteResolver } from '../../src/netlify/siteResolver';
+import { HistoryStore } from '../../src/utils/historyStore';
+import { createProfile, ProfileManager } from '../../src/utils/profiles';
+import { ToolRegistry, createToolRegistry, defineTool } from '../../src/tools';
+
+const echoTool = defineTool({
+  name: "echo",
+  description: "Echo a message",
+  inputSchema: z.object({
+    message: z.string().min(1).describe("Message to echo"),
+    times: z.number().int().positive().default(1).describe("Repetitions"),
+  }),
+  outputSchema: z.object({
+    echoed: z.array(z.string()),
+  }),
+  errorMessage: "Error echoing",
+  handler: async ({ message, times }) => {
+    const echoed = Array(times).fill(message);
+    return { markdown: echoed.join(' '), data: { echoed } };
+  },
+});
+
+const whoamiTool = defineTool({
+  name: "whoami",
+  description: "Report the selected profile",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    profile: z.string(),
+    buildMinutesLimit: z.number().nullable(),
+  }),
+  errorMessage: "Error reporting profile",
+  handler: async (_args, { profile }) => ({
+    markdown: profile.name,
+    data: { profile: profile.name, buildMinutesLimit: profile.buildMinutesLimit ?? null },
+  }),
+});
+
+const failingTool = defineTool({
+  name: "fail",
+  description: "Always fails",
+  inputSchema: z.object({}),
+  outputSchema: z.object({}),
+  errorMessage: "Error failing",
+  handler: async () => {
+    throw new NetlifyNotFoundError('HTTP 404: Not Found', { status: 404 });
+  },
+});
+
+describe('ToolRegistry', () => {
+  const profiles = new ProfileManager([
+    createProfile('default', 'environment', { accessToken: 'test-token' }),
+    createProfile('client-a', 'file', { accessToken: 'client-token', buildMinutesLimit: 1000 }),
+  ]);
+  const sites = new SiteResolver();
+  const history = new HistoryStore({ enabled: false, dir: '' });
+  const cache = new ResponseCache({ backend: 'off', dir: '' });
+  const registry = new ToolRegistry().register(echoTool, whoamiTool, failingTool);
+
+  it('generates JSON Schema from the zod declaration', () => {
+    const [echo] = registry.listTools();
+
+    expect(echo).toEqual({
+      name: 'echo',
+      description: 'Echo a message',
+      inputSchema: expect.objectContaining({
+        type: 'object',
+        properties: {
+          message: { type: 'string', minLength: 1, description: 'Message to echo' },
+          times: { type: 'integer', exclusiveMinimum: 0, default: 1, description: 'Repetitions' },
+          format: expect.objectContaining({ type: 'string', enum: ['markdown', 'json', 'both'], default: 'markdown' }),
+          profile: expect.objectContaining({ type: 'string' }),
+          fresh: expect.objectContaining({ type: 'boolean', default: false }),
+        },
+        required: ['message'],
+      }),
+      outputSchema: expect.objectContaining({
+        type: 'object',
+        properties: expect.objectContaining({
+          echoed: { type: 'array', items: { type: 'string' } },
+          error: expect.objectContaining({ type: 'object' }),
+        }),
+        anyOf: [{ required: ['echoed'] }, { required: ['error'] }],
+      }),
+    });
+  });
+
+  it('applies defaults before calling the handler', async () => {
+    const result = await registry.callTool('echo', { message: 'hi' }, { profiles, sites, history, cache });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+    expect(result.structuredContent).toEqual({ echoed: ['hi'] });
+  });
+
+  it('renders the text content in the requested format', async () => {
+    const json = await registry.callTool('echo', { message: 'hi', times: 2, format: 'json' }, { profiles, sites, history, cache });
+    const both = await registry.callTool('echo', { message: 'hi', format: 'both' }, { profiles, sites, history, cache });
+
+    expect(json.content).toEqual([{ type: 'text', text: JSON.stringify({ echoed: ['hi', 'hi'] }, null, 2) }]);
+    expect(json.structuredContent).toEqual({ echoed: ['hi', 'hi'] });
+    expect(both.content.map(block => (block as { text: string }).text)).toEqual(['hi', JSON.stringify({ echoed: ['hi'] }, null, 2)]);
+  });
+
+  it('rejects invalid arguments with the offending fields', async () => {
+    const result = await registry.callTool('echo', { times: 'two' }, { profiles, sites, history, cache });
+    const text = (result.content[0] as { text: string }).text;
+
+    expect(result.isError).toBe(true);
+    expect(text).toContain('Invalid arguments for echo [INVALID_ARGUMENTS]');
+    expect(text).toContain('• message: Required');
+    expect(text).toContain('• times: Expected number, received string');
+    expect(result.structuredContent).toMatchObject({
+      error: { code: 'INVALID_ARGUMENTS', issues: [{ path: 'message' }, { path: 'times' }] },
+    });
+  });
+
+  it('runs the handler with the selected profile', async () => {
+    const selected = await registry.callTool('whoami', { profile: 'client-a' }, { profiles, sites, history, cache });
+    const fallback = await registry.callTool('whoami', {}, { profiles, sites, history, cache });
+
+    expect(selected.structuredContent).toEqual({ profile: 'client-a', buildMinutesLimit: 1000 });
+    expect(fallback.structuredContent).toEqual({ profile: 'default', buildMinutesLimit: null });
+  });
+
+  it('rejects unknown profiles', async () => {
+    const result = await registry.callTool('whoami', { profile: 'client-b' }, { profiles, sites, history, cache });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('• profile: Unknown profile "client-b". Configured profiles: default, client-a');
+  });
+
+  it('turns handler errors into structured error results', async () => {
+    const result = await registry.callTool('fail', {}, { profiles, sites, history, cache });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('❌ Error failing [NOT_FOUND]');
+    expect(result.structuredContent).toMatchObject({ error: { code: 'NOT_FOUND', status: 404 } });
+  });
+
+  it('reports unknown tools', async () => {
+    const result = await registry.callTool('missing', {}, { profiles, sites, history, cache });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('Unknown tool: missing');
+  });
+
+  it('refuses duplicate tool names', () => {
+    expect(() => new ToolRegistry().register(echoTool, echoTool)).toThrow('Tool already registered: echo');
+  });
+
+  it('registers every server tool exactly once', () => {
+    const names = createToolRegistry().names;
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toContain('hello');
+  });
+});
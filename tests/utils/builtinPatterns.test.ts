@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { normalizeBuildLog } from '../../src/netlify/logs';
+import { ErrorPatternAnalyzer } from '../../src/utils/errorAnalysis';
+import { loadErrorPatternCatalog } from '../../src/utils/patternCatalog';
+
+// Every built-in pattern has a sample log in tests/fixtures/error-logs named after its id.
+// The sample must be diagnosed as that pattern, with all the other built-in patterns loaded.
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/error-logs');
+
+const { patterns } = loadErrorPatternCatalog({}, FIXTURES_DIR);
+
+function readSampleLog(name: string) {
+  const message = fs.readFileSync(path.join(FIXTURES_DIR, `${name}.log`), 'utf8');
+  return normalizeBuildLog([{ timestamp: '', level: 'info', message, source: 'fixture' }]);
+}
+
+describe('built-in error patterns', () => {
+  it('has a sample log for every pattern', () => {
+    const samples = fs.readdirSync(FIXTURES_DIR).map(file => path.basename(file, '.log'));
+
+    expect(patterns.map(pattern => pattern.id).filter(id => !samples.includes(id))).toEqual([]);
+  });
+
+  it.each(patterns.map(pattern => [pattern.id]))('diagnoses the %s sample log', id => {
+    const diagnosis = ErrorPatternAnalyzer.diagnose(readSampleLog(id));
+
+    expect(diagnosis.candidates[0]?.pattern.id).toBe(id);
+    expect(diagnosis.candidates[0].evidence.length).toBeGreaterThan(0);
+  });
+
+  it.each(patterns.map(pattern => [pattern.id]))('documents causes and fixes for %s', id => {
+    const pattern = patterns.find(entry => entry.id === id)!;
+
+    expect(pattern.commonCauses.length).toBeGreaterThan(0);
+    expect(pattern.quickFixes.length).toBeGreaterThan(0);
+    expect(pattern.preventionTips.length).toBeGreaterThan(0);
+  });
+
+  it('does not diagnose a successful build', () => {
+    expect(ErrorPatternAnalyzer.diagnose(readSampleLog('clean-build')).candidates).toEqual([]);
+  });
+
+  it('only diagnoses a Next.js build error from the output of next', () => {
+    const log = normalizeBuildLog([
+      { timestamp: '', level: 'info', message: 'Retrying the next attempt after a network error', source: 'fixture' },
+      { timestamp: '', level: 'info', message: '> next-sitemap: ERROR writing sitemap.xml', source: 'fixture' },
+    ]);
+
+    expect(ErrorPatternAnalyzer.diagnose(log).candidates.map(candidate => candidate.pattern.id)).not.toContain('nextjs-build-error');
+  });
+
+  it('extracts the failing package from a pip install', () => {
+    expect(ErrorPatternAnalyzer.diagnose(readSampleLog('python-dependency')).candidates[0].details)
+      .toMatchObject({ packageName: 'mkdocs-material' });
+  });
+});
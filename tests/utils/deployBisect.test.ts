@@ -0,0 +1,56 @@
+import { NetlifyDeployment } from '../../src/netlify/client';
+import { bisectDeploys, compareCommitsUrl } from '../../src/utils/deployBisect';
+
+const deploy = (id: string, state: string): NetlifyDeployment => ({
+  id,
+  state,
+  created_at: '2025-07-18T09:00:00Z',
+  updated_at: '2025-07-18T09:00:00Z',
+  site_id: 'site-calendar',
+  url: '',
+  deploy_url: '',
+  admin_url: '',
+});
+
+describe('bisectDeploys', () => {
+  it('finds the first failure after the last successful deploy', () => {
+    const bisection = bisectDeploys([
+      deploy('dep-5', 'error'),
+      deploy('dep-4', 'error'),
+      deploy('dep-3', 'building'),
+      deploy('dep-2', 'error'),
+      deploy('dep-1', 'ready'),
+      deploy('dep-0', 'error'),
+    ]);
+
+    expect(bisection.firstRed.id).toBe('dep-2');
+    expect(bisection.lastGreen?.id).toBe('dep-1');
+    expect(bisection.failedRun.map(d => d.id)).toEqual(['dep-5', 'dep-4', 'dep-2']);
+    expect(bisection.skipped).toBe(1);
+  });
+
+  it('reports when no successful deploy is in the history', () => {
+    const bisection = bisectDeploys([deploy('dep-2', 'error'), deploy('dep-1', 'error')]);
+
+    expect(bisection).toMatchObject({ firstRed: { id: 'dep-1' }, lastGreen: null });
+  });
+
+  it('needs a history starting at a failed deploy', () => {
+    expect(() => bisectDeploys([deploy('dep-1', 'ready')])).toThrow('starts at a failed deploy');
+  });
+});
+
+describe('compareCommitsUrl', () => {
+  it.each([
+    ['https://github.com/digitalzango/calendar/commit/abc123', 'https://github.com/digitalzango/calendar/compare/0ff1ce...abc123'],
+    ['https://gitlab.com/digitalzango/web/calendar/-/commit/abc123', 'https://gitlab.com/digitalzango/web/calendar/-/compare/0ff1ce...abc123'],
+    ['https://bitbucket.org/digitalzango/calendar/commits/abc123', 'https://bitbucket.org/digitalzango/calendar/branches/compare/abc123%0D0ff1ce'],
+  ])('builds the compare view of %s', (commitUrl, expected) => {
+    expect(compareCommitsUrl(commitUrl, '0ff1ce', 'abc123')).toBe(expected);
+  });
+
+  it('returns null for unknown hosts', () => {
+    expect(compareCommitsUrl('https://git.example.com/calendar/commit/abc123', '0ff1ce', 'abc123')).toBeNull();
+    expect(compareCommitsUrl(undefined, '0ff1ce', 'abc123')).toBeNull();
+  });
+});
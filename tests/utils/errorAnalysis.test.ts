@@ -0,0 +1,117 @@
+import { AnalyzedLogLine, ErrorPatternAnalyzer } from '../../src/utils/errorAnalysis';
+
+const info = (message: string): AnalyzedLogLine => ({ level: 'info', message });
+const error = (message: string): AnalyzedLogLine => ({ level: 'error', message });
+
+describe('ErrorPatternAnalyzer', () => {
+  describe('extractErrorBlocks', () => {
+    it('groups stack traces and npm ERR! output logged as info', () => {
+      const blocks = ErrorPatternAnalyzer.extractErrorBlocks([
+        info('$ npm run build'),
+        info('Error: Cannot find module \'gray-matter\''),
+        info('    at Module._resolveFilename (node:internal/modules/cjs/loader:1145:15)'),
+        info('    at Module._load (node:internal/modules/cjs/loader:986:27)'),
+        info('Retrying with the cache cleared'),
+        info('npm ERR! code ETARGET'),
+        info('npm ERR! notarget No matching version found for next@99.0.0.'),
+        error('Build script returned non-zero exit code: 1'),
+      ]);
+
+      expect(blocks).toEqual([
+        { startLine: 2, endLine: 4, lines: expect.arrayContaining([expect.objectContaining({ line: 3 })]) },
+        { startLine: 6, endLine: 7, lines: expect.any(Array) },
+      ]);
+    });
+
+    it("keeps the log's own line numbers", () => {
+      const [block] = ErrorPatternAnalyzer.extractErrorBlocks([{ line: 40, level: 'error', message: 'fatal: not a git repository' }]);
+
+      expect(block).toMatchObject({ startLine: 40, endLine: 40 });
+    });
+  });
+
+  describe('diagnose', () => {
+    it('ranks every matching pattern with its evidence', () => {
+      const diagnosis = ErrorPatternAnalyzer.diagnose([
+        info('Failed to fetch https://api.weather.example/forecast, using cached data'),
+        info('$ next build'),
+        error('Type error: Type \'string\' is not assignable to type \'number\'.'),
+        info('  src/components/PlantingCalendar.tsx:42:7'),
+        info('  ts(2322)'),
+        error('Build script returned non-zero exit code: 2'),
+      ]);
+
+      expect(diagnosis.candidates.map(candidate => candidate.pattern.category)).toEqual(['TypeScript Error', 'Network Issue']);
+      expect(diagnosis.candidates[0]).toMatchObject({
+        evidence: [{ line: 3 }, { line: 5, message: '  ts(2322)' }],
+        details: { file: 'src/components/PlantingCalendar.tsx', line: 42, column: 7, errorCode: 'TS2322' },
+      });
+      expect(diagnosis.candidates[0].confidence).toBeGreaterThan(diagnosis.candidates[1].confidence);
+      expect(diagnosis.exitCode).toBe(2);
+    });
+
+    it('matches messages wrapped over several lines', () => {
+      const diagnosis = ErrorPatternAnalyzer.diagnose([
+        error('Error: next build'),
+        info('  failed for /calendar/planting'),
+      ]);
+
+      expect(diagnosis.candidates[0]).toMatchObject({
+        pattern: { category: 'Next.js Build Error' },
+        evidence: [{ line: 1 }, { line: 2 }],
+      });
+    });
+
+    it('captures the package of a dependency conflict', () => {
+      const diagnosis = ErrorPatternAnalyzer.diagnose([
+        info('npm ERR! code ERESOLVE'),
+        info('npm ERR! Could not resolve dependency: npm ERR! peer dep react@"^17.0.0" from react-calendar@3.9.0'),
+      ]);
+
+      expect(diagnosis.candidates[0]).toMatchObject({
+        pattern: { category: 'Dependency Conflict' },
+        details: { packageName: 'react' },
+      });
+    });
+
+    it("uses the deployment's error message", () => {
+      const diagnosis = ErrorPatternAnalyzer.diagnose([], 'Failed to fetch remote data: network timeout');
+
+      expect(diagnosis.candidates[0]).toMatchObject({
+        pattern: { category: 'Network Issue' },
+        evidence: [{ line: null, message: 'Failed to fetch remote data: network timeout' }],
+      });
+    });
+
+    it('reports error output no pattern recognizes', () => {
+      const diagnosis = ErrorPatternAnalyzer.diagnose([error('Unexpected failure in plugin @netlify/plugin-sitemap')]);
+
+      expect(diagnosis.candidates).toEqual([]);
+      expect(diagnosis.unrecognized).toEqual([{ startLine: 1, endLine: 1, lines: [{ line: 1, message: 'Unexpected failure in plugin @netlify/plugin-sitemap' }] }]);
+    });
+  });
+
+  describe('analyzeError', () => {
+    it('returns the most likely pattern from the message and the log', () => {
+      expect(ErrorPatternAnalyzer.analyzeError('Build script returned non-zero exit code: 1', [
+        info('npm ERR! Could not resolve dependency: npm ERR! peer dep react@"^17.0.0" from react-calendar@3.9.0'),
+      ])?.category).toBe('Dependency Conflict');
+      expect(ErrorPatternAnalyzer.analyzeError('JavaScript heap out of memory', [])?.category).toBe('Memory Limit');
+      expect(ErrorPatternAnalyzer.analyzeError('Build script returned non-zero exit code: 1', [])).toBeNull();
+    });
+  });
+
+  describe('categorizeErrors', () => {
+    it('counts each error block once', () => {
+      const categorized = ErrorPatternAnalyzer.categorizeErrors([
+        error('FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory'),
+        info('    at v8::internal::Heap (node)'),
+        info('Retrying'),
+        error('Something odd happened'),
+      ]);
+
+      expect(categorized.critical.map(pattern => pattern.category)).toEqual(['Memory Limit']);
+      expect(categorized.unrecognized).toEqual(['Something odd happened']);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { NetlifyDeployment } from '../../src/netlify/client';
+import { ErrorPatternAnalyzer } from '../../src/utils/errorAnalysis';
+import { clusterFailures, describeFailure, FailedBuild, failureSignature } from '../../src/utils/failureClustering';
+
+const deploy = (id: string, state: string, createdAt: string, branch = 'main'): NetlifyDeployment => ({
+  id,
+  state,
+  created_at: createdAt,
+  updated_at: createdAt,
+  branch,
+  commit_ref: `${id}-commit`,
+  site_id: 'site-calendar',
+  url: '',
+  deploy_url: '',
+  admin_url: '',
+});
+
+const failure = (deployment: NetlifyDeployment, message: string, category = 'Network Issue'): FailedBuild => ({
+  deployment,
+  message,
+  category,
+  patternId: category === 'Network Issue' ? 'network-issue' : null,
+});
+
+describe('failureSignature', () => {
+  it.each([
+    [
+      'src/components/PlantingCalendar.tsx(42,7): error TS2322: Type mismatch',
+      'src/pages/Harvest.tsx(3,1): error TS2322: Type mismatch',
+    ],
+    [
+      'Failed to fetch https://api.weather.example/forecast?day=1: ETIMEDOUT after 30000 ms',
+      'Failed to fetch https://api.weather.example/forecast?day=9: ETIMEDOUT after 15000 ms',
+    ],
+    [
+      'Error at /opt/build/repo/src/data.js:12:5 [2025-07-18T09:00:05Z] in build 64f1a2b3c4d5',
+      'Error at /opt/build/repo/src/index.js:80:1 [2025-07-20T11:00:00Z] in build 7e8f9a0b1c2d',
+    ],
+    [
+      'npm ERR! peer react@"^17.0.0" from react-calendar@3.9.0',
+      'npm ERR! peer react@"^17.0.2" from react-calendar@3.9.1',
+    ],
+  ])('gives "%s" and "%s" the same signature', (first, second) => {
+    expect(failureSignature(first)).toBe(failureSignature(second));
+  });
+
+  it('keeps error codes and words that tell failures apart', () => {
+    expect(failureSignature('error TS2322: Type mismatch')).not.toBe(failureSignature('error TS2345: Type mismatch'));
+    expect(failureSignature('Failed to fetch https://x.example: ETIMEDOUT')).toBe('Failed to fetch <url> ETIMEDOUT');
+  });
+});
+
+describe('describeFailure', () => {
+  it('uses the evidence of the most likely cause', () => {
+    const deployment = deploy('dep-1', 'error', '2025-07-18T09:00:00Z');
+    const diagnosis = ErrorPatternAnalyzer.diagnose([
+      { level: 'info', message: '$ npm install' },
+      { level: 'error', message: 'npm ERR! code ERESOLVE' },
+    ], 'Build script returned non-zero exit code: 1');
+
+    expect(describeFailure(deployment, diagnosis)).toMatchObject({ message: 'npm ERR! code ERESOLVE', category: 'Dependency Conflict', patternId: 'dependency-conflict' });
+  });
+
+  it("falls back to the deployment's error message", () => {
+    const deployment = { ...deploy('dep-1', 'error', '2025-07-18T09:00:00Z'), error_message: 'Deploy directory "dist" does not exist' };
+
+    expect(describeFailure(deployment, ErrorPatternAnalyzer.diagnose([]))).toMatchObject({
+      message: 'Deploy directory "dist" does not exist',
+      category: 'Unrecognized Error',
+      patternId: null,
+    });
+  });
+});
+
+describe('clusterFailures', () => {
+  const history = [
+    deploy('dep-6', 'ready', '2025-07-06T00:00:00Z'),
+    deploy('dep-5', 'error', '2025-07-05T00:00:00Z'),
+    deploy('dep-4', 'error', '2025-07-04T00:00:00Z', 'feature/seeds'),
+    deploy('dep-3', 'ready', '2025-07-03T00:00:00Z'),
+    deploy('dep-2', 'error', '2025-07-02T00:00:00Z'),
+    deploy('dep-1', 'ready', '2025-07-01T00:00:00Z'),
+  ];
+
+  it('tells intermittent failures from regressions', () => {
+    const clusters = clusterFailures([
+      failure(history[1], 'Failed to fetch https://api.example/a: ETIMEDOUT'),
+      failure(history[2], 'Cannot find module ./Seeds', 'Unrecognized Error'),
+      failure(history[4], 'Failed to fetch https://api.example/b: ETIMEDOUT'),
+    ], history);
+
+    expect(clusters).toMatchObject([
+      {
+        signature: 'Failed to fetch <url> ETIMEDOUT',
+        count: 2,
+        share: 67,
+        kind: 'intermittent',
+        successesBetween: 1,
+        firstSeen: { deployId: 'dep-2', commitRef: 'dep-2-commit' },
+        lastSeen: { deployId: 'dep-5' },
+        lastSuccessBefore: { deployId: 'dep-1' },
+        fixedBy: { deployId: 'dep-6' },
+        example: 'Failed to fetch https://api.example/a: ETIMEDOUT',
+      },
+      { count: 1, kind: 'one-off', branches: ['feature/seeds'], lastSuccessBefore: null, fixedBy: null },
+    ]);
+  });
+
+  it('only counts successes on the branches a failure happened on', () => {
+    const [cluster] = clusterFailures([
+      failure(history[1], 'Cannot find module ./Seeds'),
+      failure(history[2], 'Cannot find module ./Seeds'),
+    ], history);
+
+    expect(cluster).toMatchObject({ kind: 'persistent', successesBetween: 0, branches: ['main', 'feature/seeds'] });
+  });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NetlifyDeployment } from '../../src/netlify/client';
+import { HistoryStore } from '../../src/utils/historyStore';
+
+const deploy = (id: string, state: string, createdAt: string): NetlifyDeployment => ({
+  id,
+  state,
+  created_at: createdAt,
+  updated_at: createdAt,
+  site_id: 'site-calendar',
+  url: '',
+  deploy_url: '',
+  admin_url: '',
+});
+
+const RECORDED_AT = '2025-07-20T12:00:00.000Z';
+
+describe('HistoryStore', () => {
+  let dir: string;
+  let store: HistoryStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-history-'));
+    store = new HistoryStore({ enabled: true, dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const historyFile = () => path.join(dir, 'site-calendar.jsonl');
+
+  it('reads back deploys newest first, with diagnoses and metrics', () => {
+    store.append('site-calendar', [
+      { type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-1', 'ready', '2025-07-01T00:00:00Z') },
+      { type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-2', 'error', '2025-07-02T00:00:00Z') },
+      { type: 'diagnosis', recordedAt: RECORDED_AT, deployId: 'dep-2', category: 'Network Issue', patternId: 'network-issue', message: 'ETIMEDOUT' },
+      { type: 'metrics', recordedAt: RECORDED_AT, metrics: { duration: 2, buildMinutesUsed: 3, averageBuildTime: 2, failureRate: 50 } },
+      { type: 'sync', recordedAt: RECORDED_AT, deploys: 2 },
+    ]);
+
+    const history = store.read('site-calendar');
+
+    expect(history.deploys.map(d => d.id)).toEqual(['dep-2', 'dep-1']);
+    expect(history.diagnoses.get('dep-2')).toEqual({ deployId: 'dep-2', category: 'Network Issue', patternId: 'network-issue', message: 'ETIMEDOUT' });
+    expect(history.metrics).toHaveLength(1);
+    expect(history.lastSyncAt).toBe(RECORDED_AT);
+  });
+
+  it('replaces a deploy recorded again and drops fields it does not keep', () => {
+    store.append('site-calendar', [{ type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-1', 'building', '2025-07-01T00:00:00Z') }]);
+    store.append('site-calendar', [{
+      type: 'deploy',
+      recordedAt: RECORDED_AT,
+      deploy: { ...deploy('dep-1', 'ready', '2025-07-01T00:00:00Z'), deploy_time: 90, screenshot_url: 'https://example.com/shot.png' } as NetlifyDeployment,
+    }]);
+
+    const [stored] = store.read('site-calendar').deploys;
+
+    expect(stored).toMatchObject({ id: 'dep-1', state: 'ready', deploy_time: 90 });
+    expect(stored).not.toHaveProperty('screenshot_url');
+    expect(fs.readFileSync(historyFile(), 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('picks up records appended by another process', () => {
+    store.append('site-calendar', [{ type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-1', 'ready', '2025-07-01T00:00:00Z') }]);
+    new HistoryStore({ enabled: true, dir }).append('site-calendar', [
+      { type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-2', 'ready', '2025-07-02T00:00:00Z') },
+    ]);
+
+    expect(store.read('site-calendar').deploys.map(d => d.id)).toEqual(['dep-2', 'dep-1']);
+  });
+
+  it('skips unreadable lines and waits for an unfinished last line', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const complete = JSON.stringify({ type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-1', 'ready', '2025-07-01T00:00:00Z') });
+    const partial = JSON.stringify({ type: 'deploy', recordedAt: RECORDED_AT, deploy: deploy('dep-2', 'ready', '2025-07-02T00:00:00Z') });
+    fs.writeFileSync(historyFile(), `not json\n${complete}\n${partial.slice(0, 20)}`);
+
+    try {
+      expect(store.read('site-calendar').deploys.map(d => d.id)).toEqual(['dep-1']);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Skipped 1 unreadable lines'));
+
+      fs.appendFileSync(historyFile(), `${partial.slice(20)}\n`);
+      expect(store.read('site-calendar').deploys.map(d => d.id)).toEqual(['dep-2', 'dep-1']);
+    } finally {
+      errorSpy.mockRestore();
+    }
+  });
+
+  it('starts empty for a site without history', () => {
+    expect(store.read('site-portfolio')).toEqual({ deploys: [], diagnoses: new Map(), metrics: [], lastSyncAt: null });
+  });
+});
@@ -0,0 +1,195 @@
+import { CONFIG_RULES, validateNetlifyConfig } from '../../src/utils/netlifyConfigValidator';
+
+const issuesOf = (text: string) => validateNetlifyConfig(text).issues.map(issue => [issue.severity, issue.line, issue.message]);
+
+describe('validateNetlifyConfig', () => {
+  it('accepts a complete configuration', () => {
+    const validation = validateNetlifyConfig(`
+[build]
+  base = "web"
+  command = "npm run build"
+  publish = "out"
+  [build.environment]
+    NODE_VERSION = "20"
+
+[context.production.environment]
+  SITE_URL = "https://calendar.digitalzango.com"
+
+[context.deploy-preview]
+  command = "npm run build:preview"
+
+[[redirects]]
+  from = "/blog/:year/:slug"
+  to = "/posts/:slug"
+  status = 301
+
+[[redirects]]
+  from = "/api/*"
+  to = "https://api.example.com/:splat"
+  status = 200
+  force = true
+  conditions = { Country = ["AO", "pt"], Language = ["pt"] }
+  headers = { X-From = "Netlify" }
+
+[[redirects]]
+  from = "/search"
+  to = "/results/:term"
+  query = { q = ":term" }
+
+[[headers]]
+  for = "/*"
+  [headers.values]
+    X-Frame-Options = "DENY"
+
+[[plugins]]
+  package = "@netlify/plugin-lighthouse"
+  [plugins.inputs]
+    output_path = "reports/lighthouse.html"
+
+[functions]
+  directory = "netlify/functions"
+  node_bundler = "esbuild"
+  [functions."daily-digest"]
+    schedule = "@daily"
+
+[[edge_functions]]
+  path = "/admin/*"
+  function = "auth"
+`);
+
+    expect(validation.issues).toEqual([]);
+    expect(validation.valid).toBe(true);
+    expect(validation.config?.redirects.map(rule => rule.line)).toEqual([15, 20, 28]);
+  });
+
+  it('reports TOML syntax errors with their line', () => {
+    const validation = validateNetlifyConfig('[build]\n  command = npm run build\n');
+
+    expect(validation).toMatchObject({ valid: false, config: null });
+    expect(validation.issues).toEqual([{
+      rule: CONFIG_RULES.syntax,
+      severity: 'error',
+      line: 2,
+      path: null,
+      message: 'Invalid value npm - strings need quotes',
+    }]);
+  });
+
+  it('checks build settings and context overrides', () => {
+    expect(issuesOf([
+      '[build]',
+      '  comand = "npm run build"',
+      '  publish = 42',
+      '  environment = { NODE_VERSION = 20, DEBUG = true }',
+      '[build.processing]',
+      '  skip_processing = true',
+      '[context.deploy_preview]',
+      '  command = ""',
+      '[context.staging]',
+      '  publsh = "dist"',
+      '[bulid]',
+    ].join('\n'))).toEqual([
+      ['warning', 2, 'Unknown setting comand in [build] - did you mean command?'],
+      ['error', 3, 'build.publish must be a string, not 42'],
+      ['warning', 4, 'Environment variable NODE_VERSION is set to 20 without quotes - Netlify passes it on as the string "20"'],
+      ['warning', 4, 'Environment variable DEBUG is set to true without quotes - Netlify passes it on as the string "true"'],
+      ['warning', 5, 'Post processing (asset optimization) is no longer supported by Netlify and is ignored'],
+      ['warning', 7, 'Context "deploy_preview" only applies to a branch named deploy_preview - did you mean deploy-preview?'],
+      ['warning', 8, 'The build command is empty - remove it to deploy the publish directory as it is'],
+      ['warning', 10, 'Unknown setting publsh in [context.staging] - did you mean publish?'],
+      ['warning', 11, 'Unknown setting bulid in the top level - did you mean build?'],
+    ]);
+  });
+
+  it('checks redirect rules', () => {
+    expect(issuesOf([
+      '[redirects]',
+      'from = "/a"',
+    ].join('\n'))).toEqual([
+      ['error', 1, 'redirects must be an array of tables, not a table - write [[redirects]], not [redirects]'],
+    ]);
+
+    expect(issuesOf([
+      '[[redirects]]',
+      '  from = "blog/*"',
+      '  to = "/news/:splat"',
+      '[[redirects]]',
+      '  to = "/home"',
+      '[[redirects]]',
+      '  from = "/old/*/edit"',
+      '  to = "/new/:id/:splat"',
+      '  status = "301"',
+      '[[redirects]]',
+      '  from = "/shop"',
+      '  to = "/loja"',
+      '  status = 418',
+      '  query = { page = 2 }',
+      '  conditions = { country = ["AO"], Language = "pt", Role = ["admin"] }',
+      '[[redirects]]',
+      '  from = "/intl"',
+      '  to = "/pt"',
+      '  conditions = { Country = ["Angola"] }',
+      '  headers = { X-From = "Netlify" }',
+    ].join('\n'))).toEqual([
+      ['error', 2, 'from path "blog/*" must start with / or be a full URL'],
+      ['error', 4, 'Redirect rule has no from path'],
+      ['warning', 7, 'The * in "/old/*/edit" only works as the last character of the path'],
+      ['warning', 8, "to uses :id, which from and query don't define"],
+      ['error', 9, 'redirects[2].status must be a whole number, not the string "301"'],
+      ['warning', 13, 'Status 418 is unusual for a redirect - Netlify supports 200, 301, 302, 303, 307, 308, 404, 410, 451'],
+      ['error', 14, 'Query parameter page must be a string, e.g. page = ":page"'],
+      ['warning', 15, 'Unknown condition country - did you mean Country?'],
+      ['error', 15, 'Condition Language must be a list of strings, e.g. Language = ["pt"]'],
+      ['warning', 19, 'Country conditions take two-letter ISO 3166 codes, not Angola'],
+      ['warning', 20, 'Redirect headers are only sent to the target of a proxy rewrite (status 200 to a full URL)'],
+    ]);
+  });
+
+  it('checks header rules, plugins, functions and edge functions', () => {
+    const validation = validateNetlifyConfig([
+      '[[headers]]',
+      '  for = "*.js"',
+      '  [headers.values]',
+      '    "Cache Control" = "max-age=0"',
+      '    X-Count = 3',
+      '[[headers]]',
+      '  values = { X-Frame-Options = "DENY" }',
+      '[[plugins]]',
+      '  package = "netlify-plugin-cache"',
+      '[[plugins]]',
+      '  package = "netlify-plugin-cache"',
+      '[[plugins]]',
+      '  inputs = { paths = ["node_modules"] }',
+      '[build]',
+      '  functions = "functions"',
+      '[functions]',
+      '  directory = "netlify/functions"',
+      '  node_bundler = "webpack"',
+      '  schedule = "@daily"',
+      '  [functions.digest]',
+      '    schedule = "every day"',
+      '    included_files = [1]',
+      '[[edge_functions]]',
+      '  path = "admin"',
+      '  cache = "always"',
+    ].join('\n'));
+
+    expect(validation.valid).toBe(false);
+    expect(validation.issues.map(issue => [issue.rule.id, issue.line, issue.message])).toEqual([
+      ['header-rules', 2, 'for path "*.js" must start with /'],
+      ['header-rules', 4, '"Cache Control" is not a valid header name'],
+      ['header-rules', 5, 'Header X-Count must be a string'],
+      ['header-rules', 6, 'Header rule has no for path'],
+      ['plugin-declarations', 11, 'Plugin netlify-plugin-cache is declared more than once'],
+      ['plugin-declarations', 12, 'Plugin has no package'],
+      ['functions-settings', 15, 'build.functions (functions) is ignored because [functions] sets directory = "netlify/functions"'],
+      ['functions-settings', 18, 'node_bundler "webpack" is not supported - use esbuild, zisi, none'],
+      ['functions-settings', 19, 'schedule applies to one function - put it in [functions."<function-name>"]'],
+      ['functions-settings', 21, '"every day" is not a cron expression - use five fields (e.g. "0 6 * * *") or @yearly, @annually, @monthly, @weekly, @daily, @hourly'],
+      ['functions-settings', 22, 'included_files must be a list of strings'],
+      ['edge-functions-settings', 23, 'Edge function declaration has no function'],
+      ['edge-functions-settings', 24, 'path "admin" must start with /'],
+      ['edge-functions-settings', 25, 'cache must be "manual", not "always"'],
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadErrorPatternCatalog } from '../../src/utils/patternCatalog';
+
+describe('error pattern catalog', () => {
+  let dir: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-patterns-'));
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const findPattern = (catalog: ReturnType<typeof loadErrorPatternCatalog>, id: string) =>
+    catalog.patterns.find(pattern => pattern.id === id);
+
+  describe('built-in patterns', () => {
+    it('load without warnings', () => {
+      const catalog = loadErrorPatternCatalog({}, dir);
+
+      expect(catalog.warnings).toEqual([]);
+      expect(catalog.sources).toEqual([
+        expect.objectContaining({ path: expect.stringMatching(/dependencies\.yaml$/), origin: 'builtin', version: 1, patterns: 3 }),
+        expect.objectContaining({ path: expect.stringMatching(/frameworks\.yaml$/), origin: 'builtin', version: 1, patterns: 5 }),
+        expect.objectContaining({ path: expect.stringMatching(/netlify\.yaml$/), origin: 'builtin', version: 1, patterns: 14 }),
+      ]);
+      expect(catalog.patterns.map(pattern => pattern.id)).toEqual(expect.arrayContaining([
+        'dependency-conflict', 'memory-limit', 'build-tool-missing', 'network-issue',
+        'typescript-error', 'nextjs-build-error', 'linting-error',
+      ]));
+      expect(findPattern(catalog, 'memory-limit')).toMatchObject({ severity: 'critical', source: 'builtin/netlify.yaml' });
+    });
+
+    it.each([
+      ['bash: hugo: command not found', true],
+      ['sh: 1: gatsby: not found', true],
+      ['zsh: command not found: next', true],
+      ['$ next build', false],
+      ['Skipping next step: hugo is not installed', false],
+    ])('only report a missing build tool for "%s" when it is missing', (line, expected) => {
+      const pattern = findPattern(loadErrorPatternCatalog({}, dir), 'build-tool-missing');
+
+      expect(pattern?.pattern.test(line)).toBe(expected);
+    });
+  });
+
+  describe('project pattern files', () => {
+    it('loads ./error-patterns after the built-in files', () => {
+      writeFile('error-patterns/calendar.yaml', [
+        'version: 1',
+        'patterns:',
+        '  - id: calendar-data',
+        '    pattern: "Invalid planting date"',
+        '    category: Calendar Data Error',
+        '    severity: medium',
+        '    buildTimeImpact: 1',
+        '    quickFixes: [Fix the date in content/calendar]',
+      ].join('\n'));
+
+      const catalog = loadErrorPatternCatalog({}, dir);
+
+      expect(findPattern(catalog, 'calendar-data')).toMatchObject({
+        category: 'Calendar Data Error',
+        quickFixes: ['Fix the date in content/calendar'],
+        commonCauses: [],
+        source: path.join('error-patterns', 'calendar.yaml'),
+      });
+      expect(findPattern(catalog, 'calendar-data')?.pattern.flags).toBe('i');
+      expect(catalog.sources.map(source => source.origin)).toEqual(['builtin', 'builtin', 'builtin', 'project']);
+    });
+
+    it('overrides built-in patterns field by field and can disable them', () => {
+      const file = writeFile('team.json', JSON.stringify({
+        version: 1,
+        patterns: [
+          { id: 'network-issue', severity: 'low', quickFixes: ['Retry once the weather API is back'] },
+          { id: 'linting-error', disabled: true },
+        ],
+      }));
+
+      const catalog = loadErrorPatternCatalog({ NETLIFY_ERROR_PATTERNS_PATH: file }, dir);
+
+      expect(findPattern(catalog, 'network-issue')).toMatchObject({
+        category: 'Network Issue',
+        severity: 'low',
+        quickFixes: ['Retry once the weather API is back'],
+        source: 'team.json',
+      });
+      expect(findPattern(catalog, 'linting-error')).toBeUndefined();
+    });
+
+    it('skips invalid entries with a warning', () => {
+      writeFile('error-patterns/broken.yaml', [
+        'version: 1',
+        'patterns:',
+        '  - id: unbalanced',
+        '    pattern: "npm ERR! ("',
+        '    category: Broken',
+        '    severity: high',
+        '    buildTimeImpact: 1',
+        '  - id: no-severity',
+        '    pattern: oops',
+        '    category: Broken',
+        '    buildTimeImpact: 1',
+        '  - id: stateful',
+        '    pattern: oops',
+        '    flags: g',
+        '    category: Broken',
+        '    severity: low',
+        '    buildTimeImpact: 1',
+        '  - id: fine',
+        '    pattern: fine',
+        '    category: Fine',
+        '    severity: low',
+        '    buildTimeImpact: 0',
+      ].join('\n'));
+
+      const catalog = loadErrorPatternCatalog({}, dir);
+
+      const ids = catalog.patterns.map(pattern => pattern.id);
+      expect(ids).toContain('fine');
+      expect(ids).not.toContain('unbalanced');
+      expect(catalog.warnings).toHaveLength(1);
+      expect(catalog.warnings[0]).toContain('patterns[0] (unbalanced): invalid regular expression');
+      expect(catalog.warnings[0]).toContain('patterns[1] (no-severity): severity: Required');
+      expect(catalog.warnings[0]).toContain('patterns[2] (stateful): flags: Only the i, m, s and u flags are supported');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid entries in error pattern file'));
+    });
+
+    it('rejects files of another version', () => {
+      writeFile('error-patterns/future.yaml', 'version: 2\npatterns: []\n');
+
+      const catalog = loadErrorPatternCatalog({}, dir);
+
+      expect(catalog.sources.every(source => source.origin === 'builtin')).toBe(true);
+      expect(catalog.warnings[0]).toContain('version: Unsupported pattern file version, expected 1');
+    });
+
+    it('warns about a missing NETLIFY_ERROR_PATTERNS_PATH entry', () => {
+      const catalog = loadErrorPatternCatalog({ NETLIFY_ERROR_PATTERNS_PATH: 'missing.yaml' }, dir);
+
+      expect(catalog.warnings).toEqual([expect.stringContaining('missing.yaml does not exist')]);
+    });
+  });
+
+  it('fails on an invalid built-in pattern file', () => {
+    const builtinDir = path.join(dir, 'builtin');
+    writeFile('builtin/netlify.yaml', 'version: 1\npatterns:\n  - id: broken\n    pattern: "("\n    category: Broken\n    severity: low\n    buildTimeImpact: 1\n');
+
+    expect(() => loadErrorPatternCatalog({}, dir, builtinDir)).toThrow('Invalid built-in error pattern file');
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadProfileConfig, ProfileManager } from '../../src/utils/profiles';
+
+describe('profiles', () => {
+  let dir: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'netlify-profiles-'));
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeProfiles = (content: unknown) =>
+    fs.writeFileSync(path.join(dir, 'netlify-profiles.json'), JSON.stringify(content));
+
+  describe('loadProfileConfig', () => {
+    it('reads NETLIFY_PROFILE_<NAME>_* variables', () => {
+      const { profiles } = loadProfileConfig({
+        NETLIFY_PROFILE_CLIENT_A_ACCESS_TOKEN: 'token-a',
+        NETLIFY_PROFILE_CLIENT_A_SITE_ID: 'site-a',
+        NETLIFY_PROFILE_CLIENT_A_BUILD_MINUTES_LIMIT: '25000',
+        NETLIFY_PROFILE_CLIENT_A_SITE_ALIASES: 'shop=client-a-shop, blog=client-a-blog',
+      }, dir);
+
+      expect(profiles).toEqual([{
+        name: 'client-a',
+        accessToken: 'token-a',
+        apiUrl: 'https://api.netlify.com/api/v1',
+        siteId: 'site-a',
+        accountId: undefined,
+        siteAliases: { shop: 'client-a-shop', blog: 'client-a-blog' },
+        buildMinutesLimit: 25000,
+        source: 'environment',
+      }]);
+    });
+
+    it('reads the profiles file and lets the environment override it', () => {
+      writeProfiles({
+        defaultProfile: 'agency',
+        profiles: {
+          agency: { accessTokenEnv: 'AGENCY_TOKEN', siteId: 'site-agency', accountId: 'acct-agency' },
+          'client-b': { accessToken: 'token-b', buildMinutesLimit: 1000 },
+        },
+      });
+
+      const config = loadProfileConfig({ AGENCY_TOKEN: 'token-agency', NETLIFY_PROFILE_CLIENT_B_SITE_ID: 'site-b' }, dir);
+
+      expect(config.defaultProfile).toBe('agency');
+      expect(config.profiles).toEqual([
+        expect.objectContaining({ name: 'agency', accessToken: 'token-agency', siteId: 'site-agency', accountId: 'acct-agency', source: 'file' }),
+        expect.objectContaining({ name: 'client-b', accessToken: 'token-b', siteId: 'site-b', buildMinutesLimit: 1000, source: 'file' }),
+      ]);
+    });
+
+    it('ignores an invalid profiles file with a warning', () => {
+      writeProfiles({ profiles: { Agency: { token: 'x' } } });
+
+      expect(loadProfileConfig({}, dir).profiles).toEqual([]);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid profiles file'));
+    });
+
+    it('prefers NETLIFY_DEFAULT_PROFILE over the file', () => {
+      writeProfiles({ defaultProfile: 'agency', profiles: { agency: { accessToken: 'token' } } });
+
+      expect(loadProfileConfig({ NETLIFY_DEFAULT_PROFILE: 'client-a' }, dir).defaultProfile).toBe('client-a');
+    });
+  });
+
+  describe('ProfileManager.fromConfig', () => {
+    const netlify = { accessToken: 'token-default', apiUrl: 'http://127.0.0.1:9/api/v1', siteId: '', requestTimeoutMs: 1000, maxRetries: 0 };
+
+    it('adds the NETLIFY_* settings as the default profile', () => {
+      const profiles = ProfileManager.fromConfig(netlify, loadProfileConfig({ NETLIFY_PROFILE_CLIENT_A_ACCESS_TOKEN: 'token-a' }, dir));
+
+      expect(profiles.names).toEqual(['default', 'client-a']);
+      expect(profiles.get()).toMatchObject({ name: 'default', accessToken: 'token-default', siteId: undefined });
+    });
+
+    it('lets a named profile replace the default profile', () => {
+      const profiles = ProfileManager.fromConfig(netlify, loadProfileConfig({ NETLIFY_PROFILE_DEFAULT_ACCESS_TOKEN: 'token-override' }, dir));
+
+      expect(profiles.names).toEqual(['default']);
+      expect(profiles.get().accessToken).toBe('token-override');
+    });
+
+    it('reports unknown profiles', () => {
+      const profiles = ProfileManager.fromConfig(netlify, { profiles: [] });
+
+      expect(() => profiles.get('client-a')).toThrow('Unknown profile "client-a". Configured profiles: default');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NetlifySite } from '../../src/netlify/client';
+import {
+  GENERIC_PROJECT_CONTEXT,
+  describeProjectContext,
+  findProjectContext,
+  formatRecommendationPacks,
+  loadProjectContexts,
+  projectContextSites
+} from '../../src/utils/projectContext';
+
+const site = (name: string, customDomain: string | null = null) => ({
+  id: `site-${name}`,
+  name,
+  url: `https://${customDomain || `${name}.netlify.app`}`,
+  custom_domain: customDomain,
+} as NetlifySite);
+
+describe('project contexts', () => {
+  let dir: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-contexts-'));
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  it('loads the example context', () => {
+    const { contexts, warnings } = loadProjectContexts({ NETLIFY_PROJECT_CONTEXT_PATH: path.join(__dirname, '..', '..', 'project-context.example.yaml') }, dir);
+
+    expect(warnings).toEqual([]);
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0]).toMatchObject({ sites: ['digitalzango-agricultural-calendar'], locale: 'pt-AO' });
+    expect(contexts[0].recommendationPacks.map(pack => pack.id)).toContain('social-channels');
+  });
+
+  it('applies a file to the site it is named after, and default.yaml to every other site', () => {
+    writeFile('project-contexts/calendar.digitalzango.com.yaml', 'version: 1\nname: Calendar\nframework: Next.js');
+    writeFile('project-contexts/default.json', JSON.stringify({ version: 1, audience: 'Agency clients' }));
+
+    const { contexts, warnings } = loadProjectContexts({}, dir);
+
+    expect(warnings).toEqual([]);
+    expect(projectContextSites(contexts)).toEqual(['calendar.digitalzango.com']);
+    expect(findProjectContext(contexts, site('digitalzango-agricultural-calendar', 'calendar.digitalzango.com')).name).toBe('Calendar');
+    expect(findProjectContext(contexts, site('client-portfolio')).audience).toBe('Agency clients');
+    expect(findProjectContext([], site('client-portfolio'))).toBe(GENERIC_PROJECT_CONTEXT);
+  });
+
+  it('reads NETLIFY_PROJECT_CONTEXT_PATH instead of ./project-contexts and skips invalid files', () => {
+    writeFile('project-contexts/default.yaml', 'version: 1\nname: Default directory');
+    writeFile('team/portfolio.yaml', 'version: 1\nsites: [client-portfolio]\nname: Portfolio');
+    writeFile('team/broken.yaml', 'version: 2\nframework: Astro');
+    writeFile('team/packs.yaml', 'version: 1\nrecommendationPacks:\n  - id: Tips\n    title: Tips\n    topics: [seo]\n    recommendations: []');
+
+    const { contexts, warnings } = loadProjectContexts({ NETLIFY_PROJECT_CONTEXT_PATH: ['team', 'missing.yaml'].join(path.delimiter) }, dir);
+
+    expect(contexts.map(context => context.name)).toEqual(['Portfolio']);
+    expect(warnings).toEqual([
+      `NETLIFY_PROJECT_CONTEXT_PATH entry ${path.join(dir, 'missing.yaml')} does not exist`,
+      expect.stringContaining('version: Unsupported project context file version, expected 1'),
+      expect.stringMatching(/recommendationPacks\.0\.id: Pack ids may only contain lowercase letters[\s\S]*recommendationPacks\.0\.topics\.0/),
+    ]);
+  });
+
+  it('resolves repoPath against the directory of the context file', () => {
+    writeFile('project-contexts/client-portfolio.yaml', 'version: 1\nrepoPath: ../../checkouts/portfolio');
+
+    const { contexts } = loadProjectContexts({}, dir);
+
+    expect(contexts[0].repoPath).toBe(path.join(path.dirname(dir), 'checkouts', 'portfolio'));
+    expect(GENERIC_PROJECT_CONTEXT.repoPath).toBeNull();
+  });
+
+  it('lets a later file replace an earlier one for the same site', () => {
+    writeFile('a.yaml', 'version: 1\nsites: [Client-Portfolio]\nname: First');
+    writeFile('b.yaml', 'version: 1\nsites: [client-portfolio]\nname: Second');
+
+    const { contexts, warnings } = loadProjectContexts({ NETLIFY_PROJECT_CONTEXT_PATH: dir }, dir);
+
+    expect(findProjectContext(contexts, site('client-portfolio')).name).toBe('Second');
+    expect(warnings).toEqual(['Project context b.yaml replaces a.yaml for site "client-portfolio"']);
+  });
+
+  it('formats the packs of a report and the project description', () => {
+    const context = {
+      ...GENERIC_PROJECT_CONTEXT,
+      name: 'Calendar',
+      contentTypes: ['Blog', 'Calendar'],
+      recommendationPacks: [
+        { id: 'seasonal', title: 'Seasonal Tips', topics: ['content' as const, 'retry' as const], recommendations: ['Plan ahead', 'Batch updates'] },
+        { id: 'social', title: 'Social', topics: ['social-media' as const], recommendations: ['Add Open Graph tags'] },
+      ],
+    };
+
+    expect(formatRecommendationPacks(context, 'content')).toBe('**Seasonal Tips:**\n• Plan ahead\n• Batch updates');
+    expect(formatRecommendationPacks(context, 'monitoring')).toBe('');
+    expect(describeProjectContext(context)).toBe('- Project: Calendar\n- Content Types: Blog, Calendar');
+    expect(describeProjectContext(GENERIC_PROJECT_CONTEXT)).toBe('');
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  checkPromptTemplate,
+  loadPromptTemplates,
+  renderPromptTemplate,
+  templateVariables
+} from '../../src/utils/promptTemplates';
+
+describe('prompt templates', () => {
+  let dir: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const template = (text: string) => ({ name: 'test', text, source: 'test.md' });
+
+  it('loads the built-in templates without warnings', () => {
+    const { templates, warnings } = loadPromptTemplates({}, dir);
+
+    expect(warnings).toEqual([]);
+    expect(Array.from(templates.keys())).toEqual(['plan-build-minute-budget', 'review-content-release', 'triage-failed-deploy']);
+    expect(templates.get('triage-failed-deploy')?.source).toBe('builtin/triage-failed-deploy.md');
+  });
+
+  it('replaces built-in templates with the project templates of the same name', () => {
+    writeFile('prompt-templates/triage-failed-deploy.md', 'Triage {{deployId}} for the platform team');
+
+    const { templates, warnings } = loadPromptTemplates({}, dir);
+
+    expect(warnings).toEqual([]);
+    expect(templates.get('triage-failed-deploy')).toEqual({
+      name: 'triage-failed-deploy',
+      text: 'Triage {{deployId}} for the platform team',
+      source: path.join('prompt-templates', 'triage-failed-deploy.md'),
+    });
+  });
+
+  it('reads the directories in NETLIFY_PROMPT_TEMPLATES_PATH instead of ./prompt-templates', () => {
+    writeFile('prompt-templates/triage-failed-deploy.md', 'default directory');
+    writeFile('team/prompts/review-content-release.md', 'Review {{deployId}}');
+
+    const { templates, warnings } = loadPromptTemplates({ NETLIFY_PROMPT_TEMPLATES_PATH: ['team/prompts', 'missing'].join(path.delimiter) }, dir);
+
+    expect(templates.get('review-content-release')?.text).toBe('Review {{deployId}}');
+    expect(templates.get('triage-failed-deploy')?.source).toBe('builtin/triage-failed-deploy.md');
+    expect(warnings).toEqual([`NETLIFY_PROMPT_TEMPLATES_PATH entry ${path.join(dir, 'missing')} is not a directory`]);
+  });
+
+  it('skips project templates that are broken or name no prompt', () => {
+    writeFile('prompt-templates/triage-failed-deploy.md', '{{#errorCategory}}never closed');
+    writeFile('prompt-templates/deploy-party.md', 'Celebrate {{deployId}}');
+
+    const { templates, warnings } = loadPromptTemplates({}, dir);
+
+    expect(templates.get('triage-failed-deploy')?.source).toBe('builtin/triage-failed-deploy.md');
+    expect(templates.has('deploy-party')).toBe(false);
+    expect(warnings).toEqual([
+      expect.stringContaining('deploy-party.md: there is no prompt named "deploy-party"'),
+      expect.stringContaining('triage-failed-deploy.md: {{#errorCategory}} has no matching closing tag'),
+    ]);
+  });
+
+  it('skips project templates using variables their prompt does not provide', () => {
+    writeFile('prompt-templates/triage-failed-deploy.md', 'Triage {{deployId}} of {{siteNmae}}{{#errorCategory}} ({{errorCategory}}){{/errorCategory}}');
+    writeFile('prompt-templates/review-content-release.md', 'Review {{deployId}} of {{siteName}}');
+
+    const { templates, warnings } = loadPromptTemplates({}, dir);
+
+    expect(templates.get('triage-failed-deploy')?.source).toBe('builtin/triage-failed-deploy.md');
+    expect(templates.get('review-content-release')?.source).toBe(path.join('prompt-templates', 'review-content-release.md'));
+    expect(warnings).toEqual([
+      expect.stringMatching(/triage-failed-deploy\.md: unknown variables siteNmae - available: siteName, siteUrl, /),
+    ]);
+  });
+
+  it('finds unbalanced section tags', () => {
+    expect(checkPromptTemplate('{{#a}}x{{/a}} {{^b}}y{{/b}}')).toEqual([]);
+    expect(checkPromptTemplate('{{#a}}x{{/b}}')).toEqual(['{{#a}} has no matching closing tag', '{{/b}} has no matching opening tag']);
+    expect(checkPromptTemplate('{{#a}}{{c}}{{/a}}', ['a', 'b'])).toEqual(['unknown variables c - available: a, b']);
+  });
+
+  it('lists the variables a template uses', () => {
+    expect(templateVariables('{{#a}}{{b}}{{/a}} {{ c }} {{b}}')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('renders values and sections', () => {
+    const text = 'Deploy {{deployId}}\n\n{{#error}}\nError: {{error}}\n{{/error}}\n{{^error}}\nNo error\n{{/error}}\n\nDone';
+
+    expect(renderPromptTemplate(template(text), { deployId: 'dep-1', error: 'Build failed' })).toBe('Deploy dep-1\n\nError: Build failed\n\nDone');
+    expect(renderPromptTemplate(template(text), { deployId: 'dep-1', error: null })).toBe('Deploy dep-1\n\nNo error\n\nDone');
+    expect(renderPromptTemplate(template('{{#count}}{{count}} builds{{/count}}'), { count: 0 })).toBe('0 builds');
+  });
+
+  it('does not expand placeholders inside values', () => {
+    expect(renderPromptTemplate(template('Log: {{log}}'), { log: 'echo {{deployId}} $&' })).toBe('Log: echo {{deployId}} $&');
+  });
+
+  it('rejects templates using unknown variables', () => {
+    expect(() => renderPromptTemplate(template('{{deployID}}'), { deployId: 'dep-1' }))
+      .toThrow('Prompt template test.md uses unknown variables: deployID - available: deployId');
+  });
+});
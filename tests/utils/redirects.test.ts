@@ -0,0 +1,178 @@
+import {
+  auditRedirectRules,
+  describeRedirectRule,
+  loadRedirectRules,
+  matchHeaders,
+  parseHeadersFile,
+  parseRedirectsFile,
+  simulateRequest
+} from '../../src/utils/redirects';
+
+const CALENDAR_REDIRECTS = `
+# Seasonal pages moved to English URLs
+/calendario/:mes          /calendar/:mes         301
+/colheita/*               /harvest/:splat        302!
+/search  q=:term          /results/:term         200
+/loja                     /shop/pt               302   Country=AO,MZ Language=pt
+/api/*                    https://api.example.com/:splat  200
+/old-blog                 /blog
+/admin/*                  /admin/:splat          200!  Role=admin
+`;
+
+const targetOf = (redirects: string, url: string, options: { country?: string; language?: string; existingPaths?: string[] } = {}) => {
+  const { hops } = simulateRequest(loadRedirectRules({ redirects }), { url, ...options });
+  return hops.map(hop => [hop.rule?.line ?? null, hop.status, hop.outcome, hop.target]);
+};
+
+describe('parseRedirectsFile', () => {
+  it('reads query parameters, status, force and conditions', () => {
+    const { rules, problems } = parseRedirectsFile(CALENDAR_REDIRECTS);
+
+    expect(problems).toEqual([]);
+    expect(rules).toHaveLength(7);
+    expect(rules[2]).toEqual({ file: '_redirects', line: 5, from: '/search', to: '/results/:term', status: 200, force: false, query: { q: ':term' }, conditions: {} });
+    expect(rules[1]).toMatchObject({ status: 302, force: true });
+    expect(rules[3].conditions).toEqual({ Country: ['AO', 'MZ'], Language: ['pt'] });
+    expect(rules[5]).toMatchObject({ from: '/old-blog', to: '/blog', status: 301, force: false });
+    expect(describeRedirectRule(rules[3])).toBe('/loja /shop/pt 302 Country=AO,MZ Language=pt');
+  });
+
+  it('reports lines it cannot read', () => {
+    expect(parseRedirectsFile('/old\n/news /blog 301 Contry=AO').problems).toEqual([
+      { file: '_redirects', line: 1, message: 'Rule for /old has no target' },
+      { file: '_redirects', line: 2, message: 'Unexpected "Contry=AO" - expected a status code or a Country/Language/Role/Cookie condition' },
+    ]);
+  });
+});
+
+describe('parseHeadersFile', () => {
+  it('attaches indented headers to the path above', () => {
+    const { rules, problems } = parseHeadersFile([
+      '/*',
+      '  X-Frame-Options: DENY',
+      '  Link: </style.css>; rel=preload',
+      '  link: </app.js>; rel=preload',
+      '/calendar/*',
+      '  Cache-Control: public, max-age=3600',
+      'Cache-Control: no-cache',
+      '  broken header',
+    ].join('\n'));
+
+    expect(rules.map(rule => [rule.line, rule.for, rule.values])).toEqual([
+      [1, '/*', { 'X-Frame-Options': 'DENY', Link: '</style.css>; rel=preload, </app.js>; rel=preload' }],
+      [5, '/calendar/*', { 'Cache-Control': 'public, max-age=3600' }],
+      [7, 'Cache-Control: no-cache', {}],
+    ]);
+    expect(problems.map(problem => [problem.line, problem.message])).toEqual([
+      [7, 'Path Cache-Control: no-cache must start with / - indent header lines to attach them to the path above'],
+      [8, 'Expected "Header-Name: value", not "broken header"'],
+    ]);
+  });
+});
+
+describe('simulateRequest', () => {
+  it('fills in placeholders, splats and query parameters', () => {
+    expect(targetOf(CALENDAR_REDIRECTS, '/calendario/janeiro')).toEqual([[3, 301, 'redirect', '/calendar/janeiro'], [null, 200, 'none', '/calendar/janeiro']]);
+    expect(targetOf(CALENDAR_REDIRECTS, '/colheita/2025/milho/')).toEqual([[4, 302, 'redirect', '/harvest/2025/milho'], [null, 200, 'none', '/harvest/2025/milho']]);
+    expect(targetOf(CALENDAR_REDIRECTS, '/search?q=milho')).toEqual([[5, 200, 'rewrite', '/results/milho']]);
+    expect(targetOf(CALENDAR_REDIRECTS, '/api/v1/crops?region=huambo')).toEqual([[7, 200, 'proxy', 'https://api.example.com/v1/crops?region=huambo']]);
+  });
+
+  it('passes the query string on, unless the rule matches on it', () => {
+    expect(targetOf(CALENDAR_REDIRECTS, '/old-blog?utm_source=news')).toEqual([[8, 301, 'redirect', '/blog?utm_source=news'], [null, 200, 'none', '/blog?utm_source=news']]);
+  });
+
+  it('explains the rules that matched the path but did not fire', () => {
+    const ruleSet = loadRedirectRules({ redirects: CALENDAR_REDIRECTS });
+
+    expect(simulateRequest(ruleSet, { url: '/search' }).hops[0].skipped.map(({ rule, reason }) => [rule.line, reason])).toEqual([[5, 'needs the query parameter q']]);
+    expect(simulateRequest(ruleSet, { url: '/loja', country: 'BR', language: 'pt' }).hops[0].skipped.map(({ reason }) => reason)).toEqual(["Country=AO,MZ doesn't include BR"]);
+    expect(simulateRequest(ruleSet, { url: '/loja' }).hops[0].skipped.map(({ reason }) => reason)).toEqual(['Country=AO,MZ needs a country']);
+    expect(simulateRequest(ruleSet, { url: '/admin/users' }).hops[0].skipped.map(({ reason }) => reason)).toEqual([
+      "Role conditions depend on the visitor's login and cookies, which can't be simulated",
+    ]);
+    expect(targetOf(CALENDAR_REDIRECTS, '/loja', { country: 'ao', language: 'pt-AO' })[0]).toEqual([6, 302, 'redirect', '/shop/pt']);
+  });
+
+  it('serves existing files unless the rule is forced', () => {
+    expect(targetOf(CALENDAR_REDIRECTS, '/calendario/janeiro', { existingPaths: ['/calendario/janeiro/index.html'] })).toEqual([[3, 200, 'file', '/calendario/janeiro']]);
+    expect(targetOf(CALENDAR_REDIRECTS, '/colheita/milho', { existingPaths: ['/colheita/milho.html'] })[0]).toEqual([4, 302, 'redirect', '/harvest/milho']);
+  });
+
+  it('follows redirects within the site and stops at a loop', () => {
+    const ruleSet = loadRedirectRules({ redirects: '/a /b 301\n/b /c 302\n/c /a 301\n/d https://example.com/d 301' });
+
+    expect(simulateRequest(ruleSet, { url: '/a' })).toMatchObject({ loop: true, hops: [{ target: '/b' }, { target: '/c' }, { target: '/a' }] });
+    expect(simulateRequest(ruleSet, { url: '/d' })).toMatchObject({ loop: false, hops: [{ target: 'https://example.com/d' }] });
+  });
+
+  it('only applies rules for a full URL to requests for that host', () => {
+    const ruleSet = loadRedirectRules({ redirects: 'https://old.example.com/* https://calendar.digitalzango.com/:splat 301!' });
+
+    expect(simulateRequest(ruleSet, { url: 'https://old.example.com/calendar?month=1' }).hops[0].target).toBe('https://calendar.digitalzango.com/calendar?month=1');
+    expect(simulateRequest(ruleSet, { url: '/calendar' }).hops[0].outcome).toBe('none');
+  });
+
+  it('combines _redirects with netlify.toml and adds the headers of the final URL', () => {
+    const ruleSet = loadRedirectRules({
+      redirects: '/calendario /calendar 301',
+      headers: '/calendar\n  Cache-Control: max-age=60',
+      netlifyToml: '[[redirects]]\n  from = "/calendario"\n  to = "/ignored"\n[[headers]]\n  for = "/*"\n  [headers.values]\n    X-Frame-Options = "DENY"',
+    });
+
+    expect(ruleSet.redirects.map(rule => [rule.file, rule.line])).toEqual([['_redirects', 1], ['netlify.toml', 1]]);
+    expect(simulateRequest(ruleSet, { url: '/calendario' })).toMatchObject({
+      hops: [{ rule: { file: '_redirects' }, target: '/calendar' }, { outcome: 'none' }],
+      headers: { 'Cache-Control': 'max-age=60', 'X-Frame-Options': 'DENY' },
+    });
+    expect(matchHeaders(ruleSet.headers, '/calendario')).toEqual({ 'X-Frame-Options': 'DENY' });
+  });
+
+  it('reports a netlify.toml that cannot be parsed', () => {
+    expect(loadRedirectRules({ netlifyToml: '[[redirects]]\nfrom = /a' }).problems).toEqual([
+      { file: 'netlify.toml', line: 2, message: 'netlify.toml cannot be parsed: Invalid value /a - strings need quotes' },
+    ]);
+  });
+});
+
+describe('auditRedirectRules', () => {
+  it('flags rules an earlier rule shadows', () => {
+    const findings = auditRedirectRules(loadRedirectRules({
+      redirects: [
+        '/calendario/:mes      /calendar/:mes   301',
+        '/calendario/marco     /calendar/march  301',
+        '/calendario/:mes      /calendar/:mes   301',
+        '/loja  /shop/pt  302  Country=AO',
+        '/loja  /shop/ao  302  Country=AO Language=pt',
+        '/loja  /shop/mz  302  Country=MZ',
+        '/search  q=:term  /results/:term  200',
+        '/search  q=milho  page=:page  /crops/milho  200',
+        '/*  /index.html  200',
+        '/harvest/*  /colheita/:splat  301',
+      ].join('\n'),
+    }));
+
+    expect(findings.map(finding => [finding.kind, finding.rule.line, finding.shadowedBy?.line, finding.message])).toEqual([
+      ['shadowed', 2, 1, 'Never fires - _redirects:1 (/calendario/:mes) matches every URL it does and comes first'],
+      ['duplicate', 3, 1, 'Never fires - it repeats _redirects:1, which comes first'],
+      ['shadowed', 5, 4, 'Never fires - _redirects:4 (/loja) matches every URL it does and comes first'],
+      ['shadowed', 8, 7, 'Never fires - _redirects:7 (/search) matches every URL it does and comes first'],
+      ['shadowed', 10, 9, 'Never fires - _redirects:9 (/*) matches every URL it does and comes first'],
+    ]);
+  });
+
+  it('flags redirect loops and chains', () => {
+    const findings = auditRedirectRules(loadRedirectRules({
+      redirects: '/home / 301\n/ /home 301\n/2024 /2025 301\n/2025 /calendar 301\n/x/ /x 301',
+      netlifyToml: '[[redirects]]\n  from = "/calendar"\n  to = "/calendario"\n  status = 302',
+    }));
+
+    expect(findings.map(finding => [finding.severity, finding.kind, finding.rule.file, finding.rule.line, finding.message])).toEqual([
+      ['error', 'loop', '_redirects', 1, 'Redirect loop: /home → / → /home'],
+      ['error', 'loop', '_redirects', 2, 'Redirect loop: / → /home → /'],
+      ['warning', 'chain', '_redirects', 3, 'Redirect chain: /2024 → /2025 → /calendar → /calendario - redirect straight to the last URL'],
+      ['warning', 'chain', '_redirects', 4, 'Redirect chain: /2025 → /calendar → /calendario - redirect straight to the last URL'],
+      ['error', 'loop', '_redirects', 5, 'Redirect loop: /x/ → /x'],
+    ]);
+  });
+});
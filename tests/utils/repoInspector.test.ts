@@ -0,0 +1,196 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BuildDiagnosis, ErrorPattern } from '../../src/utils/errorAnalysis';
+import { formatRepoFindings, inspectRepository, repoFindingsForDiagnosis } from '../../src/utils/repoInspector';
+
+const diagnosisOf = (id: string, details: BuildDiagnosis['candidates'][number]['details'] = {}): BuildDiagnosis => ({
+  candidates: [{ pattern: { id } as ErrorPattern, score: 10, confidence: 100, evidence: [], details }],
+  unrecognized: [],
+  exitCode: 1,
+});
+
+describe('inspectRepository', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string | object) => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  };
+
+  const writePackage = (manifest: object, lockfile = 'package-lock.json') => {
+    writeFile('package.json', manifest);
+    if (lockfile) writeFile(lockfile, '{}');
+  };
+
+  it('reads netlify.toml, package.json, lockfiles and .nvmrc', () => {
+    writeFile('netlify.toml', '[build]\ncommand = "npm run build"\npublish = "out"');
+    writePackage({ scripts: { build: 'next build' }, engines: { node: '>=18' }, dependencies: { next: '14.2.0' }, devDependencies: { typescript: '^5.4.0' } });
+    writeFile('.nvmrc', 'v20.11.0\n');
+
+    const inspection = inspectRepository(dir);
+
+    expect(inspection).toMatchObject({
+      repoPath: dir,
+      netlifyToml: { file: 'netlify.toml', config: { build: { command: 'npm run build', publish: 'out' } } },
+      packageJson: { file: 'package.json', scripts: { build: 'next build' }, dependencies: { next: '14.2.0', typescript: '^5.4.0' } },
+      lockfiles: ['package-lock.json'],
+      nodeVersionFile: { file: '.nvmrc', version: 'v20.11.0' },
+      findings: [],
+    });
+  });
+
+  it("flags a build command that doesn't match scripts.build", () => {
+    writeFile('netlify.toml', '[build]\n  publish = "out"\n  command = "next build"');
+    writePackage({ scripts: { build: 'next build && next-sitemap' } }, 'yarn.lock');
+
+    const { findings } = inspectRepository(dir);
+
+    expect(findings).toEqual([{
+      severity: 'warning',
+      file: 'netlify.toml',
+      line: 3,
+      message: "Your build command `next build` doesn't match scripts.build (`next build && next-sitemap`), so Netlify builds differently than `yarn build` does locally",
+      fix: 'Set build.command to `yarn build`',
+    }]);
+  });
+
+  it('flags a build command running a script package.json does not define', () => {
+    writeFile('netlify.toml', '[build]\ncommand = "npm ci && npm run build:prod"');
+    writePackage({ scripts: { build: 'astro build' } });
+
+    const { findings } = inspectRepository(dir);
+
+    expect(findings).toEqual([expect.objectContaining({
+      severity: 'error',
+      line: 2,
+      message: "Your build command `npm ci && npm run build:prod` runs scripts.build:prod, which package.json doesn't define (scripts.build is `astro build`)",
+      fix: 'Set build.command to `npm run build`',
+    })]);
+  });
+
+  it('looks for package.json in the base directory', () => {
+    writeFile('netlify.toml', '[build]\nbase = "web"\ncommand = "pnpm run build"');
+    writeFile('web/package.json', { scripts: { build: 'vite build' }, packageManager: 'npm@10.0.0' });
+    writeFile('pnpm-lock.yaml', '');
+
+    const inspection = inspectRepository(dir);
+
+    expect(inspection.packageJson?.file).toBe(path.join('web', 'package.json'));
+    expect(inspection.lockfiles).toEqual(['pnpm-lock.yaml']);
+    expect(inspection.findings).toEqual([expect.objectContaining({
+      message: 'packageManager is npm@10.0.0 but the repository has pnpm-lock.yaml',
+    })]);
+  });
+
+  it('flags lockfiles of several package managers and a missing lockfile', () => {
+    writePackage({ dependencies: { react: '^18.0.0' } });
+    writeFile('yarn.lock', '');
+
+    expect(inspectRepository(dir).findings.map(finding => finding.message)).toEqual([
+      'Lockfiles of several package managers: yarn.lock, package-lock.json. Netlify installs with yarn',
+    ]);
+
+    fs.rmSync(path.join(dir, 'yarn.lock'));
+    fs.rmSync(path.join(dir, 'package-lock.json'));
+
+    expect(inspectRepository(dir).findings.map(finding => finding.message)).toEqual([
+      'No lockfile, so every build resolves dependency versions again and may get different ones',
+    ]);
+  });
+
+  it('compares the Node versions of NODE_VERSION, .nvmrc and engines.node', () => {
+    writeFile('netlify.toml', '[build.environment]\nNODE_VERSION = "16"');
+    writeFile('.nvmrc', '20');
+    writePackage({ engines: { node: '^18.17.0 || >=20' } });
+
+    const { findings } = inspectRepository(dir);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ file: '.nvmrc', line: 1, message: 'NODE_VERSION 16 overrides .nvmrc 20' }),
+      expect.objectContaining({ file: 'package.json', message: "Netlify builds with Node 16 from NODE_VERSION, which doesn't satisfy engines.node ^18.17.0 || >=20" }),
+    ]);
+  });
+
+  it('checks plugins and the functions directory', () => {
+    writeFile('netlify.toml', [
+      '[functions]',
+      'directory = "netlify/functions"',
+      '[[plugins]]',
+      'package = "@netlify/plugin-lighthouse"',
+      '[[plugins]]',
+      'package = "./plugins/sitemap"',
+      '[[plugins]]',
+      'package = "netlify-plugin-cache"',
+    ].join('\n'));
+    writePackage({ devDependencies: { 'netlify-plugin-cache': '^1.0.3' } });
+
+    const { findings } = inspectRepository(dir);
+
+    expect(findings.map(finding => [finding.severity, finding.line, finding.message])).toEqual([
+      ['info', 3, 'Plugin @netlify/plugin-lighthouse is not in package.json, so Netlify installs its latest version on every build'],
+      ['error', 5, 'Local plugin ./plugins/sitemap does not exist'],
+      ['warning', 2, 'Functions directory netlify/functions does not exist'],
+    ]);
+  });
+
+  it('reports files that cannot be parsed', () => {
+    writeFile('netlify.toml', '[build]\ncommand = npm run build');
+    writeFile('package.json', '{ "scripts": { "build": "next build", } }');
+
+    const { netlifyToml, packageJson, findings } = inspectRepository(dir);
+
+    expect(netlifyToml).toEqual({ file: 'netlify.toml', config: null });
+    expect(packageJson).toBeNull();
+    expect(findings).toEqual([
+      expect.objectContaining({ severity: 'error', file: 'netlify.toml', line: 2, message: 'netlify.toml cannot be parsed: Invalid value npm - strings need quotes' }),
+      expect.objectContaining({ severity: 'error', file: 'package.json', message: expect.stringMatching(/^package\.json is not valid JSON/) }),
+    ]);
+  });
+
+  it('rejects a path that is not a directory', () => {
+    expect(() => inspectRepository(path.join(dir, 'missing'))).toThrow(`Repository path ${path.join(dir, 'missing')} is not a directory`);
+  });
+
+  describe('repoFindingsForDiagnosis', () => {
+    it('adds what the repository says about the most likely cause', () => {
+      writeFile('netlify.toml', '[build]\ncommand = "npm run build"\n[build.environment]\nSITE_URL = "https://example.com"');
+      writePackage({ scripts: { build: 'next build' }, dependencies: { react: '^18.2.0', next: '14.2.0' }, engines: { node: '>=20' } });
+      writeFile('next.config.mjs', 'export default {}');
+      const inspection = inspectRepository(dir);
+
+      expect(repoFindingsForDiagnosis(inspection, diagnosisOf('dependency-conflict', { packageName: 'react' }))).toEqual([
+        { severity: 'info', file: 'package.json', line: null, message: 'package.json requires react@^18.2.0', fix: null },
+      ]);
+      expect(repoFindingsForDiagnosis(inspection, diagnosisOf('build-tool-missing', { command: 'tsc' }))).toEqual([
+        expect.objectContaining({ severity: 'error', message: '`tsc` is run by the build but typescript is not in package.json dependencies or devDependencies', fix: 'npm install --save-dev typescript' }),
+      ]);
+      expect(repoFindingsForDiagnosis(inspection, diagnosisOf('node-version-mismatch'))).toEqual([
+        expect.objectContaining({ severity: 'info', message: 'Node versions configured: engines.node >=20' }),
+      ]);
+      expect(repoFindingsForDiagnosis(inspection, diagnosisOf('missing-env-var'))).toEqual([
+        expect.objectContaining({ line: 3, message: 'netlify.toml sets SITE_URL; other variables must be set in the Netlify UI' }),
+      ]);
+      expect(repoFindingsForDiagnosis(inspection, diagnosisOf('nextjs-build-error'))).toEqual([
+        expect.objectContaining({ file: 'next.config.mjs', message: 'Next.js 14.2.0, configured in next.config.mjs' }),
+      ]);
+      expect(repoFindingsForDiagnosis(inspection, { candidates: [], unrecognized: [], exitCode: null })).toEqual([]);
+    });
+
+    it('formats findings with their location and fix', () => {
+      expect(formatRepoFindings([
+        { severity: 'error', file: 'netlify.toml', line: 2, message: 'Broken', fix: 'Fix it' },
+        { severity: 'info', file: 'package.json', line: null, message: 'Note', fix: null },
+      ])).toBe('❌ netlify.toml:2 - Broken\n   Fix: Fix it\nℹ️ package.json - Note');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { parseToml, TomlParseError } from '../../src/utils/toml';
+
+describe('parseToml', () => {
+  it('reads a netlify.toml with the line of every key', () => {
+    const { data, lines } = parseToml([
+      '# Settings for the calendar site',
+      '[build]',
+      '  command = "npm run build" # comment',
+      "  publish = 'out'",
+      '  environment = { NODE_VERSION = "20", NPM_FLAGS = "--legacy-peer-deps" }',
+      '',
+      '[context.deploy-preview]',
+      '  command = "npm run build:preview"',
+      '',
+      '[[redirects]]',
+      '  from = "/old/*"',
+      '  to = "/new/:splat"',
+      '  status = 301',
+      '  force = true',
+      '  conditions = {Country = ["AO", "PT"]}',
+      '',
+      '[[redirects]]',
+      '  from = "/api/*"',
+      '  to = "/.netlify/functions/:splat"',
+      '  status = 200',
+      '  [redirects.headers]',
+      '    X-From = "Netlify"',
+      '',
+      '[[plugins]]',
+      'package = "@netlify/plugin-lighthouse"',
+      '  [plugins.inputs.thresholds]',
+      '  performance = 0.9',
+    ].join('\n'));
+
+    expect(data).toEqual({
+      build: { command: 'npm run build', publish: 'out', environment: { NODE_VERSION: '20', NPM_FLAGS: '--legacy-peer-deps' } },
+      context: { 'deploy-preview': { command: 'npm run build:preview' } },
+      redirects: [
+        { from: '/old/*', to: '/new/:splat', status: 301, force: true, conditions: { Country: ['AO', 'PT'] } },
+        { from: '/api/*', to: '/.netlify/functions/:splat', status: 200, headers: { 'X-From': 'Netlify' } },
+      ],
+      plugins: [{ package: '@netlify/plugin-lighthouse', inputs: { thresholds: { performance: 0.9 } } }],
+    });
+    expect(lines.get('build')).toBe(2);
+    expect(lines.get('build.command')).toBe(3);
+    expect(lines.get('build.environment.NODE_VERSION')).toBe(5);
+    expect(lines.get('redirects.1')).toBe(17);
+    expect(lines.get('redirects.1.status')).toBe(20);
+    expect(lines.get('redirects.1.headers.X-From')).toBe(22);
+    expect(lines.get('plugins.0.inputs.thresholds.performance')).toBe(27);
+  });
+
+  it('reads multi-line strings and arrays, escapes, numbers and dates', () => {
+    const { data, lines } = parseToml([
+      'command = """',
+      'npm ci && \\',
+      '  npm run build"""',
+      "ignore = '''git diff --quiet $CACHED_COMMIT_REF'''",
+      'paths = [',
+      '  "src", # sources',
+      '  "content",',
+      ']',
+      'escaped = "tab\\there \\"quoted\\" \\u00e9"',
+      'size = 1_024',
+      'ratio = -0.5e1',
+      'hex = 0xff',
+      'released = 2025-07-20T12:00:00Z',
+      'dotted.key = true',
+    ].join('\r\n'));
+
+    expect(data).toEqual({
+      command: 'npm ci && npm run build',
+      ignore: 'git diff --quiet $CACHED_COMMIT_REF',
+      paths: ['src', 'content'],
+      escaped: 'tab\there "quoted" é',
+      size: 1024,
+      ratio: -5,
+      hex: 255,
+      released: '2025-07-20T12:00:00Z',
+      dotted: { key: true },
+    });
+    expect(lines.get('paths')).toBe(5);
+    expect(lines.get('escaped')).toBe(9);
+  });
+
+  it.each([
+    ['[build]\ncommand = npm run build', 2, 'Invalid value npm - strings need quotes'],
+    ['[build]\ncommand = "npm run build', 2, 'Unterminated string'],
+    ['[build]\ncommand = "a"\ncommand = "b"', 3, 'Key "build.command" is already defined'],
+    ['[build]\n[build]', 2, 'Table "build" is already defined'],
+    ['[build\ncommand = "a"', 1, 'Expected "]" to close the table header'],
+    ['from = "/a" to = "/b"', 1, 'Unexpected "t" after the value - one key per line'],
+    ['status =', 1, 'Missing value'],
+    ['headers = { a = "b",\n c = "d" }', 1, 'Inline tables must be on one line'],
+    ['list = ["a" "b"]', 1, 'Expected "," or "]" in an array'],
+    ['redirects = []\n[[redirects]]', 2, 'Cannot define "redirects" as an array of tables, it is already defined'],
+  ])('rejects %j at line %i', (text, line, message) => {
+    expect(() => parseToml(text)).toThrow(new TomlParseError(message, line));
+  });
+});